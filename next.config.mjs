@@ -6,6 +6,8 @@ const withMDX = createMDX({
 
 const nextConfig = {
   pageExtensions: ["ts", "tsx", "mdx"],
+  // app/global-not-found.tsx: the site has two root layouts, (site) and (intl)
+  experimental: { globalNotFound: true },
 };
 
 export default withMDX(nextConfig);
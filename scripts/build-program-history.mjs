@@ -0,0 +1,131 @@
+// Node ESM script. Runs before `next build`.
+// Reads each program's git history once and writes /public/program-history.json:
+// per program, the tracked frontmatter fields (headline numbers and fee tables)
+// as of the last revision of each day. Program pages diff these snapshots for
+// the "What changed" timeline (src/lib/content/history.ts) instead of running
+// git while they render.
+//
+//   npm run history:build
+//
+// One `git log` per program, then every revision's content through a single
+// `git cat-file --batch`. Without git, or in a shallow clone, programs get
+// whatever history is available (possibly none).
+
+import { execFileSync } from "node:child_process";
+import fs from "node:fs/promises";
+import path from "node:path";
+import fg from "fast-glob";
+import matter from "gray-matter";
+import { VERTICALS } from "./content-schema.mjs";
+import { isSourceFile } from "./locales.mjs";
+
+const OUTPUT = path.join("public", "program-history.json");
+const MAX_REVISIONS = 50;
+const GIT_TIMEOUT_MS = 30_000;
+/** Mirrors TRACKED_FIELDS in src/lib/content/changes.ts */
+const TRACKED = ["minInvestment", "timelineMonths", "prices", "governmentFees"];
+
+const git = (args, input) =>
+  execFileSync("git", args, {
+    cwd: process.cwd(),
+    input,
+    timeout: GIT_TIMEOUT_MS,
+    stdio: ["pipe", "pipe", "ignore"],
+    maxBuffer: 64 * 1024 * 1024,
+  });
+
+/** Commits touching `rel`, oldest first, with the file's path at each one. */
+function revisions(rel) {
+  const log = git([
+    "log",
+    "--follow",
+    `--max-count=${MAX_REVISIONS}`,
+    "--name-only",
+    "--format=%x1e%H%x1f%cI",
+    "--",
+    rel,
+  ]).toString("utf8");
+  return log
+    .split("\x1e")
+    .filter((r) => r.trim())
+    .map((record) => {
+      const [head, ...files] = record.trim().split("\n");
+      const [sha, date] = head.split("\x1f");
+      const file = files.map((f) => f.trim()).find(Boolean) ?? rel;
+      return { sha, day: date.slice(0, 10), spec: `${sha}:${file}` };
+    })
+    .reverse();
+}
+
+/** Contents of `rev:path` specs in one git process; null where missing. */
+function readBlobs(specs) {
+  if (!specs.length) return [];
+  const out = git(["cat-file", "--batch"], specs.join("\n") + "\n");
+  const blobs = [];
+  let at = 0;
+  for (let i = 0; i < specs.length; i++) {
+    const eol = out.indexOf(0x0a, at);
+    const header = out.toString("utf8", at, eol);
+    at = eol + 1;
+    if (header.endsWith(" missing") || header.endsWith(" ambiguous")) {
+      blobs.push(null);
+      continue;
+    }
+    const size = Number(header.split(" ")[2]);
+    blobs.push(out.toString("utf8", at, at + size));
+    at += size + 1; // content + trailing newline
+  }
+  return blobs;
+}
+
+const tracked = (data) =>
+  Object.fromEntries(
+    TRACKED.filter((k) => data[k] !== undefined).map((k) => [k, data[k]]),
+  );
+
+async function main() {
+  const files = (await fg(VERTICALS.map((v) => `content/${v}/*/*.mdx`))).filter(
+    (f) => isSourceFile(path.basename(f)) && !f.endsWith("/_country.mdx"),
+  );
+
+  let revs;
+  try {
+    revs = files.map((f) => ({ file: f, revs: revisions(f) }));
+  } catch {
+    console.warn("! no git history; writing an empty program history");
+    revs = files.map((f) => ({ file: f, revs: [] }));
+  }
+
+  const blobs = readBlobs(revs.flatMap((r) => r.revs.map((x) => x.spec)));
+  let next = 0;
+  const programs = {};
+  for (const { file, revs: list } of revs) {
+    // One snapshot per day: that day's last readable revision
+    const days = new Map();
+    for (const r of list) {
+      const raw = blobs[next++];
+      if (raw === null || !r.day) continue;
+      try {
+        days.set(r.day, tracked(matter(raw).data));
+      } catch {
+        /* unreadable revision (e.g. broken YAML at the time) */
+      }
+    }
+    const key = file.replace(/^content\//, "").replace(/\.mdx$/, "");
+    programs[key] = [...days].map(([date, data]) => ({ date, data }));
+  }
+
+  await fs.writeFile(
+    OUTPUT,
+    JSON.stringify({ version: 1, programs }, null, 2) + "\n",
+    "utf8",
+  );
+  console.log(
+    `✓ wrote ${OUTPUT} (${files.length} programs, ${blobs.length} revisions)`,
+  );
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
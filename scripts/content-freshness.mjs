@@ -0,0 +1,74 @@
+// Freshness policy shared by scripts/freshness-report.mjs and the "Verified
+// on …" badge on program pages (src/lib/content/freshness.ts). Each kind of
+// page must be re-verified within its review interval; the date it was last
+// verified is its `lastUpdated` / `updatedAt` (insights: `updatedAt` / `date`).
+
+/** Review interval in days, per section and page kind. */
+export const FRESHNESS_POLICY = {
+  citizenship: { program: 90, country: 180 },
+  residency: { program: 120, country: 180 },
+  skilled: { program: 60, country: 120 }, // rounds and points move quickly
+  corporate: { program: 180, country: 365 },
+  insights: { insight: 365 },
+};
+
+/** Reviews falling due within this many days are flagged as "due soon". */
+export const DUE_SOON_DAYS = 14;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** YAML dates arrive as Date objects, quoted ones as strings. */
+function toTime(v) {
+  if (!(v instanceof Date) && typeof v !== "string") return undefined;
+  const t = new Date(v).getTime();
+  return Number.isNaN(t) ? undefined : t;
+}
+
+/** The date a page was last verified, as a timestamp. */
+export function reviewedTime(kind, fm) {
+  const order =
+    kind === "insight"
+      ? [fm.updatedAt, fm.date]
+      : kind === "country"
+        ? [fm.updatedAt, fm.lastUpdated]
+        : [fm.lastUpdated, fm.updatedAt];
+  for (const v of order) {
+    const t = toTime(v);
+    if (t !== undefined) return t;
+  }
+  return undefined;
+}
+
+/**
+ * Where a page stands against the policy.
+ * @param {keyof typeof FRESHNESS_POLICY} section vertical, or "insights"
+ * @param {"program"|"country"|"insight"} kind
+ * @param {Record<string, unknown>} fm frontmatter
+ * @returns {{
+ *   status: "fresh"|"due-soon"|"overdue"|"unknown",
+ *   intervalDays?: number,
+ *   reviewedOn?: string,
+ *   dueOn?: string,
+ *   daysOverdue?: number,
+ * }}
+ * "unknown": never verified (no date), which counts as overdue in the report.
+ */
+export function freshnessOf(section, kind, fm, now = Date.now()) {
+  const intervalDays = FRESHNESS_POLICY[section]?.[kind];
+  if (!intervalDays) return { status: "fresh" };
+  const reviewed = reviewedTime(kind, fm);
+  if (reviewed === undefined) return { status: "unknown", intervalDays };
+
+  const due = reviewed + intervalDays * DAY_MS;
+  const day = (t) => new Date(t).toISOString().slice(0, 10);
+  const base = { intervalDays, reviewedOn: day(reviewed), dueOn: day(due) };
+  if (due <= now)
+    return {
+      ...base,
+      status: "overdue",
+      daysOverdue: Math.floor((now - due) / DAY_MS),
+    };
+  if (due - now <= DUE_SOON_DAYS * DAY_MS)
+    return { ...base, status: "due-soon" };
+  return { ...base, status: "fresh" };
+}
@@ -0,0 +1,715 @@
+// Runtime counterpart of src/lib/content/schema.ts.
+// Describes the frontmatter of content/<vertical>/<country>/*.mdx and checks a
+// file against it, reporting each problem with the line it sits on.
+
+import fs from "node:fs";
+import path from "node:path";
+import matter from "gray-matter";
+import {
+  LineCounter,
+  isMap,
+  isPair,
+  isScalar,
+  isSeq,
+  parseDocument,
+} from "yaml";
+import { translationOf } from "./locales.mjs";
+
+export const VERTICALS = ["citizenship", "residency", "skilled", "corporate"];
+
+export const CURRENCY_CODES = [
+  "USD",
+  "EUR",
+  "AED",
+  "INR",
+  "CAD",
+  "GBP",
+  "XCD",
+  "CHF",
+  "AUD",
+  "SGD",
+];
+
+/* =========================
+ * Spec builders
+ * (also used for MDX component props, see mdx-components.mjs)
+ * =======================*/
+export const str = { type: "string" };
+export const num = { type: "number" };
+export const bool = { type: "boolean" };
+export const date = { type: "date" };
+export const url = { type: "url" };
+export const any = { type: "any" };
+export const oneOf = (...values) => ({ type: "enum", values });
+export const arrayOf = (items) => ({ type: "array", items });
+/** Any one of several specs, e.g. text or a number */
+export const either = (...specs) => ({ type: "union", specs });
+/** `rest` checks keys outside `props`; without it they are unknown fields */
+export const shape = (props, required = [], rest) => ({
+  type: "object",
+  props,
+  required,
+  rest,
+});
+
+export const currency = oneOf(...CURRENCY_CODES);
+const strings = arrayOf(str);
+
+const seo = shape({ title: str, description: str, keywords: strings });
+const faq = arrayOf(shape({ q: str, a: str }, ["q", "a"]));
+const step = shape({ title: str, description: str }, ["title"]);
+const sources = arrayOf(
+  shape({ id: str, title: str, url, publisher: str, retrieved: date }, [
+    "id",
+    "title",
+  ]),
+);
+const cite = strings;
+
+export const feeRule = {
+  per: oneOf(
+    "application",
+    "person",
+    "adult",
+    "child",
+    "spouse",
+    "parent",
+    "dependent",
+  ),
+  minAge: num,
+  maxAge: num,
+  beyond: num,
+  frequency: oneOf("once", "annual"),
+  choice: str,
+};
+
+const priceRow = shape(
+  {
+    label: str,
+    amount: num,
+    currency,
+    when: str,
+    notes: str,
+    cite,
+    ...feeRule,
+  },
+  ["label"],
+);
+const proofRow = shape(
+  { label: str, amount: num, currency, notes: str, cite },
+  ["amount"],
+);
+const govFeeRow = shape(
+  {
+    label: str,
+    amount: num,
+    currency,
+    notes: str,
+    sourceLabel: str,
+    sourceUrl: url,
+    cite,
+    ...feeRule,
+  },
+  ["label"],
+);
+
+const quickCheck = shape({
+  title: str,
+  questions: arrayOf(
+    shape(
+      {
+        id: str,
+        label: str,
+        desc: str,
+        type: oneOf("boolean", "select", "number", "text"),
+        options: strings,
+      },
+      ["id", "label"],
+    ),
+  ),
+  policy: shape({ type: oneOf("all", "any", "threshold"), minYes: num }, [
+    "type",
+  ]),
+  verdict: shape({
+    successTitle: str,
+    successText: str,
+    cautionTitle: str,
+    cautionText: str,
+  }),
+  ctas: shape({
+    primaryHref: url,
+    primaryText: str,
+    secondaryHref: url,
+    secondaryText: str,
+  }),
+});
+
+const costEstimator = shape(
+  {
+    baseOptions: arrayOf(
+      shape({ id: str, label: str, amount: num }, ["id", "label", "amount"]),
+    ),
+    defaultBaseId: str,
+    adults: num,
+    children: num,
+    addons: arrayOf(
+      shape(
+        {
+          id: str,
+          label: str,
+          amount: num,
+          per: oneOf("application", "adult", "child", "person"),
+        },
+        ["id", "label"],
+      ),
+    ),
+  },
+  ["baseOptions"],
+);
+
+/* =========================
+ * Base schemas
+ * =======================*/
+const baseCountry = {
+  title: str,
+  category: oneOf(...VERTICALS),
+  country: str,
+  countrySlug: str,
+  summary: str,
+  tagline: str,
+  heroImage: url,
+  heroVideo: url,
+  heroPoster: url,
+  introPoints: strings,
+  tags: strings,
+  region: str,
+  seo,
+  draft: bool,
+
+  // hub/landing copy rendered on country pages
+  overview: str,
+  keyPoints: strings,
+  requirements: strings,
+  applicationProcess: strings,
+  facts: any,
+  faq,
+  brochure: url,
+  updatedAt: date,
+  lastUpdated: date,
+  kind: oneOf("country", "hub"),
+  verticals: arrayOf(oneOf(...VERTICALS)),
+  countries: strings,
+  sources,
+};
+
+const baseProgram = {
+  title: str,
+  category: oneOf(...VERTICALS),
+  country: str,
+  countrySlug: str,
+  programSlug: str,
+  tagline: str,
+  summary: str,
+  minInvestment: num,
+  currency,
+  timelineMonths: num,
+  tags: strings,
+  benefits: strings,
+  requirements: strings,
+  processSteps: arrayOf(step),
+  faq,
+  brochure: url,
+  prices: arrayOf(priceRow),
+  proofOfFunds: arrayOf(proofRow),
+  disqualifiers: strings,
+  quickCheck,
+  heroImage: url,
+  heroVideo: url,
+  heroPoster: url,
+  seo,
+  draft: bool,
+  publishAt: date,
+  expiresAt: date,
+  onExpire: oneOf("archive", "hide"),
+  supersededBy: url,
+
+  governmentFees: arrayOf(govFeeRow),
+  riskNotes: strings,
+  complianceNotes: strings,
+  documentChecklist: arrayOf(
+    shape({ group: str, documents: strings }, ["group", "documents"]),
+  ),
+  familyMatrix: shape({
+    childrenUpTo: num,
+    parentsFromAge: num,
+    siblings: bool,
+    spouse: bool,
+  }),
+  costEstimator,
+  quickFacts: arrayOf(shape({ label: str, value: str }, ["label", "value"])),
+  lastUpdated: date,
+  updatedAt: date,
+  changelog: arrayOf(
+    shape({ date, summary: str, sourceUrl: url }, ["date", "summary"]),
+  ),
+  sources,
+
+  // legacy routing keys (kept by the search index / related content)
+  kind: oneOf("program"),
+  vertical: oneOf(...VERTICALS),
+  program: str,
+};
+
+/* =========================
+ * Vertical extensions
+ * =======================*/
+const countryExtras = {
+  citizenship: {
+    visaFreeCount: num,
+    passportRank: num,
+    passportNotes: str,
+    allowsDualCitizenship: bool,
+    interviewRequired: bool,
+    residencyRequirement: str,
+    taxNotes: strings,
+    dependents: shape({
+      childrenUpTo: num,
+      parentsFromAge: num,
+      siblings: bool,
+    }),
+    legalBasis: str,
+  },
+  residency: {},
+  skilled: {},
+  corporate: {},
+};
+
+const programExtras = {
+  citizenship: {
+    routeType: oneOf("donation", "real-estate", "bond", "naturalisation"),
+    holdingPeriodMonths: num,
+    projectList: arrayOf(
+      shape(
+        { name: str, minBuyIn: num, holdMonths: num, notes: str, image: url },
+        ["name", "minBuyIn", "holdMonths"],
+      ),
+    ),
+  },
+  residency: {
+    holdingPeriodMonths: num,
+    investmentOptions: arrayOf(
+      shape({
+        type: str,
+        label: str,
+        amount: num,
+        currency,
+        description: str,
+      }),
+    ),
+  },
+  skilled: {
+    routeType: oneOf(
+      "points-tested",
+      "employer-sponsored",
+      "state-nominated",
+      "talent",
+    ),
+    points: shape({
+      max: num,
+      passMark: num,
+      gridUrl: url,
+      calculator: str,
+      defaults: any,
+      latestCutoff: shape({ score: num, date, label: str, sourceUrl: url }, [
+        "score",
+        "date",
+      ]),
+    }),
+    languageMin: shape({
+      test: str,
+      overall: num,
+      bands: shape({
+        listening: num,
+        reading: num,
+        writing: num,
+        speaking: num,
+      }),
+    }),
+    occupationListUrl: url,
+    occupationCodes: strings,
+  },
+  corporate: {},
+};
+
+/** A translation only overrides what it sets, so nothing is required there. */
+export function schemaFor(vertical, isCountry, isTranslation = false) {
+  return isCountry
+    ? shape({ ...baseCountry, ...countryExtras[vertical] })
+    : shape(
+        { ...baseProgram, ...programExtras[vertical] },
+        isTranslation ? [] : ["title"],
+      );
+}
+
+/* =========================
+ * Value checks
+ * =======================*/
+const isPlainObject = (v) =>
+  !!v && typeof v === "object" && !Array.isArray(v) && !(v instanceof Date);
+
+const describe = (v) => {
+  if (v === null || v === undefined) return "nothing";
+  if (Array.isArray(v)) return "a list";
+  if (v instanceof Date) return "a date";
+  if (isPlainObject(v)) return "a mapping";
+  if (typeof v === "string")
+    return `"${v.length > 40 ? v.slice(0, 40) + "…" : v}"`;
+  return String(v);
+};
+
+const EXPECTED = {
+  string: "text",
+  number: "a number",
+  boolean: "true/false",
+  date: "a date",
+  url: "a URL",
+  array: "a list",
+  object: "a mapping",
+};
+
+export const fmtPath = (segs) =>
+  segs.reduce(
+    (acc, s) =>
+      typeof s === "number" ? `${acc}[${s}]` : acc ? `${acc}.${s}` : s,
+    "",
+  );
+
+/**
+ * Push an `{ level, path, message }` issue onto `out` for each place `value`
+ * doesn't fit `spec`; `segs` is the path of `value` itself. YAML authors get
+ * "12" and "true" read as a number and a boolean; `strict` callers (JSX
+ * props, where `n="12"` stays text) don't.
+ */
+export function check(value, spec, segs, out, strict = false) {
+  const fail = (message) => out.push({ level: "error", path: segs, message });
+
+  switch (spec.type) {
+    case "any":
+      return;
+    case "union": {
+      const tries = spec.specs.map((s) => {
+        const found = [];
+        check(value, s, segs, found, strict);
+        return found;
+      });
+      if (tries.some((found) => !found.length)) return;
+      // The wrong kind of value altogether, or a near miss inside one
+      const inner = tries.find((found) =>
+        found.some((f) => f.path.length > segs.length),
+      );
+      if (inner) return void out.push(...inner);
+      return fail(
+        `expected ${spec.specs.map((s) => EXPECTED[s.type] ?? s.type).join(" or ")}, got ${describe(value)}`,
+      );
+    }
+    case "string":
+      if (typeof value === "string") return;
+      if (isPlainObject(value))
+        return fail(
+          `expected text, got a mapping — quote the value if it contains ": "`,
+        );
+      return fail(`expected text, got ${describe(value)}`);
+    case "number":
+      if (typeof value === "number" && Number.isFinite(value)) return;
+      if (
+        !strict &&
+        typeof value === "string" &&
+        value.trim() !== "" &&
+        !isNaN(Number(value))
+      )
+        return;
+      return fail(`expected a number, got ${describe(value)}`);
+    case "boolean":
+      if (typeof value === "boolean") return;
+      if (!strict && (value === "true" || value === "false")) return;
+      return fail(`expected true/false, got ${describe(value)}`);
+    case "date":
+      if (value instanceof Date && !isNaN(value.getTime())) return;
+      if (typeof value === "string" && !isNaN(new Date(value).getTime()))
+        return;
+      return fail(`expected an ISO date (YYYY-MM-DD), got ${describe(value)}`);
+    case "url":
+      if (typeof value === "string" && value.trim() && !/\s/.test(value.trim()))
+        return;
+      return fail(`expected a URL or /path, got ${describe(value)}`);
+    case "enum":
+      if (spec.values.includes(value)) return;
+      return fail(
+        `expected one of ${spec.values.join(" | ")}, got ${describe(value)}`,
+      );
+    case "array":
+      if (!Array.isArray(value))
+        return fail(`expected a list, got ${describe(value)}`);
+      value.forEach((item, i) =>
+        check(item, spec.items, [...segs, i], out, strict),
+      );
+      return;
+    case "object": {
+      if (!isPlainObject(value))
+        return fail(`expected a mapping, got ${describe(value)}`);
+      for (const key of spec.required) {
+        if (
+          value[key] === undefined ||
+          value[key] === null ||
+          value[key] === ""
+        )
+          out.push({
+            level: "error",
+            path: segs,
+            message: `missing required "${key}"`,
+          });
+      }
+      for (const [key, v] of Object.entries(value)) {
+        if (v === null || v === undefined) continue;
+        const sub = spec.props[key] ?? spec.rest;
+        if (!sub) {
+          out.push({
+            level: "warning",
+            path: [...segs, key],
+            message: `unknown field "${key}"`,
+          });
+          continue;
+        }
+        check(v, sub, [...segs, key], out, strict);
+      }
+      return;
+    }
+  }
+}
+
+/* =========================
+ * Line lookup
+ * =======================*/
+function makeLocator(frontmatter, firstLine) {
+  const lineCounter = new LineCounter();
+  const doc = parseDocument(frontmatter, { lineCounter, uniqueKeys: false });
+  const toLine = (offset) => firstLine + lineCounter.linePos(offset).line - 1;
+
+  return (segs) => {
+    let node = doc.contents;
+    let line = firstLine;
+    for (const seg of segs) {
+      if (isMap(node)) {
+        const pair = node.items.find(
+          (p) => isPair(p) && isScalar(p.key) && p.key.value === seg,
+        );
+        if (!pair) break;
+        if (pair.key?.range) line = toLine(pair.key.range[0]);
+        node = pair.value;
+      } else if (isSeq(node) && typeof seg === "number") {
+        const item = node.items[seg];
+        if (!item) break;
+        if (item.range) line = toLine(item.range[0]);
+        node = item;
+      } else break;
+    }
+    return line;
+  };
+}
+
+/* =========================
+ * File validation
+ * =======================*/
+
+/* =========================
+ * Citations
+ * =======================*/
+// Same marker as src/lib/content/citations.ts; these lists may carry it
+const CITE_MARKER = /\s*\[\^([\w.-]+)\]/g;
+const CITABLE_LISTS = ["requirements", "riskNotes", "complianceNotes"];
+
+/**
+ * content/<vertical>/<country>/<file>.mdx → parts, or null for other files.
+ * Translations (`<leaf>.<locale>.mdx`, see locales.mjs) carry their `locale`.
+ */
+export function classify(relPath) {
+  const m = relPath
+    .split(path.sep)
+    .join("/")
+    .match(/^content\/([^/]+)\/([^/]+)\/([^/]+\.mdx)$/);
+  if (!m || !VERTICALS.includes(m[1])) return null;
+  const [, vertical, country, fileName] = m;
+  const translation = translationOf(fileName);
+  const leaf = translation?.leaf ?? fileName.replace(/\.mdx$/, "");
+  return {
+    vertical,
+    country,
+    leaf,
+    isCountry: leaf === "_country",
+    locale: translation?.locale,
+  };
+}
+
+/**
+ * Validate one vertical MDX file.
+ * @returns {{ file: string, issues: { level: "error"|"warning", line: number, path: string, message: string }[] }}
+ */
+export function validateFile(absPath, repoRoot = process.cwd()) {
+  const rel = path.relative(repoRoot, absPath).split(path.sep).join("/");
+  const parts = classify(rel);
+  if (!parts) return { file: rel, issues: [] };
+
+  const raw = fs.readFileSync(absPath, "utf8").replace(/^﻿/, "");
+  const lines = raw.split(/\r?\n/);
+  const issues = [];
+
+  if (lines[0]?.trim() !== "---") {
+    issues.push({
+      level: "error",
+      line: 1,
+      path: "",
+      message: "missing frontmatter (file must start with ---)",
+    });
+    return { file: rel, issues };
+  }
+  const close = lines.findIndex((l, i) => i > 0 && l.trim() === "---");
+  if (close === -1) {
+    issues.push({
+      level: "error",
+      line: 1,
+      path: "",
+      message: "unterminated frontmatter (no closing ---)",
+    });
+    return { file: rel, issues };
+  }
+
+  let data;
+  try {
+    data = matter(raw).data;
+  } catch (e) {
+    // js-yaml marks where it gave up; the `yaml` parser usually pinpoints the
+    // offending line, so prefer its position when it also rejects the block.
+    const strictErr = parseDocument(lines.slice(1, close).join("\n"), {
+      prettyErrors: true,
+    }).errors[0];
+    const line = strictErr?.linePos?.[0]?.line
+      ? strictErr.linePos[0].line + 1
+      : typeof e?.mark?.line === "number"
+        ? e.mark.line + 2
+        : 1;
+    issues.push({
+      level: "error",
+      line,
+      path: "",
+      message: `invalid YAML: ${String(e?.reason || e?.message || e)}`,
+    });
+    return { file: rel, issues };
+  }
+
+  const locate = makeLocator(lines.slice(1, close).join("\n"), 2);
+  const found = [];
+  check(
+    data,
+    schemaFor(parts.vertical, parts.isCountry, !!parts.locale),
+    [],
+    found,
+  );
+
+  // Translations override the English file beside them, which must exist
+  let base = {};
+  if (parts.locale) {
+    const baseFile = path.join(path.dirname(absPath), `${parts.leaf}.mdx`);
+    if (!fs.existsSync(baseFile))
+      found.push({
+        level: "error",
+        path: [],
+        message: `translation of a missing file (expected ${parts.leaf}.mdx beside it)`,
+      });
+    else
+      try {
+        base = matter(fs.readFileSync(baseFile, "utf8")).data ?? {};
+      } catch {
+        /* reported when the English file itself is validated */
+      }
+  }
+
+  // Path/frontmatter consistency: routes are derived from the file path.
+  const mismatch = (key, expected) => {
+    if (data[key] !== undefined && String(data[key]) !== expected)
+      found.push({
+        level: "error",
+        path: [key],
+        message: `"${data[key]}" does not match the file location (expected "${expected}")`,
+      });
+  };
+  mismatch("countrySlug", parts.country);
+  mismatch("category", parts.vertical);
+  mismatch("vertical", parts.vertical);
+  if (!parts.isCountry) {
+    mismatch("programSlug", parts.leaf);
+    mismatch("program", parts.leaf);
+    if (data.kind === "program") {
+      for (const key of ["vertical", "country", "program"]) {
+        if (!data[key])
+          found.push({
+            level: "error",
+            path: ["kind"],
+            message: `kind: program also needs "${key}"`,
+          });
+      }
+    }
+  } else if (data.kind === "program") {
+    found.push({
+      level: "error",
+      path: ["kind"],
+      message: `_country.mdx cannot declare kind: program`,
+    });
+  }
+
+  // Scheduling: an item can't expire before it goes live
+  const publishAt = new Date(data.publishAt ?? NaN).getTime();
+  const expiresAt = new Date(data.expiresAt ?? NaN).getTime();
+  if (expiresAt <= publishAt)
+    found.push({
+      level: "error",
+      path: ["expiresAt"],
+      message: "expiresAt must be after publishAt",
+    });
+  if (data.supersededBy && !data.expiresAt)
+    found.push({
+      level: "warning",
+      path: ["supersededBy"],
+      message:
+        "supersededBy is only shown once the page expires (set expiresAt)",
+    });
+
+  // Citations: every `cite` id and `[^id]` marker must name a declared source
+  const declared = new Set(
+    [data.sources, base.sources]
+      .flatMap((list) => (Array.isArray(list) ? list : []))
+      .map((s) => s?.id),
+  );
+  const unknown = (segs, id) => {
+    if (!declared.has(id))
+      found.push({
+        level: "error",
+        path: segs,
+        message: `cites unknown source "${id}" (declare it under sources)`,
+      });
+  };
+  for (const key of ["prices", "proofOfFunds", "governmentFees"])
+    (Array.isArray(data[key]) ? data[key] : []).forEach((row, i) => {
+      if (Array.isArray(row?.cite))
+        row.cite.forEach((id, j) => unknown([key, i, "cite", j], id));
+    });
+  for (const key of CITABLE_LISTS)
+    (Array.isArray(data[key]) ? data[key] : []).forEach((text, i) => {
+      if (typeof text !== "string") return;
+      for (const m of text.matchAll(CITE_MARKER)) unknown([key, i], m[1]);
+    });
+
+  for (const f of found)
+    issues.push({ ...f, line: locate(f.path), path: fmtPath(f.path) });
+  issues.sort((a, b) => a.line - b.line);
+  return { file: rel, issues };
+}
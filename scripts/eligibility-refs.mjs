@@ -0,0 +1,77 @@
+// Checks the programs and countries that eligibility schemas
+// (src/app/(site)/eligibility/schema/<vertical>.json) recommend against every
+// program file, whatever its draft or schedule state. At runtime the wizard
+// only offers live programs and skips the rest (src/lib/eligibility/load.ts);
+// a ref to a program that doesn't exist at all is a content error.
+
+import fs from "node:fs";
+import path from "node:path";
+import fg from "fast-glob";
+import { VERTICALS } from "./content-schema.mjs";
+import { isSourceFile } from "./locales.mjs";
+
+const SCHEMA_DIR = path.join("src", "app", "(site)", "eligibility", "schema");
+
+/** 1-based line of the first `"value"` in `raw` (1 if not found) */
+function lineOf(raw, value) {
+  const at = raw.indexOf(JSON.stringify(value));
+  return at < 0 ? 1 : raw.slice(0, at).split("\n").length;
+}
+
+/**
+ * `{ file, issues }` per schema; issues are `{ level, line, path, message }`
+ * like validateFile's.
+ */
+export async function validateEligibilityRefs(repoRoot = process.cwd()) {
+  const results = [];
+  for (const vertical of VERTICALS) {
+    const file = path.join(SCHEMA_DIR, `${vertical}.json`);
+    const abs = path.join(repoRoot, file);
+    if (!fs.existsSync(abs)) continue;
+
+    const programFiles = (
+      await fg(`content/${vertical}/*/*.mdx`, { cwd: repoRoot })
+    ).filter(
+      (f) => isSourceFile(path.basename(f)) && !f.endsWith("/_country.mdx"),
+    );
+    const refs = new Set(
+      programFiles.map((f) =>
+        f.replace(`content/${vertical}/`, "").replace(/\.mdx$/, ""),
+      ),
+    );
+    const countries = new Set([...refs].map((r) => r.split("/")[0]));
+
+    const raw = fs.readFileSync(abs, "utf8");
+    const issues = [];
+    let schema;
+    try {
+      schema = JSON.parse(raw);
+    } catch (err) {
+      issues.push({ level: "error", line: 1, path: "", message: err.message });
+      results.push({ file, issues });
+      continue;
+    }
+
+    (schema.recommendations ?? []).forEach((r, i) => {
+      const at = `recommendations[${i}].match`;
+      for (const ref of r.match?.programs ?? [])
+        if (!refs.has(ref))
+          issues.push({
+            level: "error",
+            line: lineOf(raw, ref),
+            path: `${at}.programs`,
+            message: `no ${vertical} program "${ref}"`,
+          });
+      for (const c of r.match?.countries ?? [])
+        if (!countries.has(c))
+          issues.push({
+            level: "error",
+            line: lineOf(raw, c),
+            path: `${at}.countries`,
+            message: `no ${vertical} country "${c}"`,
+          });
+    });
+    results.push({ file, issues });
+  }
+  return results;
+}
@@ -0,0 +1,108 @@
+// Node ESM script. Lists countries, programs and insights whose review is
+// overdue (or due soon) under the policy in scripts/content-freshness.mjs.
+//
+//   npm run content:freshness              # overdue and due-soon pages
+//   npm run content:freshness -- --all     # every page, fresh ones too
+//   npm run content:freshness -- --json    # machine-readable
+//   npm run content:freshness -- --strict  # exit 1 when anything is overdue
+
+import fs from "node:fs";
+import fg from "fast-glob";
+import matter from "gray-matter";
+import { VERTICALS, classify } from "./content-schema.mjs";
+import { DUE_SOON_DAYS, freshnessOf } from "./content-freshness.mjs";
+
+const INSIGHT_DIRS = ["articles", "blog", "media", "news"];
+
+/** content/… path → section, kind and a display name, or null to skip */
+function describe(rel) {
+  const parts = classify(rel);
+  if (parts?.locale) return null; // reviewed with the English page
+  if (parts)
+    return {
+      section: parts.vertical,
+      kind: parts.isCountry ? "country" : "program",
+      name: parts.isCountry
+        ? `${parts.vertical}/${parts.country}`
+        : `${parts.vertical}/${parts.country}/${parts.leaf}`,
+    };
+  const m = rel.match(/^content\/([^/]+)\/([^/]+)\.mdx$/);
+  if (m && INSIGHT_DIRS.includes(m[1]))
+    return { section: "insights", kind: "insight", name: `${m[1]}/${m[2]}` };
+  return null;
+}
+
+async function main() {
+  const repoRoot = process.cwd();
+  const args = process.argv.slice(2);
+  const all = args.includes("--all");
+  const json = args.includes("--json");
+  const strict = args.includes("--strict");
+
+  const files = await fg(
+    [...VERTICALS, ...INSIGHT_DIRS].map((d) => `content/${d}/**/*.mdx`),
+    { cwd: repoRoot, dot: false },
+  );
+  files.sort();
+
+  const rows = [];
+  for (const rel of files) {
+    const page = describe(rel);
+    if (!page) continue;
+    let fm;
+    try {
+      fm = matter(fs.readFileSync(rel, "utf8")).data;
+    } catch (e) {
+      console.warn(`warning ${rel}  unreadable frontmatter: ${e.message}`);
+      continue;
+    }
+    if (fm.draft === true) continue;
+    rows.push({
+      file: rel,
+      ...page,
+      ...freshnessOf(page.section, page.kind, fm),
+    });
+  }
+
+  const stale = (r) => r.status === "overdue" || r.status === "unknown";
+  const shown = all ? rows : rows.filter((r) => r.status !== "fresh");
+  // Most overdue first; never-verified pages lead
+  shown.sort(
+    (a, b) =>
+      Number(b.status === "unknown") - Number(a.status === "unknown") ||
+      (b.daysOverdue ?? -1) - (a.daysOverdue ?? -1) ||
+      a.file.localeCompare(b.file),
+  );
+
+  if (json) {
+    console.log(JSON.stringify(shown, null, 2));
+  } else {
+    for (const r of shown) {
+      const tag = {
+        unknown: "never  ",
+        overdue: "overdue",
+        "due-soon": "due    ",
+        fresh: "fresh  ",
+      }[r.status];
+      const when =
+        r.status === "unknown"
+          ? `no lastUpdated/updatedAt (every ${r.intervalDays}d)`
+          : r.status === "overdue"
+            ? `verified ${r.reviewedOn}, due ${r.dueOn} (${r.daysOverdue}d overdue)`
+            : `verified ${r.reviewedOn}, due ${r.dueOn}`;
+      console.log(`${tag} ${r.kind.padEnd(7)} ${r.name}  ${when}`);
+    }
+    const overdue = rows.filter(stale).length;
+    const soon = rows.filter((r) => r.status === "due-soon").length;
+    console.log(
+      `${overdue ? "✗" : "✓"} freshness checked (${rows.length} pages, ${overdue} overdue, ${soon} due within ${DUE_SOON_DAYS} days)`,
+    );
+  }
+
+  if (strict && rows.some(stale)) process.exit(1);
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
@@ -0,0 +1,28 @@
+// Site locales, shared by the content scripts and the app (src/lib/i18n/config.ts).
+// English is the source language and stays unprefixed (/citizenship/…); the
+// others are served under /<locale>/… . A translation sits beside the English
+// file it translates, named `<leaf>.<locale>.mdx` (real-estate.ar.mdx,
+// _country.hi.mdx), and only overrides the fields it sets.
+
+export const DEFAULT_LOCALE = /** @type {const} */ ("en");
+
+export const LOCALES = /** @type {const} */ (["en", "ar", "hi", "zh"]);
+
+/** Written right-to-left */
+export const RTL_LOCALES = /** @type {const} */ (["ar"]);
+
+const TRANSLATED = LOCALES.filter((l) => l !== DEFAULT_LOCALE);
+const TRANSLATION_FILE = new RegExp(`^(.+)\\.(${TRANSLATED.join("|")})\\.mdx$`);
+
+/**
+ * "real-estate.ar.mdx" → { leaf: "real-estate", locale: "ar" }; null for
+ * English files (and unknown suffixes, which stay ordinary slugs).
+ */
+export function translationOf(fileName) {
+  const m = fileName.match(TRANSLATION_FILE);
+  return m ? { leaf: m[1], locale: m[2] } : null;
+}
+
+/** Source (English) MDX files, i.e. not a translation */
+export const isSourceFile = (fileName) =>
+  fileName.endsWith(".mdx") && !translationOf(fileName);
@@ -0,0 +1,264 @@
+// Props of the components MDX bodies may use (src/components/MDX/registry.tsx),
+// in the same spec language as the frontmatter schema. mdx-usage.mjs checks
+// every call in a file against them before the build, and the registry
+// checks them again as the components render.
+
+import {
+  arrayOf,
+  bool,
+  check,
+  currency,
+  either,
+  feeRule,
+  fmtPath,
+  num,
+  oneOf,
+  shape,
+  str,
+  url,
+} from "./content-schema.mjs";
+
+export const CALLOUT_TYPES = /** @type {const} */ ([
+  "info",
+  "tip",
+  "warning",
+  "important",
+]);
+
+const faqs = arrayOf(shape({ q: str, a: str }, ["q", "a"]));
+
+// A fee row as in `prices` / `governmentFees`, without `cite` (MDX bodies
+// have no `sources` of their own to cite)
+const feeRows = arrayOf(
+  shape(
+    {
+      label: str,
+      amount: num,
+      currency,
+      when: str,
+      notes: str,
+      sourceLabel: str,
+      sourceUrl: url,
+      ...feeRule,
+    },
+    ["label"],
+  ),
+);
+
+/** Component name → props; `children` is always allowed */
+export const MDX_COMPONENTS = {
+  Section: shape({
+    id: str,
+    title: str,
+    subtitle: str,
+    padded: bool,
+    className: str,
+  }),
+  ContentImage: shape(
+    {
+      src: url,
+      alt: str,
+      width: num,
+      height: num,
+      caption: str,
+      priority: bool,
+      rounded: bool,
+    },
+    ["src", "alt"],
+  ),
+  Steps: shape({ className: str }),
+  Step: shape({ title: str, number: num }, ["title"]),
+  Video: shape({
+    url,
+    src: url,
+    title: str,
+    poster: url,
+    controls: bool,
+    autoPlay: bool,
+    loop: bool,
+    muted: bool,
+    aspect: oneOf("16/9", "4/3", "1/1", "21/9"),
+    className: str,
+  }),
+  FAQSection: shape(
+    { faqs, heading: str, variant: oneOf("compact", "comfortable") },
+    ["faqs"],
+  ),
+  PointsCalculator: shape(
+    { system: str, program: str, version: str, title: str, className: str },
+    ["system"],
+  ),
+
+  Callout: shape({ type: oneOf(...CALLOUT_TYPES), title: str }),
+  FeeTable: shape({ rows: feeRows, currency, title: str, id: str }, ["rows"]),
+  ProcessTimeline: shape(
+    {
+      steps: arrayOf(
+        shape(
+          {
+            title: str,
+            description: str,
+            duration: str,
+            docs: str,
+            outcome: str,
+          },
+          ["title"],
+        ),
+      ),
+      heading: str,
+    },
+    ["steps"],
+  ),
+  FamilyMatrix: shape({
+    childrenUpTo: num,
+    parentsFromAge: num,
+    siblings: bool,
+    spouse: bool,
+    title: str,
+    note: str,
+    renderJsonLd: bool,
+    className: str,
+  }),
+  DocumentChecklist: shape(
+    {
+      groups: arrayOf(
+        shape({ group: str, documents: arrayOf(str) }, ["group", "documents"]),
+      ),
+      title: str,
+      note: str,
+      renderJsonLd: bool,
+      className: str,
+    },
+    ["groups"],
+  ),
+  CostCalculator: shape(
+    {
+      rows: feeRows,
+      currency,
+      adults: num,
+      title: str,
+      disclaimer: str,
+      className: str,
+    },
+    ["rows"],
+  ),
+  CompareTable: shape(
+    {
+      caption: str,
+      columns: arrayOf(
+        shape(
+          {
+            key: str,
+            label: str,
+            accent: oneOf("blue", "emerald", "amber", "purple"),
+          },
+          ["key", "label"],
+        ),
+      ),
+      // { label, <column key>: cell text, … }
+      rows: arrayOf(shape({ label: str }, ["label"], either(str, num))),
+      footnote: str,
+      className: str,
+    },
+    ["caption", "columns", "rows"],
+  ),
+  CountryStat: shape(
+    {
+      label: str,
+      value: either(str, num),
+      note: str,
+      href: url,
+      className: str,
+    },
+    ["label", "value"],
+  ),
+};
+
+/** Checks across props that a per-prop spec can't express */
+const RULES = {
+  Video: (p) =>
+    p.url || p.src
+      ? []
+      : [{ path: [], message: `needs either "url" (embed) or "src" (file)` }],
+  CompareTable: (p) => {
+    if (!Array.isArray(p.columns) || !Array.isArray(p.rows)) return [];
+    const keys = new Set(p.columns.map((c) => c?.key));
+    return p.rows.flatMap((row, i) =>
+      Object.keys(row ?? {})
+        .filter((k) => k !== "label" && !keys.has(k))
+        .map((k) => ({
+          path: ["rows", i, k],
+          message: `no column has key "${k}"`,
+        })),
+    );
+  },
+};
+
+export const isMdxComponent = (name) =>
+  Object.prototype.hasOwnProperty.call(MDX_COMPONENTS, name);
+
+/** Edit distance, for "did you mean" hints */
+function distance(a, b) {
+  const row = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    let prev = row[0];
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cur = row[j];
+      row[j] = Math.min(
+        row[j] + 1,
+        row[j - 1] + 1,
+        prev + (a[i - 1].toLowerCase() === b[j - 1].toLowerCase() ? 0 : 1),
+      );
+      prev = cur;
+    }
+  }
+  return row[b.length];
+}
+
+/** The closest of `names` to a misspelt `name`, if any is close */
+export function suggest(name, names) {
+  let best;
+  let bestDistance = Math.max(2, Math.floor(name.length / 3)) + 1;
+  for (const n of names) {
+    const d = distance(name, n);
+    if (d < bestDistance) [best, bestDistance] = [n, d];
+  }
+  return best;
+}
+
+/** Spec of the value at `segs` (list indexes skipped), for hints */
+function specAt(spec, segs) {
+  for (const seg of segs) {
+    if (spec?.type === "array" && typeof seg === "number") spec = spec.items;
+    else if (spec?.type === "object") spec = spec.props[seg] ?? spec.rest;
+    else return undefined;
+  }
+  return spec;
+}
+
+/**
+ * Problems with one call of an MDX component, as `{ path, message }`
+ * (path like `rows[0].amount`). Unknown props are errors here, unlike unknown
+ * frontmatter fields: MDX would pass them on and render nothing for them.
+ */
+export function checkComponentProps(name, props) {
+  const spec = MDX_COMPONENTS[name];
+  if (!spec) return [];
+  const rest = { ...props };
+  delete rest.children;
+  const found = [];
+  check(rest, spec, [], found, true);
+  found.push(...(RULES[name]?.(rest) ?? []));
+
+  return found.map(({ path, message }) => {
+    const key = path[path.length - 1];
+    if (message.startsWith("unknown field") && typeof key === "string") {
+      const parent = specAt(spec, path.slice(0, -1));
+      const hint =
+        parent?.type === "object" && suggest(key, Object.keys(parent.props));
+      message = `unknown ${path.length === 1 ? "prop" : "field"} "${key}"${hint ? ` (did you mean "${hint}"?)` : ""}`;
+    }
+    return { path: fmtPath(path), message };
+  });
+}
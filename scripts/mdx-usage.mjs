@@ -0,0 +1,161 @@
+// Checks the components an MDX body uses against mdx-components.mjs and
+// reports, with the line each sits on, unknown components, unknown or
+// mistyped props and MDX syntax errors. Literal values (text, numbers,
+// lists and objects written out in full) are checked here; computed ones
+// are left to the check the registry runs as the page renders.
+
+import fs from "node:fs";
+import path from "node:path";
+import { serialize } from "next-mdx-remote/serialize";
+import {
+  MDX_COMPONENTS,
+  checkComponentProps,
+  isMdxComponent,
+  suggest,
+} from "./mdx-components.mjs";
+
+const COMPUTED = Symbol("computed");
+const HEADING_ID = /^(###\s+.+?)\s+\{#[\w-]+\}\s*$/;
+
+/** The value of a literal JS expression, or COMPUTED */
+function evaluate(node) {
+  switch (node?.type) {
+    case "Literal":
+      return node.regex || node.bigint ? COMPUTED : node.value;
+    case "TemplateLiteral":
+      return node.expressions.length
+        ? COMPUTED
+        : node.quasis.map((q) => q.value.cooked).join("");
+    case "UnaryExpression": {
+      const v = evaluate(node.argument);
+      return node.operator === "-" && typeof v === "number" ? -v : COMPUTED;
+    }
+    case "ArrayExpression": {
+      const out = [];
+      for (const el of node.elements) {
+        const v = !el || el.type === "SpreadElement" ? COMPUTED : evaluate(el);
+        if (v === COMPUTED) return COMPUTED;
+        out.push(v);
+      }
+      return out;
+    }
+    case "ObjectExpression": {
+      const out = {};
+      for (const p of node.properties) {
+        if (p.type !== "Property" || p.computed || p.kind !== "init")
+          return COMPUTED;
+        const v = evaluate(p.value);
+        if (v === COMPUTED) return COMPUTED;
+        out[p.key.type === "Identifier" ? p.key.name : String(p.key.value)] = v;
+      }
+      return out;
+    }
+    default:
+      return COMPUTED;
+  }
+}
+
+/** Props of one JSX element: literal ones by name, plus the computed names */
+function readAttributes(node) {
+  const props = {};
+  const computed = new Set();
+  let spread = false;
+  for (const a of node.attributes) {
+    if (a.type === "mdxJsxExpressionAttribute") spread = true;
+    else if (a.value === null || a.value === undefined) props[a.name] = true;
+    else if (typeof a.value === "string") props[a.name] = a.value;
+    else {
+      const v = evaluate(a.value.data?.estree?.body?.[0]?.expression);
+      if (v === COMPUTED) computed.add(a.name);
+      else props[a.name] = v;
+    }
+  }
+  return { props, computed, spread };
+}
+
+function checkElement(node, issues) {
+  const name = node.name;
+  const line = node.position?.start.line ?? 1;
+  // Fragments, html tags and member expressions (<Foo.Bar>) aren't ours
+  if (!name || !/^[A-Z]\w*$/.test(name)) return;
+  if (!isMdxComponent(name)) {
+    const hint = suggest(name, Object.keys(MDX_COMPONENTS));
+    issues.push({
+      level: "error",
+      line,
+      path: `<${name}>`,
+      message: `unknown component${hint ? ` (did you mean <${hint}>?)` : ""}`,
+    });
+    return;
+  }
+
+  const { props, computed, spread } = readAttributes(node);
+  // With `{...spread}` props, any of them may come from the spread
+  if (spread) return;
+  for (const { path: at, message } of checkComponentProps(name, props)) {
+    const missing = message.match(/^missing required "(\w+)"$/)?.[1];
+    if (missing && computed.has(missing)) continue;
+    if (!at && computed.size) continue;
+    const written = at in props && typeof props[at] === "string";
+    issues.push({
+      level: "error",
+      line,
+      path: `<${name}>${at ? ` ${at}` : ""}`,
+      // n="12" is text in JSX; numbers and booleans go in braces
+      message:
+        written && /^expected (a number|true\/false)/.test(message)
+          ? `${message} (write ${at}={${props[at]}})`
+          : message,
+    });
+  }
+}
+
+/**
+ * Validate the components used in one MDX file's body.
+ * @returns {Promise<{ file: string, issues: { level: "error"|"warning", line: number, path: string, message: string }[] }>}
+ */
+export async function validateBody(absPath, repoRoot = process.cwd()) {
+  const rel = path.relative(repoRoot, absPath).split(path.sep).join("/");
+  const raw = fs.readFileSync(absPath, "utf8").replace(/^﻿/, "");
+  const lines = raw.split(/\r?\n/);
+
+  // Blank out the frontmatter rather than strip it, so lines keep their numbers
+  const close =
+    lines[0]?.trim() === "---"
+      ? lines.findIndex((l, i) => i > 0 && l.trim() === "---")
+      : -1;
+  // `### Heading {#key}` ids are taken off before compiling (splitByH3 in
+  // src/lib/content/mdx.ts); MDX would read them as expressions
+  const source = lines
+    .map((l, i) => (i <= close ? "" : l.replace(HEADING_ID, "$1")))
+    .join("\n");
+
+  const issues = [];
+  const collect = () => (tree) => {
+    const walk = (node) => {
+      if (
+        node.type === "mdxJsxFlowElement" ||
+        node.type === "mdxJsxTextElement"
+      )
+        checkElement(node, issues);
+      node.children?.forEach(walk);
+    };
+    walk(tree);
+  };
+
+  try {
+    await serialize(source, { mdxOptions: { remarkPlugins: [collect] } });
+  } catch (e) {
+    // "[next-mdx-remote] error compiling MDX:\n<reason> (5:1-5:19)\n\n<frame>"
+    const reason = String(e?.message ?? e).split("\n")[1] ?? String(e);
+    issues.push({
+      level: "error",
+      line: Number(reason.match(/\((\d+):\d+/)?.[1] ?? 1),
+      path: "",
+      message: `invalid MDX: ${reason.replace(/\s*\(\d+:\d+(-\d+:\d+)?\)$/, "")}`,
+    });
+  }
+
+  issues.sort((a, b) => a.line - b.line);
+  return { file: rel, issues };
+}
@@ -0,0 +1,139 @@
+// Node ESM script. Refreshes src/lib/currency-rates.json from an FX provider.
+//
+//   npm run rates:refresh                      # default provider (open-er-api)
+//   npm run rates:refresh -- --provider=openexchangerates   (needs OXR_APP_ID)
+//   npm run rates:refresh -- --dry-run         # print, don't write
+//   npm run rates:refresh -- --force           # accept large moves
+//
+// The set of currencies is whatever the current snapshot lists (it mirrors
+// CURRENCY_CODES in src/lib/content/schema.ts); a provider that omits one of
+// them fails the refresh rather than writing a partial file.
+
+import fs from "node:fs/promises";
+import path from "node:path";
+
+const SNAPSHOT = path.join(process.cwd(), "src", "lib", "currency-rates.json");
+/** Reject a refresh when any rate moves more than this vs the current file. */
+const MAX_MOVE = 0.25;
+
+/**
+ * @typedef {{ asOf: string, rates: Record<string, number> }} ProviderResult
+ * @typedef {{
+ *   id: string,
+ *   fetchRates: (codes: string[]) => Promise<ProviderResult>,
+ * }} RatesProvider
+ * Rates are per 1 USD. `asOf` is an ISO date (YYYY-MM-DD).
+ */
+
+async function getJSON(url) {
+  const res = await fetch(url, { signal: AbortSignal.timeout(15_000) });
+  if (!res.ok) throw new Error(`${url} → HTTP ${res.status}`);
+  return res.json();
+}
+
+const isoDay = (ms) => new Date(ms).toISOString().slice(0, 10);
+
+/** @type {Record<string, RatesProvider>} */
+const PROVIDERS = {
+  // Free, keyless, daily. https://www.exchangerate-api.com/docs/free
+  "open-er-api": {
+    id: "open-er-api",
+    async fetchRates() {
+      const data = await getJSON("https://open.er-api.com/v6/latest/USD");
+      if (data.result !== "success")
+        throw new Error("open-er-api: " + data["error-type"]);
+      return {
+        asOf: isoDay(data.time_last_update_unix * 1000),
+        rates: data.rates,
+      };
+    },
+  },
+  // https://docs.openexchangerates.org/reference/latest-json
+  openexchangerates: {
+    id: "openexchangerates",
+    async fetchRates(codes) {
+      const key = process.env.OXR_APP_ID;
+      if (!key) throw new Error("openexchangerates: set OXR_APP_ID");
+      const data = await getJSON(
+        `https://openexchangerates.org/api/latest.json?app_id=${encodeURIComponent(key)}&symbols=${codes.join(",")}`,
+      );
+      return { asOf: isoDay(data.timestamp * 1000), rates: data.rates };
+    },
+  },
+};
+
+function parseArgs(argv) {
+  const out = {
+    provider: process.env.FX_PROVIDER || "open-er-api",
+    dryRun: false,
+    force: false,
+  };
+  for (const a of argv) {
+    if (a === "--dry-run") out.dryRun = true;
+    else if (a === "--force") out.force = true;
+    else if (a.startsWith("--provider="))
+      out.provider = a.slice("--provider=".length);
+    else throw new Error(`Unknown argument: ${a}`);
+  }
+  return out;
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  const provider = PROVIDERS[args.provider];
+  if (!provider) {
+    throw new Error(
+      `Unknown provider "${args.provider}" (have: ${Object.keys(PROVIDERS).join(", ")})`,
+    );
+  }
+
+  const current = JSON.parse(await fs.readFile(SNAPSHOT, "utf8"));
+  const codes = Object.keys(current.rates);
+  const { asOf, rates } = await provider.fetchRates(codes);
+
+  const next = {};
+  const problems = [];
+  for (const c of codes) {
+    const v = c === "USD" ? 1 : Number(rates?.[c]);
+    if (!Number.isFinite(v) || v <= 0) {
+      problems.push(`${c}: missing from ${provider.id}`);
+      continue;
+    }
+    const prev = Number(current.rates[c]);
+    const move = prev > 0 ? Math.abs(v - prev) / prev : 0;
+    if (move > MAX_MOVE && !args.force) {
+      problems.push(
+        `${c}: ${prev} → ${v} (${(move * 100).toFixed(1)}% move; use --force to accept)`,
+      );
+    }
+    next[c] = Number(v.toPrecision(6));
+  }
+  if (problems.length) {
+    console.error(`✖ rates not updated:\n  ${problems.join("\n  ")}`);
+    process.exit(1);
+  }
+
+  const snapshot = { base: "USD", asOf, source: provider.id, rates: next };
+  for (const c of codes) {
+    console.log(
+      `  ${c.padEnd(4)} ${String(current.rates[c]).padStart(10)} → ${next[c]}`,
+    );
+  }
+  if (args.dryRun) {
+    console.log(`(dry run) ${provider.id} rates as of ${asOf}`);
+    return;
+  }
+  await fs.writeFile(
+    SNAPSHOT,
+    JSON.stringify(snapshot, null, 2) + "\n",
+    "utf8",
+  );
+  console.log(
+    `✓ wrote ${path.relative(process.cwd(), SNAPSHOT)} (${provider.id}, as of ${asOf})`,
+  );
+}
+
+main().catch((err) => {
+  console.error(`✖ ${err.message}`);
+  process.exit(1);
+});
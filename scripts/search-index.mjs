@@ -0,0 +1,487 @@
+// Node ESM module shared by scripts/build-search-index.mjs and the dev content
+// watcher (src/lib/content/watch.ts). Turns MDX under /content into search
+// docs and writes /public/search-index.json plus the serialized MiniSearch
+// indexes in /public/search/.
+
+import fs from "node:fs/promises";
+import path from "node:path";
+import fg from "fast-glob";
+import matter from "gray-matter";
+import MiniSearch from "minisearch";
+import { isSourceFile } from "./locales.mjs";
+
+// Shared with src/lib/search/query.ts — the index must be revived with the
+// exact options it was built with.
+const INDEX_OPTIONS_FILE = "src/lib/search/options.json";
+// Bundled into src/lib/search/synonyms.ts; checked here so a bad edit fails
+// the build instead of silently breaking query expansion.
+const SYNONYMS_FILE = "src/lib/search/synonyms.json";
+const SHARDS = ["citizenship", "residency", "skilled", "corporate", "insights"];
+
+// IMPORTANT: Only scan under /content/** per project structure. Translations
+// (real-estate.ar.mdx) are left out: results link to the English pages.
+export const CONTENT_PATTERNS = [
+  "content/citizenship/**/*.mdx",
+  "content/residency/**/*.mdx",
+  "content/corporate/**/*.mdx",
+  "content/skilled/**/*.mdx",
+  "content/articles/**/*.mdx",
+  "content/news/**/*.mdx",
+  "content/media/**/*.mdx",
+  "content/blog/**/*.mdx",
+];
+
+// Keep snippets readable without a full remark pipeline
+function stripToText(input) {
+  if (!input) return "";
+  let s = input;
+  // fenced code blocks
+  s = s.replace(/```[\s\S]*?```/g, " ");
+  // MDX/JSX tags (block + self-closing)
+  s = s.replace(/<[^>]+>/g, " ");
+  // images
+  s = s.replace(/!\[[^\]]*\]\([^)]+\)/g, " ");
+  // links -> keep link text
+  s = s.replace(/\[([^\]]*)\]\([^)]+\)/g, "$1");
+  // inline code
+  s = s.replace(/`([^`]+)`/g, "$1");
+  // collapse whitespace
+  s = s.replace(/\s+/g, " ").trim();
+  return s;
+}
+
+function firstChars(s, n = 200) {
+  if (!s) return "";
+  if (s.length <= n) return s;
+  const cut = s.slice(0, n);
+  const lastSpace = cut.lastIndexOf(" ");
+  return (lastSpace > 40 ? cut.slice(0, lastSpace) : cut) + "…";
+}
+
+// Program budgets are compared in USD using the same FX snapshot the site
+// displays (src/lib/currency-rates.json).
+async function loadUsdRates(repoRoot) {
+  try {
+    const raw = await fs.readFile(
+      path.join(repoRoot, "src", "lib", "currency-rates.json"),
+      "utf8",
+    );
+    const snap = JSON.parse(raw);
+    return snap?.base === "USD" && snap.rates ? snap.rates : { USD: 1 };
+  } catch {
+    return { USD: 1 };
+  }
+}
+
+function toUsd(amount, currency, rates) {
+  const rate = rates[(currency || "USD").toString().toUpperCase()];
+  return rate ? Math.round(amount / rate) : undefined;
+}
+
+export async function checkSynonyms(repoRoot, countrySlugs) {
+  const raw = await fs.readFile(path.join(repoRoot, SYNONYMS_FILE), "utf8");
+  const file = JSON.parse(raw);
+  const errors = [];
+  const isPhrase = (v) => typeof v === "string" && v.trim() !== "";
+
+  for (const [acronym, full] of Object.entries(file.acronyms ?? {}))
+    if (!/^[a-z0-9]+$/.test(acronym) || !isPhrase(full))
+      errors.push(`acronyms.${acronym}: expected lowercase key and a phrase`);
+  (file.synonyms ?? []).forEach((group, i) => {
+    if (!Array.isArray(group) || group.length < 2 || !group.every(isPhrase))
+      errors.push(`synonyms[${i}]: expected two or more phrases`);
+  });
+  for (const [slug, aliases] of Object.entries(file.countries ?? {})) {
+    if (!Array.isArray(aliases) || !aliases.length || !aliases.every(isPhrase))
+      errors.push(`countries.${slug}: expected one or more aliases`);
+    else if (!countrySlugs.has(slug))
+      console.warn(`! ${SYNONYMS_FILE}: countries.${slug} matches no content`);
+  }
+
+  if (errors.length)
+    throw new Error(`${SYNONYMS_FILE}:\n  ${errors.join("\n  ")}`);
+}
+
+// Programs inherit region and dependant rules from their country hub
+// (content/<section>/<country>/_country.mdx).
+async function loadCountryFrontmatter(repoRoot) {
+  const files = await fg("content/*/*/_country.mdx", { cwd: repoRoot });
+  const map = new Map();
+  for (const rel of files) {
+    const [, section, country] = rel.split("/");
+    const { data } = matter(
+      await fs.readFile(path.join(repoRoot, rel), "utf8"),
+    );
+    map.set(`${section}/${country}`, data ?? {});
+  }
+  return map;
+}
+
+// Country `dependents` overlaid with the program's own `familyMatrix`
+// (same precedence as the compare table).
+function dependentsOf(countryDependents, familyMatrix) {
+  const merged = { ...(countryDependents ?? {}), ...(familyMatrix ?? {}) };
+  const out = {};
+  for (const k of ["spouse", "siblings"])
+    if (typeof merged[k] === "boolean") out[k] = merged[k];
+  for (const k of ["childrenUpTo", "parentsFromAge"])
+    if (Number.isFinite(Number(merged[k]))) out[k] = Number(merged[k]);
+  return Object.keys(out).length ? out : undefined;
+}
+
+// publishAt / expiresAt as ISO strings (YAML may hand us Dates); undefined
+// when missing or unparseable, as in src/lib/content/schedule.ts.
+function isoTime(v) {
+  if (!v) return undefined;
+  const t = new Date(v);
+  return Number.isNaN(t.getTime()) ? undefined : t.toISOString();
+}
+
+// Already expired at build time: never listed again (archived pages stay up
+// but aren't listed), so leave it out. Scheduled items are indexed with their
+// dates; search filters them with isLive() at query time.
+function hasExpired(fm, now = Date.now()) {
+  const expires = isoTime(fm?.expiresAt);
+  return expires !== undefined && new Date(expires).getTime() <= now;
+}
+
+function ensureArray(x) {
+  if (!x) return [];
+  return Array.isArray(x) ? x : [x];
+}
+
+// Guess doc "type" and canonical URL from absolute path
+function guessTypeAndUrl(abs, repoRoot, fm) {
+  const rel = abs.split(path.sep).join("/");
+  const baseRel = rel.replace(repoRoot.split(path.sep).join("/") + "/", "");
+
+  // content/<section>/<country>/_country.mdx => /<section>/<country>
+  // content/<section>/<country>/<program>.mdx => /<section>/<country>/<program>
+  // Supported sections: citizenship, residency, corporate, skilled
+  const contentMatch = baseRel.match(
+    /^content\/(citizenship|residency|corporate|skilled)\/([^/]+)\/([^/]+)\.mdx$/i,
+  );
+  if (contentMatch) {
+    const [, section, country, leaf] = contentMatch;
+    if (leaf === "_country") {
+      return {
+        type: "country",
+        url: `/${section}/${country}`,
+        section,
+        country,
+        program: null,
+      };
+    }
+    const program = (fm?.programSlug || leaf).toString();
+    return {
+      type: "program",
+      url: `/${section}/${country}/${program}`,
+      section,
+      country,
+      program,
+    };
+  }
+
+  // content/<kind>/<slug>.mdx for insights buckets
+  // -> pretty routes: /articles/<slug>, /news/<slug>, /media/<slug>, /blog/<slug>
+  const insightMatch = baseRel.match(
+    /^content\/(articles|news|media|blog)\/([^/]+)\.mdx$/i,
+  );
+  if (insightMatch) {
+    const [, kind, leaf] = insightMatch;
+    const slug = (fm?.slug || leaf).toString();
+    /** @type {"article"|"news"|"media"|"blog"} */
+    let type = kind === "articles" ? "article" : /** @type any */ (kind);
+    const prettySegment = kind === "articles" ? "articles" : kind;
+    return {
+      type,
+      url: `/${prettySegment}/${slug}`,
+      section: null,
+      country: null,
+      program: null,
+    };
+  }
+
+  // fallback (should rarely happen)
+  return {
+    type: "page",
+    url: "/",
+    section: null,
+    country: null,
+    program: null,
+  };
+}
+
+/**
+ * One search doc (plus its stripped body text) for an MDX file, or null for
+ * drafts and expired items (see hasExpired). `ctx` carries the FX rates and
+ * hub frontmatter.
+ */
+async function buildDoc(abs, ctx) {
+  const { repoRoot, rates, countryMeta } = ctx;
+  const raw = await fs.readFile(abs, "utf8");
+  const { data: fm, content } = matter(raw);
+
+  // Drafts are never indexed — `build:index` runs without NODE_ENV, so this
+  // can't depend on it. Editors see drafts through preview links only.
+  if (fm?.draft === true || fm?.draft === "true") return null;
+  if (hasExpired(fm)) return null;
+
+  const meta = guessTypeAndUrl(abs, repoRoot, fm);
+
+  // Frontmatter fields (with fallbacks)
+  const title =
+    (fm.title ?? "").toString().trim() || path.basename(abs, ".mdx");
+  const subtitle =
+    meta.type === "program"
+      ? (fm.country ?? fm.countryName ?? meta.country ?? "").toString()
+      : (fm.subtitle ?? fm.section ?? meta.section ?? "").toString();
+
+  const tags = ensureArray(fm.tags)
+    .map((t) => t.toString().trim())
+    .filter(Boolean);
+  const summary = (fm.summary ?? fm.description ?? "").toString().trim();
+  const hero = (fm.hero ?? fm.heroImage ?? fm.image ?? "").toString();
+  const date = (fm.date ?? "").toString();
+  const updated = (fm.updated ?? fm.lastmod ?? "").toString();
+
+  const text = stripToText(content);
+  const snippet = summary || firstChars(text, 200);
+
+  const countries = ensureArray(
+    fm.countries && fm.countries.length
+      ? fm.countries
+      : meta.country
+        ? [meta.country]
+        : [],
+  )
+    .map((s) => s.toString().toLowerCase())
+    .filter(Boolean);
+
+  const programs = ensureArray(
+    fm.programs && fm.programs.length
+      ? fm.programs
+      : meta.program
+        ? [meta.program]
+        : [],
+  )
+    .map((s) => s.toString().toLowerCase())
+    .filter(Boolean);
+
+  const minInvestment =
+    meta.type === "program" && Number.isFinite(Number(fm.minInvestment))
+      ? Number(fm.minInvestment)
+      : undefined;
+  const currency = minInvestment
+    ? (fm.currency ?? "USD").toString().toUpperCase()
+    : undefined;
+
+  const hub = meta.section
+    ? (countryMeta.get(`${meta.section}/${meta.country}`) ?? {})
+    : {};
+  const region = (fm.region ?? hub.region)?.toString() || undefined;
+  const timelineMonths =
+    meta.type === "program" && Number.isFinite(Number(fm.timelineMonths))
+      ? Number(fm.timelineMonths)
+      : undefined;
+  const dependents =
+    meta.type === "program"
+      ? dependentsOf(hub.dependents, fm.familyMatrix)
+      : undefined;
+
+  const id = `${meta.type}:${meta.url}`;
+  const doc = {
+    id,
+    url: meta.url,
+    type: meta.type, // "country" | "program" | "article" | "news" | "media" | "blog" | "page"
+    title,
+    subtitle: subtitle || undefined,
+    tags: tags.length ? tags : undefined,
+    snippet: snippet || undefined,
+    hero: hero || undefined,
+    date: date || undefined,
+    updated: updated || undefined,
+    countries,
+    programs,
+    vertical: meta.section || undefined,
+    minInvestment,
+    currency,
+    minInvestmentUsd: minInvestment
+      ? toUsd(minInvestment, currency, rates)
+      : undefined,
+    region,
+    timelineMonths,
+    dependents,
+    publishAt: isoTime(fm.publishAt),
+    expiresAt: isoTime(fm.expiresAt),
+  };
+  return { doc, body: text };
+}
+
+const byRecency = (a, b) => {
+  const da = new Date(a.updated || a.date || 0).getTime();
+  const db = new Date(b.updated || b.date || 0).getTime();
+  return db - da;
+};
+
+/* =========================
+ * Index
+ * =======================*/
+/**
+ * Parses every content file once and keeps the docs per file, so `update()`
+ * only re-reads what changed. A changed `_country.mdx` also refreshes the
+ * programs beside it, which inherit its region and dependant rules.
+ */
+export async function createSearchIndex(repoRoot = process.cwd()) {
+  const ctx = {
+    repoRoot,
+    rates: await loadUsdRates(repoRoot),
+    countryMeta: await loadCountryFrontmatter(repoRoot),
+  };
+  /** @type {Map<string, { doc: any, body: string }>} */
+  const entries = new Map();
+
+  const files = await fg(CONTENT_PATTERNS, {
+    cwd: repoRoot,
+    absolute: true,
+    dot: false,
+  });
+  for (const abs of files.filter((f) => isSourceFile(path.basename(f)))) {
+    const entry = await buildDoc(abs, ctx);
+    if (entry) entries.set(path.normalize(abs), entry);
+  }
+
+  const exists = (abs) =>
+    fs.stat(abs).then(
+      (s) => s.isFile(),
+      () => false,
+    );
+
+  return {
+    get docs() {
+      return [...entries.values()].map((e) => e.doc).sort(byRecency);
+    },
+
+    /**
+     * Re-read the given files (absolute paths; deleted files drop out). A
+     * file that fails to parse keeps its previous doc and reports `error`.
+     */
+    async update(changed) {
+      const queue = new Set(changed.map((f) => path.normalize(f)));
+      for (const abs of [...queue]) {
+        if (path.basename(abs) !== "_country.mdx") continue;
+        const dir = path.dirname(abs);
+        const key = path
+          .relative(path.join(repoRoot, "content"), dir)
+          .split(path.sep)
+          .join("/");
+        try {
+          if (await exists(abs)) {
+            const { data } = matter(await fs.readFile(abs, "utf8"));
+            ctx.countryMeta.set(key, data ?? {});
+          } else ctx.countryMeta.delete(key);
+        } catch {
+          /* reported below, when the hub's own doc fails to build */
+        }
+        for (const f of entries.keys())
+          if (path.dirname(f) === dir) queue.add(f);
+      }
+
+      const updated = [];
+      for (const abs of queue) {
+        if (!isSourceFile(path.basename(abs))) continue;
+        let entry;
+        try {
+          entry = (await exists(abs)) ? await buildDoc(abs, ctx) : null;
+        } catch (error) {
+          updated.push({ file: abs, id: null, error });
+          continue;
+        }
+        if (entry) entries.set(abs, entry);
+        else entries.delete(abs);
+        updated.push({ file: abs, id: entry?.doc.id ?? null });
+      }
+      return updated;
+    },
+
+    /** Write search-index.json, the per-shard indexes and bodies. */
+    async write({ quiet = false } = {}) {
+      const docs = this.docs;
+      const bodies = Object.fromEntries(
+        [...entries.values()].map((e) => [e.doc.id, e.body]),
+      );
+      const publicDir = path.join(repoRoot, "public");
+      const outputFile = path.join(publicDir, "search-index.json");
+      await fs.mkdir(publicDir, { recursive: true });
+      const payload = {
+        version: 1,
+        generatedAt: new Date().toISOString(),
+        count: docs.length,
+        docs,
+      };
+      await fs.writeFile(outputFile, JSON.stringify(payload), "utf8");
+      if (!quiet)
+        console.log(
+          `✓ search-index.json written (${docs.length} docs) -> ${path.relative(repoRoot, outputFile)}`,
+        );
+      await writeSerializedIndexes(
+        repoRoot,
+        publicDir,
+        docs,
+        bodies,
+        payload.generatedAt,
+        quiet,
+      );
+      return docs;
+    },
+  };
+}
+
+// Country/program docs shard by vertical; insights buckets share one shard.
+const shardOf = (doc) => doc.vertical || "insights";
+
+async function writeSerializedIndexes(
+  repoRoot,
+  publicDir,
+  docs,
+  bodies,
+  generatedAt,
+  quiet,
+) {
+  const options = JSON.parse(
+    await fs.readFile(path.join(repoRoot, INDEX_OPTIONS_FILE), "utf8"),
+  );
+  const outDir = path.join(publicDir, "search");
+  await fs.rm(outDir, { recursive: true, force: true });
+  await fs.mkdir(outDir, { recursive: true });
+
+  const shards = {};
+  for (const shard of ["all", ...SHARDS]) {
+    const subset =
+      shard === "all" ? docs : docs.filter((d) => shardOf(d) === shard);
+    const mini = new MiniSearch(options);
+    // Body text is indexed but not stored; bodies.json carries it for snippets
+    mini.addAll(subset.map((d) => ({ ...d, body: bodies[d.id] })));
+    const file = `${shard}.json`;
+    await fs.writeFile(path.join(outDir, file), JSON.stringify(mini), "utf8");
+    shards[shard] = { file, count: subset.length };
+  }
+
+  // Stripped body text, for snippets centred on the matching passage
+  await fs.writeFile(
+    path.join(outDir, "bodies.json"),
+    JSON.stringify(bodies),
+    "utf8",
+  );
+
+  const manifest = { version: 1, generatedAt, shards, bodies: "bodies.json" };
+  await fs.writeFile(
+    path.join(outDir, "manifest.json"),
+    JSON.stringify(manifest, null, 2),
+    "utf8",
+  );
+  if (!quiet)
+    console.log(
+      `✓ serialized indexes written (${Object.keys(shards).join(", ")}) -> ${path.relative(repoRoot, outDir)}`,
+    );
+}
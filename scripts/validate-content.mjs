@@ -0,0 +1,70 @@
+// Node ESM script. Runs before `next build` (and via `npm run content:validate`).
+// Checks the frontmatter of every vertical MDX file against the shared schema,
+// and the components every MDX body (verticals and insights) uses against
+// mdx-components.mjs, plus the programs eligibility schemas recommend, and
+// prints each problem as `file:line  path  message`.
+//
+//   node scripts/validate-content.mjs            # errors fail, warnings print
+//   node scripts/validate-content.mjs --strict   # warnings fail too
+//   node scripts/validate-content.mjs content/citizenship/grenada/ntf.mdx
+
+import path from "node:path";
+import fg from "fast-glob";
+import { validateFile, VERTICALS } from "./content-schema.mjs";
+import { validateBody } from "./mdx-usage.mjs";
+import { validateEligibilityRefs } from "./eligibility-refs.mjs";
+
+const INSIGHT_DIRS = ["articles", "blog", "media", "news"];
+
+async function main() {
+  const repoRoot = process.cwd();
+  const args = process.argv.slice(2);
+  const strict = args.includes("--strict");
+  const explicit = args.filter((a) => !a.startsWith("--"));
+
+  const files = explicit.length
+    ? explicit.map((f) => path.resolve(repoRoot, f))
+    : await fg(
+        [...VERTICALS, ...INSIGHT_DIRS].map((d) => `content/${d}/**/*.mdx`),
+        { cwd: repoRoot, absolute: true, dot: false },
+      );
+  files.sort();
+
+  let errors = 0;
+  let warnings = 0;
+  const report = (file, issues) => {
+    issues.sort((a, b) => a.line - b.line);
+    for (const i of issues) {
+      if (i.level === "error") errors++;
+      else warnings++;
+      const where = `${file}:${i.line}`;
+      const tag = i.level === "error" ? "error  " : "warning";
+      console.log(
+        `${tag} ${where}  ${i.path ? i.path + "  " : ""}${i.message}`,
+      );
+    }
+  };
+
+  for (const abs of files) {
+    const { file, issues } = validateFile(abs, repoRoot);
+    const body = await validateBody(abs, repoRoot);
+    report(file, [...issues, ...body.issues]);
+  }
+
+  // Whole-site checks only; a list of files checks just those files
+  const schemas = explicit.length
+    ? []
+    : await validateEligibilityRefs(repoRoot);
+  for (const { file, issues } of schemas) report(file, issues);
+
+  const failed = errors > 0 || (strict && warnings > 0);
+  console.log(
+    `${failed ? "✗" : "✓"} content validated (${files.length + schemas.length} files, ${errors} error${errors === 1 ? "" : "s"}, ${warnings} warning${warnings === 1 ? "" : "s"})`,
+  );
+  if (failed) process.exit(1);
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
@@ -0,0 +1,12 @@
+// src/app/(intl)/[locale]/corporate/[country]/page.tsx
+// The English country page, served under /<locale>; it reads params.locale.
+// Segment config can't be re-exported, so it is restated here.
+export {
+  default,
+  generateMetadata,
+  generateStaticParams,
+} from "@/app/(site)/corporate/[country]/page";
+
+export const runtime = "nodejs";
+export const dynamic = "force-static";
+export const revalidate = 86400;
@@ -0,0 +1,36 @@
+// src/app/(intl)/[locale]/layout.tsx
+// Locale-prefixed tree (/ar/…, /hi/…, /zh/…). Pages here re-export the English
+// country and program pages, which read `params.locale`. This is a root layout:
+// it sets lang and dir on <html> and provides the locale to client components.
+// English stays unprefixed, so "en" is not a param.
+import { notFound } from "next/navigation";
+import {
+  INTL_LOCALES,
+  PREFIXED_LOCALES,
+  dirFor,
+  isLocale,
+} from "@/lib/i18n/config";
+import { LocaleProvider } from "@/lib/i18n/LocaleProvider";
+import RootDocument, { siteMetadata } from "@/components/Layout/RootDocument";
+
+export const metadata = siteMetadata;
+
+export const dynamicParams = false;
+
+export function generateStaticParams() {
+  return PREFIXED_LOCALES.map((locale) => ({ locale }));
+}
+
+export default async function LocaleLayout(props: {
+  children: React.ReactNode;
+  params: Promise<{ locale: string }>;
+}) {
+  const { locale } = await props.params;
+  if (!isLocale(locale) || !PREFIXED_LOCALES.includes(locale)) notFound();
+
+  return (
+    <RootDocument lang={INTL_LOCALES[locale]} dir={dirFor(locale)}>
+      <LocaleProvider locale={locale}>{props.children}</LocaleProvider>
+    </RootDocument>
+  );
+}
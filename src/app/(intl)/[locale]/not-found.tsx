@@ -0,0 +1,3 @@
+// src/app/(intl)/[locale]/not-found.tsx
+// notFound() under /<locale> renders inside this root layout
+export { default, metadata } from "@/app/(site)/not-found";
@@ -0,0 +1,11 @@
+// src/app/(intl)/[locale]/skilled/[country]/[program]/page.tsx
+// The English program page, served under /<locale>; it reads params.locale.
+// Segment config can't be re-exported, so it is restated here.
+export {
+  default,
+  generateMetadata,
+  generateStaticParams,
+} from "@/app/(site)/skilled/[country]/[program]/page";
+
+export const revalidate = 86400;
+export const dynamicParams = true;
@@ -0,0 +1,70 @@
+import { NextRequest } from "next/server";
+import {
+  addDays,
+  findSlots,
+  getAvailabilityConfig,
+  ISO_DATE,
+  summarizeAdvisor,
+} from "@/lib/booking";
+import type { ApiAvailabilityResponse } from "@/types/booking";
+
+export const runtime = "nodejs"; // reads content/ and the booking store
+export const dynamic = "force-dynamic";
+
+const MAX_DAYS = 14;
+
+function reply(body: ApiAvailabilityResponse, status = 200) {
+  // Never cached: a slot taken a second ago must disappear.
+  return Response.json(body, {
+    status,
+    headers: { "Cache-Control": "no-store" },
+  });
+}
+
+const invalid = (message: string) =>
+  reply({ ok: false, error: { code: "invalid_query", message } }, 400);
+
+/**
+ * GET /api/booking/availability?consultation=std
+ *   [&advisor=dubai][&from=2026-11-02][&days=7]
+ * Free slots (UTC instants) from `from` (default today, UTC) for `days`
+ * days (max 14), across all advisors unless one is given.
+ */
+export async function GET(req: NextRequest) {
+  const q = req.nextUrl.searchParams;
+  const config = getAvailabilityConfig();
+
+  const consultation = config.consultations.find(
+    (c) => c.id === (q.get("consultation") ?? config.consultations[0].id),
+  );
+  if (!consultation) return invalid("Unknown `consultation`.");
+
+  const advisorId = q.get("advisor") || undefined;
+  if (advisorId && !config.advisors.some((a) => a.id === advisorId))
+    return invalid("Unknown `advisor`.");
+
+  const from = q.get("from") ?? new Date().toISOString().slice(0, 10);
+  if (!ISO_DATE.test(from) || Number.isNaN(Date.parse(from)))
+    return invalid("`from` must be an ISO date (YYYY-MM-DD).");
+
+  const days = q.has("days") ? Number(q.get("days")) : 7;
+  if (!Number.isInteger(days) || days < 1 || days > MAX_DAYS)
+    return invalid(`\`days\` must be an integer between 1 and ${MAX_DAYS}.`);
+
+  const to = addDays(from, days);
+  const slots = await findSlots({
+    consultation,
+    advisorId,
+    from: Date.parse(from),
+    to: Date.parse(to),
+  });
+
+  return reply({
+    ok: true,
+    consultations: config.consultations,
+    advisors: config.advisors.map(summarizeAdvisor),
+    slots,
+    from,
+    to,
+  });
+}
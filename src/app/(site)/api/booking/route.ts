@@ -0,0 +1,131 @@
+import { NextRequest } from "next/server";
+import { clientIp, rateLimit } from "@/lib/leads";
+import {
+  createBooking,
+  getAvailabilityConfig,
+  summarizeAdvisor,
+  validateBooking,
+} from "@/lib/booking";
+import type { ApiBookingResponse } from "@/types/booking";
+
+export const runtime = "nodejs"; // needs fs + crypto for the default store
+export const dynamic = "force-dynamic";
+
+const RATE_LIMIT = { limit: 5, windowMs: 10 * 60_000 }; // 5 bookings / 10 min / IP
+const MAX_BODY_BYTES = 16 * 1024;
+
+function reply(body: ApiBookingResponse, status = 200, headers?: HeadersInit) {
+  return Response.json(body, {
+    status,
+    headers: { "Cache-Control": "no-store", ...headers },
+  });
+}
+
+export async function POST(req: NextRequest) {
+  const ip = clientIp(req.headers);
+
+  const rl = rateLimit(`booking:${ip}`, RATE_LIMIT);
+  if (!rl.allowed) {
+    return reply(
+      {
+        ok: false,
+        error: {
+          code: "rate_limited",
+          message: "Too many requests. Please try again in a few minutes.",
+          retryAfter: rl.retryAfter,
+        },
+      },
+      429,
+      { "Retry-After": String(rl.retryAfter) },
+    );
+  }
+
+  let body: Record<string, unknown>;
+  try {
+    const raw = await req.text();
+    if (raw.length > MAX_BODY_BYTES) throw new Error("payload too large");
+    const parsed = JSON.parse(raw);
+    if (!parsed || typeof parsed !== "object" || Array.isArray(parsed))
+      throw new Error("expected an object");
+    body = parsed as Record<string, unknown>;
+  } catch {
+    return reply(
+      {
+        ok: false,
+        error: { code: "invalid_json", message: "Malformed request body." },
+      },
+      400,
+    );
+  }
+
+  // Honeypot: bots get a generic failure, never a reserved slot.
+  if (typeof body.company === "string" && body.company.trim())
+    return reply(
+      {
+        ok: false,
+        error: { code: "validation_error", message: "Please try again." },
+      },
+      422,
+    );
+
+  // A bad availability config surfaces as the JSON 500 below, not a throw
+  try {
+    const result = validateBooking(body, getAvailabilityConfig());
+    if (!result.ok) {
+      return reply(
+        {
+          ok: false,
+          error: {
+            code: "validation_error",
+            message: result.message ?? "Please fix the highlighted fields.",
+            fields: result.fields,
+          },
+        },
+        422,
+      );
+    }
+
+    const created = await createBooking(result.data, { ip });
+    if (!created.ok)
+      return reply(
+        {
+          ok: false,
+          error: {
+            code: "slot_unavailable",
+            message:
+              "Sorry — that time was just taken or is no longer available. Please pick another slot.",
+          },
+        },
+        409,
+      );
+
+    const { booking, advisor, consultation, ics } = created;
+    return reply(
+      {
+        ok: true,
+        booking: {
+          id: booking.id,
+          start: booking.start,
+          end: booking.end,
+          advisor: summarizeAdvisor(advisor),
+          consultation,
+        },
+        ics,
+      },
+      201,
+    );
+  } catch (e) {
+    console.error("[api/booking] failed to create booking", e);
+    return reply(
+      {
+        ok: false,
+        error: {
+          code: "storage_error",
+          message:
+            "We couldn’t confirm your booking. Please try again shortly.",
+        },
+      },
+      500,
+    );
+  }
+}
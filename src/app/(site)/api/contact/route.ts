@@ -0,0 +1,118 @@
+import { NextRequest } from "next/server";
+import {
+  clientIp,
+  isHoneypotTripped,
+  peekRateLimit,
+  rateLimit,
+  saveLead,
+  validateContact,
+} from "@/lib/leads";
+import type { ApiContactResponse } from "@/types/contact";
+
+export const runtime = "nodejs"; // needs fs + crypto for the default store
+export const dynamic = "force-dynamic";
+
+const RATE_LIMIT = { limit: 5, windowMs: 10 * 60_000 }; // 5 inquiries / 10 min / IP
+// Rejected submissions (bad JSON, failed validation) count separately, so
+// someone fixing their form isn't locked out, but retries are still capped.
+const REJECTED_LIMIT = { limit: 20, windowMs: 10 * 60_000 };
+const MAX_BODY_BYTES = 16 * 1024;
+
+function reply(body: ApiContactResponse, status = 200, headers?: HeadersInit) {
+  return Response.json(body, {
+    status,
+    headers: { "Cache-Control": "no-store", ...headers },
+  });
+}
+
+function rateLimited(retryAfter: number) {
+  return reply(
+    {
+      ok: false,
+      error: {
+        code: "rate_limited",
+        message: "Too many requests. Please try again in a few minutes.",
+        retryAfter,
+      },
+    },
+    429,
+    { "Retry-After": String(retryAfter) },
+  );
+}
+
+export async function POST(req: NextRequest) {
+  const ip = clientIp(req.headers);
+
+  const acceptedKey = `contact:${ip}`;
+  const rejectedKey = `contact-rejected:${ip}`;
+  const limited = [
+    peekRateLimit(acceptedKey, RATE_LIMIT),
+    peekRateLimit(rejectedKey, REJECTED_LIMIT),
+  ].find((rl) => !rl.allowed);
+  if (limited) return rateLimited(limited.retryAfter);
+
+  let body: Record<string, unknown>;
+  try {
+    const raw = await req.text();
+    if (raw.length > MAX_BODY_BYTES) throw new Error("payload too large");
+    const parsed = JSON.parse(raw);
+    if (!parsed || typeof parsed !== "object" || Array.isArray(parsed))
+      throw new Error("expected an object");
+    body = parsed as Record<string, unknown>;
+  } catch {
+    rateLimit(rejectedKey, REJECTED_LIMIT);
+    return reply(
+      {
+        ok: false,
+        error: { code: "invalid_json", message: "Malformed request body." },
+      },
+      400,
+    );
+  }
+
+  // Honeypot: pretend success so bots don't learn to skip the field.
+  if (isHoneypotTripped(body)) {
+    rateLimit(acceptedKey, RATE_LIMIT);
+    return reply({ ok: true, id: "ok" });
+  }
+
+  const result = validateContact(body);
+  if (!result.ok) {
+    rateLimit(rejectedKey, REJECTED_LIMIT);
+    return reply(
+      {
+        ok: false,
+        error: {
+          code: "validation_error",
+          message: "Please fix the highlighted fields.",
+          fields: result.fields,
+        },
+      },
+      422,
+    );
+  }
+
+  // Only submissions that pass validation count against the inquiry limit
+  const rl = rateLimit(acceptedKey, RATE_LIMIT);
+  if (!rl.allowed) return rateLimited(rl.retryAfter);
+
+  try {
+    const lead = await saveLead(result.data, {
+      ip,
+      userAgent: req.headers.get("user-agent") ?? undefined,
+    });
+    return reply({ ok: true, id: lead.id }, 201);
+  } catch (e) {
+    console.error("[api/contact] failed to store lead", e);
+    return reply(
+      {
+        ok: false,
+        error: {
+          code: "storage_error",
+          message: "We couldn’t send your message. Please try again shortly.",
+        },
+      },
+      500,
+    );
+  }
+}
@@ -0,0 +1,13 @@
+import { NextRequest } from "next/server";
+import { draftMode } from "next/headers";
+import { redirect } from "next/navigation";
+import { previewPath } from "@/lib/preview";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/** GET /api/preview/exit?path=… — turns draft mode off and goes back. */
+export async function GET(req: NextRequest) {
+  (await draftMode()).disable();
+  redirect(previewPath(req.nextUrl.searchParams.get("path")) ?? "/");
+}
@@ -0,0 +1,36 @@
+import { NextRequest } from "next/server";
+import { draftMode } from "next/headers";
+import { redirect } from "next/navigation";
+import { clientIp, rateLimit } from "@/lib/leads";
+import { previewPath, previewTokenValid } from "@/lib/preview";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// Tokens are long; this only slows down guessing.
+const RATE_LIMIT = { limit: 20, windowMs: 10 * 60_000 };
+
+function reply(code: string, message: string, status: number) {
+  return Response.json(
+    { ok: false, error: { code, message } },
+    { status, headers: { "Cache-Control": "no-store" } },
+  );
+}
+
+/**
+ * GET /api/preview?token=…&path=/citizenship/grenada/ntf — enables draft
+ * mode (a cookie scoped to this browser) and redirects to `path`.
+ */
+export async function GET(req: NextRequest) {
+  const rl = rateLimit(`preview:${clientIp(req.headers)}`, RATE_LIMIT);
+  if (!rl.allowed) return reply("rate_limited", "Too many attempts.", 429);
+
+  const sp = req.nextUrl.searchParams;
+  if (!previewTokenValid(sp.get("token")))
+    return reply("unauthorized", "Invalid preview token.", 401);
+  const path = previewPath(sp.get("path") ?? "/");
+  if (!path) return reply("validation_error", "path must be a site path.", 400);
+
+  (await draftMode()).enable();
+  redirect(path);
+}
@@ -0,0 +1,78 @@
+import { NextRequest } from "next/server";
+import { clientIp, rateLimit } from "@/lib/leads";
+import { recordClientEvent, validateSearchEvent } from "@/lib/search/analytics";
+import type { ApiSearchEventResponse } from "@/types/search";
+
+export const runtime = "nodejs"; // default store appends to a local file
+export const dynamic = "force-dynamic";
+
+// Generous: one typing session yields a handful of settled queries + clicks.
+const RATE_LIMIT = { limit: 120, windowMs: 10 * 60_000 };
+const MAX_BODY_BYTES = 2 * 1024;
+
+function reply(
+  body: ApiSearchEventResponse,
+  status = 200,
+  headers?: HeadersInit,
+) {
+  return Response.json(body, {
+    status,
+    headers: { "Cache-Control": "no-store", ...headers },
+  });
+}
+
+/**
+ * POST /api/search/events — GlobalSearch reports settled queries
+ * ({ kind: "search", id, query, results }) and result clicks
+ * ({ kind: "click", searchId?, query, position, url }) via sendBeacon.
+ * The client IP is used for rate limiting only and never stored.
+ */
+export async function POST(req: NextRequest) {
+  const rl = rateLimit(`search-events:${clientIp(req.headers)}`, RATE_LIMIT);
+  if (!rl.allowed) {
+    return reply(
+      {
+        ok: false,
+        error: {
+          code: "rate_limited",
+          message: "Too many events.",
+          retryAfter: rl.retryAfter,
+        },
+      },
+      429,
+      { "Retry-After": String(rl.retryAfter) },
+    );
+  }
+
+  let body: Record<string, unknown>;
+  try {
+    const raw = await req.text();
+    if (raw.length > MAX_BODY_BYTES) throw new Error("payload too large");
+    const parsed = JSON.parse(raw);
+    if (!parsed || typeof parsed !== "object" || Array.isArray(parsed))
+      throw new Error("expected an object");
+    body = parsed as Record<string, unknown>;
+  } catch {
+    return reply(
+      {
+        ok: false,
+        error: { code: "invalid_json", message: "Malformed request body." },
+      },
+      400,
+    );
+  }
+
+  const result = validateSearchEvent(body);
+  if (!result.ok) {
+    return reply(
+      {
+        ok: false,
+        error: { code: "validation_error", message: result.message },
+      },
+      422,
+    );
+  }
+
+  await recordClientEvent(result.data);
+  return reply({ ok: true }, 202);
+}
@@ -0,0 +1,71 @@
+import { NextRequest } from "next/server";
+import { getProgramRounds } from "@/lib/skilled-content";
+import type { ApiRoundsResponse, RoundsErrorCode } from "@/types/rounds";
+
+export const runtime = "nodejs"; // reads content/ from disk
+export const dynamic = "force-dynamic";
+
+const SLUG = /^[a-z0-9-]+$/;
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+function reply(body: ApiRoundsResponse, status = 200) {
+  return Response.json(body, {
+    status,
+    headers: {
+      "Cache-Control":
+        status === 200
+          ? "public, s-maxage=3600, stale-while-revalidate=86400"
+          : "no-store",
+    },
+  });
+}
+
+const fail = (code: RoundsErrorCode, message: string, status: number) =>
+  reply({ ok: false, error: { code, message } }, status);
+
+/**
+ * GET /api/skilled/rounds?country=canada&program=express-entry
+ *   [&category=Canadian Experience Class][&since=2025-01-01][&limit=20]
+ * Invitation round history for a skilled program, newest first.
+ */
+export async function GET(req: NextRequest) {
+  const q = req.nextUrl.searchParams;
+  const country = q.get("country") ?? "";
+  const program = q.get("program") ?? "";
+  const category = q.get("category") ?? undefined;
+  const since = q.get("since") ?? undefined;
+  const limit = q.has("limit") ? Number(q.get("limit")) : undefined;
+
+  if (!SLUG.test(country) || !SLUG.test(program))
+    return fail(
+      "invalid_query",
+      "`country` and `program` slugs are required.",
+      400,
+    );
+  if (since !== undefined && !ISO_DATE.test(since))
+    return fail(
+      "invalid_query",
+      "`since` must be an ISO date (YYYY-MM-DD).",
+      400,
+    );
+  if (limit !== undefined && (!Number.isInteger(limit) || limit < 1))
+    return fail("invalid_query", "`limit` must be a positive integer.", 400);
+
+  const history = getProgramRounds(country, program);
+  if (!history)
+    return fail(
+      "not_found",
+      `No round history for ${country}/${program}.`,
+      404,
+    );
+
+  const categories = [
+    ...new Set(history.rounds.map((r) => r.category).filter(Boolean)),
+  ] as string[];
+  const rounds = history.rounds
+    .filter((r) => !category || r.category === category)
+    .filter((r) => !since || r.date >= since)
+    .slice(0, limit);
+
+  return reply({ ok: true, history: { ...history, rounds }, categories });
+}
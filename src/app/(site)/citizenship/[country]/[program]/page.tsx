@@ -1,7 +1,7 @@
 // app/(site)/citizenship/[country]/[program]/page.tsx
 import type { Metadata } from "next";
 import Link from "next/link";
-import { notFound } from "next/navigation";
+import { notFound, unstable_rethrow } from "next/navigation";
 import * as React from "react";
 
 import {
@@ -9,14 +9,25 @@ import {
   getCitizenshipPrograms,
   loadProgramPageSections,
 } from "@/lib/citizenship-content";
+import { assertPublished } from "@/lib/preview";
+import { getProgramHistory } from "@/lib/content/history";
+import { pageTranslations } from "@/lib/content/localize";
+import { localeAlternates, toLocale } from "@/lib/i18n/config";
+import { citationLd } from "@/lib/content/citations";
 import MediaHero from "@/components/Residency/MediaHero";
 import QuickFacts from "@/components/Residency/QuickFacts";
 import ProcessTimeline from "@/components/Residency/ProcessTimeline";
 import FAQAccordion from "@/components/Residency/FAQAccordion";
 import { JsonLd, breadcrumbLd, faqLd } from "@/lib/seo";
 import ContactForm from "@/components/ContactForm";
+import LeadTracker from "@/components/Leads/LeadTracker";
 import ProgramQuickNav from "@/components/Residency/ProgramQuickNav";
 import Breadcrumb from "@/components/Common/Breadcrumb";
+import ArchivedNotice from "@/components/Common/ArchivedNotice";
+import FreshnessBadge from "@/components/Common/FreshnessBadge";
+import LocaleSwitcher from "@/components/Common/LocaleSwitcher";
+import { CitedList } from "@/components/Common/Citations";
+import WhatChanged from "@/components/Residency/WhatChanged";
 import { Prose } from "@/components/ui/Prose";
 import EligibilityQuickCheck from "@/components/Residency/EligibilityQuickCheck";
 import SocialProof from "@/components/Residency/SocialProof";
@@ -25,6 +36,7 @@ import Prices from "@/components/Residency/Prices";
 /* Citizenship-only new components */
 import RiskCompliance from "@/components/Citizenship/RiskCompliance";
 import CostCalculator from "@/components/Citizenship/CostCalculator";
+import { feeRowsFor } from "@/lib/fees";
 import DocumentChecklist from "@/components/Citizenship/DocumentChecklist";
 import FamilyMatrix from "@/components/Citizenship/FamilyMatrix";
 import AdvisorConsultationCard from "@/components/Citizenship/AdvisorConsultationCard";
@@ -48,13 +60,15 @@ export async function generateStaticParams() {
 
 /** SEO metadata */
 export async function generateMetadata(props: {
-  params: Promise<{ country: string; program: string }>;
+  params: Promise<{ locale?: string; country: string; program: string }>;
 }): Promise<Metadata> {
   const params = await props.params;
+  const locale = toLocale(params.locale);
   try {
     const { meta } = await loadProgramPageSections(
       params.country,
       params.program,
+      locale,
     );
     const heroImage = (meta as any).heroImage as string | undefined;
     const title = (meta as any).seo?.title ?? meta.title;
@@ -62,18 +76,21 @@ export async function generateMetadata(props: {
     const tags: string[] = (meta as any).tags ?? [];
     const keywords =
       (meta as any).seo?.keywords ?? [title, meta.country, ...tags].join(", ");
+    const alternates = localeAlternates(
+      `/citizenship/${params.country}/${params.program}`,
+      locale,
+      pageTranslations("citizenship", params.country, params.program),
+    );
     return {
       title,
       description,
       keywords,
-      alternates: {
-        canonical: `/citizenship/${params.country}/${params.program}`,
-      },
+      alternates,
       openGraph: {
         title,
         description,
         type: "article",
-        url: `/citizenship/${params.country}/${params.program}`,
+        url: alternates.canonical,
         images: [heroImage ?? "/og.jpg"],
       },
       twitter: {
@@ -112,14 +129,24 @@ function similarityScore(
 
 /** Page */
 export default async function ProgramPage(props: {
-  params: Promise<{ country: string; program: string }>;
+  params: Promise<{ locale?: string; country: string; program: string }>;
 }) {
   const params = await props.params;
+  const locale = toLocale(params.locale);
   try {
     const { meta, sections } = await loadProgramPageSections(
       params.country,
       params.program,
+      locale,
+    );
+    await assertPublished(meta);
+    const history = getProgramHistory(
+      "citizenship",
+      params.country,
+      params.program,
+      meta.changelog,
     );
+    const sources = meta.sources;
 
     const videoSrc = (meta as any).heroVideo as string | undefined;
     const poster = (meta as any).heroPoster as string | undefined;
@@ -280,7 +307,8 @@ export default async function ProgramPage(props: {
     const hasComparison = !!sections[mdxKey.comparison];
     const hasWhyCountry = !!sections[mdxKey.whyCountry];
     const hasProjects = !!projectList?.length;
-    const hasEstimator = !!(meta as any).costEstimator?.baseOptions?.length;
+    const feeRows = feeRowsFor(meta);
+    const hasEstimator = feeRows.some((r) => typeof r.amount === "number");
     const hasFAQ = !!(meta as any).faq?.length;
     const hasOther = otherPrograms.length > 0;
     const hasRelated = relatedPrograms.length > 0;
@@ -319,6 +347,9 @@ export default async function ProgramPage(props: {
       ...(disqualifiers.length
         ? [{ id: "not-a-fit", label: "Not a fit?" }]
         : []),
+      ...(history.length
+        ? [{ id: "what-changed", label: "What changed" }]
+        : []),
       ...(hasFAQ ? [{ id: "faq", label: "FAQ" }] : []),
       ...(hasOther ? [{ id: "other-programs", label: "Other programs" }] : []),
       ...(hasRelated ? [{ id: "related", label: "Related" }] : []),
@@ -372,6 +403,7 @@ export default async function ProgramPage(props: {
       name: meta.title,
       url: `https://yourdomain.com/citizenship/${params.country}/${params.program}`,
       mainEntity: howToLdData ? { "@id": "#application-howto" } : undefined,
+      citation: sources?.length ? citationLd(sources) : undefined,
     };
 
     return (
@@ -379,6 +411,15 @@ export default async function ProgramPage(props: {
         className="relative container mx-auto px-4 sm:px-6 lg:px-8 pb-24 text-black dark:text-white "
         style={{ scrollBehavior: "smooth" } as React.CSSProperties}
       >
+        <LeadTracker
+          program={{
+            vertical: "citizenship",
+            country: params.country,
+            program: params.program,
+            title: (meta as any).title,
+          }}
+        />
+
         {/* JSON-LD */}
         <JsonLd
           data={breadcrumbLd([
@@ -423,7 +464,24 @@ export default async function ProgramPage(props: {
             />
           </div>
           <Breadcrumb />
+          <LocaleSwitcher
+            path={`/citizenship/${params.country}/${params.program}`}
+            locale={locale}
+            available={pageTranslations(
+              "citizenship",
+              params.country,
+              params.program,
+            )}
+            className="container mx-auto px-4"
+          />
         </div>
+        <ArchivedNotice meta={meta} locale={locale} className="mt-4" />
+        <FreshnessBadge
+          vertical="citizenship"
+          meta={meta as any}
+          locale={locale}
+          className="mt-4"
+        />
         {/* IN-PAGE QUICK NAV (now strictly matches on-page order) */}
         <ProgramQuickNav sections={sectionsForNav} />
         {/* BODY */}
@@ -614,6 +672,7 @@ export default async function ProgramPage(props: {
                     items={prices ?? []}
                     proofOfFunds={proofOfFunds ?? []}
                     defaultCurrency={(meta as any).currency}
+                    sources={sources}
                   />
                 </div>
               </section>
@@ -623,6 +682,7 @@ export default async function ProgramPage(props: {
               <GovernmentFees
                 fees={governmentFees}
                 defaultCurrency={(meta as any).currency || "USD"}
+                sources={sources}
               />
             ) : null}
 
@@ -643,11 +703,12 @@ export default async function ProgramPage(props: {
                         Eligibility
                       </h2>
                     </header>
-                    <ul className="list-disc pl-5 space-y-2 text-[15px] leading-7">
-                      {(meta as any).requirements.map((r: string) => (
-                        <li key={r}>{r}</li>
-                      ))}
-                    </ul>
+                    <CitedList
+                      items={(meta as any).requirements}
+                      sources={sources}
+                      scope="requirements"
+                      className="list-disc pl-5 space-y-2 text-[15px] leading-7"
+                    />
                   </section>
                 ) : null}
 
@@ -703,6 +764,7 @@ export default async function ProgramPage(props: {
                 <RiskCompliance
                   riskNotes={riskNotes ?? []}
                   complianceNotes={complianceNotes ?? []}
+                  sources={sources}
                 />
               </section>
             ) : null}
@@ -810,11 +872,8 @@ export default async function ProgramPage(props: {
                 </header>
                 <CostCalculator
                   currency={(meta as any).currency || "USD"}
-                  baseOptions={(meta as any).costEstimator.baseOptions}
-                  defaultBaseId={(meta as any).costEstimator.defaultBaseId}
-                  adults={(meta as any).costEstimator.adults ?? 2}
-                  children={(meta as any).costEstimator.children ?? 0}
-                  addons={(meta as any).costEstimator.addons ?? []}
+                  rows={feeRows}
+                  adults={meta.costEstimator?.adults ?? 2}
                 />
               </section>
             ) : null}
@@ -848,6 +907,13 @@ export default async function ProgramPage(props: {
               </section>
             ) : null}
 
+            {/* WHAT CHANGED */}
+            {history.length ? (
+              <section id="what-changed" className="scroll-mt-28">
+                <WhatChanged history={history} locale={locale} />
+              </section>
+            ) : null}
+
             {/* FAQ */}
             {hasFAQ ? (
               <section id="faq" className="scroll-mt-28">
@@ -1008,6 +1074,15 @@ export default async function ProgramPage(props: {
             {/* ADVISOR SPOTLIGHT (component) */}
             <section id="advisor" className="scroll-mt-28">
               <AdvisorConsultationCard
+                programEstimate={
+                  hasEstimator
+                    ? {
+                        rows: feeRows,
+                        currency: (meta as any).currency || "USD",
+                        href: "#cost-estimator",
+                      }
+                    : undefined
+                }
                 advisorName="Varun Singh"
                 role="CBI & RBI - MD XIPHIAS"
                 avatarSrc="/images/avtar/varun-singh.png"
@@ -1072,6 +1147,8 @@ export default async function ProgramPage(props: {
       </main>
     );
   } catch (e) {
+    // Draft/scheduled 404s (assertPublished) are expected, not load errors
+    unstable_rethrow(e);
     console.error("[Citizenship ProgramPage] load error", e);
     notFound();
   }
@@ -8,10 +8,14 @@ import {
   getCountryFrontmatter,
   getCitizenshipCountries,
 } from "@/lib/citizenship-content";
+import { assertPublished } from "@/lib/preview";
+import { pageTranslations } from "@/lib/content/localize";
+import { localeAlternates, toLocale } from "@/lib/i18n/config";
 import { JsonLd, breadcrumbLd } from "@/lib/seo";
 import MediaHero from "@/components/Residency/MediaHero";
 import ContactForm from "@/components/ContactForm";
 import Breadcrumb from "@/components/Common/Breadcrumb";
+import LocaleSwitcher from "@/components/Common/LocaleSwitcher";
 
 /* Shared modular sections */
 import SidebarStatsPanel from "@/components/Residency/Country/SidebarStatsPanel";
@@ -38,10 +42,11 @@ export async function generateStaticParams() {
 
 /** SEO */
 export async function generateMetadata(props: {
-  params: Promise<{ country: string }>;
+  params: Promise<{ locale?: string; country: string }>;
 }): Promise<Metadata> {
   const params = await props.params;
-  const meta = getCountryFrontmatter(params.country);
+  const locale = toLocale(params.locale);
+  const meta = getCountryFrontmatter(params.country, locale);
   const heroImage = (meta as any).heroImage as string | undefined;
   const title = (meta as any).seo?.title ?? meta.title;
   const description = (meta as any).seo?.description ?? meta.summary;
@@ -51,7 +56,11 @@ export async function generateMetadata(props: {
     title,
     description,
     keywords,
-    alternates: { canonical: `/citizenship/${params.country}` },
+    alternates: localeAlternates(
+      `/citizenship/${params.country}`,
+      locale,
+      pageTranslations("citizenship", params.country),
+    ),
     openGraph: { title, description, images: [heroImage ?? "/og.jpg"] },
     twitter: {
       card: "summary_large_image",
@@ -77,10 +86,12 @@ export async function generateMetadata(props: {
 
 /** Page */
 export default async function CountryPage(props: {
-  params: Promise<{ country: string }>;
+  params: Promise<{ locale?: string; country: string }>;
 }) {
   const params = await props.params;
-  const { meta, content } = await loadCountryPage(params.country);
+  const locale = toLocale(params.locale);
+  const { meta, content } = await loadCountryPage(params.country, locale);
+  await assertPublished(meta);
   const programs = getCitizenshipPrograms(params.country);
 
   // Hero media
@@ -158,6 +169,12 @@ export default async function CountryPage(props: {
 
       <div className="mt-3">
         <Breadcrumb />
+        <LocaleSwitcher
+          path={`/citizenship/${params.country}`}
+          locale={locale}
+          available={pageTranslations("citizenship", params.country)}
+          className="container mx-auto px-4"
+        />
       </div>
 
       {/* LAYOUT */}
@@ -191,7 +208,10 @@ export default async function CountryPage(props: {
           />
           <WhyCountrySection country={meta.country} points={keyPoints} />
           <ProcessSteps steps={applicationProcess} />
-          <EligibilityRequirements items={requirements} />
+          <EligibilityRequirements
+            items={requirements}
+            sources={(meta as any).sources}
+          />
           <FAQSection faqs={faq} />
           <MDXDetailsSection country={meta.country} content={content} />
           <div id="contact" className="md:hidden">
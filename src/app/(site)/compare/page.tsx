@@ -0,0 +1,187 @@
+// src/app/(site)/compare/page.tsx
+import type { Metadata } from "next";
+import Link from "next/link";
+import { redirect } from "next/navigation";
+import {
+  buildCompareMatrix,
+  COMPARE_HOUSEHOLD,
+  compareHref,
+  listComparablePrograms,
+  loadComparedPrograms,
+  MAX_COMPARE_ITEMS,
+  parseCompareItems,
+  refId,
+} from "@/lib/compare";
+import { describeRates, RATES_SNAPSHOT, toCurrencyCode } from "@/lib/currency";
+import { CURRENCY_CODES } from "@/lib/content/schema";
+import { describeHousehold } from "@/lib/fees";
+import CompareMatrix from "@/components/Compare/CompareMatrix";
+import ShareBar from "@/components/Insights/ShareBar";
+
+export const dynamic = "force-dynamic";
+
+type SearchParams = {
+  items?: string | string[];
+  currency?: string;
+  add?: string;
+};
+
+export async function generateMetadata(props: {
+  searchParams: Promise<SearchParams>;
+}): Promise<Metadata> {
+  const sp = await props.searchParams;
+  const { programs } = loadComparedPrograms(parseCompareItems(sp.items));
+  const names = programs.map((p) => `${p.country} ${p.title}`);
+  return {
+    title: names.length
+      ? `Compare: ${names.join(" vs ")}`
+      : "Compare programs – Citizenship, Residency & Skilled routes",
+    description:
+      "Side-by-side comparison of investment, fees, proof of funds, dependents and timelines across programs.",
+    alternates: { canonical: "/compare" },
+    // Every combination is a distinct URL — keep them out of the index.
+    robots: { index: false, follow: true },
+  };
+}
+
+export default async function ComparePage(props: {
+  searchParams: Promise<SearchParams>;
+}) {
+  const sp = await props.searchParams;
+  const refs = parseCompareItems(sp.items);
+  const currency = toCurrencyCode(sp.currency);
+
+  // "Add a program" form submits ?add=…; fold it in and canonicalise the URL.
+  if (sp.add) {
+    redirect(
+      compareHref(parseCompareItems([...refs.map(refId), sp.add]), currency),
+    );
+  }
+
+  const { programs, missing } = loadComparedPrograms(refs);
+  const rows = buildCompareMatrix(programs, currency);
+  const shareHref = compareHref(
+    programs.map((p) => p.ref),
+    currency,
+  );
+
+  const options = listComparablePrograms().filter(
+    (o) => !programs.some((p) => p.id === o.id),
+  );
+
+  return (
+    <main className="mx-auto max-w-screen-xl space-y-6 px-4 py-10 text-black dark:text-white">
+      <header className="space-y-2">
+        <h1 className="text-3xl font-semibold">Compare programs</h1>
+        <p className="max-w-2xl text-sm text-zinc-600 dark:text-zinc-300">
+          Line up citizenship, residency and skilled routes side by side.
+          Amounts are converted to {currency} at{" "}
+          <time dateTime={RATES_SNAPSHOT.asOf}>{describeRates()}</time>; the
+          original figure is shown underneath where it differs. Totals apply
+          each program&apos;s per-person rules to a household of{" "}
+          {describeHousehold(COMPARE_HOUSEHOLD)}.
+        </p>
+      </header>
+
+      <div className="flex flex-wrap items-end gap-4">
+        <nav aria-label="Display currency" className="flex flex-wrap gap-1.5">
+          {CURRENCY_CODES.map((c) => (
+            <Link
+              key={c}
+              href={compareHref(
+                programs.map((p) => p.ref),
+                c,
+              )}
+              aria-current={c === currency ? "true" : undefined}
+              className={[
+                "rounded-full px-3 py-1 text-xs ring-1",
+                c === currency
+                  ? "bg-blue-600 text-white ring-blue-700/20"
+                  : "ring-blue-200 hover:bg-blue-50 dark:ring-blue-900/40 dark:hover:bg-blue-950/20",
+              ].join(" ")}
+            >
+              {c}
+            </Link>
+          ))}
+        </nav>
+
+        {programs.length < MAX_COMPARE_ITEMS && options.length ? (
+          <form method="get" action="/compare" className="flex gap-2">
+            <input
+              type="hidden"
+              name="items"
+              value={programs.map((p) => p.id).join(",")}
+            />
+            <input type="hidden" name="currency" value={currency} />
+            <label htmlFor="compare-add" className="sr-only">
+              Add a program
+            </label>
+            <select
+              id="compare-add"
+              name="add"
+              required
+              defaultValue=""
+              className="rounded-xl bg-white px-3 py-1.5 text-sm ring-1 ring-blue-200 dark:bg-white/5 dark:ring-blue-900/40"
+            >
+              <option value="" disabled>
+                Add a program…
+              </option>
+              {options.map((o) => (
+                <option key={o.id} value={o.id}>
+                  {o.label} ({o.vertical})
+                </option>
+              ))}
+            </select>
+            <button
+              type="submit"
+              className="rounded-xl bg-blue-600 px-3 py-1.5 text-sm text-white ring-1 ring-blue-700/20 hover:bg-blue-700"
+            >
+              Add
+            </button>
+          </form>
+        ) : null}
+
+        {programs.length > 1 ? (
+          <ShareBar
+            title="Program comparison"
+            url={shareHref}
+            size="sm"
+            className="ml-auto"
+          />
+        ) : null}
+      </div>
+
+      {missing.length ? (
+        <p
+          role="status"
+          className="rounded-xl bg-amber-50 px-4 py-2 text-sm text-amber-800 ring-1 ring-amber-200 dark:bg-amber-950/30 dark:text-amber-200 dark:ring-amber-900/50"
+        >
+          Not found and skipped: {missing.join(", ")}
+        </p>
+      ) : null}
+
+      {programs.length ? (
+        <CompareMatrix
+          programs={programs}
+          rows={rows}
+          removeHref={(id) =>
+            compareHref(
+              programs.filter((p) => p.id !== id).map((p) => p.ref),
+              currency,
+            )
+          }
+        />
+      ) : (
+        <p className="rounded-2xl p-6 text-sm text-zinc-600 ring-1 ring-blue-100/80 dark:text-zinc-300 dark:ring-blue-900/40">
+          Pick up to {MAX_COMPARE_ITEMS} programs above to compare them side by
+          side.
+        </p>
+      )}
+
+      <p className="text-xs text-zinc-500">
+        Figures are indicative and subject to due diligence outcomes and
+        government updates.
+      </p>
+    </main>
+  );
+}
@@ -1,6 +1,6 @@
 import type { Metadata } from "next";
 import Link from "next/link";
-import { notFound } from "next/navigation";
+import { notFound, unstable_rethrow } from "next/navigation";
 import * as React from "react";
 
 import {
@@ -8,6 +8,11 @@ import {
   getCorporatePrograms,
   loadProgramPageSections,
 } from "@/lib/corporate-content";
+import { assertPublished } from "@/lib/preview";
+import { getProgramHistory } from "@/lib/content/history";
+import { pageTranslations } from "@/lib/content/localize";
+import { localeAlternates, toLocale } from "@/lib/i18n/config";
+import { citationLd } from "@/lib/content/citations";
 
 import MediaHero from "@/components/Residency/MediaHero";
 import QuickFacts from "@/components/Residency/QuickFacts";
@@ -15,8 +20,14 @@ import ProcessTimeline from "@/components/Residency/ProcessTimeline";
 import FAQAccordion from "@/components/Residency/FAQAccordion";
 import { JsonLd, breadcrumbLd, faqLd } from "@/lib/seo";
 import ContactForm from "@/components/ContactForm";
+import LeadTracker from "@/components/Leads/LeadTracker";
 import ProgramQuickNav from "@/components/Residency/ProgramQuickNav";
 import Breadcrumb from "@/components/Common/Breadcrumb";
+import ArchivedNotice from "@/components/Common/ArchivedNotice";
+import FreshnessBadge from "@/components/Common/FreshnessBadge";
+import LocaleSwitcher from "@/components/Common/LocaleSwitcher";
+import { CitedList } from "@/components/Common/Citations";
+import WhatChanged from "@/components/Residency/WhatChanged";
 import { Prose } from "@/components/ui/Prose";
 import EligibilityQuickCheck from "@/components/Residency/EligibilityQuickCheck";
 import SocialProof from "@/components/Residency/SocialProof";
@@ -39,13 +50,15 @@ export async function generateStaticParams() {
 
 /** SEO metadata */
 export async function generateMetadata(props: {
-  params: Promise<{ country: string; program: string }>;
+  params: Promise<{ locale?: string; country: string; program: string }>;
 }): Promise<Metadata> {
   const params = await props.params;
+  const locale = toLocale(params.locale);
   try {
     const { meta } = await loadProgramPageSections(
       params.country,
       params.program,
+      locale,
     );
     const heroImage = (meta as any).heroImage as string | undefined;
     const title = (meta as any).seo?.title ?? meta.title;
@@ -53,18 +66,21 @@ export async function generateMetadata(props: {
     const tags: string[] = (meta as any).tags ?? [];
     const keywords =
       (meta as any).seo?.keywords ?? [title, meta.country, ...tags].join(", ");
+    const alternates = localeAlternates(
+      `/corporate/${params.country}/${params.program}`,
+      locale,
+      pageTranslations("corporate", params.country, params.program),
+    );
     return {
       title,
       description,
       keywords,
-      alternates: {
-        canonical: `/corporate/${params.country}/${params.program}`,
-      },
+      alternates,
       openGraph: {
         title,
         description,
         type: "article",
-        url: `/corporate/${params.country}/${params.program}`,
+        url: alternates.canonical,
         images: [heroImage ?? "/og.jpg"],
       },
       twitter: {
@@ -111,14 +127,24 @@ function similarityScore(
 
 /** Page */
 export default async function ProgramPage(props: {
-  params: Promise<{ country: string; program: string }>;
+  params: Promise<{ locale?: string; country: string; program: string }>;
 }) {
   const params = await props.params;
+  const locale = toLocale(params.locale);
   try {
     const { meta, sections } = await loadProgramPageSections(
       params.country,
       params.program,
+      locale,
+    );
+    await assertPublished(meta);
+    const history = getProgramHistory(
+      "corporate",
+      params.country,
+      params.program,
+      meta.changelog,
     );
+    const sources = meta.sources;
 
     const videoSrc = (meta as any).heroVideo as string | undefined;
     const poster = (meta as any).heroPoster as string | undefined;
@@ -251,6 +277,9 @@ export default async function ProgramPage(props: {
       ...(sections[whyKey]
         ? [{ id: "why-country", label: `Why ${meta.country}` }]
         : []),
+      ...(history.length
+        ? [{ id: "what-changed", label: "What changed" }]
+        : []),
       { id: "faq", label: "FAQ" },
       ...(disqualifiers.length
         ? [{ id: "not-a-fit", label: "Not a fit?" }]
@@ -308,6 +337,7 @@ export default async function ProgramPage(props: {
       name: meta.title,
       url: `https://yourdomain.com/corporate/${params.country}/${params.program}`,
       mainEntity: howToLdData ? { "@id": "#application-howto" } : undefined,
+      citation: sources?.length ? citationLd(sources) : undefined,
     };
 
     return (
@@ -319,6 +349,15 @@ export default async function ProgramPage(props: {
         "
         style={{ scrollBehavior: "smooth" } as React.CSSProperties}
       >
+        <LeadTracker
+          program={{
+            vertical: "corporate",
+            country: params.country,
+            program: params.program,
+            title: (meta as any).title,
+          }}
+        />
+
         {/* JSON-LD */}
         <JsonLd
           data={breadcrumbLd([
@@ -378,7 +417,24 @@ export default async function ProgramPage(props: {
             />
           </div>
           <Breadcrumb />
+          <LocaleSwitcher
+            path={`/corporate/${params.country}/${params.program}`}
+            locale={locale}
+            available={pageTranslations(
+              "corporate",
+              params.country,
+              params.program,
+            )}
+            className="container mx-auto px-4"
+          />
         </div>
+        <ArchivedNotice meta={meta} locale={locale} className="mt-4" />
+        <FreshnessBadge
+          vertical="corporate"
+          meta={meta as any}
+          locale={locale}
+          className="mt-4"
+        />
         {/* IN-PAGE QUICK NAV */}
         <ProgramQuickNav sections={sectionsForNav} />
         {/* BODY */}
@@ -438,6 +494,7 @@ export default async function ProgramPage(props: {
                     items={prices ?? []}
                     proofOfFunds={proofOfFunds ?? []}
                     defaultCurrency={(meta as any).currency}
+                    sources={sources}
                   />
                 </div>
               </section>
@@ -452,11 +509,12 @@ export default async function ProgramPage(props: {
                 <header className="mb-3">
                   <h2 className="text-xl font-semibold">Eligibility</h2>
                 </header>
-                <ul className="list-disc pl-5 space-y-2 text-[15px] leading-7">
-                  {(meta as any).requirements.map((r: string) => (
-                    <li key={r}>{r}</li>
-                  ))}
-                </ul>
+                <CitedList
+                  items={(meta as any).requirements}
+                  sources={sources}
+                  scope="requirements"
+                  className="list-disc pl-5 space-y-2 text-[15px] leading-7"
+                />
               </section>
             ) : null}
 
@@ -536,6 +594,13 @@ export default async function ProgramPage(props: {
               </section>
             ) : null}
 
+            {/* WHAT CHANGED */}
+            {history.length ? (
+              <section id="what-changed" className="scroll-mt-28">
+                <WhatChanged history={history} locale={locale} />
+              </section>
+            ) : null}
+
             {/* FAQ */}
             {(meta as any).faq?.length ? (
               <section id="faq" className="scroll-mt-28">
@@ -738,6 +803,8 @@ export default async function ProgramPage(props: {
       </main>
     );
   } catch (e) {
+    // Draft/scheduled 404s (assertPublished) are expected, not load errors
+    unstable_rethrow(e);
     console.error("[Corporate ProgramPage] load error", e);
     notFound();
   }
@@ -0,0 +1,58 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { isVertical } from "@/lib/content/programs";
+import {
+  listEligibilityVerticals,
+  loadEligibilitySchema,
+} from "@/lib/eligibility/load";
+import EligibilityWizard from "../components/EligibilityWizard";
+
+type Params = { vertical: string };
+
+export const dynamicParams = false;
+
+export function generateStaticParams(): Params[] {
+  return listEligibilityVerticals().map((vertical) => ({ vertical }));
+}
+
+export async function generateMetadata(props: {
+  params: Promise<Params>;
+}): Promise<Metadata> {
+  const { vertical } = await props.params;
+  const loaded = isVertical(vertical) ? loadEligibilitySchema(vertical) : null;
+  if (!loaded) return {};
+  return {
+    title: loaded.schema.title,
+    description: loaded.schema.description,
+    alternates: { canonical: `/eligibility/${vertical}` },
+  };
+}
+
+export default async function EligibilityVerticalPage(props: {
+  params: Promise<Params>;
+}) {
+  const { vertical } = await props.params;
+  const loaded = isVertical(vertical) ? loadEligibilitySchema(vertical) : null;
+  if (!loaded) notFound();
+  const { schema, catalog } = loaded;
+
+  return (
+    <main className="mx-auto max-w-3xl p-6 space-y-6">
+      <nav className="text-sm">
+        <Link href="/eligibility" className="text-blue-600 hover:underline">
+          ← All eligibility checks
+        </Link>
+      </nav>
+      <header className="space-y-1">
+        <h1 className="text-3xl font-semibold">{schema.title}</h1>
+        {schema.description ? (
+          <p className="text-neutral-600 dark:text-neutral-300">
+            {schema.description}
+          </p>
+        ) : null}
+      </header>
+      <EligibilityWizard schema={schema} catalog={catalog} />
+    </main>
+  );
+}
@@ -1,171 +1,341 @@
 "use client";
 import React from "react";
+import Link from "next/link";
+import {
+  evaluateSchema,
+  missingFields,
+  resolveVisibility,
+} from "@/lib/eligibility/engine";
+import type {
+  Answers,
+  CatalogProgram,
+  EligibilityBand,
+  EligibilityField,
+  EligibilitySchema,
+} from "@/lib/eligibility/types";
 
-type Field =
-  | { id: string; label: string; type: "text" | "number"; required?: boolean }
-  | { id: string; label: string; type: "boolean"; required?: boolean }
-  | {
-      id: string;
-      label: string;
-      type: "select";
-      options: string[];
-      required?: boolean;
-    };
-
-type Step = { id: string; title: string; fields: Field[] };
-type Rule = {
-  if: Partial<{
-    age_lt: number;
-    english_gte: number;
-    liquid_funds_gte: number;
-    education_in: string[];
-    willing_invest: boolean;
-  }>;
-  add: number;
-};
-type Band = { min: number; label: string; color: string };
-type Recommendation = {
-  when_min: number;
-  programs: [string, string, string][];
-};
-type Schema = {
-  title: string;
-  steps: Step[];
-  scoring: Rule[];
-  bands: Band[];
-  recommendations: Recommendation[];
+const TONE: Record<EligibilityBand["tone"], string> = {
+  green:
+    "bg-emerald-50 text-emerald-800 ring-emerald-200 dark:bg-emerald-950/30 dark:text-emerald-200 dark:ring-emerald-900/50",
+  amber:
+    "bg-amber-50 text-amber-800 ring-amber-200 dark:bg-amber-950/30 dark:text-amber-200 dark:ring-amber-900/50",
+  red: "bg-rose-50 text-rose-800 ring-rose-200 dark:bg-rose-950/30 dark:text-rose-200 dark:ring-rose-900/50",
 };
 
-export default function EligibilityWizard({ schema }: { schema: Schema }) {
+export default function EligibilityWizard({
+  schema,
+  catalog,
+}: {
+  schema: EligibilitySchema;
+  catalog: CatalogProgram[];
+}) {
+  const storageKey = `eligibility:${schema.vertical}`;
+  const [values, setValues] = React.useState<Answers>({});
   const [stepIdx, setStepIdx] = React.useState(0);
-  const [values, setValues] = React.useState<Record<string, any>>({});
-  const step = schema.steps[stepIdx];
+  const [done, setDone] = React.useState(false);
+  const [showErrors, setShowErrors] = React.useState(false);
+
+  // restore answers for this session
+  React.useEffect(() => {
+    try {
+      const raw = sessionStorage.getItem(storageKey);
+      if (raw) setValues(JSON.parse(raw));
+    } catch {
+      /* ignore */
+    }
+  }, [storageKey]);
+  React.useEffect(() => {
+    try {
+      sessionStorage.setItem(storageKey, JSON.stringify(values));
+    } catch {
+      /* ignore */
+    }
+  }, [storageKey, values]);
 
-  const setField = (id: string, v: any) =>
+  // Steps re-resolve on every answer: conditional steps appear/disappear.
+  const { steps } = resolveVisibility(schema, values);
+  const current = Math.min(stepIdx, steps.length - 1);
+  const step = steps[current];
+  const missing = step ? missingFields(step, values) : [];
+
+  const setField = (id: string, v: unknown) =>
     setValues((s) => ({ ...s, [id]: v }));
-  const next = () => setStepIdx((i) => Math.min(i + 1, schema.steps.length));
-  const prev = () => setStepIdx((i) => Math.max(i - 1, 0));
-
-  if (stepIdx === schema.steps.length) {
-    const score = schema.scoring.reduce((acc, r) => {
-      const c = r.if;
-      let ok = true;
-      if (c.age_lt !== undefined) ok &&= (values.age ?? Infinity) < c.age_lt;
-      if (c.english_gte !== undefined)
-        ok &&= (values.english ?? 0) >= c.english_gte;
-      if (c.liquid_funds_gte !== undefined)
-        ok &&= (values.liquid_funds ?? 0) >= c.liquid_funds_gte;
-      if (c.education_in !== undefined)
-        ok &&= c.education_in.includes(values.education);
-      if (c.willing_invest !== undefined)
-        ok &&= Boolean(values.willing_invest) === c.willing_invest;
-      return ok ? acc + r.add : acc;
-    }, 0);
-
-    const band = schema.bands
-      .sort((a, b) => b.min - a.min)
-      .find((b) => score >= b.min)!;
-
-    const recos =
-      schema.recommendations
-        .sort((a, b) => b.when_min - a.when_min)
-        .find((r) => score >= r.when_min)?.programs ?? [];
+  const next = () => {
+    if (missing.length) {
+      setShowErrors(true);
+      return;
+    }
+    setShowErrors(false);
+    if (current >= steps.length - 1) setDone(true);
+    else setStepIdx(current + 1);
+  };
+  const prev = () => {
+    setShowErrors(false);
+    setStepIdx(Math.max(current - 1, 0));
+  };
+  const restart = () => {
+    setValues({});
+    setStepIdx(0);
+    setDone(false);
+  };
 
+  if (done) {
+    const result = evaluateSchema(schema, values, catalog);
     return (
-      <div className="space-y-4">
-        <div className="text-2xl font-semibold">Your score: {score}</div>
-        <div className="text-lg">
-          Result: <span className="capitalize">{band.label}</span>
-        </div>
-        {recos.length > 0 && (
-          <div className="space-y-2">
-            <div className="font-medium">Suggested programs</div>
-            <ul className="list-disc pl-6">
-              {recos.map(([v, c, p]) => (
-                <li key={`${v}/${c}/${p}`}>
-                  <a
-                    className="text-blue-600 hover:underline"
-                    href={`/${v}/${c}/${p}`}
-                  >{`${v} / ${c} / ${p}`}</a>
+      <div className="space-y-5">
+        <div className="text-2xl font-semibold">Your score: {result.score}</div>
+        {result.band ? (
+          <div
+            className={`rounded-xl px-4 py-3 ring-1 ${TONE[result.band.tone]}`}
+          >
+            <div className="text-lg font-medium">{result.band.label}</div>
+            {result.band.summary ? (
+              <p className="mt-1 text-sm">{result.band.summary}</p>
+            ) : null}
+          </div>
+        ) : null}
+
+        {result.hits.length > 0 && (
+          <details className="rounded-xl border p-3 text-sm">
+            <summary className="cursor-pointer font-medium">
+              How we scored this
+            </summary>
+            <ul className="mt-2 space-y-1">
+              {result.hits.map((h) => (
+                <li key={h.label} className="flex justify-between gap-4">
+                  <span>{h.label}</span>
+                  <span className="tabular-nums">
+                    {h.points > 0 ? `+${h.points}` : h.points}
+                  </span>
                 </li>
               ))}
             </ul>
-          </div>
+          </details>
         )}
-        <button
-          className="rounded-xl border px-4 py-2"
-          onClick={() => setStepIdx(0)}
-        >
-          Start again
-        </button>
+
+        <div className="space-y-2">
+          <div className="font-medium">Suggested programs</div>
+          {result.recommendations.length ? (
+            <ul className="grid gap-2">
+              {result.recommendations.map((p) => (
+                <li key={p.ref} className="rounded-xl border p-3">
+                  <Link
+                    className="font-medium text-blue-600 hover:underline"
+                    href={p.href}
+                  >
+                    {p.country} — {p.title}
+                  </Link>
+                  {p.reason ? (
+                    <p className="mt-0.5 text-sm text-neutral-600 dark:text-neutral-300">
+                      {p.reason}
+                    </p>
+                  ) : null}
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="text-sm text-neutral-600 dark:text-neutral-300">
+              No program is a clear fit on these answers — an advisor can review
+              alternatives with you.
+            </p>
+          )}
+        </div>
+
+        {schema.disclaimer ? (
+          <p className="text-xs text-neutral-500">{schema.disclaimer}</p>
+        ) : null}
+
+        <div className="flex gap-2">
+          <button
+            className="rounded-xl border px-4 py-2"
+            onClick={() => setDone(false)}
+          >
+            Edit answers
+          </button>
+          <button className="rounded-xl border px-4 py-2" onClick={restart}>
+            Start again
+          </button>
+        </div>
       </div>
     );
   }
 
+  if (!step) return null;
+
   return (
     <div className="space-y-6">
-      <div className="text-xl font-semibold">{step.title}</div>
+      <div>
+        <div className="text-xs text-neutral-500">
+          Step {current + 1} of {steps.length}
+        </div>
+        <div className="text-xl font-semibold">{step.title}</div>
+        {step.description ? (
+          <p className="text-sm text-neutral-600 dark:text-neutral-300">
+            {step.description}
+          </p>
+        ) : null}
+      </div>
       <div className="grid gap-4">
         {step.fields.map((f) => (
-          <div key={f.id} className="grid gap-2">
-            <label className="font-medium">
-              {f.label}
-              {f.required && " *"}
-            </label>
-
-            {f.type === "text" || f.type === "number" ? (
-              <input
-                type={f.type}
-                className="rounded-xl border p-3"
-                value={values[f.id] ?? ""}
-                onChange={(e) =>
-                  setField(
-                    f.id,
-                    f.type === "number"
-                      ? Number(e.target.value)
-                      : e.target.value,
-                  )
-                }
-              />
-            ) : f.type === "boolean" ? (
-              <select
-                className="rounded-xl border p-3"
-                value={String(values[f.id] ?? "false")}
-                onChange={(e) => setField(f.id, e.target.value === "true")}
-              >
-                <option value="false">No</option>
-                <option value="true">Yes</option>
-              </select>
-            ) : f.type === "select" ? (
-              <select
-                className="rounded-xl border p-3"
-                value={values[f.id] ?? ""}
-                onChange={(e) => setField(f.id, e.target.value)}
-              >
-                <option value="" disabled>
-                  Select…
-                </option>
-                {f.options.map((o) => (
-                  <option key={o} value={o}>
-                    {o}
-                  </option>
-                ))}
-              </select>
-            ) : null}
-          </div>
+          <FieldInput
+            key={f.id}
+            field={f}
+            value={values[f.id]}
+            onChange={(v) => setField(f.id, v)}
+            error={showErrors && missing.includes(f)}
+          />
         ))}
       </div>
 
       <div className="flex gap-2">
-        {stepIdx > 0 && (
+        {current > 0 && (
           <button className="rounded-xl border px-4 py-2" onClick={prev}>
             Back
           </button>
         )}
         <button className="rounded-xl border px-4 py-2" onClick={next}>
-          Continue
+          {current >= steps.length - 1 ? "See results" : "Continue"}
         </button>
       </div>
     </div>
   );
 }
+
+function FieldInput({
+  field: f,
+  value,
+  onChange,
+  error,
+}: {
+  field: EligibilityField;
+  value: unknown;
+  onChange: (v: unknown) => void;
+  error: boolean;
+}) {
+  const id = `elig-${f.id}`;
+  const describedBy = [f.help ? `${id}-help` : "", error ? `${id}-err` : ""]
+    .filter(Boolean)
+    .join(" ");
+  const common = {
+    id,
+    "aria-invalid": error || undefined,
+    "aria-describedby": describedBy || undefined,
+    className: "rounded-xl border p-3",
+  };
+
+  return (
+    <div className="grid gap-2">
+      {f.type === "boolean" || f.type === "multiselect" ? (
+        <span className="font-medium" id={`${id}-label`}>
+          {f.label}
+          {f.required && " *"}
+        </span>
+      ) : (
+        <label className="font-medium" htmlFor={id}>
+          {f.label}
+          {f.required && " *"}
+        </label>
+      )}
+
+      {f.type === "number" ? (
+        <div className="flex items-center gap-2">
+          <input
+            {...common}
+            type="number"
+            inputMode="decimal"
+            min={f.min}
+            max={f.max}
+            step={f.step}
+            value={typeof value === "number" ? value : ""}
+            onChange={(e) =>
+              onChange(
+                e.target.value === "" ? undefined : Number(e.target.value),
+              )
+            }
+          />
+          {f.unit ? <span className="text-sm opacity-70">{f.unit}</span> : null}
+        </div>
+      ) : f.type === "text" ? (
+        <input
+          {...common}
+          type="text"
+          value={typeof value === "string" ? value : ""}
+          onChange={(e) => onChange(e.target.value)}
+        />
+      ) : f.type === "boolean" ? (
+        <div
+          role="radiogroup"
+          aria-labelledby={`${id}-label`}
+          className="flex gap-4"
+        >
+          {[
+            [true, "Yes"],
+            [false, "No"],
+          ].map(([v, label]) => (
+            <label key={String(v)} className="inline-flex items-center gap-2">
+              <input
+                type="radio"
+                name={id}
+                checked={value === v}
+                onChange={() => onChange(v)}
+              />
+              {label}
+            </label>
+          ))}
+        </div>
+      ) : f.type === "select" ? (
+        <select
+          {...common}
+          value={typeof value === "string" ? value : ""}
+          onChange={(e) => onChange(e.target.value)}
+        >
+          <option value="" disabled>
+            Select…
+          </option>
+          {f.options?.map((o) => (
+            <option key={o} value={o}>
+              {o}
+            </option>
+          ))}
+        </select>
+      ) : f.type === "multiselect" ? (
+        <div
+          role="group"
+          aria-labelledby={`${id}-label`}
+          className="grid gap-1"
+        >
+          {f.options?.map((o) => {
+            const list = Array.isArray(value) ? (value as string[]) : [];
+            return (
+              <label key={o} className="inline-flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={list.includes(o)}
+                  onChange={(e) =>
+                    onChange(
+                      e.target.checked
+                        ? [...list, o]
+                        : list.filter((x) => x !== o),
+                    )
+                  }
+                />
+                {o}
+              </label>
+            );
+          })}
+        </div>
+      ) : null}
+
+      {f.help ? (
+        <p id={`${id}-help`} className="text-xs text-neutral-500">
+          {f.help}
+        </p>
+      ) : null}
+      {error ? (
+        <p id={`${id}-err`} className="text-xs text-rose-600">
+          Please answer this question.
+        </p>
+      ) : null}
+    </div>
+  );
+}
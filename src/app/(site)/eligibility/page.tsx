@@ -1,26 +1,45 @@
-import fs from "node:fs";
-import path from "node:path";
-import EligibilityWizard from "./components/EligibilityWizard";
+import type { Metadata } from "next";
+import Link from "next/link";
+import {
+  listEligibilityVerticals,
+  loadEligibilitySchema,
+} from "@/lib/eligibility/load";
 
-function readSchema(name: string) {
-  const file = path.join(
-    process.cwd(),
-    "src",
-    "app",
-    "(site)",
-    "eligibility",
-    "schema",
-    `${name}.json`,
-  );
-  return JSON.parse(fs.readFileSync(file, "utf8"));
-}
+export const metadata: Metadata = {
+  title: "Eligibility Checker",
+  description:
+    "Check your eligibility for citizenship, residency, skilled and corporate immigration routes.",
+  alternates: { canonical: "/eligibility" },
+};
 
 export default function EligibilityPage() {
-  const schema = readSchema("residency"); // add more schemas later
+  const schemas = listEligibilityVerticals().map((v) => ({
+    vertical: v,
+    schema: loadEligibilitySchema(v)!.schema,
+  }));
   return (
     <main className="mx-auto max-w-3xl p-6 space-y-6">
       <h1 className="text-3xl font-semibold">Eligibility Checker</h1>
-      <EligibilityWizard schema={schema} />
+      <p className="text-neutral-600 dark:text-neutral-300">
+        Pick a pathway to answer a few questions and see matching programs.
+      </p>
+      <ul className="grid gap-3 sm:grid-cols-2">
+        {schemas.map(({ vertical, schema }) => (
+          <li key={vertical}>
+            <Link
+              href={`/eligibility/${vertical}`}
+              className="block h-full rounded-xl border p-4 hover:bg-neutral-50 dark:hover:bg-neutral-900"
+            >
+              <div className="font-medium">{schema.title}</div>
+              {schema.description ? (
+                <p className="mt-1 text-sm text-neutral-600 dark:text-neutral-300">
+                  {schema.description}
+                </p>
+              ) : null}
+            </Link>
+          </li>
+        ))}
+      </ul>
     </main>
   );
 }
@@ -0,0 +1,180 @@
+// src/app/(site)/internal/search/page.tsx
+// Editor-facing search report: what visitors look for, what finds nothing
+// and what finds results nobody clicks. Gated by SEARCH_REPORT_TOKEN
+// (?token=…); without one configured it's only served in development.
+import crypto from "node:crypto";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import type { Metadata } from "next";
+import type { SearchQueryStats } from "@/types/search";
+import { buildSearchReport, getSearchEventStore } from "@/lib/search/analytics";
+
+export const dynamic = "force-dynamic";
+
+export const metadata: Metadata = {
+  title: "Search report | XIPHIAS Immigration",
+  robots: { index: false, follow: false },
+};
+
+const WINDOWS = [7, 30, 90] as const;
+
+type PageProps = {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+};
+
+function authorized(token?: string) {
+  const expected = process.env.SEARCH_REPORT_TOKEN;
+  if (!expected) return process.env.NODE_ENV !== "production";
+  const a = Buffer.from(token ?? "");
+  const b = Buffer.from(expected);
+  return a.length === b.length && crypto.timingSafeEqual(a, b);
+}
+
+const pct = (v?: number) =>
+  v === undefined ? "—" : `${(v * 100).toFixed(v < 0.1 ? 1 : 0)}%`;
+
+export default async function SearchReportPage({ searchParams }: PageProps) {
+  const sp = await searchParams;
+  const token = typeof sp.token === "string" ? sp.token : undefined;
+  if (!authorized(token)) notFound();
+
+  const days = WINDOWS.find((d) => String(d) === sp.days) ?? 30;
+  const to = new Date();
+  const from = new Date(to.getTime() - days * 86_400_000);
+  const store = getSearchEventStore();
+  const report = buildSearchReport(await store.list(from), { from, to });
+  const windowHref = (d: number) =>
+    `/internal/search?${new URLSearchParams({
+      days: String(d),
+      ...(token ? { token } : {}),
+    })}`;
+
+  return (
+    <div className="mx-auto max-w-6xl px-4 py-8 sm:px-6 lg:px-8">
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold">Search report</h1>
+          <p className="mt-1 text-sm text-neutral-600 dark:text-neutral-400">
+            Anonymized queries from site search · store: {store.name}
+          </p>
+        </div>
+        <nav aria-label="Time window" className="flex gap-2 text-sm">
+          {WINDOWS.map((d) => (
+            <Link
+              key={d}
+              href={windowHref(d)}
+              aria-current={d === days ? "page" : undefined}
+              className={`rounded-full border px-3 py-1 ${
+                d === days
+                  ? "border-primary bg-primary text-white"
+                  : "border-neutral-300 hover:bg-neutral-50 dark:border-neutral-700 dark:hover:bg-neutral-800"
+              }`}
+            >
+              Last {d} days
+            </Link>
+          ))}
+        </nav>
+      </div>
+
+      <dl className="mt-6 grid grid-cols-2 gap-4 sm:grid-cols-5">
+        {[
+          ["Searches", report.totals.searches.toLocaleString("en")],
+          ["Unique queries", report.totals.uniqueQueries.toLocaleString("en")],
+          ["Zero-result rate", pct(report.totals.zeroResultRate)],
+          ["Result clicks", report.totals.clicks.toLocaleString("en")],
+          ["Click-through", pct(report.totals.ctr)],
+        ].map(([label, value]) => (
+          <div
+            key={label}
+            className="rounded-xl border border-neutral-200 p-4 dark:border-neutral-800"
+          >
+            <dt className="text-xs uppercase tracking-wide text-neutral-500">
+              {label}
+            </dt>
+            <dd className="mt-1 text-2xl font-semibold">{value}</dd>
+          </div>
+        ))}
+      </dl>
+
+      <ReportTable
+        title="Top queries"
+        note="Most searched. Check that the first results are the pages you'd want."
+        rows={report.top}
+      />
+      <ReportTable
+        title="Zero-result queries"
+        note="Nothing matched on the latest search — candidates for new programs, articles or synonyms."
+        rows={report.zeroResults}
+      />
+      <ReportTable
+        title="Low click-through queries"
+        note="Results shown in the search overlay, but rarely clicked — the content may not answer the question."
+        rows={report.lowCtr}
+      />
+    </div>
+  );
+}
+
+function ReportTable({
+  title,
+  note,
+  rows,
+}: {
+  title: string;
+  note: string;
+  rows: SearchQueryStats[];
+}) {
+  return (
+    <section className="mt-10">
+      <h2 className="text-xl font-semibold">{title}</h2>
+      <p className="mt-1 text-sm text-neutral-600 dark:text-neutral-400">
+        {note}
+      </p>
+      {rows.length ? (
+        <div className="mt-3 overflow-x-auto">
+          <table className="w-full text-left text-sm">
+            <thead className="border-b border-neutral-200 text-xs uppercase tracking-wide text-neutral-500 dark:border-neutral-800">
+              <tr>
+                <th className="py-2 pr-4 font-medium">Query</th>
+                <th className="py-2 pr-4 text-right font-medium">Searches</th>
+                <th className="py-2 pr-4 text-right font-medium">Results</th>
+                <th className="py-2 pr-4 text-right font-medium">Clicks</th>
+                <th className="py-2 pr-4 text-right font-medium">CTR</th>
+                <th className="py-2 pr-4 text-right font-medium">
+                  Avg. position
+                </th>
+                <th className="py-2 font-medium">Last searched</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-neutral-100 dark:divide-neutral-800">
+              {rows.map((r) => (
+                <tr key={r.query}>
+                  <td className="py-2 pr-4">
+                    <Link
+                      href={`/search?q=${encodeURIComponent(r.query)}`}
+                      className="text-primary hover:underline"
+                    >
+                      {r.query}
+                    </Link>
+                  </td>
+                  <td className="py-2 pr-4 text-right">{r.searches}</td>
+                  <td className="py-2 pr-4 text-right">{r.results}</td>
+                  <td className="py-2 pr-4 text-right">{r.clicks}</td>
+                  <td className="py-2 pr-4 text-right">{pct(r.ctr)}</td>
+                  <td className="py-2 pr-4 text-right">
+                    {r.avgPosition?.toFixed(1) ?? "—"}
+                  </td>
+                  <td className="py-2 text-neutral-500">
+                    {r.lastAt.slice(0, 10)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : (
+        <p className="mt-3 text-sm text-neutral-500">Nothing yet.</p>
+      )}
+    </section>
+  );
+}
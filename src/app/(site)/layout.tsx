@@ -0,0 +1,13 @@
+// src/app/(site)/layout.tsx
+// Root layout for the English site. Translated pages have their own root
+// layout under (intl)/[locale], so each tree renders its <html> once with the
+// right lang and dir.
+import RootDocument, { siteMetadata } from "@/components/Layout/RootDocument";
+
+export const metadata = siteMetadata;
+
+export default function SiteLayout({
+  children,
+}: Readonly<{ children: React.ReactNode }>) {
+  return <RootDocument>{children}</RootDocument>;
+}
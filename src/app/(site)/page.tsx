@@ -1,4 +1,4 @@
-// src/app/page.tsx
+// src/app/(site)/page.tsx
 import React from "react";
 import type { Metadata } from "next";
 
@@ -1,7 +1,7 @@
 // app/(site)/residency/[country]/[program]/page.tsx
 import type { Metadata } from "next";
 import Link from "next/link";
-import { notFound } from "next/navigation";
+import { notFound, unstable_rethrow } from "next/navigation";
 import * as React from "react";
 
 import {
@@ -9,14 +9,25 @@ import {
   getResidencyPrograms,
   loadProgramPageSections,
 } from "@/lib/residency-content";
+import { assertPublished } from "@/lib/preview";
+import { getProgramHistory } from "@/lib/content/history";
+import { pageTranslations } from "@/lib/content/localize";
+import { localeAlternates, toLocale } from "@/lib/i18n/config";
+import { citationLd } from "@/lib/content/citations";
 import MediaHero from "@/components/Residency/MediaHero";
 import QuickFacts from "@/components/Residency/QuickFacts";
 import ProcessTimeline from "@/components/Residency/ProcessTimeline";
 import FAQAccordion from "@/components/Residency/FAQAccordion";
 import { JsonLd, breadcrumbLd, faqLd } from "@/lib/seo";
 import ContactForm from "@/components/ContactForm";
+import LeadTracker from "@/components/Leads/LeadTracker";
 import ProgramQuickNav from "@/components/Residency/ProgramQuickNav";
 import Breadcrumb from "@/components/Common/Breadcrumb";
+import ArchivedNotice from "@/components/Common/ArchivedNotice";
+import FreshnessBadge from "@/components/Common/FreshnessBadge";
+import LocaleSwitcher from "@/components/Common/LocaleSwitcher";
+import { CitedList } from "@/components/Common/Citations";
+import WhatChanged from "@/components/Residency/WhatChanged";
 import { Prose } from "@/components/ui/Prose";
 import EligibilityQuickCheck from "@/components/Residency/EligibilityQuickCheck";
 import SocialProof from "@/components/Residency/SocialProof";
@@ -39,13 +50,15 @@ export async function generateStaticParams() {
 
 /** SEO metadata */
 export async function generateMetadata(props: {
-  params: Promise<{ country: string; program: string }>;
+  params: Promise<{ locale?: string; country: string; program: string }>;
 }): Promise<Metadata> {
   const params = await props.params;
+  const locale = toLocale(params.locale);
   try {
     const { meta } = await loadProgramPageSections(
       params.country,
       params.program,
+      locale,
     );
     const heroImage = (meta as any).heroImage as string | undefined;
     const title = (meta as any).seo?.title ?? meta.title;
@@ -53,18 +66,21 @@ export async function generateMetadata(props: {
     const tags: string[] = (meta as any).tags ?? [];
     const keywords =
       (meta as any).seo?.keywords ?? [title, meta.country, ...tags].join(", ");
+    const alternates = localeAlternates(
+      `/residency/${params.country}/${params.program}`,
+      locale,
+      pageTranslations("residency", params.country, params.program),
+    );
     return {
       title,
       description,
       keywords,
-      alternates: {
-        canonical: `/residency/${params.country}/${params.program}`,
-      },
+      alternates,
       openGraph: {
         title,
         description,
         type: "article",
-        url: `/residency/${params.country}/${params.program}`,
+        url: alternates.canonical,
         images: [heroImage ?? "/og.jpg"],
       },
       twitter: {
@@ -108,14 +124,24 @@ function similarityScore(
 
 /** Page */
 export default async function ProgramPage(props: {
-  params: Promise<{ country: string; program: string }>;
+  params: Promise<{ locale?: string; country: string; program: string }>;
 }) {
   const params = await props.params;
+  const locale = toLocale(params.locale);
   try {
     const { meta, sections } = await loadProgramPageSections(
       params.country,
       params.program,
+      locale,
+    );
+    await assertPublished(meta);
+    const history = getProgramHistory(
+      "residency",
+      params.country,
+      params.program,
+      meta.changelog,
     );
+    const sources = meta.sources;
 
     const videoSrc = (meta as any).heroVideo as string | undefined;
     const poster = (meta as any).heroPoster as string | undefined;
@@ -243,6 +269,9 @@ export default async function ProgramPage(props: {
       ...(sections[mdxKey.whyCountry]
         ? [{ id: "why-country", label: `Why ${meta.country}` }]
         : []),
+      ...(history.length
+        ? [{ id: "what-changed", label: "What changed" }]
+        : []),
       { id: "faq", label: "FAQ" },
       ...(disqualifiers.length
         ? [{ id: "not-a-fit", label: "Not a fit?" }]
@@ -300,6 +329,7 @@ export default async function ProgramPage(props: {
       name: meta.title,
       url: `https://yourdomain.com/residency/${params.country}/${params.program}`,
       mainEntity: howToLdData ? { "@id": "#application-howto" } : undefined,
+      citation: sources?.length ? citationLd(sources) : undefined,
     };
 
     return (
@@ -313,6 +343,15 @@ export default async function ProgramPage(props: {
         // important: no overflow hidden to avoid scroll stuck
         style={{ scrollBehavior: "smooth" } as React.CSSProperties}
       >
+        <LeadTracker
+          program={{
+            vertical: "residency",
+            country: params.country,
+            program: params.program,
+            title: (meta as any).title,
+          }}
+        />
+
         {/* JSON-LD */}
         <JsonLd
           data={breadcrumbLd([
@@ -373,7 +412,24 @@ export default async function ProgramPage(props: {
             />
           </div>
           <Breadcrumb />
+          <LocaleSwitcher
+            path={`/residency/${params.country}/${params.program}`}
+            locale={locale}
+            available={pageTranslations(
+              "residency",
+              params.country,
+              params.program,
+            )}
+            className="container mx-auto px-4"
+          />
         </div>
+        <ArchivedNotice meta={meta} locale={locale} className="mt-4" />
+        <FreshnessBadge
+          vertical="residency"
+          meta={meta as any}
+          locale={locale}
+          className="mt-4"
+        />
         {/* IN-PAGE QUICK NAV */}
         <ProgramQuickNav sections={sectionsForNav} />
         {/* BODY */}
@@ -457,6 +513,7 @@ export default async function ProgramPage(props: {
                     items={prices ?? []}
                     proofOfFunds={proofOfFunds ?? []}
                     defaultCurrency={(meta as any).currency}
+                    sources={sources}
                   />
                 </div>
               </section>
@@ -475,11 +532,12 @@ export default async function ProgramPage(props: {
                 <header className="mb-3">
                   <h2 className="text-xl font-semibold">Eligibility</h2>
                 </header>
-                <ul className="list-disc pl-5 space-y-2 text-[15px] leading-7">
-                  {(meta as any).requirements.map((r: string) => (
-                    <li key={r}>{r}</li>
-                  ))}
-                </ul>
+                <CitedList
+                  items={(meta as any).requirements}
+                  sources={sources}
+                  scope="requirements"
+                  className="list-disc pl-5 space-y-2 text-[15px] leading-7"
+                />
               </section>
             ) : null}
 
@@ -584,6 +642,13 @@ export default async function ProgramPage(props: {
               </section>
             ) : null}
 
+            {/* WHAT CHANGED */}
+            {history.length ? (
+              <section id="what-changed" className="scroll-mt-28">
+                <WhatChanged history={history} locale={locale} />
+              </section>
+            ) : null}
+
             {/* FAQ (neutral tint) */}
             {(meta as any).faq?.length ? (
               <section
@@ -833,6 +898,8 @@ export default async function ProgramPage(props: {
       </main>
     );
   } catch (e) {
+    // Draft/scheduled 404s (assertPublished) are expected, not load errors
+    unstable_rethrow(e);
     console.error("[ProgramPage] load error", e);
     notFound();
   }
@@ -6,10 +6,14 @@ import {
   getCountryFrontmatter,
   getResidencyCountries,
 } from "@/lib/residency-content";
+import { assertPublished } from "@/lib/preview";
+import { pageTranslations } from "@/lib/content/localize";
+import { localeAlternates, toLocale } from "@/lib/i18n/config";
 import { JsonLd, breadcrumbLd } from "@/lib/seo";
 import MediaHero from "@/components/Residency/MediaHero";
 import ContactForm from "@/components/ContactForm";
 import Breadcrumb from "@/components/Common/Breadcrumb";
+import LocaleSwitcher from "@/components/Common/LocaleSwitcher";
 
 /* New modular sections */
 import SidebarStatsPanel from "@/components/Residency/Country/SidebarStatsPanel";
@@ -36,10 +40,11 @@ export async function generateStaticParams() {
 
 /** SEO */
 export async function generateMetadata(props: {
-  params: Promise<{ country: string }>;
+  params: Promise<{ locale?: string; country: string }>;
 }): Promise<Metadata> {
   const params = await props.params;
-  const meta = getCountryFrontmatter(params.country);
+  const locale = toLocale(params.locale);
+  const meta = getCountryFrontmatter(params.country, locale);
   const heroImage = (meta as any).heroImage as string | undefined;
   const title = (meta as any).seo?.title ?? meta.title;
   const description = (meta as any).seo?.description ?? meta.summary;
@@ -49,7 +54,11 @@ export async function generateMetadata(props: {
     title,
     description,
     keywords,
-    alternates: { canonical: `/residency/${params.country}` },
+    alternates: localeAlternates(
+      `/residency/${params.country}`,
+      locale,
+      pageTranslations("residency", params.country),
+    ),
     openGraph: { title, description, images: [heroImage ?? "/og.jpg"] },
     twitter: {
       card: "summary_large_image",
@@ -62,10 +71,12 @@ export async function generateMetadata(props: {
 
 /** Page */
 export default async function CountryPage(props: {
-  params: Promise<{ country: string }>;
+  params: Promise<{ locale?: string; country: string }>;
 }) {
   const params = await props.params;
-  const { meta, content } = await loadCountryPage(params.country);
+  const locale = toLocale(params.locale);
+  const { meta, content } = await loadCountryPage(params.country, locale);
+  await assertPublished(meta);
   const programs = getResidencyPrograms(params.country);
 
   // Hero media
@@ -139,6 +150,12 @@ export default async function CountryPage(props: {
 
       <div className="mt-3">
         <Breadcrumb />
+        <LocaleSwitcher
+          path={`/residency/${params.country}`}
+          locale={locale}
+          available={pageTranslations("residency", params.country)}
+          className="container mx-auto px-4"
+        />
       </div>
 
       {/* LAYOUT */}
@@ -166,7 +183,10 @@ export default async function CountryPage(props: {
           />
           <WhyCountrySection country={meta.country} points={keyPoints} />
           <ProcessSteps steps={applicationProcess} />
-          <EligibilityRequirements items={requirements} />
+          <EligibilityRequirements
+            items={requirements}
+            sources={(meta as any).sources}
+          />
           <FAQSection faqs={faq} />
           <MDXDetailsSection country={meta.country} content={content} />
           <div className="md:hidden">
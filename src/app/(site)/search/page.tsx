@@ -0,0 +1,163 @@
+// src/app/(site)/search/page.tsx
+import Link from "next/link";
+import type { Metadata } from "next";
+import ActiveFilters from "@/components/Search/ActiveFilters";
+import SearchFacetsPanel from "@/components/Search/SearchFacets";
+import SearchResults from "@/components/Search/SearchResults";
+import { recordSearch } from "@/lib/search/analytics";
+import { runSearch } from "@/lib/search/engine";
+import { parseSearchParams, toSearchQuery } from "@/lib/search/params";
+
+export const dynamic = "force-dynamic";
+
+type PageProps = {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+};
+
+export async function generateMetadata({
+  searchParams,
+}: PageProps): Promise<Metadata> {
+  const { q } = parseSearchParams(await searchParams);
+  return {
+    title: q
+      ? `Search: ${q} | XIPHIAS Immigration`
+      : "Search | XIPHIAS Immigration",
+    description:
+      "Search citizenship, residency, skilled and corporate immigration programs, country guides and insights.",
+    alternates: { canonical: "/search" },
+    // Result pages are thin, ever-changing duplicates of real pages.
+    robots: { index: false, follow: true },
+  };
+}
+
+export default async function SearchPage({ searchParams }: PageProps) {
+  const filters = parseSearchParams(await searchParams);
+  const { items, total, page, pageSize, facets, suggestion } =
+    await runSearch(filters);
+  if (filters.q && page === 1) await recordSearch(filters.q, total, "page");
+  const totalPages = Math.max(1, Math.ceil(total / pageSize));
+  const pageHref = (p: number) =>
+    `/search${toSearchQuery(filters, { page: p })}`;
+
+  return (
+    <div className="mx-auto max-w-6xl px-4 py-8 sm:px-6 lg:px-8">
+      <h1 className="text-3xl font-bold">Search</h1>
+
+      {/* Plain GET form: keeps active filters, resets to page 1 */}
+      <form
+        action="/search"
+        method="get"
+        role="search"
+        className="mt-4 flex gap-2"
+      >
+        <label htmlFor="search-q" className="sr-only">
+          Search
+        </label>
+        <input
+          id="search-q"
+          type="search"
+          name="q"
+          defaultValue={filters.q}
+          placeholder="Search by country, visa type, or service..."
+          className="flex-1 rounded-xl border border-neutral-300 bg-white px-4 py-2.5 dark:border-neutral-700 dark:bg-neutral-900"
+        />
+        {Object.entries({
+          type: filters.types.join(","),
+          vertical: filters.verticals.join(","),
+          country: filters.countries.join(","),
+          tag: filters.tags.join(","),
+          minBudget: filters.minBudget?.toString() ?? "",
+          maxBudget: filters.maxBudget?.toString() ?? "",
+          region: filters.regions.join(","),
+          maxTimeline: filters.maxTimeline?.toString() ?? "",
+          family: filters.familySize?.toString() ?? "",
+        })
+          .filter(([, v]) => v)
+          .map(([k, v]) => (
+            <input key={k} type="hidden" name={k} value={v} />
+          ))}
+        <button
+          type="submit"
+          className="rounded-xl bg-primary px-5 py-2.5 font-semibold text-white hover:brightness-110"
+        >
+          Search
+        </button>
+      </form>
+      <ActiveFilters filters={filters} />
+
+      <div className="mt-8 grid gap-8 md:grid-cols-[240px_1fr]">
+        <SearchFacetsPanel facets={facets} filters={filters} />
+
+        <section aria-live="polite" aria-label="Results">
+          <p className="text-sm text-neutral-600 dark:text-neutral-400">
+            {total === 0
+              ? "No results"
+              : `${(page - 1) * pageSize + 1}–${(page - 1) * pageSize + items.length} of ${total} result${total === 1 ? "" : "s"}`}
+            {filters.q ? (
+              <>
+                {" "}
+                for <strong>“{filters.q}”</strong>
+              </>
+            ) : null}
+          </p>
+
+          {suggestion ? (
+            <p className="mt-2">
+              Did you mean{" "}
+              <Link
+                href={`/search${toSearchQuery(filters, { q: suggestion })}`}
+                className="font-semibold text-primary hover:underline"
+              >
+                {suggestion}
+              </Link>
+              ?
+            </p>
+          ) : null}
+
+          {items.length ? (
+            <SearchResults items={items} offset={(page - 1) * pageSize} />
+          ) : (
+            <p className="mt-6 text-neutral-600 dark:text-neutral-400">
+              {page > totalPages
+                ? "This page is past the last result."
+                : "Try different keywords or remove a filter."}
+            </p>
+          )}
+
+          {totalPages > 1 && (
+            <nav
+              aria-label="Pagination"
+              className="mt-8 flex items-center justify-between"
+            >
+              <Link
+                href={pageHref(Math.max(1, page - 1))}
+                aria-disabled={page <= 1}
+                className={`px-3 py-1.5 rounded border ${
+                  page <= 1
+                    ? "pointer-events-none opacity-50"
+                    : "hover:bg-gray-50 dark:hover:bg-gray-800"
+                }`}
+              >
+                Previous
+              </Link>
+              <span className="text-sm text-gray-600 dark:text-gray-300">
+                Page {Math.min(page, totalPages)} of {totalPages}
+              </span>
+              <Link
+                href={pageHref(Math.min(totalPages, page + 1))}
+                aria-disabled={page >= totalPages}
+                className={`px-3 py-1.5 rounded border ${
+                  page >= totalPages
+                    ? "pointer-events-none opacity-50"
+                    : "hover:bg-gray-50 dark:hover:bg-gray-800"
+                }`}
+              >
+                Next
+              </Link>
+            </nav>
+          )}
+        </section>
+      </div>
+    </div>
+  );
+}
@@ -2,14 +2,20 @@
 // (same visuals; now EVERYTHING awaited + normalized so no /undefined links)
 import type { Metadata } from "next";
 import Link from "next/link";
-import { notFound } from "next/navigation";
+import { notFound, unstable_rethrow } from "next/navigation";
 import * as React from "react";
 
 import {
   getSkilledCountrySlugs,
   getSkilledPrograms,
+  getProgramRounds,
   loadProgramPageSections,
 } from "@/lib/skilled-content";
+import { assertPublished } from "@/lib/preview";
+import { getProgramHistory } from "@/lib/content/history";
+import { pageTranslations } from "@/lib/content/localize";
+import { localeAlternates, toLocale } from "@/lib/i18n/config";
+import { citationLd } from "@/lib/content/citations";
 import {
   baseFromCategory,
   pickSectionKey,
@@ -22,12 +28,20 @@ import ProcessTimeline from "@/components/Residency/ProcessTimeline";
 import FAQAccordion from "@/components/Residency/FAQAccordion";
 import { JsonLd, breadcrumbLd, faqLd } from "@/lib/seo";
 import ContactForm from "@/components/ContactForm";
+import LeadTracker from "@/components/Leads/LeadTracker";
 import ProgramQuickNav from "@/components/Residency/ProgramQuickNav";
 import Breadcrumb from "@/components/Common/Breadcrumb";
+import ArchivedNotice from "@/components/Common/ArchivedNotice";
+import FreshnessBadge from "@/components/Common/FreshnessBadge";
+import LocaleSwitcher from "@/components/Common/LocaleSwitcher";
+import { CitedList } from "@/components/Common/Citations";
+import WhatChanged from "@/components/Residency/WhatChanged";
 import { Prose } from "@/components/ui/Prose";
 import EligibilityQuickCheck from "@/components/Residency/EligibilityQuickCheck";
 import SocialProof from "@/components/Residency/SocialProof";
 import Prices from "@/components/Residency/Prices";
+import PointsCalculatorBlock from "@/components/Skilled/PointsCalculatorBlock";
+import RoundsChart from "@/components/Skilled/RoundsChart";
 
 export const revalidate = 86400;
 export const dynamicParams = true;
@@ -47,13 +61,15 @@ export async function generateStaticParams() {
 }
 
 export async function generateMetadata(props: {
-  params: Promise<{ country: string; program: string }>;
+  params: Promise<{ locale?: string; country: string; program: string }>;
 }): Promise<Metadata> {
   const params = await props.params;
+  const locale = toLocale(params.locale);
   try {
     const { meta } = await loadProgramPageSections(
       params.country,
       params.program,
+      locale,
     );
     const heroImage = (meta as any).heroImage as string | undefined;
     const title =
@@ -71,18 +87,22 @@ export async function generateMetadata(props: {
       (meta as any).seo?.keywords ??
       [title, (meta as any).country ?? params.country, ...tags].join(", ");
 
-    const canonical = `${baseFromCategory("skilled")}/${params.country}/${params.program}`;
+    const alternates = localeAlternates(
+      `${baseFromCategory("skilled")}/${params.country}/${params.program}`,
+      locale,
+      pageTranslations("skilled", params.country, params.program),
+    );
 
     return {
       title,
       description,
       keywords,
-      alternates: { canonical },
+      alternates,
       openGraph: {
         title,
         description,
         type: "article",
-        url: canonical,
+        url: alternates.canonical,
         images: [heroImage ?? "/og.jpg"],
       },
       twitter: {
@@ -126,14 +146,24 @@ type RelatedItem = {
 };
 
 export default async function ProgramPage(props: {
-  params: Promise<{ country: string; program: string }>;
+  params: Promise<{ locale?: string; country: string; program: string }>;
 }) {
   const params = await props.params;
+  const locale = toLocale(params.locale);
   try {
     const { meta, sections } = await loadProgramPageSections(
       params.country,
       params.program,
+      locale,
+    );
+    await assertPublished(meta);
+    const history = getProgramHistory(
+      "skilled",
+      params.country,
+      params.program,
+      meta.changelog,
     );
+    const sources = meta.sources;
 
     const videoSrc = (meta as any).heroVideo as string | undefined;
     const poster = (meta as any).heroPoster as string | undefined;
@@ -157,6 +187,8 @@ export default async function ProgramPage(props: {
       | { label?: string; amount: number; currency?: string; notes?: string }[]
       | undefined;
     const disqualifiers: string[] = (meta as any).disqualifiers ?? [];
+    const pointsSystem = meta.points?.calculator;
+    const rounds = getProgramRounds(params.country, params.program);
 
     const otherProgramsRaw = await getSkilledPrograms(params.country);
     const otherPrograms = (otherProgramsRaw as any[])
@@ -195,12 +227,10 @@ export default async function ProgramPage(props: {
                 title: candTitle as string,
                 country: (candMeta as any).country ?? ctry,
                 minInvestment: (candMeta as any).minInvestment as
-                  | number
-                  | undefined,
+                  number | undefined,
                 currency: (candMeta as any).currency as string | undefined,
                 timelineMonths: (candMeta as any).timelineMonths as
-                  | number
-                  | undefined,
+                  number | undefined,
                 tags: ((candMeta as any).tags ?? []) as string[],
                 heroImage: (candMeta as any).heroImage as string | undefined,
                 score,
@@ -253,6 +283,8 @@ export default async function ProgramPage(props: {
       ...(prices?.length || proofOfFunds?.length
         ? [{ id: "prices", label: "Costs & Funds" }]
         : []),
+      ...(pointsSystem ? [{ id: "points", label: "Points" }] : []),
+      ...(rounds?.rounds.length ? [{ id: "rounds", label: "Rounds" }] : []),
       ...(((meta as any).requirements?.length ?? 0)
         ? [{ id: "requirements", label: "Eligibility" }]
         : []),
@@ -269,6 +301,9 @@ export default async function ProgramPage(props: {
             },
           ]
         : []),
+      ...(history.length
+        ? [{ id: "what-changed", label: "What changed" }]
+        : []),
       { id: "faq", label: "FAQ" },
       ...(disqualifiers.length
         ? [{ id: "not-a-fit", label: "Not a fit?" }]
@@ -325,6 +360,7 @@ export default async function ProgramPage(props: {
       name: (meta as any).title ?? params.program,
       url: `https://yourdomain.com${baseFromCategory("skilled")}/${params.country}/${params.program}`,
       mainEntity: howToLdData ? { "@id": "#application-howto" } : undefined,
+      citation: sources?.length ? citationLd(sources) : undefined,
     };
 
     return (
@@ -336,6 +372,15 @@ export default async function ProgramPage(props: {
         "
         style={{ scrollBehavior: "smooth" } as React.CSSProperties}
       >
+        <LeadTracker
+          program={{
+            vertical: "skilled",
+            country: params.country,
+            program: params.program,
+            title: (meta as any).title,
+          }}
+        />
+
         {/* JSON-LD */}
         <JsonLd
           data={breadcrumbLd([
@@ -383,7 +428,24 @@ export default async function ProgramPage(props: {
             />
           </div>
           <Breadcrumb />
+          <LocaleSwitcher
+            path={`${baseFromCategory("skilled")}/${params.country}/${params.program}`}
+            locale={locale}
+            available={pageTranslations(
+              "skilled",
+              params.country,
+              params.program,
+            )}
+            className="container mx-auto px-4"
+          />
         </div>
+        <ArchivedNotice meta={meta} locale={locale} className="mt-4" />
+        <FreshnessBadge
+          vertical="skilled"
+          meta={meta as any}
+          locale={locale}
+          className="mt-4"
+        />
         <ProgramQuickNav sections={sectionsForNav} />
         {/* BODY */}
         <div className="flex flex-col gap-8 pt-5 pb-16 sm:px-6 lg:grid lg:grid-cols-12 lg:gap-8 lg:px-8">
@@ -439,11 +501,35 @@ export default async function ProgramPage(props: {
                     items={prices ?? []}
                     proofOfFunds={proofOfFunds ?? []}
                     defaultCurrency={(meta as any).currency}
+                    sources={sources}
                   />
                 </div>
               </section>
             ) : null}
 
+            {pointsSystem ? (
+              <section id="points" className="scroll-mt-28">
+                <header className="mb-3">
+                  <h2 className="text-xl font-semibold">Points calculator</h2>
+                </header>
+                <PointsCalculatorBlock
+                  system={pointsSystem}
+                  program={`${params.country}/${params.program}`}
+                />
+              </section>
+            ) : null}
+
+            {rounds?.rounds.length ? (
+              <section id="rounds" className="scroll-mt-28">
+                <header className="mb-3">
+                  <h2 className="text-xl font-semibold">
+                    Invitation rounds & cut-offs
+                  </h2>
+                </header>
+                <RoundsChart history={rounds} />
+              </section>
+            ) : null}
+
             {(meta as any).requirements?.length ? (
               <section
                 id="requirements"
@@ -452,11 +538,12 @@ export default async function ProgramPage(props: {
                 <header className="mb-3">
                   <h2 className="text-xl font-semibold">Eligibility</h2>
                 </header>
-                <ul className="list-disc pl-5 space-y-2 text-[15px] leading-7">
-                  {(meta as any).requirements.map((r: string) => (
-                    <li key={r}>{r}</li>
-                  ))}
-                </ul>
+                <CitedList
+                  items={(meta as any).requirements}
+                  sources={sources}
+                  scope="requirements"
+                  className="list-disc pl-5 space-y-2 text-[15px] leading-7"
+                />
               </section>
             ) : null}
 
@@ -533,6 +620,13 @@ export default async function ProgramPage(props: {
               </section>
             ) : null}
 
+            {/* WHAT CHANGED */}
+            {history.length ? (
+              <section id="what-changed" className="scroll-mt-28">
+                <WhatChanged history={history} locale={locale} />
+              </section>
+            ) : null}
+
             {(meta as any).faq?.length ? (
               <section id="faq" className="scroll-mt-28">
                 <header className="mb-3">
@@ -726,6 +820,8 @@ export default async function ProgramPage(props: {
       </main>
     );
   } catch (e) {
+    // Draft/scheduled 404s (assertPublished) are expected, not load errors
+    unstable_rethrow(e);
     console.error("[Skilled ProgramPage] load error", e);
     notFound();
   }
@@ -8,12 +8,16 @@ import {
   loadCountryPage,
   // if you also have getCountryFrontmatter in skilled-content you can switch like residency
 } from "@/lib/skilled-content";
+import { assertPublished } from "@/lib/preview";
+import { pageTranslations } from "@/lib/content/localize";
+import { localeAlternates, toLocale } from "@/lib/i18n/config";
 import { baseFromCategory } from "@/lib/section-helpers";
 import { JsonLd, breadcrumbLd } from "@/lib/seo";
 
 import MediaHero from "@/components/Residency/MediaHero";
 import ContactForm from "@/components/ContactForm";
 import Breadcrumb from "@/components/Common/Breadcrumb";
+import LocaleSwitcher from "@/components/Common/LocaleSwitcher";
 
 import SidebarStatsPanel from "@/components/Residency/Country/SidebarStatsPanel";
 import SidebarProgramsList from "@/components/Residency/Country/SidebarProgramsList";
@@ -40,14 +44,15 @@ export async function generateStaticParams() {
 
 /** SEO */
 export async function generateMetadata(props: {
-  params: Promise<{ country: string }>;
+  params: Promise<{ locale?: string; country: string }>;
 }): Promise<Metadata> {
   const params = await props.params;
   const all = await getSkilledCountrySlugs();
   if (!all.includes(params.country))
     return { title: "Skilled country not found" };
 
-  const { meta } = await loadCountryPage(params.country);
+  const locale = toLocale(params.locale);
+  const { meta } = await loadCountryPage(params.country, locale);
 
   const heroImage = (meta as any).heroImage as string | undefined;
   const title =
@@ -68,30 +73,36 @@ export async function generateMetadata(props: {
     ((meta as any).seo?.keywords as string[] | undefined) ??
     ((meta as any).keywords as string[] | undefined);
 
-  const canonical = `${baseFromCategory("skilled")}/${params.country}`;
+  const alternates = localeAlternates(
+    `${baseFromCategory("skilled")}/${params.country}`,
+    locale,
+    pageTranslations("skilled", params.country),
+  );
 
   return {
     title,
     description,
     keywords,
-    alternates: { canonical },
+    alternates,
     openGraph: {
       title,
       description,
-      url: canonical,
+      url: alternates.canonical,
       images: [heroImage ?? "/og.jpg"],
     },
   };
 }
 
 export default async function CountryPage(props: {
-  params: Promise<{ country: string }>;
+  params: Promise<{ locale?: string; country: string }>;
 }) {
   const params = await props.params;
   const slugs = await getSkilledCountrySlugs();
   if (!slugs.includes(params.country)) notFound();
 
-  const { meta, content } = await loadCountryPage(params.country);
+  const locale = toLocale(params.locale);
+  const { meta, content } = await loadCountryPage(params.country, locale);
+  await assertPublished(meta);
   const programs = await getSkilledPrograms(params.country);
 
   const countryName =
@@ -169,6 +180,12 @@ export default async function CountryPage(props: {
 
       <div className="mt-3">
         <Breadcrumb />
+        <LocaleSwitcher
+          path={`/skilled/${params.country}`}
+          locale={locale}
+          available={pageTranslations("skilled", params.country)}
+          className="container mx-auto px-4"
+        />
       </div>
 
       <div className="mt-6 grid gap-8 md:grid-cols-12">
@@ -193,7 +210,10 @@ export default async function CountryPage(props: {
           />
           <WhyCountrySection country={countryName} points={keyPoints} />
           <ProcessSteps steps={applicationProcess} />
-          <EligibilityRequirements items={requirements} />
+          <EligibilityRequirements
+            items={requirements}
+            sources={(meta as any).sources}
+          />
           <FAQSection faqs={faq} />
           <MDXDetailsSection country={countryName} content={content} />
           <div className="md:hidden">
@@ -0,0 +1,15 @@
+// src/app/global-not-found.tsx
+// URLs that match no route. With two root layouts there is no app/layout.tsx
+// to render them in, so this page brings its own document.
+import RootDocument from "@/components/Layout/RootDocument";
+import ErrorPage from "@/app/(site)/not-found";
+
+export { metadata } from "@/app/(site)/not-found";
+
+export default function GlobalNotFound() {
+  return (
+    <RootDocument>
+      <ErrorPage />
+    </RootDocument>
+  );
+}
@@ -4,7 +4,9 @@ import { MetadataRoute } from "next";
 export default function robots(): MetadataRoute.Robots {
   const host = "https://www.xiphiasimmigration.com";
   return {
-    rules: [{ userAgent: "*", allow: "/" }],
+    rules: [
+      { userAgent: "*", allow: "/", disallow: ["/internal/", "/api/preview"] },
+    ],
     sitemap: [`${host}/sitemap.xml`],
     host,
   };
@@ -1,5 +1,10 @@
 import { MetadataRoute } from "next";
 import { getResidencyUrls } from "@/lib/residency-content";
+import { pageTranslations } from "@/lib/content/localize";
+import { INTL_LOCALES, localePath } from "@/lib/i18n/config";
+
+// Re-generated daily so publishAt / expiresAt take effect without a deploy
+export const revalidate = 86400;
 
 export default function sitemap(): MetadataRoute.Sitemap {
   const base = "https://www.xiphiasimmigration.com";
@@ -26,11 +31,28 @@ export default function sitemap(): MetadataRoute.Sitemap {
     },
   ];
 
+  // Translated country/program pages are listed as hreflang alternates
+  const languages = (url: string) => {
+    const [, , country, program] = url.split("/");
+    const translated = country
+      ? pageTranslations("residency", country, program)
+      : [];
+    return translated.length
+      ? Object.fromEntries(
+          translated.map((l) => [
+            INTL_LOCALES[l],
+            `${base}${localePath(url, l)}`,
+          ]),
+        )
+      : undefined;
+  };
+
   const residencyUrls: MetadataRoute.Sitemap = getResidencyUrls().map((u) => ({
     url: `${base}${u.url}`,
     lastModified: now,
     changeFrequency: "monthly",
     priority: 0.8,
+    alternates: { languages: languages(u.url) },
   }));
 
   return [...staticUrls, ...residencyUrls];
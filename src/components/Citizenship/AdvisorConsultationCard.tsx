@@ -4,6 +4,11 @@ import Image from "next/image";
 import Link from "next/link";
 import * as React from "react";
 import { useCurrency } from "@/lib/CurrencyProvider"; // <— global currency
+import { describeHousehold, estimateFees, type FeeRow } from "@/lib/fees";
+import { useHousehold } from "@/lib/useHousehold";
+import type { CurrencyCode } from "@/lib/currency";
+import RatesNote from "@/components/RatesNote";
+import { setLeadContext } from "@/lib/leadContext";
 
 type PriceOption =
   | {
@@ -43,7 +48,7 @@ type Props = {
   testimonials?: { quote: string; name: string }[];
 
   // Pricing (baseCurrency only matters when using numeric “amount”)
-  baseCurrency?: "USD" | "INR" | "AED" | "EUR";
+  baseCurrency?: CurrencyCode;
   priceOptions?: PriceOption[];
   currencyNote?: string;
   highDemandHint?: string;
@@ -57,6 +62,9 @@ type Props = {
   guaranteeNote?: string;
   complianceNote?: string;
 
+  // Program cost for the visitor's household (same engine as the calculator)
+  programEstimate?: { rows: FeeRow[]; currency: string; href?: string };
+
   rightGraphic?: boolean;
   className?: string;
 };
@@ -115,10 +123,19 @@ export default function AdvisorConsultationCard({
   guaranteeNote = "If we can’t help, we’ll say so — no upsell.",
   complianceNote = "Advisory only; not legal/financial advice. Subject to KYC & eligibility.",
 
+  programEstimate,
+
   rightGraphic = true,
   className = "",
 }: Props) {
-  const { currency, convert } = useCurrency(); // ← from provider
+  const { currency, choice, convert, rates } = useCurrency(); // ← from provider
+  const { household } = useHousehold();
+  const estimate = programEstimate
+    ? estimateFees(programEstimate.rows, household, {
+        currency: choice ?? programEstimate.currency,
+        rates,
+      })
+    : null;
   const [openWhyPaid, setOpenWhyPaid] = React.useState(false);
 
   const [selected, setSelected] = React.useState<string>(
@@ -283,7 +300,28 @@ export default function AdvisorConsultationCard({
             ))}
           </div>
 
+          {estimate && estimate.oneOff > 0 && (
+            <div className="mt-3 rounded-lg bg-neutral-50 dark:bg-neutral-800/60 ring-1 ring-neutral-200 dark:ring-neutral-700 px-3 py-2 text-xs text-neutral-700 dark:text-neutral-300">
+              <div>
+                Estimated program cost for your family:{" "}
+                <strong className="tabular-nums">{formatMoney(estimate.oneOff, estimate.currency)}</strong>
+              </div>
+              <div className="mt-0.5 text-neutral-500 dark:text-neutral-400">
+                {describeHousehold(estimate.household)}
+                {programEstimate?.href && (
+                  <>
+                    {" · "}
+                    <a href={programEstimate.href} className="underline underline-offset-2">
+                      Adjust
+                    </a>
+                  </>
+                )}
+              </div>
+            </div>
+          )}
+
           <p className="mt-2 text-xs text-neutral-500 dark:text-neutral-400">{currencyNote}</p>
+          <RatesNote show={currency !== baseCurrency} className="mt-1 text-xs" />
           <p className="mt-1 text-xs text-amber-700 dark:text-amber-400">{highDemandHint}</p>
 
           <div className="mt-3 flex flex-col sm:flex-row gap-2">
@@ -294,6 +332,7 @@ export default function AdvisorConsultationCard({
                 "bg-emerald-600 text-white hover:bg-emerald-700 focus:outline-none focus-visible:ring-2 focus-visible:ring-emerald-500"
               )}
               aria-label={`Book ${"label" in current ? (current as any).label : "consultation"}`}
+              onClick={() => setLeadContext({ consultation: { option: (current as any).label, price: showPrice(current) } })}
             >
               <CalendarIcon className="mr-2 h-4 w-4" />
               Book consultation
@@ -4,6 +4,9 @@ import React from "react";
 import Link from "next/link";
 import Image from "next/image";
 import Script from "next/script";
+import { useMoney } from "@/lib/CurrencyProvider";
+import CurrencySwitcher from "@/components/CurrencySwitcher";
+import RatesNote from "@/components/RatesNote";
 
 export type CompareItem = {
   title: string;
@@ -28,19 +31,6 @@ type Props = {
 
 /* ------------------------------ helpers ------------------------------ */
 
-function toCurrency(amount?: number, currency = "USD") {
-  if (typeof amount !== "number") return "";
-  try {
-    return new Intl.NumberFormat(undefined, {
-      style: "currency",
-      currency,
-      maximumFractionDigits: 0,
-    }).format(amount);
-  } catch {
-    return `${currency} ${amount.toLocaleString()}`;
-  }
-}
-
 function safeThumbSrc(it: CompareItem) {
   const raw = it.heroImage;
   if (raw && raw.startsWith("/")) return raw;
@@ -137,6 +127,11 @@ export default function CompareDrawer({
   const [open, setOpen] = React.useState(initialOpen);
   const [reduceMotion, setReduceMotion] = React.useState(false);
   const idBase = React.useId();
+  const money = useMoney();
+  const converted = items.some(
+    (it) =>
+      typeof it.minInvestment === "number" && money.isConverted(it.currency),
+  );
 
   const panelRef = React.useRef<HTMLDivElement | null>(null);
 
@@ -191,6 +186,12 @@ export default function CompareDrawer({
     })),
   };
 
+  // Program hrefs are `/<vertical>/<country>/<program>` — the /compare ref format.
+  const fullCompareHref = `/compare?items=${items
+    .slice(0, 4)
+    .map((it) => it.href.replace(/^\/+/, ""))
+    .join(",")}${money.isConverted() ? `&currency=${money.currency}` : ""}`;
+
   /* --------------------------- Trigger button --------------------------- */
   return (
     <>
@@ -277,10 +278,11 @@ export default function CompareDrawer({
                   tags.
                 </p>
               </div>
+              <CurrencySwitcher className="ml-auto hidden sm:inline-flex" />
               <button
                 type="button"
                 onClick={() => setOpen(false)}
-                className="ml-auto inline-flex items-center gap-2 rounded-xl bg-white/90 px-3 py-1.5 text-sm ring-1 ring-blue-200 hover:bg-blue-50 dark:bg-white/5 dark:ring-blue-900/40 dark:hover:bg-blue-950/20 focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-600"
+                className="ml-auto sm:ml-0 inline-flex items-center gap-2 rounded-xl bg-white/90 px-3 py-1.5 text-sm ring-1 ring-blue-200 hover:bg-blue-50 dark:bg-white/5 dark:ring-blue-900/40 dark:hover:bg-blue-950/20 focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-600"
               >
                 Close
                 <svg
@@ -352,7 +354,7 @@ export default function CompareDrawer({
                         <dt className="text-zinc-500">Minimum investment</dt>
                         <dd className="tabular-nums">
                           {typeof it.minInvestment === "number"
-                            ? toCurrency(it.minInvestment, it.currency ?? "USD")
+                            ? money.format(it.minInvestment, it.currency)
                             : "—"}
                         </dd>
                       </div>
@@ -415,7 +417,7 @@ export default function CompareDrawer({
                         </td>
                         <td className="p-2 text-right tabular-nums">
                           {typeof it.minInvestment === "number"
-                            ? toCurrency(it.minInvestment, it.currency ?? "USD")
+                            ? money.format(it.minInvestment, it.currency)
                             : "—"}
                         </td>
                         <td className="p-2 text-right tabular-nums">
@@ -448,9 +450,20 @@ export default function CompareDrawer({
             </div>
 
             {/* footer (optional area for notes) */}
-            <div className="border-t border-blue-100/80 dark:border-blue-900/40 px-5 py-3 text-xs text-zinc-600 dark:text-zinc-400">
-              Figures are indicative and subject to due diligence outcomes and
-              government updates.
+            <div className="flex items-center gap-3 border-t border-blue-100/80 dark:border-blue-900/40 px-5 py-3 text-xs text-zinc-600 dark:text-zinc-400">
+              <div>
+                Figures are indicative and subject to due diligence outcomes and
+                government updates.
+                <RatesNote show={converted} className="mt-0.5" />
+              </div>
+              {items.length > 1 ? (
+                <Link
+                  href={fullCompareHref}
+                  className="ml-auto shrink-0 rounded-xl bg-blue-600 px-3 py-1.5 text-white ring-1 ring-blue-700/20 hover:bg-blue-700 focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-600"
+                >
+                  Full comparison
+                </Link>
+              ) : null}
             </div>
           </div>
         </div>
@@ -2,38 +2,46 @@
 "use client";
 
 import React from "react";
+import {
+  choiceGroups,
+  describeHousehold,
+  estimateFees,
+  type EstimateLine,
+  type FeeRow,
+} from "@/lib/fees";
+import { formatMoney } from "@/lib/currency";
+import { useHousehold } from "@/lib/useHousehold";
+import { useMoney } from "@/lib/CurrencyProvider";
+import CurrencySwitcher from "@/components/CurrencySwitcher";
+import RatesNote from "@/components/RatesNote";
+import { setLeadContext } from "@/lib/leadContext";
 
 /**
  * CostCalculator — professional, readable blue theme
  * -------------------------------------------------
  * UX
- *  • Clear 3-part flow: Base option → Family size → Add-ons → Summary.
+ *  • Clear flow: Option → Family (ages) → Itemised summary.
  *  • White cards with neutral text; blue only for emphasis (AA contrast).
- *  • Accessible steppers, radios and checkboxes; keyboard & screen-reader friendly.
+ *  • Accessible steppers, radios and age inputs; keyboard & screen-reader friendly.
  *  • Sticky total bar on small screens; print-friendly layout.
  *
+ * Data
+ *  • Driven by the program's fee rows (prices + governmentFees) and their
+ *    rules via src/lib/fees.ts; the household is shared with Prices,
+ *    GovernmentFees and AdvisorConsultationCard for one consistent total.
+ *  • Shown in the visitor's display currency (useMoney) at snapshot rates.
+ *  • Once the visitor interacts, the estimate rides along with their
+ *    inquiry (lead context).
+ *
  * SEO
  *  • Outputs JSON-LD (Offer + PriceSpecification) for the computed estimate.
- *
- * Notes
- *  • No external UI/icon libs; only Tailwind + inline SVGs.
  */
 
-type BaseOption = { id: string; label: string; amount: number };
-type Addon = {
-  id: string;
-  label: string;
-  amount: number;
-  per?: "application" | "adult" | "child";
-};
-
 type Props = {
   currency?: string;
-  baseOptions: BaseOption[]; // e.g. Donation vs Real Estate
-  defaultBaseId?: string;
-  adults?: number; // includes principal
-  children?: number;
-  addons?: Addon[]; // govt fees, due diligence, etc.
+  rows: FeeRow[];
+  /** Starting household when the visitor hasn't set one this session */
+  adults?: number;
   className?: string;
   title?: string; // default: "Cost estimator"
   disclaimer?: string;
@@ -41,92 +49,61 @@ type Props = {
 
 export default function CostCalculator({
   currency = "USD",
-  baseOptions,
-  defaultBaseId,
+  rows,
   adults = 2,
-  children = 0,
-  addons = [],
   className = "",
   title = "Cost estimator",
   disclaimer = "Indicative estimate. Excludes exchange/transfer charges and third-party legal costs. Official fees may change without notice.",
 }: Props) {
   /* ---------- state ---------- */
-  const safeDefaultBase = defaultBaseId ?? baseOptions[0]?.id ?? "";
-  const [selectedBase, setSelectedBase] =
-    React.useState<string>(safeDefaultBase);
-  const [adultCount, setAdultCount] = React.useState(Math.max(1, adults));
-  const [childCount, setChildCount] = React.useState(Math.max(0, children));
-  const [enabled, setEnabled] = React.useState<Record<string, boolean>>(
-    () => Object.fromEntries(addons.map((a) => [a.id, true])), // default ON
-  );
+  const initial = React.useMemo(() => ({ adults }), [adults]);
+  const {
+    input,
+    household,
+    update,
+    reset: resetHousehold,
+  } = useHousehold(initial);
+  const groups = React.useMemo(() => [...choiceGroups(rows)], [rows]);
+  const [choices, setChoices] = React.useState<Record<string, string>>({});
 
   /* ---------- helpers ---------- */
+  const money = useMoney(currency);
+  const view = money.currency;
   const fmt = React.useCallback(
-    (amt: number) => {
-      try {
-        return new Intl.NumberFormat(undefined, {
-          style: "currency",
-          currency: currency.toUpperCase(),
-          maximumFractionDigits: 0,
-        }).format(amt);
-      } catch {
-        return `${amt.toLocaleString()} ${currency.toUpperCase()}`;
-      }
-    },
-    [currency],
+    (amt: number) => formatMoney(amt, view),
+    [view],
   );
 
-  const base = React.useMemo(
+  const estimate = React.useMemo(
     () =>
-      baseOptions.find((b) => b.id === selectedBase) ?? {
-        id: "",
-        label: "—",
-        amount: 0,
-      },
-    [selectedBase, baseOptions],
+      estimateFees(rows, household, {
+        currency: view,
+        choices,
+        rates: money.rates,
+      }),
+    [rows, household, view, choices, money.rates],
   );
+  const total = estimate.oneOff;
 
-  const rows = React.useMemo(() => {
-    const list: Array<{
-      id: string;
-      label: string;
-      unit: number;
-      qty: number;
-      total: number;
-      per?: Addon["per"];
-    }> = [];
-
-    // Base
-    list.push({
-      id: `base-${base.id}`,
-      label: base.label,
-      unit: base.amount,
-      qty: 1,
-      total: base.amount,
+  // Attach to the lead only after the visitor has used the calculator.
+  const [engaged, setEngaged] = React.useState(false);
+  React.useEffect(() => {
+    if (!engaged) return;
+    const option = groups
+      .map(([key, opts]) => choices[key] ?? opts[0]?.label)
+      .filter(Boolean)
+      .join(", ");
+    setLeadContext({
+      estimate: {
+        currency: estimate.currency,
+        oneOff: Math.round(estimate.oneOff),
+        annual: estimate.annual ? Math.round(estimate.annual) : undefined,
+        household: describeHousehold(household),
+        option: option || undefined,
+        page: window.location.pathname,
+      },
     });
-
-    // Add-ons
-    for (const a of addons) {
-      if (!enabled[a.id]) continue;
-      const qty =
-        a.per === "adult" ? adultCount : a.per === "child" ? childCount : 1;
-      const lineTotal = a.amount * qty;
-      list.push({
-        id: a.id,
-        label: a.label,
-        unit: a.amount,
-        qty,
-        total: lineTotal,
-        per: a.per,
-      });
-    }
-    return list;
-  }, [addons, enabled, adultCount, childCount, base]);
-
-  const total = React.useMemo(
-    () => rows.reduce((s, r) => s + r.total, 0),
-    [rows],
-  );
+  }, [engaged, estimate, household, groups, choices]);
 
   // live region for screen readers when total changes
   const [announce, setAnnounce] = React.useState("");
@@ -135,16 +112,19 @@ export default function CostCalculator({
   }, [fmt, total]);
 
   const reset = () => {
-    setSelectedBase(safeDefaultBase);
-    setAdultCount(Math.max(1, adults));
-    setChildCount(Math.max(0, children));
-    setEnabled(Object.fromEntries(addons.map((a) => [a.id, true])));
+    setChoices({});
+    resetHousehold();
   };
 
+  const setAges = (key: "childAges" | "parentAges", ages: number[]) =>
+    update({ [key]: ages });
+
   /* ---------- UI ---------- */
   return (
     <section
       aria-labelledby="cc-title"
+      onChangeCapture={() => setEngaged(true)}
+      onClickCapture={() => setEngaged(true)}
       className={[
         "relative overflow-hidden",
         "rounded-2xl p-5 md:p-6 lg:p-8",
@@ -171,6 +151,7 @@ export default function CostCalculator({
           </h3>
 
           <div className="flex items-center gap-2">
+            <CurrencySwitcher />
             <button
               type="button"
               onClick={reset}
@@ -193,165 +174,98 @@ export default function CostCalculator({
         </p>
       </header>
 
-      {/* FLOW: Base options */}
-      {baseOptions.length > 0 ? (
-        <section aria-labelledby="cc-base" className="relative">
-          <h4
-            id="cc-base"
-            className="text-sm font-semibold text-neutral-900 dark:text-neutral-100"
+      {/* FLOW: Alternatives (e.g. investment options) */}
+      {groups.map(([key, options]) => {
+        const selected = choices[key] ?? options[0]?.label;
+        return (
+          <section
+            key={key}
+            aria-labelledby={`cc-choice-${key}`}
+            className="relative mb-5"
           >
-            Choose a base option
-          </h4>
-          <div className="mt-3 grid gap-2 sm:grid-cols-2">
-            {baseOptions.map((b) => {
-              const checked = selectedBase === b.id;
-              return (
-                <label
-                  key={b.id}
-                  className={[
-                    "flex items-center justify-between gap-3 rounded-xl p-3 cursor-pointer",
-                    "bg-white dark:bg-neutral-900",
-                    "ring-1 ring-neutral-200 dark:ring-neutral-800",
-                    checked
-                      ? "outline outline-2 outline-blue-400/70"
-                      : "hover:bg-neutral-50 dark:hover:bg-neutral-800/50",
-                  ].join(" ")}
-                >
-                  <span className="flex items-center gap-2">
-                    <input
-                      type="radio"
-                      name="cc-base-option"
-                      className="h-4 w-4 accent-blue-600"
-                      checked={checked}
-                      onChange={() => setSelectedBase(b.id)}
-                      aria-label={b.label}
-                    />
-                    <span className="text-sm font-medium text-neutral-900 dark:text-neutral-100">
-                      {b.label}
+            <h4
+              id={`cc-choice-${key}`}
+              className="text-sm font-semibold text-neutral-900 dark:text-neutral-100"
+            >
+              Choose an option
+            </h4>
+            <div className="mt-3 grid gap-2 sm:grid-cols-2">
+              {options.map((o) => {
+                const checked = selected === o.label;
+                return (
+                  <label
+                    key={o.label}
+                    className={[
+                      "flex items-center justify-between gap-3 rounded-xl p-3 cursor-pointer",
+                      "bg-white dark:bg-neutral-900",
+                      "ring-1 ring-neutral-200 dark:ring-neutral-800",
+                      checked
+                        ? "outline outline-2 outline-blue-400/70"
+                        : "hover:bg-neutral-50 dark:hover:bg-neutral-800/50",
+                    ].join(" ")}
+                  >
+                    <span className="flex items-center gap-2">
+                      <input
+                        type="radio"
+                        name={`cc-choice-${key}`}
+                        className="h-4 w-4 accent-blue-600"
+                        checked={checked}
+                        onChange={() =>
+                          setChoices((s) => ({ ...s, [key]: o.label }))
+                        }
+                        aria-label={o.label}
+                      />
+                      <span className="text-sm font-medium text-neutral-900 dark:text-neutral-100">
+                        {o.label}
+                      </span>
                     </span>
-                  </span>
-                  <span className="text-sm tabular-nums text-neutral-900 dark:text-neutral-100">
-                    {fmt(b.amount)}
-                  </span>
-                </label>
-              );
-            })}
-          </div>
-        </section>
-      ) : null}
+                    <span className="text-sm tabular-nums text-neutral-900 dark:text-neutral-100">
+                      {typeof o.amount === "number"
+                        ? money.format(o.amount, o.currency)
+                        : "—"}
+                    </span>
+                  </label>
+                );
+              })}
+            </div>
+          </section>
+        );
+      })}
 
-      {/* FLOW: Family size */}
-      <section aria-labelledby="cc-family" className="relative mt-5">
+      {/* FLOW: Family */}
+      <section aria-labelledby="cc-family" className="relative">
         <h4
           id="cc-family"
           className="text-sm font-semibold text-neutral-900 dark:text-neutral-100"
         >
-          Family size
+          Your family
         </h4>
 
-        <div className="mt-3 grid grid-cols-2 gap-3">
+        <div className="mt-3 grid gap-3 sm:grid-cols-3">
           <Stepper
-            label="Adults (incl. principal)"
-            value={adultCount}
-            setValue={(v) => setAdultCount(Math.max(1, v))}
+            label="Adults (principal + spouse)"
+            value={input.adults}
+            setValue={(v) => update({ adults: Math.min(2, Math.max(1, v)) })}
             min={1}
+            max={2}
             ariaLabelDecrement="Decrease adults"
             ariaLabelIncrement="Increase adults"
           />
-          <Stepper
-            label="Children (<18)"
-            value={childCount}
-            setValue={(v) => setChildCount(Math.max(0, v))}
-            min={0}
-            ariaLabelDecrement="Decrease children"
-            ariaLabelIncrement="Increase children"
+          <AgeList
+            label="Children (ages)"
+            ages={input.childAges}
+            defaultAge={8}
+            onChange={(a) => setAges("childAges", a)}
+          />
+          <AgeList
+            label="Parents (ages)"
+            ages={input.parentAges}
+            defaultAge={60}
+            onChange={(a) => setAges("parentAges", a)}
           />
         </div>
       </section>
 
-      {/* FLOW: Add-ons */}
-      {addons.length ? (
-        <section aria-labelledby="cc-addons" className="relative mt-6">
-          <div className="flex items-center justify-between">
-            <h4
-              id="cc-addons"
-              className="text-sm font-semibold text-neutral-900 dark:text-neutral-100"
-            >
-              Government & due-diligence fees
-            </h4>
-            <button
-              type="button"
-              onClick={() =>
-                setEnabled((s) =>
-                  Object.fromEntries(Object.keys(s).map((k) => [k, false])),
-                )
-              }
-              className="text-[12px] underline underline-offset-2 text-neutral-600 hover:text-neutral-900 dark:text-neutral-300 dark:hover:text-neutral-100"
-            >
-              Clear all
-            </button>
-          </div>
-
-          <ul className="mt-3 space-y-2" role="list">
-            {addons.map((a) => {
-              const qty =
-                a.per === "adult"
-                  ? adultCount
-                  : a.per === "child"
-                    ? childCount
-                    : 1;
-              const lineTotal = enabled[a.id] ? a.amount * qty : 0;
-              return (
-                <li
-                  key={a.id}
-                  className="grid grid-cols-[auto_1fr_auto] items-center gap-2 rounded-xl p-3
-                             bg-white dark:bg-neutral-900 ring-1 ring-neutral-200 dark:ring-neutral-800"
-                >
-                  <input
-                    id={`cc-addon-${a.id}`}
-                    type="checkbox"
-                    className="h-4 w-4 accent-blue-600"
-                    checked={!!enabled[a.id]}
-                    onChange={(e) =>
-                      setEnabled((s) => ({ ...s, [a.id]: e.target.checked }))
-                    }
-                    aria-describedby={
-                      a.per ? `cc-addon-per-${a.id}` : undefined
-                    }
-                  />
-                  <label
-                    htmlFor={`cc-addon-${a.id}`}
-                    className="text-sm text-neutral-900 dark:text-neutral-100"
-                  >
-                    {a.label}{" "}
-                    {a.per ? (
-                      <span
-                        id={`cc-addon-per-${a.id}`}
-                        className="text-neutral-500 dark:text-neutral-400"
-                      >
-                        · per {a.per}
-                      </span>
-                    ) : null}
-                  </label>
-
-                  <div className="text-right">
-                    <div className="text-sm tabular-nums text-neutral-900 dark:text-neutral-100">
-                      {fmt(a.amount)}
-                    </div>
-                    <div className="text-[11px] text-neutral-500 dark:text-neutral-400">
-                      {qty} × {fmt(a.amount)} ={" "}
-                      <span className="font-medium text-neutral-800 dark:text-neutral-200">
-                        {fmt(lineTotal)}
-                      </span>
-                    </div>
-                  </div>
-                </li>
-              );
-            })}
-          </ul>
-        </section>
-      ) : null}
-
       {/* SUMMARY */}
       <section aria-labelledby="cc-summary" className="relative mt-6">
         <h4
@@ -364,12 +278,13 @@ export default function CostCalculator({
         <div className="mt-3 rounded-2xl ring-1 ring-neutral-200 dark:ring-neutral-800 bg-white dark:bg-neutral-900 overflow-hidden">
           {/* table-like list for clarity & printability */}
           <div className="divide-y divide-neutral-200 dark:divide-neutral-800">
-            {rows.map((r, i) => (
+            {estimate.lines.map((r, i) => (
               <div
-                key={r.id}
+                key={r.key}
                 className={[
                   "grid grid-cols-[1fr_auto_auto] items-center gap-3 px-4 py-3",
                   i % 2 ? "bg-neutral-50/60 dark:bg-neutral-900/40" : "",
+                  r.quantity === 0 ? "opacity-60" : "",
                 ].join(" ")}
                 itemScope
                 itemType="https://schema.org/PriceSpecification"
@@ -383,7 +298,7 @@ export default function CostCalculator({
                     {r.label}
                   </div>
                   <div className="text-[11px] text-neutral-500 dark:text-neutral-400">
-                    {r.per ? `per ${r.per}` : "fixed"} • Qty {r.qty}
+                    {r.basis} • Qty {r.quantity}
                   </div>
                 </div>
                 <div
@@ -406,12 +321,21 @@ export default function CostCalculator({
           <div className="sticky bottom-0 flex items-center justify-between gap-3 px-4 py-3 bg-blue-50/80 backdrop-blur dark:bg-blue-950/40 ring-t-1 ring-blue-100/80 dark:ring-blue-900/50">
             <div className="text-[12px] font-medium text-blue-900 dark:text-blue-100">
               Estimated total
+              {estimate.annual > 0 ? (
+                <span className="block font-normal">
+                  + {fmt(estimate.annual)} per year
+                </span>
+              ) : null}
             </div>
             <div className="text-lg font-semibold tabular-nums text-blue-900 dark:text-blue-100">
               {fmt(total)}
             </div>
           </div>
         </div>
+        <RatesNote
+          show={estimate.lines.some((l) => l.sourceUnit)}
+          className="mt-2"
+        />
       </section>
 
       {/* SEO JSON-LD */}
@@ -419,7 +343,7 @@ export default function CostCalculator({
         type="application/ld+json"
         // eslint-disable-next-line react/no-danger
         dangerouslySetInnerHTML={{
-          __html: JSON.stringify(toJsonLd(currency, base, rows, total)),
+          __html: JSON.stringify(toJsonLd(view, estimate.lines, total)),
         }}
       />
     </section>
@@ -433,6 +357,7 @@ function Stepper({
   value,
   setValue,
   min = 0,
+  max = Number.MAX_SAFE_INTEGER,
   ariaLabelDecrement,
   ariaLabelIncrement,
 }: {
@@ -440,6 +365,7 @@ function Stepper({
   value: number;
   setValue: (v: number) => void;
   min?: number;
+  max?: number;
   ariaLabelDecrement: string;
   ariaLabelIncrement: string;
 }) {
@@ -462,6 +388,7 @@ function Stepper({
           className="w-14 text-center rounded-md ring-1 ring-neutral-300 dark:ring-neutral-700 bg-white dark:bg-neutral-900 py-1 tabular-nums"
           value={value}
           min={min}
+          max={max}
           onChange={(e) => {
             const v = Number(e.target.value);
             setValue(Number.isFinite(v) ? Math.max(min, Math.floor(v)) : min);
@@ -471,7 +398,7 @@ function Stepper({
         <button
           type="button"
           aria-label={ariaLabelIncrement}
-          onClick={() => setValue(value + 1)}
+          onClick={() => setValue(Math.min(max, value + 1))}
           className="h-8 w-8 rounded-md ring-1 ring-neutral-300 dark:ring-neutral-700 grid place-items-center hover:bg-neutral-100 dark:hover:bg-neutral-800"
         >
           <PlusIcon className="h-4 w-4" />
@@ -481,21 +408,73 @@ function Stepper({
   );
 }
 
+/* ---------- Age list ---------- */
+
+function AgeList({
+  label,
+  ages,
+  defaultAge,
+  onChange,
+}: {
+  label: string;
+  ages: number[];
+  defaultAge: number;
+  onChange: (ages: number[]) => void;
+}) {
+  const id = React.useId();
+  return (
+    <div className="rounded-xl ring-1 ring-neutral-200 dark:ring-neutral-800 p-3 bg-white dark:bg-neutral-900">
+      <div id={id} className="text-xs text-neutral-600 dark:text-neutral-300">
+        {label}
+      </div>
+      <ul
+        className="mt-2 flex flex-wrap items-center gap-2"
+        aria-labelledby={id}
+      >
+        {ages.map((age, i) => (
+          <li key={i} className="flex items-center gap-1">
+            <input
+              type="number"
+              min={0}
+              max={110}
+              value={age}
+              onChange={(e) => {
+                const v = Number(e.target.value);
+                const next = [...ages];
+                next[i] = Number.isFinite(v) ? Math.max(0, Math.floor(v)) : 0;
+                onChange(next);
+              }}
+              aria-label={`${label} ${i + 1}`}
+              className="w-14 text-center rounded-md ring-1 ring-neutral-300 dark:ring-neutral-700 bg-white dark:bg-neutral-900 py-1 tabular-nums"
+            />
+            <button
+              type="button"
+              aria-label={`Remove ${label.toLowerCase()} ${i + 1}`}
+              onClick={() => onChange(ages.filter((_, k) => k !== i))}
+              className="h-7 w-7 rounded-md ring-1 ring-neutral-300 dark:ring-neutral-700 grid place-items-center hover:bg-neutral-100 dark:hover:bg-neutral-800"
+            >
+              <MinusIcon className="h-3.5 w-3.5" />
+            </button>
+          </li>
+        ))}
+        <li>
+          <button
+            type="button"
+            aria-label={`Add ${label.toLowerCase()}`}
+            onClick={() => onChange([...ages, defaultAge])}
+            className="h-8 w-8 rounded-md ring-1 ring-neutral-300 dark:ring-neutral-700 grid place-items-center hover:bg-neutral-100 dark:hover:bg-neutral-800"
+          >
+            <PlusIcon className="h-4 w-4" />
+          </button>
+        </li>
+      </ul>
+    </div>
+  );
+}
+
 /* ---------- JSON-LD ---------- */
 
-function toJsonLd(
-  currency: string,
-  base: { id: string; label: string; amount: number },
-  rows: Array<{
-    id: string;
-    label: string;
-    unit: number;
-    qty: number;
-    total: number;
-    per?: "application" | "adult" | "child";
-  }>,
-  total: number,
-) {
+function toJsonLd(currency: string, lines: EstimateLine[], total: number) {
   return {
     "@context": "https://schema.org",
     "@type": "Offer",
@@ -505,21 +484,12 @@ function toJsonLd(
       "@type": "Service",
       name: "Residency / Citizenship program estimate",
     },
-    additionalProperty: [
-      {
-        "@type": "PropertyValue",
-        name: "Base",
-        value: `${base.label} (${base.amount})`,
-      },
-      ...rows
-        .filter((r) => r.id !== `base-${base.id}`)
-        .map((r) => ({
-          "@type": "PropertyValue",
-          name: r.label,
-          value: r.total,
-          description: `${r.qty} × ${r.unit}${r.per ? `, per ${r.per}` : ""}`,
-        })),
-    ],
+    additionalProperty: lines.map((r) => ({
+      "@type": "PropertyValue",
+      name: r.label,
+      value: r.total,
+      description: `${r.quantity} × ${r.unit}, ${r.basis}`,
+    })),
   } as const;
 }
 
@@ -2,12 +2,25 @@
 
 import * as React from "react";
 import { Landmark } from "lucide-react";
+import {
+  describeHousehold,
+  describeRule,
+  estimateFees,
+  hasRule,
+  type FeeRow,
+} from "@/lib/fees";
+import { useHousehold } from "@/lib/useHousehold";
+import { useMoney } from "@/lib/CurrencyProvider";
+import RatesNote from "@/components/RatesNote";
+import { CiteRefs, SourceNotes } from "@/components/Common/Citations";
+import { numberFootnotes } from "@/lib/content/citations";
+import type { SourceRef } from "@/lib/content/schema";
 
-export type GovernmentFee = {
-  label: string;
-  amount?: number;
-  currency?: string;
-  notes?: string;
+export type GovernmentFee = FeeRow & {
+  cite?: string[];
+  /** Single-source shorthand, cited like a `sources` entry */
+  sourceLabel?: string;
+  sourceUrl?: string;
 };
 
 export default function GovernmentFees({
@@ -15,17 +28,23 @@ export default function GovernmentFees({
   defaultCurrency = "USD",
   title = "Government fees",
   id = "gov-fees",
+  sources = [],
 }: {
   fees: GovernmentFee[];
   defaultCurrency?: string;
   title?: string;
   id?: string;
+  sources?: SourceRef[];
 }) {
   const hasFees = Array.isArray(fees) && fees.length > 0;
+  const { household } = useHousehold();
+  const money = useMoney(defaultCurrency);
   if (!hasFees) return null;
 
+  // Converted figures are whole units; listed ones keep their cents.
   const fmt = (amt?: number, cur?: string) => {
     if (typeof amt !== "number" || Number.isNaN(amt)) return "—";
+    if (money.isConverted(cur)) return money.format(amt, cur);
     const c = (cur || defaultCurrency).toUpperCase();
     const hasDecimals = Math.abs(amt % 1) > 0;
     try {
@@ -42,16 +61,51 @@ export default function GovernmentFees({
     }
   };
 
+  // Footnotes: `cite` ids plus each row's own sourceLabel/sourceUrl
+  const inline = fees.map((row, i) =>
+    row.sourceUrl || row.sourceLabel
+      ? {
+          id: `${id}-row-${i}`,
+          title: row.sourceLabel || row.sourceUrl!,
+          url: row.sourceUrl,
+        }
+      : undefined,
+  );
+  const rowCites = fees.map((row, i) => [
+    ...(row.cite ?? []),
+    ...(inline[i] ? [inline[i].id] : []),
+  ]);
+  const { refs, notes } = numberFootnotes(
+    [...sources, ...inline.filter((s) => s !== undefined)],
+    rowCites,
+  );
+
+  // Rule-bearing rows: one total for the visitor's household
+  const ruled = fees.some(hasRule);
+  const estimate = ruled
+    ? estimateFees(fees, household, {
+        currency: money.currency,
+        rates: money.rates,
+      })
+    : null;
+  const converted = fees.some(
+    (r) => typeof r.amount === "number" && money.isConverted(r.currency),
+  );
+
   // Per-currency totals (simple chips)
   const totals = React.useMemo(() => {
+    if (estimate)
+      return [
+        { currency: estimate.currency as string, total: estimate.oneOff },
+      ];
     const map = new Map<string, number>();
     for (const row of fees) {
       if (typeof row.amount !== "number" || Number.isNaN(row.amount)) continue;
-      const c = (row.currency || defaultCurrency).toUpperCase();
-      map.set(c, (map.get(c) || 0) + row.amount);
+      const c = money.currencyFor(row.currency);
+      map.set(c, (map.get(c) || 0) + money.value(row.amount, row.currency));
     }
     return [...map.entries()].map(([currency, total]) => ({ currency, total }));
-  }, [fees, defaultCurrency]);
+  }, [fees, estimate, money]);
 
   return (
     <section
@@ -78,10 +132,15 @@ export default function GovernmentFees({
               key={currency}
               className="inline-flex items-center gap-1 rounded-full bg-indigo-50 text-indigo-900 dark:bg-indigo-900/30 dark:text-indigo-200 ring-1 ring-indigo-200/70 dark:ring-indigo-800/60 px-2.5 py-0.5 text-[12px] font-medium"
             >
-              Total ({currency}):{" "}
+              {estimate ? "Your family" : "Total"} ({currency}):{" "}
               <span className="tabular-nums">{fmt(total, currency)}</span>
             </span>
           ))}
+          {estimate ? (
+            <span className="self-center text-[12px] opacity-70">
+              {describeHousehold(estimate.household)}
+            </span>
+          ) : null}
         </div>
       ) : null}
 
@@ -112,6 +171,12 @@ export default function GovernmentFees({
                   title={row.label}
                 >
                   <span itemProp="name">{row.label}</span>
+                  <CiteRefs refs={refs(rowCites[i])} scope={id} />
+                  {ruled && hasRule(row) ? (
+                    <span className="block text-[11px] font-normal opacity-70">
+                      {describeRule(row)}
+                    </span>
+                  ) : null}
                 </div>
                 {row.notes ? (
                   <p className="mt-1 text-[12.5px] leading-6 text-slate-700 dark:text-slate-300 break-words">
@@ -124,7 +189,7 @@ export default function GovernmentFees({
               <div className="ml-2 shrink-0 text-[15px] font-semibold tabular-nums whitespace-nowrap">
                 {typeof row.amount === "number" ? (
                   <>
-                    <span itemProp="price">
+                    <span itemProp="price" content={String(row.amount)}>
                       {fmt(row.amount, row.currency)}
                     </span>
                     <meta
@@ -180,11 +245,17 @@ export default function GovernmentFees({
                     title={row.label}
                   >
                     <span itemProp="name">{row.label}</span>
+                    <CiteRefs refs={refs(rowCites[i])} scope={id} />
+                    {ruled && hasRule(row) ? (
+                      <span className="block text-[11px] font-normal opacity-70">
+                        {describeRule(row)}
+                      </span>
+                    ) : null}
                   </td>
                   <td className="py-3 pr-4 align-top tabular-nums whitespace-nowrap">
                     {typeof row.amount === "number" ? (
                       <>
-                        <span itemProp="price">
+                        <span itemProp="price" content={String(row.amount)}>
                           {fmt(row.amount, row.currency)}
                         </span>
                         <meta
@@ -214,6 +285,8 @@ export default function GovernmentFees({
           </p>
         </div>
       </div>
+      <SourceNotes notes={notes} scope={id} className="mt-3" />
+      <RatesNote show={converted} className="mt-2" />
     </section>
   );
 }
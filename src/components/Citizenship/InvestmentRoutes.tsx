@@ -1,9 +1,14 @@
 // src/components/Citizenship/InvestmentRoutes.tsx
+"use client";
+
 import React from "react";
+import { useMoney } from "@/lib/CurrencyProvider";
+import { convertAmount, toCurrencyCode } from "@/lib/currency";
+import RatesNote from "@/components/RatesNote";
 
 /**
  * InvestmentRoutes — professional, readable blue-accent list
- * - Server-component friendly (no hooks, no client-only libs)
+ * - Client component: amounts follow the visitor's display currency
  * - White cards on ultra-light grid; blue only for emphasis
  * - 100% responsive (1 → 2 → 3 columns), print-friendly
  * - A11y: semantic <section>/<header>, dl pairs, focus states
@@ -21,11 +26,25 @@ export type RouteItem = {
 type Props = { routes: RouteItem[]; className?: string };
 
 export default function InvestmentRoutes({ routes, className = "" }: Props) {
+  const money = useMoney();
   if (!routes?.length) return null;
 
   const id = "investment-routes";
+  // Rank on a common scale — routes may be listed in different currencies
   const cheapest = minBy(routes, (r) =>
-    isFiniteNum(r.minInvestment) ? (r.minInvestment as number) : Infinity,
+    isFiniteNum(r.minInvestment)
+      ? convertAmount(
+          r.minInvestment,
+          toCurrencyCode(r.currency),
+          "USD",
+          money.rates,
+        )
+      : Infinity,
+  );
+  const fmtCurrency = (amount: number, currency?: string) =>
+    money.format(amount, currency);
+  const converted = routes.some(
+    (r) => isFiniteNum(r.minInvestment) && money.isConverted(r.currency),
   );
   const fastest = minBy(routes, (r) =>
     isFiniteNum(r.timeline) ? (r.timeline as number) : Infinity,
@@ -199,6 +218,7 @@ export default function InvestmentRoutes({ routes, className = "" }: Props) {
           );
         })}
       </ul>
+      <RatesNote show={converted} className="relative mt-3" />
 
       {/* JSON-LD for SEO */}
       <script
@@ -426,20 +446,6 @@ function minBy<T>(arr: T[], fn: (x: T) => number) {
   return Number.isFinite(bestVal) ? (best as T) : undefined;
 }
 
-function fmtCurrency(amount: number, currency?: string) {
-  if (!isFiniteNum(amount)) return "—";
-  const cur = (currency || "USD").toUpperCase();
-  try {
-    return new Intl.NumberFormat(undefined, {
-      style: "currency",
-      currency: cur,
-      maximumFractionDigits: 0,
-    }).format(amount);
-  } catch {
-    return `${amount.toLocaleString()} ${cur}`;
-  }
-}
-
 function plural(n: number, unit: string) {
   return `${n} ${unit}${n === 1 ? "" : "s"}`;
 }
@@ -1,5 +1,12 @@
 // src/components/Shared/RiskCompliance.tsx
 import React from "react";
+import { CiteRefs, SourceNotes } from "@/components/Common/Citations";
+import {
+  citationLd,
+  numberFootnotes,
+  splitCitations,
+} from "@/lib/content/citations";
+import type { SourceRef } from "@/lib/content/schema";
 
 type Props = {
   /** Short, plain-text risk statements. Rendered as a readable list. */
@@ -8,6 +15,8 @@ type Props = {
   complianceNotes?: string[];
   className?: string;
   title?: string; // default: "Risk & compliance"
+  /** Sources that notes cite with a trailing `[^id]` marker */
+  sources?: SourceRef[];
 };
 
 /**
@@ -17,7 +26,8 @@ type Props = {
  * • Neutral white surface; amber accent for Risk, blue accent for Compliance
  * • Accessible: semantic regions, headings, lists, focus styles
  * • Responsive: single column → two columns; print-friendly
- * • SEO: JSON-LD ItemLists for risk/compliance notes
+ * • SEO: JSON-LD ItemLists for risk/compliance notes, with cited sources
+ * • Citations: `[^id]` markers become footnotes listed in the fine print
  * • No external icon libs (inline SVGs only)
  */
 export default function RiskCompliance({
@@ -25,10 +35,17 @@ export default function RiskCompliance({
   complianceNotes = [],
   className = "",
   title = "Risk & compliance",
+  sources,
 }: Props) {
   if (!riskNotes.length && !complianceNotes.length) return null;
 
   const sectionId = "risk-compliance";
+  const risks = riskNotes.map(splitCitations);
+  const compliance = complianceNotes.map(splitCitations);
+  const { refs, notes } = numberFootnotes(
+    sources,
+    [...risks, ...compliance].map((n) => n.ids),
+  );
 
   return (
     <section
@@ -85,9 +102,9 @@ export default function RiskCompliance({
             </div>
 
             <ul className="mt-2 space-y-2" role="list">
-              {riskNotes.map((n, i) => (
+              {risks.map((n, i) => (
                 <li
-                  key={`${n}-${i}`}
+                  key={`${n.text}-${i}`}
                   className="flex items-start gap-2 text-[15px] leading-7"
                 >
                   <span
@@ -95,7 +112,8 @@ export default function RiskCompliance({
                     className="mt-2 inline-flex h-2.5 w-2.5 shrink-0 rounded-full bg-amber-600 ring-2 ring-amber-200/70 dark:bg-amber-400 dark:ring-amber-800/60"
                   />
                   <span className="text-neutral-900 dark:text-neutral-100">
-                    {n}
+                    {n.text}
+                    <CiteRefs refs={refs(n.ids)} scope={sectionId} />
                   </span>
                 </li>
               ))}
@@ -125,9 +143,9 @@ export default function RiskCompliance({
             </div>
 
             <ul className="mt-2 space-y-2" role="list">
-              {complianceNotes.map((n, i) => (
+              {compliance.map((n, i) => (
                 <li
-                  key={`${n}-${i}`}
+                  key={`${n.text}-${i}`}
                   className="flex items-start gap-2 text-[15px] leading-7"
                 >
                   <span
@@ -135,7 +153,8 @@ export default function RiskCompliance({
                     className="mt-2 inline-flex h-2.5 w-2.5 shrink-0 rounded-full bg-blue-600 ring-2 ring-blue-200/70 dark:bg-blue-400 dark:ring-blue-900/60"
                   />
                   <span className="text-neutral-900 dark:text-neutral-100">
-                    {n}
+                    {n.text}
+                    <CiteRefs refs={refs(n.ids)} scope={sectionId} />
                   </span>
                 </li>
               ))}
@@ -150,6 +169,7 @@ export default function RiskCompliance({
           Program rules change periodically. Always consult the official source
           and independent counsel.
         </p>
+        <SourceNotes notes={notes} scope={sectionId} className="mt-3" />
       </footer>
 
       {/* SEO: JSON-LD (two ItemLists under hasPart) */}
@@ -157,7 +177,13 @@ export default function RiskCompliance({
         type="application/ld+json"
         // eslint-disable-next-line react/no-danger
         dangerouslySetInnerHTML={{
-          __html: JSON.stringify(toJsonLd(riskNotes, complianceNotes)),
+          __html: JSON.stringify(
+            toJsonLd(
+              risks.map((n) => n.text),
+              compliance.map((n) => n.text),
+              citationLd(notes),
+            ),
+          ),
         }}
       />
     </section>
@@ -233,7 +259,11 @@ function ShieldIcon({ className = "" }: { className?: string }) {
 
 /* ---------------- SEO JSON-LD ---------------- */
 
-function toJsonLd(risk: string[], compliance: string[]) {
+function toJsonLd(
+  risk: string[],
+  compliance: string[],
+  citation: ReturnType<typeof citationLd>,
+) {
   const makeList = (name: string, arr: string[]) => ({
     "@type": "ItemList",
     name,
@@ -253,5 +283,6 @@ function toJsonLd(risk: string[], compliance: string[]) {
     "@type": "Article",
     name: "Risk & compliance",
     hasPart: parts,
+    citation: citation.length ? citation : undefined,
   } as const;
 }
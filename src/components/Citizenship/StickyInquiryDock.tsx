@@ -3,6 +3,8 @@
 
 import React from "react";
 import Link from "next/link";
+import ContactForm from "@/components/ContactForm";
+import { useLeadContext } from "@/lib/leadContext";
 
 type Props = {
   bookingUrl?: string;
@@ -28,6 +30,9 @@ export default function StickyInquiryDock({
   // Start hidden to avoid flash, then decide in effect.
   const [hidden, setHidden] = React.useState(true);
   const [ready, setReady] = React.useState(false);
+  // Inline quick-callback form; it carries the session's lead context.
+  const [callback, setCallback] = React.useState(false);
+  const program = useLeadContext().program?.title;
 
   React.useEffect(() => {
     try {
@@ -118,6 +123,11 @@ export default function StickyInquiryDock({
           {/* Message */}
           <p className="text-sm sm:text-[15px] text-neutral-900 dark:text-neutral-100">
             {text}
+            {program ? (
+              <span className="block text-xs text-neutral-600 dark:text-neutral-400">
+                About: {program}
+              </span>
+            ) : null}
           </p>
 
           {/* Actions */}
@@ -139,6 +149,21 @@ export default function StickyInquiryDock({
               Book a call
             </SmartLink>
 
+            <button
+              type="button"
+              onClick={() => setCallback((v) => !v)}
+              aria-expanded={callback}
+              aria-controls={`${id}-callback`}
+              className={[
+                "inline-flex items-center justify-center rounded-xl px-4 py-2",
+                "bg-white text-neutral-900 ring-1 ring-neutral-200 hover:bg-neutral-50",
+                "dark:bg-neutral-900 dark:text-neutral-100 dark:ring-neutral-800 dark:hover:bg-neutral-800",
+                "focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-blue-400/70",
+              ].join(" ")}
+            >
+              {callback ? "Close" : "Call me back"}
+            </button>
+
             <a
               href={brochureUrl}
               download
@@ -190,6 +215,20 @@ export default function StickyInquiryDock({
           </div>
         </div>
 
+        {callback ? (
+          <div
+            id={`${id}-callback`}
+            className="relative mt-3 max-h-[60vh] overflow-y-auto"
+          >
+            <ContactForm
+              variant="quick"
+              heading="Request a callback"
+              subheading="Leave your number — an advisor will call you."
+              onSuccess={() => setCallback(false)}
+            />
+          </div>
+        ) : null}
+
         {/* SEO: tiny JSON-LD for actions */}
         <script
           type="application/ld+json"
@@ -0,0 +1,51 @@
+// src/components/Common/ArchivedNotice.tsx
+// Notice for expired content (`expiresAt` passed, `onExpire` not "hide"),
+// linking to `supersededBy` when set. Renders nothing for live pages, so
+// callers can include it unconditionally. No hooks: server or client.
+import Link from "next/link";
+import { scheduleState, type ScheduleMeta } from "@/lib/content/schedule";
+import { DEFAULT_LOCALE, type Locale } from "@/lib/i18n/config";
+import { translator } from "@/lib/i18n/translate";
+
+export default function ArchivedNotice({
+  meta,
+  locale = DEFAULT_LOCALE,
+  className = "",
+}: {
+  meta: ScheduleMeta;
+  locale?: Locale;
+  className?: string;
+}) {
+  if (scheduleState(meta) !== "archived" || !meta.expiresAt) return null;
+  const { t, rich, date } = translator(locale);
+  return (
+    <aside
+      role="note"
+      className={`rounded-xl border border-amber-300 bg-amber-50 px-4 py-3 text-sm text-amber-900 dark:border-amber-500/40 dark:bg-amber-500/10 dark:text-amber-100 ${className}`}
+    >
+      {rich("archived.notice", {
+        archived: (
+          <strong key="archived" className="font-semibold">
+            {t("archived.label")}
+          </strong>
+        ),
+        date: (
+          <time key="date" dateTime={new Date(meta.expiresAt).toISOString()}>
+            {date(meta.expiresAt)}
+          </time>
+        ),
+      })}
+      {meta.supersededBy && (
+        <>
+          {" "}
+          <Link
+            href={meta.supersededBy}
+            className="font-semibold underline underline-offset-2"
+          >
+            {t("archived.current")}
+          </Link>
+        </>
+      )}
+    </aside>
+  );
+}
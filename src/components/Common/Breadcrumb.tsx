@@ -4,6 +4,8 @@ import { usePathname } from "next/navigation";
 import Link from "next/link";
 import { useMemo } from "react";
 import { ChevronRight } from "lucide-react"; // ✅ modern icon
+import { localePath, splitLocale } from "@/lib/i18n/config";
+import { useTranslator } from "@/lib/i18n/LocaleProvider";
 
 const formatSegment = (segment: string) => {
   return segment.replace(/-/g, " ").replace(/\b\w/g, (c) => c.toUpperCase());
@@ -11,10 +13,12 @@ const formatSegment = (segment: string) => {
 
 export default function Breadcrumb() {
   const pathname = usePathname();
+  const { t } = useTranslator();
 
-  const segments = useMemo(() => {
-    if (!pathname) return [];
-    return pathname.split("/").filter(Boolean);
+  // "/ar/citizenship/grenada" → locale "ar", segments [citizenship, grenada]
+  const { locale, segments } = useMemo(() => {
+    const { locale, path } = splitLocale(pathname ?? "/");
+    return { locale, segments: path.split("/").filter(Boolean) };
   }, [pathname]);
 
   return (
@@ -27,18 +31,20 @@ export default function Breadcrumb() {
               href="/"
               className="hover:text-secondary font-medium transition-colors"
             >
-              Home
+              {t("common.home")}
             </Link>
           </li>
 
           {segments.map((segment, idx) => {
-            const href = "/" + segments.slice(0, idx + 1).join("/");
+            const path = "/" + segments.slice(0, idx + 1).join("/");
+            // Only country and program pages have /<locale> versions
+            const href = idx >= 1 ? localePath(path, locale) : path;
             const isLast = idx === segments.length - 1;
 
             return (
               <li key={idx} className="flex items-center gap-2">
                 {/* Chevron */}
-                <ChevronRight className="w-4 h-4 text-gray-400" />
+                <ChevronRight className="w-4 h-4 text-gray-400 rtl:rotate-180" />
 
                 {isLast ? (
                   <span className="bg-gray-100 dark:bg-neutral-800 px-2 py-1 rounded-md text-gray-900 dark:text-gray-100 font-semibold">
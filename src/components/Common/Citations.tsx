@@ -0,0 +1,121 @@
+"use client";
+// src/components/Common/Citations.tsx
+// Footnote-style citations (lib/content/citations.ts): superscript [n] links
+// next to a fact and the numbered source list below the block. `scope` keeps
+// anchors unique when several blocks on a page cite. Labels and dates follow
+// the page locale (LocaleProvider).
+import type { SourceRef } from "@/lib/content/schema";
+import {
+  numberFootnotes,
+  splitCitations,
+  type Footnote,
+} from "@/lib/content/citations";
+import { useTranslator } from "@/lib/i18n/LocaleProvider";
+
+const anchor = (scope: string, n: number) => `${scope}-source-${n}`;
+
+export function CiteRefs({ refs, scope }: { refs: number[]; scope: string }) {
+  const { t } = useTranslator();
+  if (!refs.length) return null;
+  return (
+    <sup className="ml-0.5 whitespace-nowrap text-[0.7em] font-medium">
+      {refs.map((n) => (
+        <a
+          key={n}
+          href={`#${anchor(scope, n)}`}
+          aria-label={t("citations.source", { n })}
+          className="text-blue-700 hover:underline dark:text-blue-300"
+        >
+          [{n}]
+        </a>
+      ))}
+    </sup>
+  );
+}
+
+export function SourceNotes({
+  notes,
+  scope,
+  className = "",
+}: {
+  notes: Footnote[];
+  scope: string;
+  className?: string;
+}) {
+  const { t, rich, date } = useTranslator();
+  if (!notes.length) return null;
+  return (
+    <div className={className}>
+      <p className="text-[11px] font-semibold uppercase tracking-wide text-neutral-600 dark:text-neutral-400">
+        {t("citations.sources")}
+      </p>
+      <ol className="mt-1 space-y-0.5 text-[12px] leading-5 text-neutral-700 dark:text-neutral-300">
+        {notes.map((s) => (
+          <li key={s.id} id={anchor(scope, s.n)} className="scroll-mt-28">
+            <span className="tabular-nums">{s.n}.</span>{" "}
+            {s.url ? (
+              <a
+                href={s.url}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="underline underline-offset-2"
+              >
+                {s.title}
+              </a>
+            ) : (
+              s.title
+            )}
+            {s.publisher ? `, ${s.publisher}` : null}
+            {s.retrieved ? (
+              <span className="opacity-80">
+                {" "}
+                {rich("citations.retrieved", {
+                  date: (
+                    <time
+                      key="date"
+                      dateTime={new Date(s.retrieved).toISOString()}
+                    >
+                      {date(s.retrieved)}
+                    </time>
+                  ),
+                })}
+              </span>
+            ) : null}
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
+
+/** A plain list whose items may end in `[^id]` markers, plus its sources */
+export function CitedList({
+  items,
+  sources,
+  scope,
+  className,
+}: {
+  items: string[];
+  sources?: SourceRef[];
+  scope: string;
+  className?: string;
+}) {
+  const list = items.map(splitCitations);
+  const { refs, notes } = numberFootnotes(
+    sources,
+    list.map((i) => i.ids),
+  );
+  return (
+    <>
+      <ul className={className}>
+        {list.map((item, i) => (
+          <li key={`${i}-${item.text}`}>
+            {item.text}
+            <CiteRefs refs={refs(item.ids)} scope={scope} />
+          </li>
+        ))}
+      </ul>
+      <SourceNotes notes={notes} scope={scope} className="mt-4" />
+    </>
+  );
+}
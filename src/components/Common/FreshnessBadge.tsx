@@ -0,0 +1,68 @@
+// src/components/Common/FreshnessBadge.tsx
+// "Verified on …" / "Review pending" pill for program pages, driven by the
+// review policy in lib/content/freshness.ts. Archived pages already carry
+// ArchivedNotice, so it stays out of their way. No hooks: server or client.
+import { CalendarCheck, CalendarClock } from "lucide-react";
+import type { Vertical } from "@/lib/content/schema";
+import { freshnessOf } from "@/lib/content/freshness";
+import { scheduleState, type ScheduleMeta } from "@/lib/content/schedule";
+import { DEFAULT_LOCALE, type Locale } from "@/lib/i18n/config";
+import { translator } from "@/lib/i18n/translate";
+
+export default function FreshnessBadge({
+  vertical,
+  meta,
+  locale = DEFAULT_LOCALE,
+  className = "",
+}: {
+  vertical: Vertical;
+  meta: Record<string, unknown> & ScheduleMeta;
+  locale?: Locale;
+  className?: string;
+}) {
+  if (scheduleState(meta) === "archived") return null;
+  const { t, rich, date, number } = translator(locale);
+  const f = freshnessOf(vertical, "program", meta);
+  const verified = f.status === "fresh" || f.status === "due-soon";
+  const policy = f.intervalDays
+    ? t("freshness.policy", { days: number(f.intervalDays) })
+    : undefined;
+  const day = (d: string) => (
+    <time key="date" dateTime={d}>
+      {date(d)}
+    </time>
+  );
+
+  return (
+    <div className={className}>
+      <p
+        title={policy}
+        className={`inline-flex items-center gap-1.5 rounded-full px-3 py-1 text-xs font-medium ring-1 ${
+          verified
+            ? "bg-emerald-50 text-emerald-800 ring-emerald-200 dark:bg-emerald-500/10 dark:text-emerald-200 dark:ring-emerald-500/30"
+            : "bg-amber-50 text-amber-900 ring-amber-200 dark:bg-amber-500/10 dark:text-amber-100 dark:ring-amber-500/30"
+        }`}
+      >
+        {verified ? (
+          <CalendarCheck className="h-3.5 w-3.5" aria-hidden />
+        ) : (
+          <CalendarClock className="h-3.5 w-3.5" aria-hidden />
+        )}
+        {verified && f.reviewedOn ? (
+          rich("freshness.verified", { date: day(f.reviewedOn) })
+        ) : (
+          <>
+            <span className="font-semibold">{t("freshness.pending")}</span>
+            {f.reviewedOn ? (
+              <>
+                {" "}
+                {rich("freshness.lastVerified", { date: day(f.reviewedOn) })}
+              </>
+            ) : null}
+          </>
+        )}
+        {policy ? <span className="sr-only"> {policy}</span> : null}
+      </p>
+    </div>
+  );
+}
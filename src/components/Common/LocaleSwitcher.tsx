@@ -0,0 +1,53 @@
+// src/components/Common/LocaleSwitcher.tsx
+// "Also available in …" links to the other languages a page has been
+// translated into (plus English). Untranslated pages render nothing: their
+// /<locale> routes only translate the interface. No hooks: server or client.
+import Link from "next/link";
+import { Languages } from "lucide-react";
+import {
+  DEFAULT_LOCALE,
+  INTL_LOCALES,
+  LOCALE_LABELS,
+  localePath,
+  type Locale,
+} from "@/lib/i18n/config";
+import { translator } from "@/lib/i18n/translate";
+
+export default function LocaleSwitcher({
+  path,
+  locale,
+  available,
+  className = "",
+}: {
+  /** English path of the page, e.g. /citizenship/grenada */
+  path: string;
+  locale: Locale;
+  /** Locales the page is translated into */
+  available: Locale[];
+  className?: string;
+}) {
+  const others = [DEFAULT_LOCALE, ...available].filter((l) => l !== locale);
+  if (!available.length || !others.length) return null;
+  const { t } = translator(locale);
+
+  return (
+    <nav
+      aria-label={t("common.language")}
+      className={`flex flex-wrap items-center gap-x-2 gap-y-1 text-xs text-neutral-600 dark:text-neutral-400 ${className}`}
+    >
+      <Languages className="h-3.5 w-3.5" aria-hidden />
+      <span>{t("common.availableIn")}:</span>
+      {others.map((l) => (
+        <Link
+          key={l}
+          href={localePath(path, l)}
+          hrefLang={INTL_LOCALES[l]}
+          lang={INTL_LOCALES[l]}
+          className="rounded-full px-2 py-0.5 font-medium ring-1 ring-neutral-200 hover:bg-neutral-100 dark:ring-neutral-700 dark:hover:bg-neutral-800"
+        >
+          {LOCALE_LABELS[l]}
+        </Link>
+      ))}
+    </nav>
+  );
+}
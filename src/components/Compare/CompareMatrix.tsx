@@ -0,0 +1,135 @@
+// src/components/Compare/CompareMatrix.tsx
+import Link from "next/link";
+import type { CompareCell, CompareRow, ComparedProgram } from "@/lib/compare";
+
+type Props = {
+  programs: ComparedProgram[];
+  rows: CompareRow[];
+  /** href that drops the program with this id from the comparison */
+  removeHref: (id: string) => string;
+  className?: string;
+};
+
+function toneClass(tone?: CompareCell["tone"]) {
+  if (tone === "best")
+    return "bg-emerald-50 text-emerald-800 ring-1 ring-inset ring-emerald-200 dark:bg-emerald-950/30 dark:text-emerald-200 dark:ring-emerald-900/50";
+  if (tone === "worst")
+    return "bg-rose-50 text-rose-800 ring-1 ring-inset ring-rose-200 dark:bg-rose-950/30 dark:text-rose-200 dark:ring-rose-900/50";
+  return "";
+}
+
+export default function CompareMatrix({
+  programs,
+  rows,
+  removeHref,
+  className = "",
+}: Props) {
+  const groups: { name: string; rows: CompareRow[] }[] = [];
+  for (const r of rows) {
+    const g = groups.find((x) => x.name === r.group);
+    if (g) g.rows.push(r);
+    else groups.push({ name: r.group, rows: [r] });
+  }
+
+  return (
+    <div
+      className={[
+        "overflow-x-auto rounded-2xl ring-1 ring-blue-100/80 dark:ring-blue-900/40",
+        className,
+      ].join(" ")}
+    >
+      <table className="w-full min-w-[640px] border-collapse text-sm">
+        <caption className="sr-only">
+          Side-by-side comparison of {programs.length} programs
+        </caption>
+        <thead className="bg-white/90 dark:bg-zinc-950/90">
+          <tr>
+            <th scope="col" className="w-48 p-3 text-left font-semibold">
+              <span className="sr-only">Dimension</span>
+            </th>
+            {programs.map((p) => (
+              <th
+                key={p.id}
+                scope="col"
+                className="p-3 text-left align-top font-semibold"
+              >
+                <div className="text-xs font-medium uppercase tracking-wide text-blue-700 dark:text-blue-300">
+                  {p.country}
+                </div>
+                <Link
+                  href={p.href}
+                  className="mt-0.5 block leading-snug hover:underline"
+                >
+                  {p.title}
+                </Link>
+                <Link
+                  href={removeHref(p.id)}
+                  className="mt-1 inline-block text-xs font-normal text-zinc-500 hover:text-rose-600"
+                  aria-label={`Remove ${p.title} from comparison`}
+                >
+                  Remove
+                </Link>
+              </th>
+            ))}
+          </tr>
+        </thead>
+
+        {groups.map((g) => (
+          <tbody key={g.name}>
+            <tr className="bg-blue-50/60 dark:bg-blue-950/20">
+              <th
+                scope="colgroup"
+                colSpan={programs.length + 1}
+                className="px-3 py-2 text-left text-xs font-semibold uppercase tracking-wide text-zinc-600 dark:text-zinc-300"
+              >
+                {g.name}
+              </th>
+            </tr>
+            {g.rows.map((r) => (
+              <tr
+                key={r.key}
+                className="border-t border-blue-100/80 dark:border-blue-900/40"
+              >
+                <th
+                  scope="row"
+                  className="p-3 text-left align-top font-medium text-zinc-700 dark:text-zinc-200"
+                >
+                  {r.label}
+                  {r.better ? (
+                    <span className="block text-[11px] font-normal text-zinc-500">
+                      {r.better === "lower"
+                        ? "Lower is better"
+                        : "Higher is better"}
+                    </span>
+                  ) : null}
+                </th>
+                {r.cells.map((c, i) => (
+                  <td key={programs[i].id} className="p-2 align-top">
+                    <div
+                      className={[
+                        "rounded-lg px-2 py-1 tabular-nums",
+                        toneClass(c.tone),
+                      ].join(" ")}
+                    >
+                      {c.text}
+                      {c.tone ? (
+                        <span className="sr-only">
+                          {c.tone === "best" ? " (best)" : " (worst)"}
+                        </span>
+                      ) : null}
+                      {c.sub ? (
+                        <span className="block text-[11px] text-zinc-500">
+                          {c.sub}
+                        </span>
+                      ) : null}
+                    </div>
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        ))}
+      </table>
+    </div>
+  );
+}
@@ -4,6 +4,13 @@ import React, { useId, useMemo, useRef, useState } from "react";
 import toast from "react-hot-toast";
 import Loader from "@/components/Common/Loader";
 import { FiMail, FiUser, FiPhone, FiMessageSquare } from "react-icons/fi";
+import type { ApiContactResponse, ContactFieldErrors } from "@/types/contact";
+import {
+  describeLeadContext,
+  getLeadContext,
+  useLeadContext,
+} from "@/lib/leadContext";
+import { useTranslator } from "@/lib/i18n/LocaleProvider";
 
 /**
  * ContactForm — reusable, attractive, “primary”-themed contact/callback form
@@ -14,6 +21,9 @@ import { FiMail, FiUser, FiPhone, FiMessageSquare } from "react-icons/fi";
  *   responsive 2-column layout on md+, non-jumpy focus rings, toast feedback
  * • A11y: labeled fields, aria-invalid, aria-live, keyboard-friendly
  * • SEO: ContactPage JSON-LD
+ * • Copy follows the page locale (lib/i18n/messages, "contact.*")
+ * • Sends the session's lead context (program, estimate, eligibility,
+ *   consultation, attribution) and lists it above the submit button
  */
 
 type Props = {
@@ -37,7 +47,10 @@ export default function ContactForm({
   const [loading, setLoading] = useState(false);
   const [touched, setTouched] = useState<Record<string, boolean>>({});
   const [msgLen, setMsgLen] = useState(defaults?.message?.length ?? 0);
+  const [serverErrors, setServerErrors] = useState<ContactFieldErrors>({});
   const formRef = useRef<HTMLFormElement | null>(null);
+  const included = describeLeadContext(useLeadContext());
+  const { t, rich } = useTranslator();
 
   // a11y ids
   const baseId = useId();
@@ -47,9 +60,7 @@ export default function ContactForm({
   const get = (name: string) =>
     (
       formRef.current?.elements.namedItem(name) as
-        | HTMLInputElement
-        | HTMLTextAreaElement
-        | null
+        HTMLInputElement | HTMLTextAreaElement | null
     )?.value || "";
 
   // simple validators
@@ -59,25 +70,29 @@ export default function ContactForm({
   const vMsg = (s: string) => (isFull ? s.trim().length >= 10 : true);
 
   const errors = useMemo(() => {
-    const e: Record<string, string> = {};
+    const e: Record<string, string> = { ...serverErrors };
     const name = get("name");
     const phone = get("phone");
     const email = get("email");
     const message = get("message");
 
-    if (touched.name && !vName(name))
-      e.name = "Please enter at least 2 characters.";
-    if (touched.phone && !vPhone(phone))
-      e.phone = "Enter a valid phone number (digits, +, -, () allowed).";
+    if (touched.name && !vName(name)) e.name = t("contact.errorName");
+    if (touched.phone && !vPhone(phone)) e.phone = t("contact.errorPhone");
     if (isFull && touched.email && !vEmail(email))
-      e.email = "Enter a valid email.";
+      e.email = t("contact.errorEmail");
     if (isFull && touched.message && !vMsg(message))
-      e.message = "Please add at least 10 characters.";
+      e.message = t("contact.errorMessage");
     return e;
-  }, [touched, isFull]);
+  }, [touched, isFull, serverErrors, t]);
 
   function markTouched(name: string) {
     setTouched((t) => ({ ...t, [name]: true }));
+    // a server message is stale once the user edits that field
+    setServerErrors((s) => {
+      if (!(name in s)) return s;
+      const { [name as keyof ContactFieldErrors]: _drop, ...rest } = s;
+      return rest;
+    });
   }
 
   async function handleSubmit(e: React.FormEvent<HTMLFormElement>) {
@@ -95,7 +110,7 @@ export default function ContactForm({
 
     if (!vName(n) || !vPhone(p) || (isFull && !vEmail(em)) || !vMsg(m)) {
       setTouched({ name: true, phone: true, email: true, message: true });
-      toast.error("Please fix the highlighted fields.");
+      toast.error(t("contact.fixFields"));
       return;
     }
 
@@ -110,33 +125,37 @@ export default function ContactForm({
           page: typeof window !== "undefined" ? window.location.pathname : "",
           referrer:
             typeof document !== "undefined" ? document.referrer || "" : "",
+          context: getLeadContext(),
         }),
       });
-      if (!res.ok) throw new Error("Failed to send message.");
-      toast.success(
-        isFull
-          ? "Your message has been sent. We’ll be in touch soon."
-          : "Callback request received. We’ll call you shortly.",
-      );
+      const data = (await res
+        .json()
+        .catch(() => null)) as ApiContactResponse | null;
+      if (!res.ok || !data?.ok) {
+        const err = data && !data.ok ? data.error : undefined;
+        if (err?.fields) {
+          setServerErrors(err.fields);
+          setTouched((t) => ({ ...t, ...mapKeys(err.fields!) }));
+        }
+        throw new Error(err?.message || t("contact.sendFailed"));
+      }
+      toast.success(isFull ? t("contact.sentFull") : t("contact.sentQuick"));
       onSuccess?.();
       f.reset();
       setTouched({});
+      setServerErrors({});
       setMsgLen(0);
     } catch (err: any) {
-      toast.error(err?.message || "Something went wrong. Please try again.");
+      toast.error(err?.message || t("contact.genericError"));
     } finally {
       setLoading(false);
     }
   }
 
   const title =
-    heading ??
-    (isFull ? "Book a FREE consultation" : "Request a quick callback");
+    heading ?? (isFull ? t("contact.fullTitle") : t("contact.quickTitle"));
   const desc =
-    subheading ??
-    (isFull
-      ? "Tell us a bit about your case. An advisor will respond within 24 hours."
-      : "Share your name and phone — we’ll call you back soon.");
+    subheading ?? (isFull ? t("contact.fullIntro") : t("contact.quickIntro"));
 
   return (
     <section
@@ -155,7 +174,7 @@ export default function ContactForm({
       <header className="relative">
         <div className="inline-flex items-center gap-2 text-[12px] text-primary">
           <span className="inline-flex h-1.5 w-1.5 rounded-full bg-primary" />
-          <span className="font-semibold">Get in touch</span>
+          <span className="font-semibold">{t("contact.eyebrow")}</span>
         </div>
         <h2
           id={titleId}
@@ -187,9 +206,9 @@ export default function ContactForm({
 
         <Field
           name="name"
-          label="Full name"
+          label={t("contact.name")}
           icon={<FiUser />}
-          placeholder="Jane Doe"
+          placeholder={t("contact.namePlaceholder")}
           defaultValue={defaults?.name}
           onBlur={() => markTouched("name")}
           invalid={!!errors.name}
@@ -199,13 +218,13 @@ export default function ContactForm({
 
         <Field
           name="phone"
-          label="Phone number"
+          label={t("contact.phone")}
           icon={<FiPhone />}
-          placeholder="+1 555 555 5555"
+          placeholder={t("contact.phonePlaceholder")}
           defaultValue={defaults?.phone}
           onBlur={() => markTouched("phone")}
           invalid={!!errors.phone}
-          help={errors.phone || "Digits, +, -, () are ok."}
+          help={errors.phone || t("contact.phoneHelp")}
           required
           inputMode="tel"
           pattern="[0-9+\-\(\)\s]{7,}"
@@ -214,9 +233,9 @@ export default function ContactForm({
         {isFull && (
           <Field
             name="email"
-            label="Email address"
+            label={t("contact.email")}
             icon={<FiMail />}
-            placeholder="you@example.com"
+            placeholder={t("contact.emailPlaceholder")}
             defaultValue={defaults?.email}
             onBlur={() => markTouched("email")}
             invalid={!!errors.email}
@@ -230,9 +249,9 @@ export default function ContactForm({
         {isFull && (
           <Textarea
             name="message"
-            label="Your message"
+            label={t("contact.message")}
             icon={<FiMessageSquare />}
-            placeholder="Share a few details about your situation…"
+            placeholder={t("contact.messagePlaceholder")}
             defaultValue={defaults?.message}
             onBlur={() => markTouched("message")}
             onInput={(n) => setMsgLen(n)}
@@ -245,17 +264,42 @@ export default function ContactForm({
         )}
 
         {isFull && (
-          <label className="md:col-span-2 flex items-start gap-2 text-sm text-neutral-700 dark:text-neutral-300">
-            <input
-              type="checkbox"
-              name="consent"
-              value="yes"
-              className="mt-0.5 h-4 w-4 rounded border-neutral-300 dark:border-neutral-700 text-primary focus:ring-2 focus:ring-primary"
-            />
-            I agree to be contacted about my inquiry. We never sell your data.
-          </label>
+          <div className="md:col-span-2">
+            <label className="flex items-start gap-2 text-sm text-neutral-700 dark:text-neutral-300">
+              <input
+                type="checkbox"
+                name="consent"
+                value="yes"
+                aria-invalid={!!errors.consent || undefined}
+                onChange={() => markTouched("consent")}
+                className="mt-0.5 h-4 w-4 rounded border-neutral-300 dark:border-neutral-700 text-primary focus:ring-2 focus:ring-primary"
+              />
+              {t("contact.consent")}
+            </label>
+            {errors.consent ? (
+              <p
+                className="mt-1 text-[12px] text-red-600 dark:text-red-400"
+                role="alert"
+              >
+                {errors.consent}
+              </p>
+            ) : null}
+          </div>
         )}
 
+        {included.length ? (
+          <div className="md:col-span-2 rounded-xl bg-neutral-50 px-3 py-2 text-[12px] text-neutral-600 ring-1 ring-neutral-200 dark:bg-neutral-950 dark:text-neutral-400 dark:ring-neutral-800">
+            <p className="font-medium text-neutral-700 dark:text-neutral-300">
+              {t("contact.includes")}
+            </p>
+            <ul className="mt-1 list-disc ps-4">
+              {included.map((line) => (
+                <li key={line}>{line}</li>
+              ))}
+            </ul>
+          </div>
+        ) : null}
+
         <div className="md:col-span-2">
           <button
             type="submit"
@@ -272,17 +316,23 @@ export default function ContactForm({
             {loading ? (
               <Loader />
             ) : isFull ? (
-              "Send message"
+              t("contact.sendMessage")
             ) : (
-              "Request callback"
+              t("contact.requestCallback")
             )}
           </button>
           <p className="mt-2 text-[12px] text-neutral-600 dark:text-neutral-400">
-            We respond within one business day. By submitting, you accept our{" "}
-            <a href="/privacy" className="underline text-primary">
-              privacy policy
-            </a>
-            .
+            {rich("contact.responseTime", {
+              privacy: (
+                <a
+                  key="privacy"
+                  href="/privacy"
+                  className="underline text-primary"
+                >
+                  {t("contact.privacyPolicy")}
+                </a>
+              ),
+            })}
           </p>
         </div>
       </form>
@@ -305,6 +355,12 @@ export default function ContactForm({
   );
 }
 
+/* ====================== Helpers ====================== */
+
+function mapKeys(fields: ContactFieldErrors) {
+  return Object.fromEntries(Object.keys(fields).map((k) => [k, true]));
+}
+
 /* ====================== Sub-components ====================== */
 
 function Field({
@@ -342,7 +398,7 @@ function Field({
       <div className="relative">
         {icon ? (
           <span
-            className="pointer-events-none absolute left-3 top-1/2 -translate-y-1/2 text-neutral-400 dark:text-neutral-500"
+            className="pointer-events-none absolute start-3 top-1/2 -translate-y-1/2 text-neutral-400 dark:text-neutral-500"
             aria-hidden
           >
             {icon}
@@ -371,7 +427,7 @@ function Field({
         <label
           htmlFor={id}
           className={[
-            "pointer-events-none absolute left-10 top-1/2 -translate-y-1/2",
+            "pointer-events-none absolute start-10 top-1/2 -translate-y-1/2",
             "bg-transparent px-1 text-sm text-neutral-500 dark:text-neutral-400",
             "transition-all",
             "peer-focus:top-0 peer-focus:-translate-y-1/2 peer-focus:text-[12px] peer-focus:text-primary",
@@ -379,7 +435,7 @@ function Field({
           ].join(" ")}
         >
           {label}
-          {required ? <span className="ml-1 text-red-600">*</span> : null}
+          {required ? <span className="ms-1 text-red-600">*</span> : null}
         </label>
       </div>
       {help ? (
@@ -432,7 +488,7 @@ function Textarea({
       <div className="relative">
         {icon ? (
           <span
-            className="pointer-events-none absolute left-3 top-3 text-neutral-400 dark:text-neutral-500"
+            className="pointer-events-none absolute start-3 top-3 text-neutral-400 dark:text-neutral-500"
             aria-hidden
           >
             {icon}
@@ -462,7 +518,7 @@ function Textarea({
         <label
           htmlFor={id}
           className={[
-            "pointer-events-none absolute left-10 top-3",
+            "pointer-events-none absolute start-10 top-3",
             "bg-transparent px-1 text-sm text-neutral-500 dark:text-neutral-400",
             "transition-all",
             "peer-focus:top-0 peer-focus:-translate-y-1/2 peer-focus:text-[12px] peer-focus:text-primary",
@@ -470,7 +526,7 @@ function Textarea({
           ].join(" ")}
         >
           {label}
-          {required ? <span className="ml-1 text-red-600">*</span> : null}
+          {required ? <span className="ms-1 text-red-600">*</span> : null}
         </label>
       </div>
       {help ? (
@@ -1,21 +1,50 @@
 "use client";
 import * as React from "react";
 import { useCurrency } from "@/lib/CurrencyProvider";
+import { CURRENCY_CODES } from "@/lib/content/schema";
+import { isCurrencyCode } from "@/lib/currency";
 
-export default function CurrencySwitcher() {
-  const { currency, setCurrency } = useCurrency();
+function symbolOf(code: string) {
+  try {
+    const part = new Intl.NumberFormat("en", {
+      style: "currency",
+      currency: code,
+      currencyDisplay: "narrowSymbol",
+    })
+      .formatToParts(0)
+      .find((p) => p.type === "currency");
+    return part && part.value !== code ? part.value : "";
+  } catch {
+    return "";
+  }
+}
+
+export default function CurrencySwitcher({
+  className = "",
+  // "As listed" keeps each price in its own currency
+  allowListed = true,
+}: {
+  className?: string;
+  allowListed?: boolean;
+}) {
+  const { currency, choice, setCurrency } = useCurrency();
+  const value = allowListed ? (choice ?? "") : currency;
   return (
-    <label className="inline-flex items-center gap-2 text-sm">
+    <label className={`inline-flex items-center gap-2 text-sm ${className}`}>
       <span className="opacity-70">Currency:</span>
       <select
-        value={currency}
-        onChange={(e) => setCurrency(e.target.value as any)}
+        value={value}
+        onChange={(e) =>
+          setCurrency(isCurrencyCode(e.target.value) ? e.target.value : null)
+        }
         className="rounded-md border border-neutral-300 bg-white px-2.5 py-1 text-sm dark:border-neutral-700 dark:bg-neutral-900"
       >
-        <option value="INR">INR ₹</option>
-        <option value="USD">USD $</option>
-        <option value="AED">AED د.إ</option>
-        <option value="EUR">EUR €</option>
+        {allowListed ? <option value="">As listed</option> : null}
+        {CURRENCY_CODES.map((c) => (
+          <option key={c} value={c}>
+            {c} {symbolOf(c)}
+          </option>
+        ))}
       </select>
     </label>
   );
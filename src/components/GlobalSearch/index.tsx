@@ -3,9 +3,20 @@
 import { useState, useRef, useEffect, useMemo } from "react";
 import { motion, AnimatePresence } from "framer-motion";
 import { Search, X, ArrowRight, Clock } from "lucide-react";
-import { searchItems, preloadIndex, debounce } from "@/utils/search";
+import Highlight from "@/components/Search/Highlight";
+import { parseQueryIntent, type IntentKey } from "@/lib/search/intent";
+import { parseSearchParams, toSearchQuery } from "@/lib/search/params";
+import {
+  searchItems,
+  suggestItems,
+  preloadIndex,
+  trackClick,
+  trackSearch,
+  debounce,
+  type UIItem,
+} from "@/utils/search";
 
-type Item = { title: string; type: string; url: string };
+type Item = UIItem;
 
 const popularSuggestions: Item[] = [
   {
@@ -37,8 +48,39 @@ export default function GlobalSearch() {
   const [recent, setRecent] = useState<string[]>([]);
   const [activeIndex, setActiveIndex] = useState(0);
   const [highlighted, setHighlighted] = useState("");
+  const [suggestion, setSuggestion] = useState("");
+  // Interpreted constraints the visitor has removed for this query
+  const [dismissed, setDismissed] = useState<IntentKey[]>([]);
   const inputRef = useRef<HTMLInputElement>(null);
   const overlayRef = useRef<HTMLDivElement>(null);
+  // Search analytics: the latest query is recorded once it has settled
+  // (or a result is clicked first), not on every keystroke.
+  const lastSearch = useRef<{
+    query: string;
+    results: number;
+    id?: string;
+  } | null>(null);
+  const trackTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const flushSearch = () => {
+    if (trackTimer.current) clearTimeout(trackTimer.current);
+    trackTimer.current = null;
+    const s = lastSearch.current;
+    if (s && !s.id) s.id = trackSearch(s.query, s.results);
+    return s;
+  };
+
+  const onResultClick = (item: Item, index: number) => {
+    if (!query.trim()) return; // popular suggestions aren't search results
+    const s = flushSearch();
+    if (s) trackClick(s.query, index + 1, item.url, s.id);
+  };
+
+  // "caribbean citizenship under 200k" → filters + chips, rest as keywords
+  const intent = useMemo(
+    () => parseQueryIntent(query.trim(), dismissed),
+    [query, dismissed],
+  );
 
   const allItems = useMemo<Item[]>(
     () => (query.trim() ? results : popularSuggestions),
@@ -54,15 +96,26 @@ export default function GlobalSearch() {
   useEffect(() => {
     const run = debounce(async () => {
       const q = query.trim();
+      if (trackTimer.current) clearTimeout(trackTimer.current);
       if (!q) {
+        lastSearch.current = null;
         setResults([]);
         setHighlighted("");
+        setSuggestion("");
         setActiveIndex(0);
         return;
       }
-      const found = await Promise.resolve(searchItems(q)); // searchItems is sync; keep await harmlessly
+      const found = await searchItems(
+        intent.text,
+        12,
+        undefined,
+        "all",
+        intent.filters,
+      );
       setResults(found || []);
-      if (found?.length) {
+      lastSearch.current = { query: q, results: found?.length ?? 0 };
+      trackTimer.current = setTimeout(flushSearch, 1500);
+      if (found?.length && !intent.chips.length) {
         const match = found[0].title;
         setHighlighted(
           match.toLowerCase().startsWith(q.toLowerCase()) ? match : "",
@@ -70,16 +123,23 @@ export default function GlobalSearch() {
       } else {
         setHighlighted("");
       }
+      setSuggestion(
+        found?.length || !intent.text
+          ? ""
+          : ((await suggestItems(intent.text)) ?? ""),
+      );
       setActiveIndex(0);
     }, 220);
 
     run();
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [query]);
+  }, [intent]);
 
-  // Autofocus input when opened
+  // Autofocus input when opened; closing counts as the query settling
   useEffect(() => {
     if (open) inputRef.current?.focus();
+    else flushSearch();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [open]);
 
   // Keyboard navigation
@@ -106,6 +166,7 @@ export default function GlobalSearch() {
           setRecent((prev) =>
             [item.title, ...prev.filter((x) => x !== item.title)].slice(0, 5),
           );
+          onResultClick(item, activeIndex);
           window.location.href = item.url;
         } else if (highlighted) {
           setQuery(highlighted);
@@ -202,7 +263,10 @@ export default function GlobalSearch() {
                     ref={inputRef}
                     type="text"
                     value={query}
-                    onChange={(e) => setQuery(e.target.value)}
+                    onChange={(e) => {
+                      setQuery(e.target.value);
+                      setDismissed([]);
+                    }}
                     placeholder="Search by country, visa type, or service..."
                     className="flex-1 bg-transparent px-3 text-lg text-gray-900 dark:text-gray-100 placeholder-gray-400 focus:outline-none"
                   />
@@ -216,6 +280,31 @@ export default function GlobalSearch() {
                   )}
               </div>
 
+              {/* Interpreted filters — removable */}
+              {intent.chips.length > 0 && (
+                <div className="mt-3 flex flex-wrap items-center gap-2 text-sm">
+                  <span className="text-gray-500 dark:text-gray-400">
+                    Showing
+                  </span>
+                  {intent.chips.map((chip) => (
+                    <span
+                      key={chip.key + chip.label}
+                      className="inline-flex items-center gap-1 rounded-full bg-blue-100 py-1 pl-3 pr-1.5 font-medium text-blue-800 dark:bg-blue-900/40 dark:text-blue-200"
+                    >
+                      {chip.label}
+                      <button
+                        type="button"
+                        onClick={() => setDismissed((d) => [...d, chip.key])}
+                        className="rounded-full p-0.5 hover:bg-blue-200 dark:hover:bg-blue-800"
+                        aria-label={`Remove filter: ${chip.label}`}
+                      >
+                        <X size={14} />
+                      </button>
+                    </span>
+                  ))}
+                </div>
+              )}
+
               {/* Results */}
               <div className="mt-4 bg-white dark:bg-gray-900 rounded-2xl shadow-2xl border border-gray-200 dark:border-gray-700 max-h-[420px] overflow-y-auto">
                 {query.trim() === "" && recent.length > 0 && (
@@ -246,19 +335,31 @@ export default function GlobalSearch() {
                     <a
                       key={i}
                       href={item.url}
+                      onClick={() => onResultClick(item, i)}
                       className={`flex items-center justify-between px-5 py-4 border-b last:border-0 border-gray-100 dark:border-gray-700 transition ${
                         i === activeIndex
                           ? "bg-blue-100 dark:bg-gray-800"
                           : "hover:bg-blue-50 dark:hover:bg-gray-800"
                       }`}
                     >
-                      <div>
+                      <div className="min-w-0">
                         <div className="font-semibold text-gray-900 dark:text-gray-100">
-                          {item.title}
+                          <Highlight
+                            text={item.title}
+                            ranges={item.matches?.title}
+                          />
                         </div>
                         <div className="text-sm text-gray-600 dark:text-gray-400">
                           {item.type}
                         </div>
+                        {item.snippet && query.trim() ? (
+                          <p className="mt-1 line-clamp-2 text-sm text-gray-500 dark:text-gray-400">
+                            <Highlight
+                              text={item.snippet}
+                              ranges={item.matches?.snippet}
+                            />
+                          </p>
+                        ) : null}
                       </div>
                       <ArrowRight
                         className={
@@ -269,9 +370,35 @@ export default function GlobalSearch() {
                   ))
                 ) : query.trim() !== "" ? (
                   <p className="text-gray-500 dark:text-gray-400 text-center py-6">
-                    No results found. Try different keywords.
+                    {suggestion ? (
+                      <>
+                        No results. Did you mean{" "}
+                        <button
+                          type="button"
+                          onClick={() => setQuery(suggestion)}
+                          className="font-semibold text-blue-600 hover:underline dark:text-blue-400"
+                        >
+                          {suggestion}
+                        </button>
+                        ?
+                      </>
+                    ) : (
+                      "No results found. Try different keywords."
+                    )}
                   </p>
                 ) : null}
+
+                {query.trim() !== "" && (
+                  <a
+                    href={`/search${toSearchQuery({
+                      ...parseSearchParams({ q: intent.text }),
+                      ...intent.filters,
+                    })}`}
+                    className="block px-5 py-3 text-center text-sm font-medium text-blue-600 hover:bg-blue-50 dark:text-blue-400 dark:hover:bg-gray-800"
+                  >
+                    See all results with filters →
+                  </a>
+                )}
               </div>
 
               {query.trim() === "" && (
@@ -6,6 +6,7 @@ import ShareBar from "./ShareBar";
 import InsightsList from "./InsightsList";
 import MediaHero from "./MediaHero";
 import Breadcrumb from "@/components/Common/Breadcrumb";
+import ArchivedNotice from "@/components/Common/ArchivedNotice";
 import { getRelatedContent } from "@/lib/insights-content";
 import type { InsightRecord } from "@/types/insights";
 import { Prose } from "@/components/ui/Prose";
@@ -95,6 +96,7 @@ export default async function InsightDetailView({
       {/* TOP: crumbs + hero */}
       <section className="container mx-auto px-4 sm:px-6 lg:px-8 pt-6">
         <Breadcrumb />
+        <ArchivedNotice meta={record} className="mb-4" />
 
         <MediaHero
           title={record.title}
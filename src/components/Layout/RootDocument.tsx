@@ -1,12 +1,17 @@
-// src/app/layout.tsx
+// src/components/Layout/RootDocument.tsx
+// The <html> document shared by the root layouts: (site) for English pages and
+// (intl)/[locale] for translated ones, which sets its own lang and dir.
 import type { Metadata } from "next";
+import { draftMode } from "next/headers";
 import { Lato, Inter, Sora } from "next/font/google";
-import "./globals.css";
+import "@/app/globals.css";
 import Footer from "@/components/Layout/Footer";
 import { ThemeProvider } from "next-themes";
 import ScrollToTop from "@/components/ScrollToTop";
 import Aoscompo from "@/utils/aos";
 import MDXProviders from "@/components/MDX/MDXProviders";
+import LeadTracker from "@/components/Leads/LeadTracker";
+import PreviewBanner from "@/components/Preview/PreviewBanner";
 
 const inter = Inter({ subsets: ["latin"], variable: "--font-inter" });
 const sora = Sora({ subsets: ["latin"], variable: "--font-sora" });
@@ -17,7 +22,7 @@ const font = Lato({
   display: "swap",
 });
 
-export const metadata: Metadata = {
+export const siteMetadata: Metadata = {
   metadataBase: new URL("https://www.xiphiasimmigration.com"),
   title: {
     default: "XIPHIAS Immigration – Residency, Citizenship & Global Mobility",
@@ -44,9 +49,16 @@ export const metadata: Metadata = {
   },
 };
 
-export default function RootLayout({
+export default async function RootDocument({
+  lang = "en",
+  dir = "ltr",
   children,
-}: Readonly<{ children: React.ReactNode }>) {
+}: Readonly<{
+  lang?: string;
+  dir?: "ltr" | "rtl";
+  children: React.ReactNode;
+}>) {
+  const { isEnabled: preview } = await draftMode();
   const orgJsonLd = {
     "@context": "https://schema.org",
     "@type": ["Organization", "LegalService"],
@@ -58,7 +70,13 @@ export default function RootLayout({
   };
 
   return (
-    <html lang="en" className="scroll-smooth" suppressHydrationWarning>
+    <html
+      lang={lang}
+      dir={dir}
+      className="scroll-smooth"
+      suppressHydrationWarning
+    >
+      {/* eslint-disable-next-line @next/next/no-head-element -- root layouts' <head> */}
       <head>
         {/* Preconnect improves font loading */}
         <link
@@ -75,6 +93,8 @@ export default function RootLayout({
             <Footer />
             <ScrollToTop />
           </Aoscompo>
+          <LeadTracker />
+          {preview && <PreviewBanner />}
         </ThemeProvider>
 
         {/* JSON-LD */}
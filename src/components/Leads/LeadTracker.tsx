@@ -0,0 +1,27 @@
+// src/components/Leads/LeadTracker.tsx
+"use client";
+
+import * as React from "react";
+import { captureAttribution, setLeadContext } from "@/lib/leadContext";
+import type { LeadProgram } from "@/types/contact";
+
+/**
+ * Renders nothing. In the root layout it records first-touch attribution;
+ * on a program page, pass `program` so later inquiries name it.
+ */
+export default function LeadTracker({ program }: { program?: LeadProgram }) {
+  React.useEffect(() => {
+    captureAttribution();
+  }, []);
+
+  const key = program
+    ? `${program.vertical}/${program.country}/${program.program}`
+    : "";
+  React.useEffect(() => {
+    if (program) setLeadContext({ program });
+    // keyed on the slug path; `program` is a fresh object every render
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [key]);
+
+  return null;
+}
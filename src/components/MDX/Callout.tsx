@@ -0,0 +1,67 @@
+// src/components/MDX/Callout.tsx
+// MDX <Callout type="warning" title="…">…</Callout>: a highlighted aside for
+// notes, tips and caveats inside article and program bodies.
+// No hooks: server or client.
+import * as React from "react";
+import clsx from "clsx";
+import { AlertTriangle, Info, Lightbulb, OctagonAlert } from "lucide-react";
+import type { CALLOUT_TYPES } from "../../../scripts/mdx-components.mjs";
+
+type CalloutType = (typeof CALLOUT_TYPES)[number];
+
+const STYLES: Record<
+  CalloutType,
+  { icon: typeof Info; box: string; iconColor: string }
+> = {
+  info: {
+    icon: Info,
+    box: "border-blue-200 bg-blue-50/70 dark:border-blue-900/60 dark:bg-blue-950/30",
+    iconColor: "text-blue-600 dark:text-blue-300",
+  },
+  tip: {
+    icon: Lightbulb,
+    box: "border-emerald-200 bg-emerald-50/70 dark:border-emerald-900/60 dark:bg-emerald-950/30",
+    iconColor: "text-emerald-600 dark:text-emerald-300",
+  },
+  warning: {
+    icon: AlertTriangle,
+    box: "border-amber-300 bg-amber-50 dark:border-amber-500/40 dark:bg-amber-500/10",
+    iconColor: "text-amber-600 dark:text-amber-300",
+  },
+  important: {
+    icon: OctagonAlert,
+    box: "border-rose-200 bg-rose-50/70 dark:border-rose-900/60 dark:bg-rose-950/30",
+    iconColor: "text-rose-600 dark:text-rose-300",
+  },
+};
+
+export default function Callout({
+  type = "info",
+  title,
+  children,
+}: {
+  type?: CalloutType;
+  title?: string;
+  children?: React.ReactNode;
+}) {
+  const { icon: Icon, box, iconColor } = STYLES[type];
+  return (
+    <aside
+      role="note"
+      className={clsx("not-prose my-6 flex gap-3 rounded-xl border p-4", box)}
+    >
+      <Icon
+        className={clsx("mt-0.5 h-5 w-5 shrink-0", iconColor)}
+        aria-hidden
+      />
+      <div className="min-w-0 text-[15px] leading-7 text-neutral-800 dark:text-neutral-200 [&_a]:underline [&_p+p]:mt-2">
+        {title && (
+          <p className="font-semibold text-neutral-900 dark:text-white">
+            {title}
+          </p>
+        )}
+        {children}
+      </div>
+    </aside>
+  );
+}
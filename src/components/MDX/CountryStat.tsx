@@ -0,0 +1,53 @@
+// src/components/MDX/CountryStat.tsx
+// MDX <CountryStat label="Visa-free countries" value={145} note="…" />: one
+// headline figure. Consecutive stats sit side by side.
+// No hooks: server or client.
+import clsx from "clsx";
+import { formatNumber } from "@/lib/i18n/translate";
+
+export default function CountryStat({
+  label,
+  value,
+  note,
+  href,
+  className,
+}: {
+  label: string;
+  value: string | number;
+  note?: string;
+  /** Where the figure comes from */
+  href?: string;
+  className?: string;
+}) {
+  return (
+    <figure
+      className={clsx(
+        "not-prose my-3 me-3 inline-flex min-w-[10rem] flex-col rounded-2xl bg-white p-4 align-top shadow-sm ring-1 ring-neutral-200 dark:bg-neutral-900 dark:ring-neutral-800",
+        className,
+      )}
+    >
+      <span className="text-2xl font-semibold tabular-nums text-blue-700 dark:text-blue-300">
+        {typeof value === "number" ? formatNumber(value) : value}
+      </span>
+      <figcaption className="mt-1 text-sm font-medium text-neutral-800 dark:text-neutral-200">
+        {label}
+      </figcaption>
+      {(note || href) && (
+        <span className="mt-1 text-xs text-neutral-500 dark:text-neutral-400">
+          {href ? (
+            <a
+              href={href}
+              target={/^https?:/.test(href) ? "_blank" : undefined}
+              rel="noopener noreferrer"
+              className="underline underline-offset-2 hover:text-blue-700 dark:hover:text-blue-300"
+            >
+              {note || "Source"}
+            </a>
+          ) : (
+            note
+          )}
+        </span>
+      )}
+    </figure>
+  );
+}
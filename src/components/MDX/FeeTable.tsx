@@ -0,0 +1,36 @@
+// src/components/MDX/FeeTable.tsx
+// MDX <FeeTable rows={[{ label, amount, currency, per, … }]} />: the program
+// page's government-fees table for fee rows written in a body. Rows take the
+// same rules (`per`, age bands, `choice` …) as frontmatter fee rows.
+import GovernmentFees from "@/components/Citizenship/GovernmentFees";
+import type { FeeRow } from "@/lib/fees";
+
+const slug = (s: string) =>
+  s
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/(^-|-$)+/g, "");
+
+export default function FeeTable({
+  rows,
+  currency = "USD",
+  title = "Fees",
+  id,
+}: {
+  rows: (FeeRow & { sourceLabel?: string; sourceUrl?: string })[];
+  currency?: string;
+  title?: string;
+  /** Anchor id; defaults to one derived from the title */
+  id?: string;
+}) {
+  return (
+    <div className="not-prose my-6">
+      <GovernmentFees
+        fees={rows}
+        defaultCurrency={currency}
+        title={title}
+        id={id || `fees-${slug(title)}`}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,39 @@
+// src/components/MDX/checked.tsx
+// Render-time half of the MDX prop checks: `npm run content:validate` checks
+// the literal props in every file (scripts/mdx-usage.mjs); this catches the
+// computed ones as the page renders, which fails the build for static pages.
+import type { ComponentType } from "react";
+import {
+  MDX_COMPONENTS,
+  checkComponentProps,
+} from "../../../scripts/mdx-components.mjs";
+
+export type MdxComponentName = keyof typeof MDX_COMPONENTS;
+
+export class MdxPropsError extends Error {
+  constructor(
+    public readonly component: string,
+    public readonly issues: string[],
+  ) {
+    super(`Invalid <${component}> in MDX:\n  ${issues.join("\n  ")}`);
+    this.name = "MdxPropsError";
+  }
+}
+
+/** `Component`, refusing props that don't match its MDX_COMPONENTS spec */
+export function withPropChecks<P extends object>(
+  name: MdxComponentName,
+  Component: ComponentType<P>,
+) {
+  function Checked(props: P) {
+    const issues = checkComponentProps(name, props);
+    if (issues.length)
+      throw new MdxPropsError(
+        name,
+        issues.map((i) => (i.path ? `${i.path}: ${i.message}` : i.message)),
+      );
+    return <Component {...props} />;
+  }
+  Checked.displayName = `MDX(${name})`;
+  return Checked;
+}
@@ -1,19 +1,53 @@
 // src/components/MDX/registry.tsx
+// Components MDX bodies (insights and vertical pages) may use. Each one's
+// props are specified in scripts/mdx-components.mjs, checked before the build
+// by `npm run content:validate` and again here as they render.
+import type { ComponentType } from "react";
 import type { MDXComponents } from "mdx/types";
 
 import Section from "@/components/MDX/Section";
 import ContentImage from "@/components/MDX/ContentImage";
 import { Steps, Step } from "@/components/MDX/Steps";
 import Video from "@/components/MDX/Video";
+import Callout from "@/components/MDX/Callout";
+import FeeTable from "@/components/MDX/FeeTable";
+import CountryStat from "@/components/MDX/CountryStat";
+import {
+  withPropChecks,
+  type MdxComponentName,
+} from "@/components/MDX/checked";
 import FAQSection from "@/components/Insights/FAQSection";
+import PointsCalculator from "@/components/Skilled/PointsCalculatorBlock";
+import ProcessTimeline from "@/components/Residency/ProcessTimeline";
+import FamilyMatrix from "@/components/Citizenship/FamilyMatrix";
+import DocumentChecklist from "@/components/Citizenship/DocumentChecklist";
+import CostCalculator from "@/components/Citizenship/CostCalculator";
+import CompareTable from "@/components/Citizenship/ComparisonTable";
 
-const mdxComponents = {
+// Every spec'd component, and nothing without a spec
+const components = {
   Section,
   ContentImage,
   Steps,
   Step,
   Video,
   FAQSection,
-} satisfies MDXComponents;
+  PointsCalculator,
+  Callout,
+  FeeTable,
+  ProcessTimeline,
+  FamilyMatrix,
+  DocumentChecklist,
+  CostCalculator,
+  CompareTable,
+  CountryStat,
+} satisfies Record<MdxComponentName, ComponentType<any>>;
+
+const mdxComponents: MDXComponents = Object.fromEntries(
+  Object.entries(components).map(([name, Component]) => [
+    name,
+    withPropChecks(name as MdxComponentName, Component as ComponentType<any>),
+  ]),
+);
 
 export default mdxComponents;
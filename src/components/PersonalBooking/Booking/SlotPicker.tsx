@@ -0,0 +1,174 @@
+// src/components/PersonalBooking/Booking/SlotPicker.tsx
+"use client";
+
+import React from "react";
+import { ChevronLeft, ChevronRight } from "lucide-react";
+import type { Slot } from "@/types/booking";
+
+/**
+ * SlotPicker — day strip + time grid
+ * ----------------------------------
+ *  • Slots arrive as UTC instants and are grouped by the visitor's local
+ *    date, so an advisor's evening can show up as the visitor's morning.
+ *  • With several advisors free at the same time, one button is shown and
+ *    the first advisor's slot is picked (the server re-assigns if needed).
+ *  • Prev/next move the search window; the parent owns fetching.
+ */
+
+type Props = {
+  slots: Slot[];
+  value?: Slot;
+  onChange: (slot: Slot) => void;
+  /** IANA zone to display times in */
+  timezone: string;
+  loading?: boolean;
+  rangeLabel: string;
+  canPrev: boolean;
+  onPrev: () => void;
+  onNext: () => void;
+};
+
+export default function SlotPicker({
+  slots,
+  value,
+  onChange,
+  timezone,
+  loading = false,
+  rangeLabel,
+  canPrev,
+  onPrev,
+  onNext,
+}: Props) {
+  const uid = React.useId();
+  const fmt = React.useMemo(
+    () => ({
+      key: new Intl.DateTimeFormat("en-CA", { timeZone: timezone }),
+      day: new Intl.DateTimeFormat("en-GB", {
+        timeZone: timezone,
+        weekday: "short",
+        day: "numeric",
+        month: "short",
+      }),
+      time: new Intl.DateTimeFormat("en-US", {
+        timeZone: timezone,
+        hour: "numeric",
+        minute: "2-digit",
+      }),
+    }),
+    [timezone],
+  );
+
+  const days = React.useMemo(() => {
+    const byDay = new Map<string, Slot[]>();
+    const seen = new Set<string>();
+    for (const s of slots) {
+      if (seen.has(s.start)) continue;
+      seen.add(s.start);
+      const key = fmt.key.format(new Date(s.start));
+      byDay.set(key, [...(byDay.get(key) ?? []), s]);
+    }
+    return [...byDay.entries()];
+  }, [slots, fmt]);
+
+  const [day, setDay] = React.useState<string>();
+  const activeDay = days.some(([k]) => k === day) ? day : days[0]?.[0];
+  const times = days.find(([k]) => k === activeDay)?.[1] ?? [];
+
+  return (
+    <div aria-busy={loading || undefined}>
+      <div className="flex items-center justify-between gap-2">
+        <button
+          type="button"
+          onClick={onPrev}
+          disabled={!canPrev || loading}
+          aria-label="Earlier dates"
+          className="rounded-lg p-2 ring-1 ring-neutral-200 hover:bg-neutral-50 disabled:opacity-40 dark:ring-neutral-800 dark:hover:bg-neutral-800"
+        >
+          <ChevronLeft className="h-4 w-4" />
+        </button>
+        <p className="text-sm font-medium text-neutral-700 dark:text-neutral-300">
+          {rangeLabel}
+        </p>
+        <button
+          type="button"
+          onClick={onNext}
+          disabled={loading}
+          aria-label="Later dates"
+          className="rounded-lg p-2 ring-1 ring-neutral-200 hover:bg-neutral-50 disabled:opacity-40 dark:ring-neutral-800 dark:hover:bg-neutral-800"
+        >
+          <ChevronRight className="h-4 w-4" />
+        </button>
+      </div>
+
+      {loading ? (
+        <p className="mt-4 text-sm text-neutral-500">Checking availability…</p>
+      ) : !days.length ? (
+        <p className="mt-4 text-sm text-neutral-600 dark:text-neutral-400">
+          No free slots in this range — try later dates or another advisor.
+        </p>
+      ) : (
+        <>
+          <div
+            role="tablist"
+            aria-label="Available days"
+            className="mt-3 flex gap-2 overflow-x-auto pb-1"
+          >
+            {days.map(([key, list]) => (
+              <button
+                key={key}
+                type="button"
+                role="tab"
+                id={`${uid}-${key}`}
+                aria-selected={key === activeDay}
+                onClick={() => setDay(key)}
+                className={[
+                  "shrink-0 rounded-xl px-3 py-2 text-sm ring-1 transition",
+                  key === activeDay
+                    ? "bg-primary text-white ring-primary"
+                    : "ring-neutral-200 hover:bg-neutral-50 dark:ring-neutral-800 dark:hover:bg-neutral-800",
+                ].join(" ")}
+              >
+                <span className="block font-medium">
+                  {fmt.day.format(new Date(list[0].start))}
+                </span>
+                <span className="block text-[11px] opacity-80">
+                  {list.length} slot{list.length === 1 ? "" : "s"}
+                </span>
+              </button>
+            ))}
+          </div>
+
+          <div
+            role="tabpanel"
+            aria-labelledby={`${uid}-${activeDay}`}
+            className="mt-3 grid grid-cols-3 gap-2 sm:grid-cols-4"
+          >
+            {times.map((s) => {
+              const selected = value?.start === s.start;
+              return (
+                <button
+                  key={s.start}
+                  type="button"
+                  aria-pressed={selected}
+                  onClick={() => onChange(s)}
+                  className={[
+                    "rounded-lg px-2 py-2 text-sm tabular-nums ring-1 transition",
+                    selected
+                      ? "bg-primary text-white ring-primary"
+                      : "ring-neutral-200 hover:bg-neutral-50 dark:ring-neutral-800 dark:hover:bg-neutral-800",
+                  ].join(" ")}
+                >
+                  {fmt.time.format(new Date(s.start))}
+                </button>
+              );
+            })}
+          </div>
+        </>
+      )}
+
+      <p className="mt-3 text-[12px] text-neutral-500 dark:text-neutral-400">
+        Times shown in {timezone.replace(/_/g, " ")}.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,382 @@
+// src/components/PersonalBooking/Booking/index.tsx
+"use client";
+
+import React from "react";
+import toast from "react-hot-toast";
+import { CalendarCheck, Download } from "lucide-react";
+import Loader from "@/components/Common/Loader";
+import SlotPicker from "./SlotPicker";
+import { getLeadContext, setLeadContext } from "@/lib/leadContext";
+import type {
+  AdvisorSummary,
+  ApiAvailabilityResponse,
+  ApiBookingResponse,
+  BookingFieldErrors,
+  ConsultationType,
+  Slot,
+} from "@/types/booking";
+
+/**
+ * Booking — consultation scheduler for /PersonalBooking
+ * -----------------------------------------------------
+ *  • Consultation type + advisor ("any advisor" by default), then a slot
+ *    from /api/booking/availability shown in the visitor's time zone.
+ *  • POSTs to /api/booking, which re-checks the slot atomically; a 409
+ *    (taken meanwhile) refreshes the grid.
+ *  • Confirmation offers the .ics invite and records the consultation in
+ *    the session's lead context.
+ */
+
+type Confirmed = Extract<ApiBookingResponse, { ok: true }>;
+
+const WINDOW_DAYS = 7;
+const todayUtc = () => new Date().toISOString().slice(0, 10);
+const shift = (date: string, n: number) =>
+  new Date(Date.parse(date) + n * 86_400_000).toISOString().slice(0, 10);
+
+export default function Booking({ className = "" }: { className?: string }) {
+  const [timezone, setTimezone] = React.useState("UTC");
+  const [consultations, setConsultations] = React.useState<ConsultationType[]>(
+    [],
+  );
+  const [advisors, setAdvisors] = React.useState<AdvisorSummary[]>([]);
+  const [consultation, setConsultation] = React.useState("");
+  const [advisor, setAdvisor] = React.useState("");
+  const [from, setFrom] = React.useState(todayUtc);
+  const [slots, setSlots] = React.useState<Slot[]>([]);
+  const [slot, setSlot] = React.useState<Slot>();
+  const [loading, setLoading] = React.useState(true);
+  const [submitting, setSubmitting] = React.useState(false);
+  const [errors, setErrors] = React.useState<BookingFieldErrors>({});
+  const [confirmed, setConfirmed] = React.useState<Confirmed>();
+  const [reload, setReload] = React.useState(0);
+
+  React.useEffect(() => {
+    setTimezone(Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC");
+  }, []);
+
+  React.useEffect(() => {
+    const ctrl = new AbortController();
+    const q = new URLSearchParams({ from, days: String(WINDOW_DAYS) });
+    if (consultation) q.set("consultation", consultation);
+    if (advisor) q.set("advisor", advisor);
+    setLoading(true);
+    fetch(`/api/booking/availability?${q}`, { signal: ctrl.signal })
+      .then((r) => r.json() as Promise<ApiAvailabilityResponse>)
+      .then((data) => {
+        if (!data.ok) throw new Error(data.error.message);
+        setConsultations(data.consultations);
+        setAdvisors(data.advisors);
+        setSlots(data.slots);
+        setSlot((s) =>
+          s && data.slots.some((x) => x.start === s.start) ? s : undefined,
+        );
+      })
+      .catch((e) => {
+        if (e?.name !== "AbortError")
+          toast.error("Couldn’t load availability. Please try again.");
+      })
+      .finally(() => {
+        if (!ctrl.signal.aborted) setLoading(false);
+      });
+    return () => ctrl.abort();
+  }, [consultation, advisor, from, reload]);
+
+  const selectedConsultation =
+    consultations.find((c) => c.id === consultation) ?? consultations[0];
+  const rangeLabel = `${fmtDay(from, timezone)} – ${fmtDay(shift(from, WINDOW_DAYS - 1), timezone)}`;
+
+  async function handleSubmit(e: React.FormEvent<HTMLFormElement>) {
+    e.preventDefault();
+    if (!slot) {
+      setErrors({ start: "Please pick a time slot." });
+      return;
+    }
+    const form = Object.fromEntries(new FormData(e.currentTarget).entries());
+    try {
+      setSubmitting(true);
+      setErrors({});
+      const res = await fetch("/api/booking", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          ...form,
+          consultation: selectedConsultation?.id,
+          advisor: advisor || undefined,
+          start: slot.start,
+          timezone,
+          context: getLeadContext(),
+        }),
+      });
+      const data = (await res
+        .json()
+        .catch(() => null)) as ApiBookingResponse | null;
+      if (!data?.ok) {
+        const err = data && !data.ok ? data.error : undefined;
+        if (err?.fields) setErrors(err.fields);
+        if (err?.code === "slot_unavailable") {
+          setSlot(undefined);
+          setReload((n) => n + 1);
+        }
+        throw new Error(err?.message || "Booking failed.");
+      }
+      setConfirmed(data);
+      setLeadContext({
+        consultation: { option: data.booking.consultation.label },
+      });
+      toast.success("Your consultation is booked.");
+    } catch (err: any) {
+      toast.error(err?.message || "Booking failed.");
+    } finally {
+      setSubmitting(false);
+    }
+  }
+
+  return (
+    <section
+      aria-labelledby="book-title"
+      className={[
+        "container mx-auto px-4 py-10 lg:max-w-screen-xl",
+        className,
+      ].join(" ")}
+    >
+      <div className="rounded-2xl bg-white p-5 shadow-sm ring-1 ring-neutral-200 dark:bg-neutral-900 dark:ring-neutral-800 md:p-8">
+        <h2 id="book-title" className="text-2xl font-semibold tracking-tight">
+          Book your consultation
+        </h2>
+        <p className="mt-1 text-sm text-neutral-600 dark:text-neutral-400">
+          Pick a time that suits you — you’ll get a calendar invite straight
+          away.
+        </p>
+
+        {confirmed ? (
+          <Confirmation data={confirmed} timezone={timezone} />
+        ) : (
+          <form
+            onSubmit={handleSubmit}
+            noValidate
+            className="mt-6 grid gap-6 lg:grid-cols-2"
+          >
+            <div className="grid content-start gap-4">
+              <div className="grid gap-3 sm:grid-cols-2">
+                <label className="grid gap-1 text-sm">
+                  <span className="font-medium">Consultation</span>
+                  <select
+                    value={selectedConsultation?.id ?? ""}
+                    onChange={(e) => setConsultation(e.target.value)}
+                    className="rounded-lg border border-neutral-300 bg-white px-3 py-2 dark:border-neutral-700 dark:bg-neutral-950"
+                  >
+                    {consultations.map((c) => (
+                      <option key={c.id} value={c.id}>
+                        {c.label}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                <label className="grid gap-1 text-sm">
+                  <span className="font-medium">Advisor</span>
+                  <select
+                    value={advisor}
+                    onChange={(e) => setAdvisor(e.target.value)}
+                    className="rounded-lg border border-neutral-300 bg-white px-3 py-2 dark:border-neutral-700 dark:bg-neutral-950"
+                  >
+                    <option value="">Any available advisor</option>
+                    {advisors.map((a) => (
+                      <option key={a.id} value={a.id}>
+                        {a.title ?? a.name}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              </div>
+
+              <SlotPicker
+                slots={slots}
+                value={slot}
+                onChange={(s) => {
+                  setSlot(s);
+                  setErrors(({ start: _drop, ...rest }) => rest);
+                }}
+                timezone={timezone}
+                loading={loading}
+                rangeLabel={rangeLabel}
+                canPrev={from > todayUtc()}
+                onPrev={() => setFrom((f) => shift(f, -WINDOW_DAYS))}
+                onNext={() => setFrom((f) => shift(f, WINDOW_DAYS))}
+              />
+              {errors.start ? (
+                <p
+                  role="alert"
+                  className="text-[12px] text-red-600 dark:text-red-400"
+                >
+                  {errors.start}
+                </p>
+              ) : null}
+            </div>
+
+            <div className="grid content-start gap-3">
+              {/* Honeypot */}
+              <input
+                type="text"
+                name="company"
+                tabIndex={-1}
+                autoComplete="off"
+                className="hidden"
+                aria-hidden="true"
+              />
+              <Input
+                name="name"
+                label="Full name"
+                autoComplete="name"
+                error={errors.name}
+                required
+              />
+              <Input
+                name="email"
+                label="Email"
+                type="email"
+                autoComplete="email"
+                error={errors.email}
+                required
+              />
+              <Input
+                name="phone"
+                label="Phone (optional)"
+                type="tel"
+                autoComplete="tel"
+                error={errors.phone}
+              />
+              <label className="grid gap-1 text-sm">
+                <span className="font-medium">
+                  What would you like to discuss? (optional)
+                </span>
+                <textarea
+                  name="notes"
+                  rows={4}
+                  maxLength={1000}
+                  aria-invalid={!!errors.notes || undefined}
+                  className="rounded-lg border border-neutral-300 bg-white px-3 py-2 dark:border-neutral-700 dark:bg-neutral-950"
+                />
+                {errors.notes ? (
+                  <span
+                    role="alert"
+                    className="text-[12px] text-red-600 dark:text-red-400"
+                  >
+                    {errors.notes}
+                  </span>
+                ) : null}
+              </label>
+
+              <button
+                type="submit"
+                disabled={submitting}
+                className="mt-1 inline-flex items-center justify-center gap-2 rounded-xl bg-primary px-5 py-3 text-[15px] font-semibold text-white hover:brightness-110 focus:outline-none focus-visible:ring-2 focus-visible:ring-primary disabled:cursor-not-allowed disabled:opacity-60"
+              >
+                {submitting ? (
+                  <Loader />
+                ) : slot ? (
+                  `Book ${fmtSlot(slot.start, timezone)}`
+                ) : (
+                  "Book consultation"
+                )}
+              </button>
+            </div>
+          </form>
+        )}
+      </div>
+    </section>
+  );
+}
+
+/* ---------------- helpers ---------------- */
+
+function fmtDay(date: string, timezone: string) {
+  // noon UTC keeps the calendar date stable in every zone
+  return new Date(`${date}T12:00:00Z`).toLocaleDateString("en-GB", {
+    day: "numeric",
+    month: "short",
+    timeZone: timezone,
+  });
+}
+
+function fmtSlot(iso: string, timezone: string) {
+  return new Date(iso).toLocaleString("en-GB", {
+    weekday: "short",
+    day: "numeric",
+    month: "short",
+    hour: "numeric",
+    minute: "2-digit",
+    timeZone: timezone,
+  });
+}
+
+function Input({
+  label,
+  error,
+  ...rest
+}: React.InputHTMLAttributes<HTMLInputElement> & {
+  label: string;
+  error?: string;
+}) {
+  return (
+    <label className="grid gap-1 text-sm">
+      <span className="font-medium">{label}</span>
+      <input
+        {...rest}
+        aria-invalid={!!error || undefined}
+        className="rounded-lg border border-neutral-300 bg-white px-3 py-2 dark:border-neutral-700 dark:bg-neutral-950"
+      />
+      {error ? (
+        <span
+          role="alert"
+          className="text-[12px] text-red-600 dark:text-red-400"
+        >
+          {error}
+        </span>
+      ) : null}
+    </label>
+  );
+}
+
+function Confirmation({
+  data,
+  timezone,
+}: {
+  data: Confirmed;
+  timezone: string;
+}) {
+  const href = React.useMemo(
+    () => URL.createObjectURL(new Blob([data.ics], { type: "text/calendar" })),
+    [data.ics],
+  );
+  React.useEffect(() => () => URL.revokeObjectURL(href), [href]);
+
+  const { booking } = data;
+  return (
+    <div
+      role="status"
+      className="mt-6 rounded-xl bg-emerald-50 p-5 ring-1 ring-emerald-200 dark:bg-emerald-950/30 dark:ring-emerald-900"
+    >
+      <p className="flex items-center gap-2 font-semibold text-emerald-800 dark:text-emerald-300">
+        <CalendarCheck className="h-5 w-5" /> You’re booked
+      </p>
+      <p className="mt-2 text-sm text-neutral-800 dark:text-neutral-200">
+        {booking.consultation.label} with{" "}
+        {booking.advisor.title ?? booking.advisor.name}
+        <br />
+        <strong>{fmtSlot(booking.start, timezone)}</strong> (
+        {timezone.replace(/_/g, " ")})
+      </p>
+      <p className="mt-1 text-[12px] text-neutral-600 dark:text-neutral-400">
+        Reference: {booking.id}
+      </p>
+      <a
+        href={href}
+        download="xiphias-consultation.ics"
+        className="mt-4 inline-flex items-center gap-2 rounded-lg bg-emerald-600 px-4 py-2 text-sm font-medium text-white hover:bg-emerald-700"
+      >
+        <Download className="h-4 w-4" /> Add to calendar (.ics)
+      </a>
+    </div>
+  );
+}
@@ -7,9 +7,17 @@ import Expert from "@/components/PersonalBooking/Expert";
 import Awards from "@/components/PersonalBooking/Awards";
 import InvestmentStats from "@/components/PersonalBooking/Problem/index";
 import Solutions from "@/components/PersonalBooking/Solutions";
+import Booking from "@/components/PersonalBooking/Booking";
 import TestimonialSection from "@/components/Common/TestimonialSection/index";
 
-import { User, Award, FileText, MessageSquare, DollarSign } from "lucide-react";
+import {
+  User,
+  Award,
+  FileText,
+  MessageSquare,
+  DollarSign,
+  CalendarDays,
+} from "lucide-react";
 
 type ArticleMeta = {
   title: string;
@@ -24,6 +32,7 @@ const navItems = [
   { label: "Expert", href: "#expert", icon: User },
   { label: "Problem", href: "#problem", icon: DollarSign },
   { label: "Solution", href: "#solution", icon: User },
+  { label: "Book", href: "#book", icon: CalendarDays },
   { label: "Articles", href: "#articles", icon: FileText },
   { label: "Awards", href: "#awards", icon: Award },
   { label: "Testimonials", href: "#testimonials", icon: MessageSquare },
@@ -180,6 +189,17 @@ export default function Sections({ articles }: { articles: ArticleMeta[] }) {
           <Solutions />
         </motion.section>
 
+        <motion.section
+          id="book"
+          key="book"
+          initial={{ opacity: 0, x: -50 }}
+          whileInView={{ opacity: 1, x: 0 }}
+          exit={{ opacity: 0, x: 50 }}
+          transition={{ duration: 0.5, ease: "easeOut" }}
+        >
+          <Booking />
+        </motion.section>
+
         {/* ✅ Latest Articles (from props; no server imports here) */}
         <motion.section
           id="articles"
@@ -0,0 +1,27 @@
+// src/components/Preview/PreviewBanner.tsx
+// Shown by the root layout while draft mode is on, so nobody mistakes a
+// preview (drafts included) for the live site.
+"use client";
+
+import { usePathname } from "next/navigation";
+
+export default function PreviewBanner() {
+  const pathname = usePathname() || "/";
+  return (
+    <div
+      role="status"
+      className="fixed bottom-8 left-1/2 z-[1000] flex -translate-x-1/2 items-center gap-3 rounded-full bg-amber-500 px-4 py-2 text-sm font-semibold text-black shadow-lg"
+    >
+      <span className="uppercase tracking-wide">Preview</span>
+      <span className="hidden font-normal sm:inline">
+        Drafts are visible — this is not the live page.
+      </span>
+      <a
+        href={`/api/preview/exit?path=${encodeURIComponent(pathname)}`}
+        className="rounded-full bg-black/80 px-3 py-1 text-xs text-white hover:bg-black"
+      >
+        Exit preview
+      </a>
+    </div>
+  );
+}
@@ -0,0 +1,25 @@
+"use client";
+import * as React from "react";
+import { useCurrency } from "@/lib/CurrencyProvider";
+import { describeRates } from "@/lib/currency";
+
+/** "Converted at reference rates as of 18 Oct 2026" — render wherever amounts were converted. */
+export default function RatesNote({
+  show = true,
+  className = "",
+}: {
+  show?: boolean;
+  className?: string;
+}) {
+  const { asOf, source } = useCurrency();
+  if (!show) return null;
+  return (
+    <p
+      className={`text-[12px] text-neutral-600 dark:text-neutral-400 ${className}`}
+    >
+      Converted at{" "}
+      <time dateTime={asOf}>{describeRates({ asOf, source })}</time>. Indicative
+      only; fees are payable in the listed currency.
+    </p>
+  );
+}
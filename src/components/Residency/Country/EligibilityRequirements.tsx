@@ -1,6 +1,13 @@
 import * as React from "react";
 import SectionHeader from "./SectionHeader";
 import { CheckCircle2 } from "lucide-react";
+import { CiteRefs, SourceNotes } from "@/components/Common/Citations";
+import {
+  citationLd,
+  numberFootnotes,
+  splitCitations,
+} from "@/lib/content/citations";
+import type { SourceRef } from "@/lib/content/schema";
 
 type Props = {
   items?: string[] | string | unknown; // tolerate non-strings
@@ -9,6 +16,8 @@ type Props = {
   numbered?: boolean;
   /** Max columns for wide screens (1 or 2). Default: 2 */
   columns?: 1 | 2;
+  /** Sources that items cite with a trailing `[^id]` marker */
+  sources?: SourceRef[];
 };
 
 // --- NEW: stringify any odd YAML objects like { "Points-tested PR": "189..." } ---
@@ -27,14 +36,23 @@ export default function EligibilityRequirements({
   className = "",
   numbered = false,
   columns = 2,
+  sources,
 }: Props) {
   if (!items) return null;
 
   // Normalize to a clean string list (keeps your old API)
   const isList = Array.isArray(items);
-  const list: string[] = isList
-    ? (items as unknown[]).map(toDisplayString).filter(Boolean)
+  const cited = isList
+    ? (items as unknown[])
+        .map(toDisplayString)
+        .filter(Boolean)
+        .map(splitCitations)
     : [];
+  const list: string[] = cited.map((c) => c.text);
+  const { refs, notes } = numberFootnotes(
+    sources,
+    cited.map((c) => c.ids),
+  );
 
   if (isList && list.length === 0) return null;
 
@@ -43,7 +61,7 @@ export default function EligibilityRequirements({
 
   // JSON-LD only for arrays
   const jsonLd = isList
-    ? buildItemListLd("Eligibility requirements", list)
+    ? buildItemListLd("Eligibility requirements", list, citationLd(notes))
     : null;
 
   const regionProps = isList
@@ -154,6 +172,7 @@ export default function EligibilityRequirements({
                 title={text}
               >
                 {text}
+                <CiteRefs refs={refs(cited[idx].ids)} scope="requirements" />
               </p>
             </li>
           ))}
@@ -192,6 +211,7 @@ export default function EligibilityRequirements({
                   title={text}
                 >
                   {text}
+                  <CiteRefs refs={refs(cited[idx].ids)} scope="requirements" />
                 </p>
               </div>
             </li>
@@ -199,6 +219,12 @@ export default function EligibilityRequirements({
         </ul>
       )}
 
+      <SourceNotes
+        notes={notes}
+        scope="requirements"
+        className="relative z-10 mt-4"
+      />
+
       {/* JSON-LD (arrays only) */}
       {jsonLd ? (
         <script
@@ -273,7 +299,11 @@ function BackgroundGraphics() {
 }
 
 /* ---------------- SEO helper ---------------- */
-function buildItemListLd(name: string, items: string[]) {
+function buildItemListLd(
+  name: string,
+  items: string[],
+  citation: ReturnType<typeof citationLd>,
+) {
   if (!items.length) return null;
   return {
     "@context": "https://schema.org",
@@ -286,5 +316,6 @@ function buildItemListLd(name: string, items: string[]) {
       position: index + 1,
       item: { "@type": "Thing", name: text },
     })),
+    citation: citation.length ? citation : undefined,
   } as const;
 }
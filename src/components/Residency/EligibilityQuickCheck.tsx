@@ -4,6 +4,9 @@ import React, { useEffect, useId, useMemo, useRef, useState } from "react";
 import Link from "next/link";
 import { motion, useReducedMotion } from "framer-motion";
 import { CheckCircle, AlertTriangle, RefreshCw } from "lucide-react";
+import { setLeadContext } from "@/lib/leadContext";
+import { useTranslator } from "@/lib/i18n/LocaleProvider";
+import type { Translator } from "@/lib/i18n/translate";
 
 /* ---------------- Types ---------------- */
 type Ans = "yes" | "no" | "";
@@ -25,27 +28,27 @@ type QuickCheckCTAs = {
   secondaryText?: string;
 };
 type QuickCheckConfig = {
+  title?: string;
   questions: Question[];
   policy?: Policy;
   verdict?: VerdictText;
   ctas?: QuickCheckCTAs;
 };
 
-/* ---------------- Defaults ---------------- */
+/* ---------------- Defaults (in the page locale) ---------------- */
 const DEFAULT_POLICY: Policy = { type: "all" };
-const DEFAULT_VERDICT: VerdictText = {
-  successTitle: "Looks eligible",
-  successText:
-    "You seem to meet the key criteria — talk to an advisor to confirm.",
-  cautionTitle: "May be eligible",
-  cautionText: "Some answers need review. There may be alternative routes.",
-};
-const DEFAULT_CTAS: Required<QuickCheckCTAs> = {
+const defaultVerdict = (t: Translator["t"]): VerdictText => ({
+  successTitle: t("quickCheck.successTitle"),
+  successText: t("quickCheck.successText"),
+  cautionTitle: t("quickCheck.cautionTitle"),
+  cautionText: t("quickCheck.cautionText"),
+});
+const defaultCtas = (t: Translator["t"]): Required<QuickCheckCTAs> => ({
   primaryHref: "/PersonalBooking",
-  primaryText: "Book a Free Consultation",
+  primaryText: t("quickCheck.primaryCta"),
   secondaryHref: "/residency/eligibility",
-  secondaryText: "Full eligibility checker",
-};
+  secondaryText: t("quickCheck.secondaryCta"),
+});
 
 /* ---------------- Component ---------------- */
 export default function EligibilityQuickCheck({
@@ -54,13 +57,17 @@ export default function EligibilityQuickCheck({
   config?: QuickCheckConfig | null;
 }) {
   const reduceMotion = useReducedMotion();
+  const { t, plural } = useTranslator();
 
   const questions = Array.isArray(config?.questions) ? config!.questions : [];
   if (!questions.length) return null;
 
   const policy = config?.policy ?? DEFAULT_POLICY;
-  const verdictText = config?.verdict ?? DEFAULT_VERDICT;
-  const ctas = { ...DEFAULT_CTAS, ...(config?.ctas || {}) };
+  const verdictText = useMemo(
+    () => config?.verdict ?? defaultVerdict(t),
+    [config?.verdict, t],
+  );
+  const ctas = { ...defaultCtas(t), ...(config?.ctas || {}) };
 
   /* Persist answers per unique question set */
   const storageKey = useMemo(
@@ -164,10 +171,25 @@ export default function EligibilityQuickCheck({
     }
   }, [ready, yesCount, questions.length, policy]);
 
+  /* Verdict travels with the visitor's inquiry (lead context) */
+  useEffect(() => {
+    if (ok === null) return;
+    setLeadContext({
+      eligibility: {
+        verdict: ok ? verdictText.successTitle : verdictText.cautionTitle,
+        positive: ok,
+        yes: yesCount,
+        total: questions.length,
+        title: config?.title,
+        page: window.location.pathname,
+      },
+    });
+  }, [ok, yesCount, questions.length, verdictText, config?.title]);
+
   /* JSON-LD (SEO) */
   const jsonLd = useMemo(
-    () => toItemListLd("Quick eligibility questions", questions),
-    [questions],
+    () => toItemListLd(t("quickCheck.listName"), questions),
+    [questions, t],
   );
 
   /* ---------------- Subcomponent: Radio pill ---------------- */
@@ -221,14 +243,14 @@ export default function EligibilityQuickCheck({
             "transition-colors focus:outline-none focus-visible:ring-2 focus-visible:ring-sky-400/60",
             palette,
           ].join(" ")}
-          aria-label={`${label}: ${value === "yes" ? "Yes" : "No"}`}
+          aria-label={`${label}: ${value === "yes" ? t("common.yes") : t("common.no")}`}
         >
           {value === "yes" ? (
             <CheckCircle className="h-4 w-4" aria-hidden />
           ) : (
             <AlertTriangle className="h-4 w-4" aria-hidden />
           )}
-          {value === "yes" ? "Yes" : "No"}
+          {value === "yes" ? t("common.yes") : t("common.no")}
         </label>
       </div>
     );
@@ -253,14 +275,13 @@ export default function EligibilityQuickCheck({
       <header className="relative z-10 flex flex-col gap-3 sm:flex-row sm:items-start sm:justify-between">
         <div className="min-w-0">
           <span className="inline-flex items-center rounded-md bg-sky-600/10 px-2 py-1 text-xs font-semibold text-sky-700 dark:text-sky-300">
-            ~10 sec
+            {t("quickCheck.duration")}
           </span>
           <h3 id="eligibility-heading" className="text-lg font-semibold pt-2">
-            Quick eligibility check
+            {t("quickCheck.title")}
           </h3>
           <p className="text-sm opacity-80 mt-1">
-            Answer {questions.length} short question
-            {questions.length > 1 ? "s" : ""}. No data is sent to our servers.
+            {plural("quickCheck.intro", questions.length)}
           </p>
         </div>
 
@@ -272,18 +293,18 @@ export default function EligibilityQuickCheck({
               className="h-3.5 w-3.5 accent-sky-600"
               checked={autoAdvance}
               onChange={(e) => setAutoAdvance(e.target.checked)}
-              aria-label="Toggle auto-advance to next question"
+              aria-label={t("quickCheck.autoAdvanceLabel")}
             />
-            Auto-advance
+            {t("quickCheck.autoAdvance")}
           </label>
           <button
             type="button"
             onClick={reset}
             className="inline-flex items-center gap-2 rounded-full px-3 py-1 text-[12px] ring-1 ring-neutral-200 dark:ring-neutral-800 hover:bg-neutral-100 dark:hover:bg-neutral-800"
-            aria-label="Reset answers"
+            aria-label={t("quickCheck.resetLabel")}
           >
             <RefreshCw className="h-3.5 w-3.5" />
-            Reset
+            {t("quickCheck.reset")}
           </button>
         </div>
       </header>
@@ -296,7 +317,7 @@ export default function EligibilityQuickCheck({
           aria-valuemin={0}
           aria-valuemax={100}
           aria-valuenow={progress}
-          aria-label="Eligibility questions progress"
+          aria-label={t("quickCheck.progressLabel")}
         >
           <motion.div
             initial={{ width: 0 }}
@@ -311,14 +332,16 @@ export default function EligibilityQuickCheck({
         </div>
         <div className="mt-2 flex flex-wrap items-center justify-between gap-2 text-[13px]">
           <span className="font-medium">
-            {answered}/{questions.length} answered
+            {t("quickCheck.answered", { answered, total: questions.length })}
           </span>
           <div className="flex items-center gap-2">
             <span className="inline-flex items-center gap-1 rounded-full bg-emerald-100 text-emerald-900 dark:bg-emerald-900/30 dark:text-emerald-300 px-2 py-0.5">
-              <CheckCircle className="h-3.5 w-3.5" /> {yesCount} yes
+              <CheckCircle className="h-3.5 w-3.5" />{" "}
+              {t("quickCheck.yesCount", { count: yesCount })}
             </span>
             <span className="inline-flex items-center gap-1 rounded-full bg-rose-100 text-rose-900 dark:bg-rose-900/30 dark:text-rose-300 px-2 py-0.5">
-              <AlertTriangle className="h-3.5 w-3.5" /> {noCount} no
+              <AlertTriangle className="h-3.5 w-3.5" />{" "}
+              {t("quickCheck.noCount", { count: noCount })}
             </span>
             <span className="opacity-70">{progress}%</span>
           </div>
@@ -341,11 +364,14 @@ export default function EligibilityQuickCheck({
               "
             >
               <legend className="text-sm font-semibold">
-                <span className="mr-1.5 inline-flex h-5 w-5 items-center justify-center rounded-full bg-sky-600 text-white text-[11px] align-middle">
+                <span className="me-1.5 inline-flex h-5 w-5 items-center justify-center rounded-full bg-sky-600 text-white text-[11px] align-middle">
                   {idx + 1}
                 </span>
                 <span className="sr-only">
-                  Question {idx + 1} of {questions.length} —{" "}
+                  {t("quickCheck.questionOf", {
+                    n: idx + 1,
+                    total: questions.length,
+                  })}{" "}
                 </span>
                 {q.label}
               </legend>
@@ -439,29 +465,23 @@ export default function EligibilityQuickCheck({
             </div>
 
             <p className="mt-2 text-[12px] opacity-70">
-              This is an indicative check only. Final eligibility depends on
-              your full profile and current regulations.
+              {t("quickCheck.disclaimer")}
             </p>
           </motion.div>
         ) : (
-          <p className="mt-2 text-sm opacity-80">
-            Select answers above to get an instant indication and tailored next
-            steps.
-          </p>
+          <p className="mt-2 text-sm opacity-80">{t("quickCheck.prompt")}</p>
         )}
       </div>
 
       {/* Footer */}
       <footer className="relative z-10 mt-4 flex items-center justify-between gap-3">
-        <p className="text-xs opacity-70">
-          We respect your privacy — answers stay in your browser.
-        </p>
+        <p className="text-xs opacity-70">{t("quickCheck.privacy")}</p>
         <Link
           href="/contact"
           className="text-sm underline focus:outline-none focus-visible:ring-2 focus-visible:ring-sky-400 rounded"
-          aria-label="Contact us"
+          aria-label={t("common.contactUs")}
         >
-          Contact us
+          {t("common.contactUs")}
         </Link>
       </footer>
 
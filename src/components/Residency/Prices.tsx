@@ -3,6 +3,21 @@
 
 import * as React from "react";
 import { Banknote, Wallet, Info, CalendarDays, FileText } from "lucide-react";
+import {
+  describeHousehold,
+  describeRule,
+  estimateFees,
+  hasRule,
+  quantityFor,
+  type FeeRow,
+} from "@/lib/fees";
+import { useHousehold } from "@/lib/useHousehold";
+import { useMoney } from "@/lib/CurrencyProvider";
+import CurrencySwitcher from "@/components/CurrencySwitcher";
+import RatesNote from "@/components/RatesNote";
+import { CiteRefs, SourceNotes } from "@/components/Common/Citations";
+import { numberFootnotes } from "@/lib/content/citations";
+import type { SourceRef } from "@/lib/content/schema";
 
 /**
  * Prices (Residency) — blue primary, WHITE surfaces, subtle light grid
@@ -11,51 +26,58 @@ import { Banknote, Wallet, Info, CalendarDays, FileText } from "lucide-react";
  * - UX: currency summary chips, stage timeline, sticky-first-col table, mobile scroll hint
  * - A11y: SR summary, caption, contrast-safe colors, motion-reduce friendly
  * - SEO: AggregateOffer JSON-LD + per-row Offer microdata
- * - Signature unchanged
+ * - Rows with fee rules (per person, age bands, alternatives) are totalled
+ *   for the visitor's household via src/lib/fees.ts
+ * - Amounts follow the visitor's display currency (useMoney); JSON-LD keeps listed figures
+ * - Rows with `cite` get footnote markers; the cited `sources` are listed below
  */
 
-type PriceItem = {
-  label: string;
-  amount?: number;
-  currency?: string;
-  when?: string;
-  notes?: string;
-};
+type PriceItem = FeeRow & { cite?: string[] };
 
 type ProofItem = {
   label?: string;
   amount: number;
   currency?: string;
   notes?: string;
+  cite?: string[];
 };
 
 export default function Prices({
   items,
   proofOfFunds = [],
   defaultCurrency = "USD",
+  sources,
 }: {
   items: PriceItem[];
   proofOfFunds?: ProofItem[];
   defaultCurrency?: string;
+  sources?: SourceRef[];
 }) {
   const hasItems = Array.isArray(items) && items.length > 0;
   const hasProof = Array.isArray(proofOfFunds) && proofOfFunds.length > 0;
+  const { household } = useHousehold();
+  const money = useMoney(defaultCurrency);
   if (!hasItems && !hasProof) return null;
 
+  // Rule-bearing rows are priced for the household; plain rows sum as listed.
+  const ruled = hasItems && items.some(hasRule);
+  const estimate = ruled
+    ? estimateFees(items, household, {
+        currency: money.currency,
+        rates: money.rates,
+      })
+    : null;
+  const converted = [...(items ?? []), ...proofOfFunds].some(
+    (r) => typeof r.amount === "number" && money.isConverted(r.currency),
+  );
+
   /* ---------- helpers ---------- */
-  const fmt = (amt?: number, cur?: string) => {
-    if (typeof amt !== "number" || Number.isNaN(amt)) return "—";
-    const c = (cur || defaultCurrency || "USD").toUpperCase();
-    try {
-      return new Intl.NumberFormat(undefined, {
-        style: "currency",
-        currency: c,
-        maximumFractionDigits: 0,
-      }).format(amt);
-    } catch {
-      return `${amt.toLocaleString()} ${c}`;
-    }
-  };
+  const fmt = (amt?: number, cur?: string) => money.format(amt, cur);
+
+  const { refs, notes } = numberFootnotes(sources, [
+    ...(items ?? []).map((it) => it.cite),
+    ...proofOfFunds.map((p) => p.cite),
+  ]);
 
   const sumByCurrency = <T extends { amount?: number; currency?: string }>(
     list: T[],
@@ -63,18 +85,14 @@ export default function Prices({
     const map = new Map<string, number>();
     for (const row of list) {
       if (typeof row.amount !== "number" || Number.isNaN(row.amount)) continue;
-      const c = (row.currency || defaultCurrency || "USD").toUpperCase();
-      map.set(c, (map.get(c) || 0) + row.amount);
+      const c = money.currencyFor(row.currency);
+      map.set(c, (map.get(c) || 0) + money.value(row.amount, row.currency));
     }
     return [...map.entries()].map(([currency, total]) => ({ currency, total }));
   };
 
   type StageKey =
-    | "reservation"
-    | "application"
-    | "approval"
-    | "issuance"
-    | "other";
+    "reservation" | "application" | "approval" | "issuance" | "other";
   const normalizeStage = (when?: string): StageKey => {
     const s = (when || "").toLowerCase();
     if (!s) return "other";
@@ -88,7 +106,11 @@ export default function Prices({
     return "other";
   };
 
-  const itemTotals = hasItems ? sumByCurrency(items) : [];
+  const itemTotals = estimate
+    ? [{ currency: estimate.currency as string, total: estimate.oneOff }]
+    : hasItems
+      ? sumByCurrency(items)
+      : [];
   const proofTotals = hasProof ? sumByCurrency(proofOfFunds) : [];
 
   // Group into stages
@@ -106,11 +128,21 @@ export default function Prices({
     if (hasItems) {
       for (const it of items) buckets[normalizeStage(it.when)].items.push(it);
       (Object.keys(buckets) as StageKey[]).forEach((k) => {
-        buckets[k].totals = sumByCurrency(buckets[k].items);
+        buckets[k].totals = estimate
+          ? [
+              {
+                currency: estimate.currency,
+                total: estimate.lines
+                  .filter((l) => l.frequency === "once")
+                  .filter((l) => normalizeStage(l.when) === k)
+                  .reduce((sum, l) => sum + l.total, 0),
+              },
+            ].filter((t) => t.total > 0)
+          : sumByCurrency(buckets[k].items);
       });
     }
     return buckets;
-  }, [items, hasItems]); // eslint-disable-line react-hooks/exhaustive-deps
+  }, [items, hasItems, estimate, money]); // eslint-disable-line react-hooks/exhaustive-deps
 
   const a11ySummary = [
     hasItems ? `Fees listed: ${items.length} line items.` : "",
@@ -165,6 +197,7 @@ export default function Prices({
         >
           Program fees & proof of funds
         </h3>
+        <CurrencySwitcher className="ml-auto" />
       </header>
       <p id="prices-desc" className="sr-only">
         {a11ySummary}
@@ -187,9 +220,19 @@ export default function Prices({
                 <div className="flex items-center gap-2">
                   <Banknote className="h-4 w-4 text-blue-700 dark:text-blue-300" />
                   <span className="text-sm font-medium text-neutral-900 dark:text-neutral-100">
-                    Estimated program totals
+                    {estimate
+                      ? "Estimated total for your family"
+                      : "Estimated program totals"}
                   </span>
                 </div>
+                {estimate ? (
+                  <p className="mt-1 text-[12px] text-neutral-600 dark:text-neutral-400">
+                    {describeHousehold(estimate.household)}
+                    {estimate.annual > 0
+                      ? ` · plus ${fmt(estimate.annual, estimate.currency)} per year`
+                      : ""}
+                  </p>
+                ) : null}
                 <div className="mt-2 flex flex-wrap gap-1.5">
                   {itemTotals.map(({ currency, total }) => (
                     <span
@@ -240,6 +283,7 @@ export default function Prices({
               </div>
             ) : null}
           </div>
+          <RatesNote show={converted} className="mt-3" />
         </div>
       ) : null}
 
@@ -393,11 +437,36 @@ export default function Prices({
                         title={it.label}
                       >
                         <span itemProp="name">{it.label}</span>
+                        <CiteRefs refs={refs(it.cite)} scope="prices" />
+                        {ruled && hasRule(it) ? (
+                          <span className="block text-[11px] font-normal text-neutral-500 dark:text-neutral-400">
+                            {describeRule(it)}
+                          </span>
+                        ) : null}
                       </td>
                       <td className="py-3 pr-4 tabular-nums text-neutral-900 dark:text-neutral-100">
-                        <span itemProp="price">
+                        <span
+                          itemProp="price"
+                          content={
+                            typeof it.amount === "number"
+                              ? String(it.amount)
+                              : undefined
+                          }
+                        >
                           {fmt(it.amount, it.currency)}
                         </span>
+                        {ruled &&
+                        hasRule(it) &&
+                        !it.choice &&
+                        typeof it.amount === "number" ? (
+                          <span className="block text-[11px] text-neutral-500 dark:text-neutral-400">
+                            × {quantityFor(it, household)} ={" "}
+                            {fmt(
+                              it.amount * quantityFor(it, household),
+                              it.currency,
+                            )}
+                          </span>
+                        ) : null}
                         {it.amount ? (
                           <meta
                             itemProp="priceCurrency"
@@ -490,6 +559,7 @@ export default function Prices({
                 <div className="flex items-center justify-between gap-3">
                   <span className="text-sm font-medium text-neutral-900 dark:text-neutral-100">
                     {p.label || "Applicant"}
+                    <CiteRefs refs={refs(p.cite)} scope="prices" />
                   </span>
                   <span className="text-sm font-semibold tabular-nums text-neutral-900 dark:text-neutral-100">
                     {fmt(p.amount, p.currency)}
@@ -530,6 +600,8 @@ export default function Prices({
         </div>
       ) : null}
 
+      <SourceNotes notes={notes} scope="prices" className="px-1" />
+
       {/* JSON-LD script for SEO */}
       <script
         type="application/ld+json"
@@ -0,0 +1,108 @@
+// src/components/Residency/WhatChanged.tsx
+// "What changed" timeline for program pages: dated entries from the
+// program's history (lib/content/history.ts), newest first. No hooks.
+import type { FieldChange, ProgramChange } from "@/lib/content/changes";
+import { TRACKED_FIELDS } from "@/lib/content/changes";
+import { DEFAULT_LOCALE, type Locale } from "@/lib/i18n/config";
+import { translator, type Translator } from "@/lib/i18n/translate";
+
+function ChangeLine({ c, t }: { c: FieldChange; t: Translator["t"] }) {
+  const isRow = c.field === "prices" || c.field === "governmentFees";
+  return (
+    <li className="text-sm">
+      {isRow ? (
+        <span className="text-neutral-500 dark:text-neutral-400">
+          {TRACKED_FIELDS[c.field]} ·{" "}
+        </span>
+      ) : null}
+      <span className="font-medium">{c.label}</span>
+      {c.kind === "added" ? (
+        <>
+          {" "}
+          <span className="rounded bg-emerald-600/10 px-1.5 py-0.5 text-xs font-semibold text-emerald-700 dark:text-emerald-300">
+            {t("changes.new")}
+          </span>
+          {c.after ? <> {c.after}</> : null}
+        </>
+      ) : c.kind === "removed" ? (
+        <>
+          {" "}
+          <span className="rounded bg-rose-600/10 px-1.5 py-0.5 text-xs font-semibold text-rose-700 dark:text-rose-300">
+            {t("changes.removed")}
+          </span>
+          {c.before ? (
+            <span className="line-through opacity-70"> {c.before}</span>
+          ) : null}
+        </>
+      ) : (
+        <>
+          : <span className="line-through opacity-70">{c.before}</span>
+          {" → "}
+          <span className="font-semibold">{c.after}</span>
+        </>
+      )}
+    </li>
+  );
+}
+
+export default function WhatChanged({
+  history,
+  locale = DEFAULT_LOCALE,
+  heading,
+}: {
+  history: ProgramChange[];
+  locale?: Locale;
+  heading?: string;
+}) {
+  if (!history.length) return null;
+  const { t, date } = translator(locale);
+  return (
+    <div className="text-black dark:text-white">
+      <header className="mb-4 flex items-center gap-2">
+        <span className="inline-flex items-center rounded-md bg-amber-600/10 px-2 py-1 text-xs font-semibold text-amber-700 dark:text-amber-300">
+          {t("changes.badge")}
+        </span>
+        <h2 className="text-xl font-semibold">
+          {heading ?? t("changes.heading")}
+        </h2>
+      </header>
+
+      <ol className="relative space-y-5 border-s border-slate-200 ps-5 dark:border-neutral-700">
+        {history.map((entry) => (
+          <li key={entry.date} className="relative">
+            <span
+              aria-hidden
+              className="absolute -start-[1.6rem] top-1.5 h-2.5 w-2.5 rounded-full bg-amber-500 ring-4 ring-white dark:ring-neutral-900"
+            />
+            <time
+              dateTime={entry.date}
+              className="text-xs font-semibold uppercase tracking-wide text-neutral-500 dark:text-neutral-400"
+            >
+              {date(entry.date)}
+            </time>
+            {entry.summary ? (
+              <p className="mt-1 text-sm">{entry.summary}</p>
+            ) : null}
+            {entry.changes.length ? (
+              <ul className="mt-2 space-y-1">
+                {entry.changes.map((c, i) => (
+                  <ChangeLine key={`${c.field}-${c.label}-${i}`} c={c} t={t} />
+                ))}
+              </ul>
+            ) : null}
+            {entry.sourceUrl ? (
+              <a
+                href={entry.sourceUrl}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="mt-1 inline-block text-xs underline underline-offset-2 opacity-80 hover:opacity-100"
+              >
+                {t("changes.source")}
+              </a>
+            ) : null}
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
@@ -0,0 +1,64 @@
+// src/components/Search/ActiveFilters.tsx
+// Removable chips for the filters that have no facet of their own — region,
+// timeline, family size and a custom budget — typically carried over from an
+// interpreted GlobalSearch query.
+import Link from "next/link";
+import { X } from "lucide-react";
+import type { SearchFilters } from "@/types/search";
+import { formatMoney } from "@/lib/currency";
+import { REGIONS } from "@/lib/search/intent";
+import { bandOf, toSearchQuery } from "@/lib/search/params";
+
+export default function ActiveFilters({ filters }: { filters: SearchFilters }) {
+  const chips: { label: string; patch: Partial<SearchFilters> }[] = [];
+
+  for (const r of filters.regions)
+    chips.push({
+      label: REGIONS[r]?.label ?? r,
+      patch: { regions: filters.regions.filter((x) => x !== r) },
+    });
+  // Budget bands are shown (and removed) in the facet sidebar
+  if (!bandOf(filters)) {
+    if (filters.minBudget !== undefined)
+      chips.push({
+        label: `Over ${formatMoney(filters.minBudget)}`,
+        patch: { minBudget: undefined },
+      });
+    if (filters.maxBudget !== undefined)
+      chips.push({
+        label: `Under ${formatMoney(filters.maxBudget)}`,
+        patch: { maxBudget: undefined },
+      });
+  }
+  if (filters.familySize !== undefined)
+    chips.push({
+      label: `Family of ${filters.familySize}`,
+      patch: { familySize: undefined },
+    });
+  if (filters.maxTimeline !== undefined)
+    chips.push({
+      label: `Within ${filters.maxTimeline} month${filters.maxTimeline === 1 ? "" : "s"}`,
+      patch: { maxTimeline: undefined },
+    });
+
+  if (!chips.length) return null;
+  return (
+    <ul
+      aria-label="Active filters"
+      className="mt-3 flex flex-wrap gap-2 text-sm"
+    >
+      {chips.map(({ label, patch }) => (
+        <li key={label}>
+          <Link
+            href={`/search${toSearchQuery(filters, patch)}`}
+            className="inline-flex items-center gap-1 rounded-full bg-primary/10 py-1 pl-3 pr-2 font-medium text-primary hover:bg-primary/20"
+            aria-label={`Remove filter: ${label}`}
+          >
+            {label}
+            <X size={14} aria-hidden />
+          </Link>
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,32 @@
+// src/components/Search/Highlight.tsx
+// Renders `text` with the given match ranges wrapped in <mark>. No hooks, so
+// it works in both the server-rendered /search page and GlobalSearch.
+import type { TextRange } from "@/types/search";
+
+export default function Highlight({
+  text,
+  ranges,
+}: {
+  text: string;
+  ranges?: TextRange[];
+}) {
+  if (!ranges?.length) return <>{text}</>;
+
+  const parts: React.ReactNode[] = [];
+  let at = 0;
+  for (const [start, end] of [...ranges].sort((a, b) => a[0] - b[0])) {
+    if (start < at || end > text.length) continue; // overlapping / stale
+    if (start > at) parts.push(text.slice(at, start));
+    parts.push(
+      <mark
+        key={start}
+        className="rounded-sm bg-yellow-200/70 px-0.5 text-inherit dark:bg-yellow-500/30"
+      >
+        {text.slice(start, end)}
+      </mark>,
+    );
+    at = end;
+  }
+  if (at < text.length) parts.push(text.slice(at));
+  return <>{parts}</>;
+}
@@ -0,0 +1,153 @@
+// src/components/Search/SearchFacets.tsx
+// Server-rendered facet sidebar for /search. Every option is a plain link to
+// the filtered URL, so filtering works without JavaScript and is shareable.
+import Link from "next/link";
+import type { FacetBucket, SearchFacets, SearchFilters } from "@/types/search";
+import {
+  BUDGET_BANDS,
+  bandOf,
+  toSearchQuery,
+  toggle,
+} from "@/lib/search/params";
+
+type Props = {
+  facets: SearchFacets;
+  filters: SearchFilters;
+};
+
+export default function SearchFacetsPanel({ facets, filters }: Props) {
+  const href = (patch: Partial<SearchFilters>) =>
+    `/search${toSearchQuery(filters, patch)}`;
+  const activeBand = bandOf(filters);
+  const hasFilters =
+    filters.types.length +
+      filters.verticals.length +
+      filters.countries.length +
+      filters.tags.length >
+      0 ||
+    filters.minBudget !== undefined ||
+    filters.maxBudget !== undefined ||
+    filters.regions.length > 0 ||
+    filters.maxTimeline !== undefined ||
+    filters.familySize !== undefined;
+
+  return (
+    <aside aria-label="Filter results" className="space-y-6 text-sm">
+      {hasFilters ? (
+        <Link
+          href={href({
+            types: [],
+            verticals: [],
+            countries: [],
+            tags: [],
+            minBudget: undefined,
+            maxBudget: undefined,
+            regions: [],
+            maxTimeline: undefined,
+            familySize: undefined,
+          })}
+          className="inline-block text-primary underline underline-offset-2"
+        >
+          Clear all filters
+        </Link>
+      ) : null}
+
+      <Group
+        title="Type"
+        buckets={facets.type}
+        selected={filters.types}
+        hrefFor={(v) =>
+          href({ types: toggle(filters.types, v) as SearchFilters["types"] })
+        }
+      />
+      <Group
+        title="Vertical"
+        buckets={facets.vertical}
+        selected={filters.verticals}
+        hrefFor={(v) => href({ verticals: toggle(filters.verticals, v) })}
+      />
+      <Group
+        title="Country"
+        buckets={facets.country}
+        selected={filters.countries}
+        hrefFor={(v) => href({ countries: toggle(filters.countries, v) })}
+      />
+      <Group
+        title="Minimum investment (USD)"
+        buckets={facets.budget}
+        selected={activeBand ? [activeBand.id] : []}
+        hrefFor={(v) => {
+          const band = BUDGET_BANDS.find((b) => b.id === v)!;
+          return activeBand?.id === v
+            ? href({ minBudget: undefined, maxBudget: undefined })
+            : href({ minBudget: band.min, maxBudget: band.max });
+        }}
+      />
+      <Group
+        title="Topic"
+        buckets={facets.tag}
+        selected={filters.tags}
+        hrefFor={(v) => href({ tags: toggle(filters.tags, v) })}
+      />
+    </aside>
+  );
+}
+
+function Group({
+  title,
+  buckets,
+  selected,
+  hrefFor,
+}: {
+  title: string;
+  buckets: FacetBucket[];
+  selected: string[];
+  hrefFor: (value: string) => string;
+}) {
+  if (!buckets.some((b) => b.count > 0 || selected.includes(b.value)))
+    return null;
+  return (
+    <section>
+      <h2 className="mb-2 text-[12px] font-semibold uppercase tracking-wide text-neutral-500">
+        {title}
+      </h2>
+      <ul className="space-y-1">
+        {buckets.map((b) => {
+          const on = selected.includes(b.value);
+          if (!on && b.count === 0) return null;
+          return (
+            <li key={b.value}>
+              <Link
+                href={hrefFor(b.value)}
+                aria-current={on ? "true" : undefined}
+                rel="nofollow"
+                className={[
+                  "flex items-center justify-between gap-2 rounded-lg px-2 py-1.5 transition",
+                  on
+                    ? "bg-primary/10 font-medium text-primary"
+                    : "text-neutral-700 hover:bg-neutral-100 dark:text-neutral-300 dark:hover:bg-neutral-800",
+                ].join(" ")}
+              >
+                <span className="flex items-center gap-2">
+                  <span
+                    aria-hidden
+                    className={[
+                      "inline-block h-3.5 w-3.5 rounded border",
+                      on
+                        ? "border-primary bg-primary"
+                        : "border-neutral-300 dark:border-neutral-600",
+                    ].join(" ")}
+                  />
+                  {b.label}
+                </span>
+                <span className="tabular-nums text-[12px] text-neutral-500">
+                  {b.count}
+                </span>
+              </Link>
+            </li>
+          );
+        })}
+      </ul>
+    </section>
+  );
+}
@@ -0,0 +1,69 @@
+// src/components/Search/SearchResults.tsx
+import Link from "next/link";
+import type { ApiSearchResult } from "@/types/search";
+import { formatMoney } from "@/lib/currency";
+import Highlight from "./Highlight";
+
+const TYPE_LABELS: Record<string, string> = {
+  country: "Country",
+  program: "Program",
+  article: "Article",
+  news: "News",
+  media: "Media",
+  blog: "Blog",
+  page: "Page",
+};
+
+export default function SearchResults({
+  items,
+  offset = 0,
+}: {
+  items: ApiSearchResult[];
+  /** Index of the first item across all pages (for list numbering) */
+  offset?: number;
+}) {
+  return (
+    <ol
+      start={offset + 1}
+      className="divide-y divide-neutral-200 dark:divide-neutral-800"
+    >
+      {items.map((item) => (
+        <li key={item.id} className="py-4">
+          <div className="flex flex-wrap items-center gap-2 text-[12px] text-neutral-500">
+            <span className="rounded-full bg-neutral-100 px-2 py-0.5 font-medium text-neutral-700 dark:bg-neutral-800 dark:text-neutral-300">
+              {TYPE_LABELS[item.type] ?? item.type}
+            </span>
+            {item.vertical ? (
+              <span className="capitalize">{item.vertical}</span>
+            ) : null}
+            {item.subtitle ? (
+              <span>
+                ·{" "}
+                <Highlight
+                  text={item.subtitle}
+                  ranges={item.matches?.subtitle}
+                />
+              </span>
+            ) : null}
+            {item.minInvestment ? (
+              <span>
+                · from {formatMoney(item.minInvestment, item.currency)}
+              </span>
+            ) : null}
+          </div>
+          <h2 className="mt-1 text-lg font-semibold leading-snug">
+            <Link href={item.url} className="hover:underline">
+              <Highlight text={item.title} ranges={item.matches?.title} />
+            </Link>
+          </h2>
+          {item.snippet ? (
+            <p className="mt-1 line-clamp-2 text-sm text-neutral-600 dark:text-neutral-400">
+              <Highlight text={item.snippet} ranges={item.matches?.snippet} />
+            </p>
+          ) : null}
+          <p className="mt-1 text-[12px] text-neutral-400">{item.url}</p>
+        </li>
+      ))}
+    </ol>
+  );
+}
@@ -0,0 +1,348 @@
+// src/components/Skilled/PointsCalculator.tsx
+"use client";
+
+import React from "react";
+import { buildScope, cutoffGap, scorePoints } from "@/lib/points/engine";
+import { publishPointsTotal } from "@/lib/points/shared";
+import type {
+  PointsAnswers,
+  PointsCutoff,
+  PointsInput,
+  PointsTable,
+} from "@/lib/points/types";
+
+/**
+ * PointsCalculator — live points-test estimate (GSM, CRS, …)
+ * ----------------------------------------------------------
+ *  • Driven entirely by a versioned points table; no scoring logic here.
+ *  • Answers persist for the session per system, so the same profile follows
+ *    the visitor across 189/190 or Express Entry/PNP pages. Page `defaults`
+ *    (e.g. the 190 nomination) always win.
+ *  • Breakdown by group with caps, pass mark, and gap to the latest round.
+ */
+
+type Props = {
+  table: PointsTable;
+  defaults?: PointsAnswers;
+  cutoff?: PointsCutoff;
+  title?: string;
+  className?: string;
+};
+
+const fmtDate = (iso: string) => {
+  const d = new Date(iso);
+  return Number.isNaN(d.getTime())
+    ? iso
+    : d.toLocaleDateString("en-GB", {
+        day: "numeric",
+        month: "short",
+        year: "numeric",
+      });
+};
+
+export default function PointsCalculator({
+  table,
+  defaults,
+  cutoff,
+  title,
+  className = "",
+}: Props) {
+  const uid = React.useId();
+  const storageKey = `points:${table.system}:v1`;
+  const [answers, setAnswers] = React.useState<PointsAnswers>(defaults ?? {});
+
+  React.useEffect(() => {
+    try {
+      const raw = sessionStorage.getItem(storageKey);
+      if (raw) setAnswers({ ...JSON.parse(raw), ...defaults });
+    } catch {
+      /* ignore */
+    }
+  }, [storageKey, defaults]);
+  React.useEffect(() => {
+    try {
+      sessionStorage.setItem(storageKey, JSON.stringify(answers));
+    } catch {
+      /* ignore */
+    }
+  }, [storageKey, answers]);
+
+  const { visible } = buildScope(table, answers);
+  const result = scorePoints(table, answers);
+  const gap = cutoffGap(result.total, cutoff);
+
+  // Only once something is answered, so a blank form doesn't chart "0".
+  const answered = Object.keys(answers).some(
+    (k) => !defaults || !(k in defaults),
+  );
+  React.useEffect(() => {
+    if (answered) publishPointsTotal(table.system, result.total);
+  }, [answered, table.system, result.total]);
+  const passGap =
+    result.passMark !== undefined ? result.total - result.passMark : undefined;
+
+  const set = (id: string, v: unknown) =>
+    setAnswers((s) => ({ ...s, [id]: v }));
+
+  return (
+    <section
+      aria-labelledby={`${uid}-title`}
+      className={[
+        "relative rounded-2xl p-5 md:p-6",
+        "bg-white dark:bg-neutral-900",
+        "ring-1 ring-neutral-200 dark:ring-neutral-800 shadow-sm print:shadow-none",
+        className,
+      ].join(" ")}
+    >
+      <header className="mb-4">
+        <div className="flex items-center gap-2 text-[12px] text-blue-700 dark:text-blue-300">
+          <span className="inline-flex h-1.5 w-1.5 rounded-full bg-blue-600" />
+          <span className="font-medium">Calculator</span>
+        </div>
+        <h3
+          id={`${uid}-title`}
+          className="mt-2 text-xl font-semibold tracking-tight text-neutral-900 dark:text-neutral-100"
+        >
+          {title ?? table.title}
+        </h3>
+        <p className="mt-1 text-[12px] text-neutral-500 dark:text-neutral-400">
+          Points table effective {fmtDate(table.effectiveFrom)}
+          {table.sourceUrl ? (
+            <>
+              {" · "}
+              <a
+                href={table.sourceUrl}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="underline underline-offset-2"
+              >
+                {table.sourceLabel ?? "Official source"}
+              </a>
+            </>
+          ) : null}
+        </p>
+      </header>
+
+      <div className="grid gap-6 lg:grid-cols-[1fr_20rem]">
+        {/* Inputs */}
+        <div className="grid gap-4 sm:grid-cols-2">
+          {visible.map((input) => (
+            <InputField
+              key={input.id}
+              id={`${uid}-${input.id}`}
+              input={input}
+              value={answers[input.id]}
+              onChange={(v) => set(input.id, v)}
+            />
+          ))}
+        </div>
+
+        {/* Result */}
+        <aside aria-live="polite" className="space-y-4">
+          <div className="rounded-2xl bg-blue-50/80 p-4 ring-1 ring-blue-100/80 dark:bg-blue-950/40 dark:ring-blue-900/50">
+            <div className="text-[12px] font-medium text-blue-900 dark:text-blue-100">
+              Estimated score
+            </div>
+            <div className="text-3xl font-semibold tabular-nums text-blue-900 dark:text-blue-100">
+              {result.total}
+              {table.max ? (
+                <span className="text-base font-normal opacity-70">
+                  {" "}
+                  / {table.max}
+                </span>
+              ) : null}
+            </div>
+            {passGap !== undefined ? (
+              <p className="mt-1 text-sm text-blue-900/90 dark:text-blue-100/90">
+                {passGap >= 0
+                  ? `Meets the ${result.passMark}-point pass mark`
+                  : `${-passGap} below the ${result.passMark}-point pass mark`}
+              </p>
+            ) : null}
+            {cutoff && gap !== undefined ? (
+              <p className="mt-1 text-sm text-blue-900/90 dark:text-blue-100/90">
+                {gap >= 0 ? `${gap} above` : `${-gap} below`} the latest cut-off
+                of {cutoff.score}
+                <span className="block text-[12px] opacity-80">
+                  {cutoff.sourceUrl ? (
+                    <a
+                      href={cutoff.sourceUrl}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="underline underline-offset-2"
+                    >
+                      {cutoff.label ?? "Latest round"}
+                    </a>
+                  ) : (
+                    (cutoff.label ?? "Latest round")
+                  )}
+                  , {fmtDate(cutoff.date)}
+                </span>
+              </p>
+            ) : null}
+          </div>
+
+          {result.warnings.length ? (
+            <ul className="space-y-1 rounded-xl bg-amber-50 p-3 text-sm text-amber-900 ring-1 ring-amber-200 dark:bg-amber-950/30 dark:text-amber-200 dark:ring-amber-900/50">
+              {result.warnings.map((w) => (
+                <li key={w}>{w}</li>
+              ))}
+            </ul>
+          ) : null}
+
+          <Breakdown result={result} />
+        </aside>
+      </div>
+
+      <p className="mt-4 text-[12px] text-neutral-500 dark:text-neutral-400">
+        Indicative self-assessment. Official scores depend on assessed evidence
+        and may differ.
+      </p>
+    </section>
+  );
+}
+
+/* =========================
+ * Breakdown
+ * =======================*/
+function Breakdown({ result }: { result: ReturnType<typeof scorePoints> }) {
+  const ungrouped = result.lines.filter(
+    (l) => !result.groups.some((g) => g.group.id === l.factor.group),
+  );
+  const rows = (lines: typeof result.lines) =>
+    lines
+      .filter((l) => l.points)
+      .map((l) => (
+        <li key={l.factor.id} className="flex justify-between gap-3">
+          <span>{l.factor.label}</span>
+          <span className="tabular-nums">{l.points}</span>
+        </li>
+      ));
+
+  return (
+    <details open className="rounded-xl border p-3 text-sm">
+      <summary className="cursor-pointer font-medium">Breakdown</summary>
+      <ul className="mt-2 space-y-1">{rows(ungrouped)}</ul>
+      {result.groups
+        .filter((g) => g.raw > 0)
+        .map((g) => (
+          <div
+            key={g.group.id}
+            className={g.group.parent ? "mt-2 ps-3" : "mt-3"}
+          >
+            <div className="flex justify-between gap-3 font-medium">
+              <span>{g.group.label}</span>
+              <span className="tabular-nums">{g.points}</span>
+            </div>
+            {g.raw > g.points ? (
+              <div className="text-[11px] text-neutral-500">
+                Capped at {g.group.cap} ({g.raw} claimed)
+              </div>
+            ) : null}
+            <ul className="mt-1 space-y-1 ps-3 text-neutral-600 dark:text-neutral-300">
+              {rows(g.lines)}
+            </ul>
+          </div>
+        ))}
+    </details>
+  );
+}
+
+/* =========================
+ * Inputs
+ * =======================*/
+function InputField({
+  id,
+  input,
+  value,
+  onChange,
+}: {
+  id: string;
+  input: PointsInput;
+  value: unknown;
+  onChange: (v: unknown) => void;
+}) {
+  const help = input.help ? (
+    <p id={`${id}-help`} className="text-[12px] text-neutral-500">
+      {input.help}
+    </p>
+  ) : null;
+  const common = {
+    id,
+    "aria-describedby": input.help ? `${id}-help` : undefined,
+    className:
+      "w-full rounded-xl border border-neutral-300 bg-white p-2.5 text-sm dark:border-neutral-700 dark:bg-neutral-950",
+  };
+
+  if (input.type === "boolean") {
+    return (
+      <div className="grid content-start gap-1.5 sm:col-span-2">
+        <label className="inline-flex items-start gap-2 text-sm">
+          <input
+            id={id}
+            type="checkbox"
+            className="mt-0.5 h-4 w-4 accent-blue-600"
+            checked={value === true}
+            onChange={(e) => onChange(e.target.checked)}
+          />
+          <span className="text-neutral-900 dark:text-neutral-100">
+            {input.label}
+          </span>
+        </label>
+        {help}
+      </div>
+    );
+  }
+
+  return (
+    <div className="grid content-start gap-1.5">
+      <label
+        htmlFor={id}
+        className="text-sm font-medium text-neutral-900 dark:text-neutral-100"
+      >
+        {input.label}
+      </label>
+      {input.type === "number" ? (
+        <div className="flex items-center gap-2">
+          <input
+            {...common}
+            type="number"
+            inputMode="numeric"
+            min={input.min}
+            max={input.max}
+            value={typeof value === "number" ? value : ""}
+            onChange={(e) =>
+              onChange(
+                e.target.value === "" ? undefined : Number(e.target.value),
+              )
+            }
+          />
+          {input.unit ? (
+            <span className="text-sm opacity-70">{input.unit}</span>
+          ) : null}
+        </div>
+      ) : (
+        <select
+          {...common}
+          // option values may be numbers; select by index to keep the type
+          value={String(
+            input.options?.findIndex((o) => o.value === value) ?? -1,
+          )}
+          onChange={(e) =>
+            onChange(input.options?.[Number(e.target.value)]?.value)
+          }
+        >
+          <option value="-1" disabled>
+            Select…
+          </option>
+          {input.options?.map((o, i) => (
+            <option key={String(o.value)} value={String(i)}>
+              {o.label}
+            </option>
+          ))}
+        </select>
+      )}
+      {help}
+    </div>
+  );
+}
@@ -0,0 +1,68 @@
+// src/components/Skilled/PointsCalculatorBlock.tsx
+// Server wrapper: resolves the points table (and, for a program, its
+// defaults and latest cut-off — from the round history when one is kept,
+// else frontmatter) before handing off to the client calculator.
+// Registered for MDX as <PointsCalculator system="gsm" program="australia/skilled-independent-189" />.
+import "server-only";
+
+import { loadPointsTable } from "@/lib/points/load";
+import {
+  getProgramFrontmatter,
+  getProgramRounds,
+  latestRound,
+} from "@/lib/skilled-content";
+import type { PointsCutoff } from "@/lib/points/types";
+import PointsCalculator from "@/components/Skilled/PointsCalculator";
+
+type Props = {
+  /** Points table system id, e.g. "gsm" or "crs" */
+  system: string;
+  /** "country/program" whose `points` frontmatter supplies defaults + cut-off */
+  program?: string;
+  /** Pin a table version instead of the one in force today */
+  version?: string;
+  title?: string;
+  className?: string;
+};
+
+export default function PointsCalculatorBlock({
+  system,
+  program,
+  version,
+  title,
+  className,
+}: Props) {
+  const table = loadPointsTable(system, { version });
+  if (!table) return null;
+
+  let points: ReturnType<typeof getProgramFrontmatter>["points"];
+  let cutoff: PointsCutoff | undefined;
+  if (program) {
+    const [country, slug] = program.split("/");
+    try {
+      points = getProgramFrontmatter(country, slug).points;
+      const history = getProgramRounds(country, slug);
+      const round = history && latestRound(history);
+      cutoff = round
+        ? {
+            score: round.cutoff,
+            date: round.date,
+            label: round.category,
+            sourceUrl: history?.sourceUrl,
+          }
+        : points?.latestCutoff;
+    } catch {
+      points = undefined;
+    }
+  }
+
+  return (
+    <PointsCalculator
+      table={table}
+      defaults={points?.defaults}
+      cutoff={cutoff}
+      title={title}
+      className={className}
+    />
+  );
+}
@@ -0,0 +1,254 @@
+// src/components/Skilled/RoundsChart.tsx
+"use client";
+
+import React from "react";
+import {
+  CartesianGrid,
+  Line,
+  LineChart,
+  ReferenceLine,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+import type { RoundHistory } from "@/types/rounds";
+import { POINTS_TOTAL_EVENT, readPointsTotal } from "@/lib/points/shared";
+
+/**
+ * RoundsChart — invitation cut-offs over time
+ * -------------------------------------------
+ *  • Trend of the lowest invited score per round, filterable by category.
+ *  • "Your score" line is pre-filled from the points calculator on the page
+ *    (same session, same points system) and can be overridden.
+ *  • Summarises how many recent rounds that score would have cleared.
+ */
+
+type Props = {
+  history: RoundHistory;
+  title?: string;
+  className?: string;
+};
+
+const fmtDate = (iso: string, long = false) =>
+  new Date(iso).toLocaleDateString("en-GB", {
+    day: long ? "numeric" : undefined,
+    month: "short",
+    year: long ? "numeric" : "2-digit",
+  });
+
+export default function RoundsChart({
+  history,
+  title = "Invitation rounds",
+  className = "",
+}: Props) {
+  const uid = React.useId();
+  const categories = React.useMemo(
+    () =>
+      [...new Set(history.rounds.map((r) => r.category).filter(Boolean))].sort(
+        (a, b) =>
+          // most frequent first
+          history.rounds.filter((r) => r.category === b).length -
+            history.rounds.filter((r) => r.category === a).length ||
+          a!.localeCompare(b!),
+      ) as string[],
+    [history],
+  );
+  const [category, setCategory] = React.useState("");
+  const [score, setScore] = React.useState<number | undefined>();
+  const [scoreTouched, setScoreTouched] = React.useState(false);
+
+  // Follow the calculator until the visitor types their own score.
+  React.useEffect(() => {
+    if (!history.system || scoreTouched) return;
+    const system = history.system;
+    setScore(readPointsTotal(system));
+    const onTotal = (e: Event) => {
+      const d = (e as CustomEvent<{ system: string; total: number }>).detail;
+      if (d?.system === system) setScore(d.total);
+    };
+    window.addEventListener(POINTS_TOTAL_EVENT, onTotal);
+    return () => window.removeEventListener(POINTS_TOTAL_EVENT, onTotal);
+  }, [history.system, scoreTouched]);
+
+  const rounds = history.rounds.filter(
+    (r) => !category || r.category === category,
+  );
+  const data = [...rounds].reverse();
+  const latest = rounds[0];
+  const cleared =
+    score !== undefined ? rounds.filter((r) => score >= r.cutoff).length : 0;
+
+  if (!history.rounds.length) return null;
+
+  return (
+    <section
+      aria-labelledby={`${uid}-title`}
+      className={[
+        "relative rounded-2xl p-5 md:p-6",
+        "bg-white dark:bg-neutral-900",
+        "ring-1 ring-neutral-200 dark:ring-neutral-800 shadow-sm print:shadow-none",
+        className,
+      ].join(" ")}
+    >
+      <header className="mb-4 flex flex-wrap items-end justify-between gap-3">
+        <div>
+          <h3
+            id={`${uid}-title`}
+            className="text-xl font-semibold tracking-tight text-neutral-900 dark:text-neutral-100"
+          >
+            {title}
+          </h3>
+          {latest ? (
+            <p className="mt-1 text-sm text-neutral-600 dark:text-neutral-300">
+              Latest: {latest.cutoff} on {fmtDate(latest.date, true)}
+              {latest.invitations
+                ? ` · ${latest.invitations.toLocaleString("en-US")} invited`
+                : ""}
+            </p>
+          ) : null}
+        </div>
+        <div className="flex flex-wrap items-end gap-3 text-sm">
+          {categories.length > 1 ? (
+            <label className="grid gap-1">
+              <span className="text-[12px] text-neutral-500">Category</span>
+              <select
+                value={category}
+                onChange={(e) => setCategory(e.target.value)}
+                className="rounded-lg border border-neutral-300 bg-white px-2 py-1.5 dark:border-neutral-700 dark:bg-neutral-950"
+              >
+                <option value="">All categories</option>
+                {categories.map((c) => (
+                  <option key={c} value={c}>
+                    {c}
+                  </option>
+                ))}
+              </select>
+            </label>
+          ) : null}
+          <label className="grid gap-1">
+            <span className="text-[12px] text-neutral-500">Your score</span>
+            <input
+              type="number"
+              inputMode="numeric"
+              min={0}
+              value={score ?? ""}
+              onChange={(e) => {
+                setScoreTouched(true);
+                setScore(
+                  e.target.value === "" ? undefined : Number(e.target.value),
+                );
+              }}
+              className="w-24 rounded-lg border border-neutral-300 bg-white px-2 py-1.5 tabular-nums dark:border-neutral-700 dark:bg-neutral-950"
+            />
+          </label>
+        </div>
+      </header>
+
+      <div className="h-64 w-full">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={data} margin={{ top: 8, right: 8, left: -12 }}>
+            <CartesianGrid strokeDasharray="3 3" strokeOpacity={0.3} />
+            <XAxis
+              dataKey="date"
+              tickFormatter={(d: string) => fmtDate(d)}
+              tick={{ fontSize: 12 }}
+              minTickGap={16}
+            />
+            <YAxis
+              tick={{ fontSize: 12 }}
+              domain={["dataMin - 10", "dataMax + 10"]}
+              allowDecimals={false}
+            />
+            <Tooltip
+              labelFormatter={(d) => fmtDate(String(d), true)}
+              formatter={(value, _name, item) => [
+                value,
+                item?.payload?.category ?? "Cut-off",
+              ]}
+            />
+            {score !== undefined ? (
+              <ReferenceLine
+                y={score}
+                stroke="#16a34a"
+                strokeDasharray="4 4"
+                label={{
+                  value: `You: ${score}`,
+                  position: "insideTopRight",
+                  fontSize: 12,
+                }}
+              />
+            ) : null}
+            <Line
+              type="monotone"
+              dataKey="cutoff"
+              name="Cut-off"
+              stroke="#2563eb"
+              strokeWidth={2}
+              dot={{ r: 3 }}
+              isAnimationActive={false}
+            />
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+
+      {score !== undefined ? (
+        <p
+          aria-live="polite"
+          className="mt-3 text-sm text-neutral-700 dark:text-neutral-300"
+        >
+          A score of <strong className="tabular-nums">{score}</strong> would
+          have cleared {cleared} of the last {rounds.length} rounds
+          {category ? ` (${category})` : ""}.
+        </p>
+      ) : null}
+
+      <details className="mt-3 text-sm">
+        <summary className="cursor-pointer font-medium">All rounds</summary>
+        <div className="mt-2 overflow-x-auto">
+          <table className="w-full text-left">
+            <thead className="text-[12px] text-neutral-500">
+              <tr>
+                <th className="py-1 pe-3 font-medium">Date</th>
+                <th className="py-1 pe-3 font-medium">Category</th>
+                <th className="py-1 pe-3 text-right font-medium">Cut-off</th>
+                <th className="py-1 text-right font-medium">Invited</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-neutral-200 dark:divide-neutral-800">
+              {rounds.map((r) => (
+                <tr key={`${r.date}-${r.category ?? ""}`}>
+                  <td className="py-1 pe-3 whitespace-nowrap">
+                    {fmtDate(r.date, true)}
+                  </td>
+                  <td className="py-1 pe-3">{r.category ?? "—"}</td>
+                  <td className="py-1 pe-3 text-right tabular-nums">
+                    {r.cutoff}
+                  </td>
+                  <td className="py-1 text-right tabular-nums">
+                    {r.invitations?.toLocaleString("en-US") ?? "—"}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </details>
+
+      {history.sourceUrl ? (
+        <p className="mt-3 text-[12px] text-neutral-500 dark:text-neutral-400">
+          Source:{" "}
+          <a
+            href={history.sourceUrl}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="underline underline-offset-2"
+          >
+            {history.sourceLabel ?? "official round results"}
+          </a>
+          . Past cut-offs don&apos;t guarantee future invitations.
+        </p>
+      ) : null}
+    </section>
+  );
+}
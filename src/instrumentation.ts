@@ -0,0 +1,12 @@
+// src/instrumentation.ts
+// Runs once per server start. In `next dev` it starts the content watcher,
+// so MDX edits show up without restarting the server.
+export async function register() {
+  if (
+    process.env.NEXT_RUNTIME === "nodejs" &&
+    process.env.NODE_ENV === "development"
+  ) {
+    const { startContentWatcher } = await import("@/lib/content/watch");
+    startContentWatcher();
+  }
+}
@@ -1,58 +1,168 @@
 "use client";
 import * as React from "react";
+import {
+  RATES_SNAPSHOT,
+  convertAmount,
+  formatMoney,
+  isCurrencyCode,
+  toCurrencyCode,
+  type CurrencyCode,
+  type Rates,
+} from "@/lib/currency";
+import { INTL_LOCALES } from "@/lib/i18n/config";
+import { useLocale } from "@/lib/i18n/LocaleProvider";
 
-type Currency = "INR" | "USD" | "AED" | "EUR";
-type Rates = Record<Currency, number>; // per 1 USD (base)
+/**
+ * Display currency for every price widget.
+ * - The visitor's pick is persisted (localStorage) and shared across widgets/tabs;
+ *   `null` means "show each price in the currency it is listed in".
+ * - Rates default to the dated snapshot in src/lib/currency-rates.json.
+ * Works without a provider; <CurrencyProvider> only overrides the default/rates.
+ */
+type Currency = CurrencyCode;
 
-const DEFAULT_RATES: Rates = {
-  USD: 1,
-  INR: 83,     // adjust to your preference
-  AED: 3.67,
-  EUR: 0.92,
-};
+const STORAGE_KEY = "currency:v1";
 
+/* ---------- persisted choice (shared store) ---------- */
+const listeners = new Set<() => void>();
+let choice: Currency | null | undefined;
+
+function readChoice(): Currency | null {
+  if (choice !== undefined) return choice;
+  try {
+    const v = localStorage.getItem(STORAGE_KEY);
+    choice = isCurrencyCode(v) ? v : null;
+  } catch {
+    choice = null;
+  }
+  return choice;
+}
+
+function writeChoice(next: Currency | null) {
+  choice = next;
+  try {
+    if (next) localStorage.setItem(STORAGE_KEY, next);
+    else localStorage.removeItem(STORAGE_KEY);
+  } catch {
+    /* storage unavailable — keep in memory */
+  }
+  listeners.forEach((l) => l());
+}
+
+function subscribe(l: () => void) {
+  listeners.add(l);
+  // keep other tabs in sync
+  const onStorage = (e: StorageEvent) => {
+    if (e.key !== STORAGE_KEY) return;
+    choice = undefined;
+    l();
+  };
+  window.addEventListener("storage", onStorage);
+  return () => {
+    listeners.delete(l);
+    window.removeEventListener("storage", onStorage);
+  };
+}
+
+/* ---------- context (defaults + rate overrides) ---------- */
 const CurrencyCtx = React.createContext<{
-  currency: Currency;
-  setCurrency: (c: Currency) => void;
+  defaultCurrency: Currency;
   rates: Rates;
-  setRates: (r: Rates) => void;
-  convert: (amount: number, from: Currency, to: Currency) => number;
+  asOf: string;
+  /** Where the rates came from (see RatesSnapshot.source) */
+  source: string;
+  setRates: (r: Rates, asOf?: string) => void;
 }>({
-  currency: "INR",
-  setCurrency: () => {},
-  rates: DEFAULT_RATES,
+  defaultCurrency: "INR",
+  rates: RATES_SNAPSHOT.rates,
+  asOf: RATES_SNAPSHOT.asOf,
+  source: RATES_SNAPSHOT.source,
   setRates: () => {},
-  convert: (n) => n,
 });
 
 export function CurrencyProvider({
   children,
   defaultCurrency = "INR",
-  initialRates = DEFAULT_RATES,
+  initialRates = RATES_SNAPSHOT.rates,
+  initialAsOf = RATES_SNAPSHOT.asOf,
+  initialSource = RATES_SNAPSHOT.source,
 }: {
   children: React.ReactNode;
   defaultCurrency?: Currency;
   initialRates?: Rates;
+  initialAsOf?: string;
+  initialSource?: string;
 }) {
-  const [currency, setCurrency] = React.useState<Currency>(defaultCurrency);
-  const [rates, setRates] = React.useState<Rates>(initialRates);
-
-  const convert = React.useCallback(
-    (amount: number, from: Currency, to: Currency) => {
-      // All rates are per 1 USD; convert via USD
-      const usd = amount / rates[from];     // to USD
-      return usd * rates[to];               // to target
-    },
-    [rates]
+  const [state, setState] = React.useState({
+    rates: initialRates,
+    asOf: initialAsOf,
+    source: initialSource,
+  });
+  const setRates = React.useCallback(
+    (rates: Rates, asOf = new Date().toISOString().slice(0, 10)) =>
+      setState({ rates, asOf, source: "override" }),
+    [],
   );
 
-  return (
-    <CurrencyCtx.Provider value={{ currency, setCurrency, rates, setRates, convert }}>
-      {children}
-    </CurrencyCtx.Provider>
+  const value = React.useMemo(
+    () => ({ defaultCurrency, ...state, setRates }),
+    [defaultCurrency, state, setRates],
   );
+  return <CurrencyCtx.Provider value={value}>{children}</CurrencyCtx.Provider>;
 }
 
 export function useCurrency() {
-  return React.useContext(CurrencyCtx);
+  const { defaultCurrency, rates, asOf, source, setRates } =
+    React.useContext(CurrencyCtx);
+  const picked = React.useSyncExternalStore(subscribe, readChoice, () => null);
+
+  const convert = React.useCallback(
+    (amount: number, from: string, to: string) =>
+      convertAmount(amount, toCurrencyCode(from), toCurrencyCode(to), rates),
+    [rates],
+  );
+
+  return {
+    /** Effective currency for widgets without a native one */
+    currency: picked ?? defaultCurrency,
+    /** Explicit visitor pick, or null for "as listed" */
+    choice: picked,
+    setCurrency: writeChoice,
+    rates,
+    asOf,
+    source,
+    setRates,
+    convert,
+  };
+}
+
+/**
+ * Price formatting for widgets whose rows carry their own currency:
+ * amounts are shown in the visitor's pick, or as listed when there is none,
+ * with the page locale's digits and separators.
+ */
+export function useMoney(nativeCurrency: string = "USD") {
+  const { choice, convert, rates, asOf } = useCurrency();
+  const intl = INTL_LOCALES[useLocale()];
+  const native = toCurrencyCode(nativeCurrency);
+
+  return React.useMemo(() => {
+    const source = (from?: string) => toCurrencyCode(from, native);
+    const currencyFor = (from?: string): Currency => choice ?? source(from);
+    const value = (amount: number, from?: string) =>
+      convert(amount, source(from), currencyFor(from));
+    return {
+      /** Currency totals should be expressed in */
+      currency: choice ?? native,
+      rates,
+      asOf,
+      currencyFor,
+      value,
+      isConverted: (from?: string) => currencyFor(from) !== source(from),
+      format: (amount?: number, from?: string) =>
+        typeof amount === "number" && Number.isFinite(amount)
+          ? formatMoney(value(amount, from), currencyFor(from), intl)
+          : "—",
+    };
+  }, [choice, convert, rates, asOf, native, intl]);
 }
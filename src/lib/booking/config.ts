@@ -0,0 +1,114 @@
+// src/lib/booking/config.ts
+// Reads advisor availability from content/booking/availability.json and
+// validates it up front, so a typo in working hours fails loudly instead of
+// silently offering no (or wrong) slots.
+import "server-only";
+
+import fs from "node:fs";
+import path from "node:path";
+import type { AvailabilityConfig, Blackout } from "@/types/booking";
+import { HHMM, ISO_DATE, isTimeZone, toMinutes } from "./slots";
+
+const FILE = path.join(
+  process.cwd(),
+  "content",
+  "booking",
+  "availability.json",
+);
+
+export class AvailabilityConfigError extends Error {
+  constructor(
+    public readonly file: string,
+    public readonly issues: string[],
+  ) {
+    super(`Invalid availability config ${file}:\n  ${issues.join("\n  ")}`);
+    this.name = "AvailabilityConfigError";
+  }
+}
+
+/* =========================
+ * Validation
+ * =======================*/
+function checkBlackouts(
+  where: string,
+  list: Blackout[] = [],
+  issues: string[],
+) {
+  list.forEach((b, i) => {
+    const ok =
+      "date" in b
+        ? ISO_DATE.test(b.date)
+        : ISO_DATE.test(b.from) && ISO_DATE.test(b.to) && b.from <= b.to;
+    if (!ok)
+      issues.push(`${where}.blackouts[${i}]: expected {date} or {from<=to}`);
+  });
+}
+
+function validate(c: AvailabilityConfig): string[] {
+  const issues: string[] = [];
+  for (const key of [
+    "slotStepMinutes",
+    "minNoticeHours",
+    "horizonDays",
+  ] as const)
+    if (typeof c[key] !== "number" || c[key] < 0)
+      issues.push(`${key}: expected a non-negative number`);
+  if (!Array.isArray(c.consultations) || !c.consultations.length)
+    issues.push("consultations: at least one is required");
+  if (!Array.isArray(c.advisors) || !c.advisors.length)
+    issues.push("advisors: at least one is required");
+  checkBlackouts("config", c.blackouts, issues);
+
+  const ids = new Set<string>();
+  for (const k of c.consultations ?? []) {
+    if (!k.id || ids.has(k.id))
+      issues.push(`consultations: duplicate or missing id "${k.id}"`);
+    ids.add(k.id);
+    if (!(k.minutes > 0))
+      issues.push(`consultations.${k.id}: minutes must be > 0`);
+  }
+
+  ids.clear();
+  for (const a of c.advisors ?? []) {
+    const where = `advisors.${a.id}`;
+    if (!a.id || ids.has(a.id))
+      issues.push(`advisors: duplicate or missing id "${a.id}"`);
+    ids.add(a.id);
+    if (!a.name) issues.push(`${where}.name: required`);
+    if (!a.timezone || !isTimeZone(a.timezone))
+      issues.push(`${where}.timezone: unknown IANA zone "${a.timezone}"`);
+    for (const [day, ranges] of Object.entries(a.hours ?? {}))
+      (ranges ?? []).forEach(([from, to], i) => {
+        if (
+          !HHMM.test(from) ||
+          !HHMM.test(to) ||
+          toMinutes(from) >= toMinutes(to)
+        )
+          issues.push(
+            `${where}.hours.${day}[${i}]: expected ["HH:MM", "HH:MM"] with start < end`,
+          );
+      });
+    checkBlackouts(where, a.blackouts, issues);
+  }
+  return issues;
+}
+
+/* =========================
+ * Cache (keyed by file mtime)
+ * =======================*/
+type Entry = { mtime: number; config: AvailabilityConfig };
+const _g = globalThis as any;
+
+export function getAvailabilityConfig(): AvailabilityConfig {
+  const mtime = fs.statSync(FILE).mtimeMs;
+  const hit = _g.__BOOKING_CONFIG__ as Entry | undefined;
+  if (hit && hit.mtime === mtime) return hit.config;
+
+  const config = JSON.parse(
+    fs.readFileSync(FILE, "utf8"),
+  ) as AvailabilityConfig;
+  const issues = validate(config);
+  if (issues.length) throw new AvailabilityConfigError(FILE, issues);
+  _g.__BOOKING_CONFIG__ = { mtime, config } satisfies Entry;
+  return config;
+}
@@ -0,0 +1,73 @@
+// src/lib/booking/ics.ts
+// Minimal RFC 5545 invite for a confirmed booking. Times are written in UTC
+// so every calendar client places them correctly without VTIMEZONE blocks.
+import type { Advisor, Booking, ConsultationType } from "@/types/booking";
+
+const SITE = "https://www.xiphiasimmigration.com";
+const PRODID = "-//XIPHIAS Immigration//Consultation Booking//EN";
+
+const stamp = (iso: string) => iso.replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+
+/** Escape TEXT values (commas, semicolons, backslashes, newlines). */
+const text = (s: string) =>
+  s.replace(/\\/g, "\\\\").replace(/[,;]/g, "\\$&").replace(/\r?\n/g, "\\n");
+
+/** Fold content lines at 75 octets, continuation lines start with a space. */
+function fold(line: string) {
+  const bytes = new TextEncoder().encode(line);
+  if (bytes.length <= 75) return line;
+  const out: string[] = [];
+  let cur = "";
+  let size = 0;
+  for (const ch of line) {
+    const n = new TextEncoder().encode(ch).length;
+    if (size + n > (out.length ? 74 : 75)) {
+      out.push(cur);
+      cur = "";
+      size = 0;
+    }
+    cur += ch;
+    size += n;
+  }
+  out.push(cur);
+  return out.join("\r\n ");
+}
+
+export function bookingIcs(
+  booking: Booking,
+  advisor: Advisor,
+  consultation: ConsultationType,
+): string {
+  const description = [
+    `${consultation.label} with ${advisor.name}${advisor.title ? ` (${advisor.title})` : ""}.`,
+    "Your advisor will send the call link before the session.",
+    `Booking reference: ${booking.id}`,
+    `Need to reschedule? Reply to your confirmation email or visit ${SITE}/contact`,
+  ].join("\n");
+
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${PRODID}`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:REQUEST",
+    "BEGIN:VEVENT",
+    `UID:${booking.id}@xiphiasimmigration.com`,
+    `DTSTAMP:${stamp(booking.createdAt)}`,
+    `DTSTART:${stamp(booking.start)}`,
+    `DTEND:${stamp(booking.end)}`,
+    `SUMMARY:${text(`${consultation.label} — XIPHIAS Immigration`)}`,
+    `DESCRIPTION:${text(description)}`,
+    `URL:${SITE}/PersonalBooking`,
+    `ATTENDEE;CN="${booking.name.replace(/["\r\n]/g, "")}";RSVP=FALSE:mailto:${booking.email}`,
+    "STATUS:CONFIRMED",
+    "BEGIN:VALARM",
+    "ACTION:DISPLAY",
+    "DESCRIPTION:Consultation in 1 hour",
+    "TRIGGER:-PT1H",
+    "END:VALARM",
+    "END:VEVENT",
+    "END:VCALENDAR",
+  ];
+  return lines.map(fold).join("\r\n") + "\r\n";
+}
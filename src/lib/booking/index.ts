@@ -0,0 +1,147 @@
+import "server-only";
+import crypto from "node:crypto";
+import type {
+  Advisor,
+  AdvisorSummary,
+  AvailabilityConfig,
+  Booking,
+  ConsultationType,
+  Slot,
+} from "@/types/booking";
+import { hashIp } from "@/lib/leads";
+import { getAvailabilityConfig } from "./config";
+import { advisorSlots, type Interval } from "./slots";
+import { getBookingStore } from "./store";
+import { bookingIcs } from "./ics";
+import type { BookingRequest } from "./validate";
+
+export { getAvailabilityConfig, AvailabilityConfigError } from "./config";
+export { validateBooking, type BookingRequest } from "./validate";
+export { addDays, ISO_DATE } from "./slots";
+export {
+  getBookingStore,
+  setBookingStore,
+  createJsonFileStore,
+  createMemoryStore,
+  type BookingStore,
+} from "./store";
+
+export const summarizeAdvisor = ({
+  id,
+  name,
+  title,
+  timezone,
+  languages,
+}: Advisor): AdvisorSummary => ({ id, name, title, timezone, languages });
+
+const busyFor = (bookings: Booking[], advisorId: string): Interval[] =>
+  bookings
+    .filter((b) => b.advisorId === advisorId)
+    .map((b) => ({ start: Date.parse(b.start), end: Date.parse(b.end) }));
+
+/** Free slots in [from, to) for one advisor, or every advisor when omitted. */
+export async function findSlots(opts: {
+  consultation: ConsultationType;
+  advisorId?: string;
+  from: number;
+  to: number;
+}): Promise<Slot[]> {
+  const config = getAvailabilityConfig();
+  const bookings = await getBookingStore().list();
+  const window = { start: opts.from, end: opts.to };
+  return config.advisors
+    .filter((a) => !opts.advisorId || a.id === opts.advisorId)
+    .flatMap((a) =>
+      advisorSlots(
+        config,
+        a,
+        opts.consultation,
+        window,
+        busyFor(bookings, a.id),
+      ),
+    )
+    .sort(
+      (a, b) =>
+        a.start.localeCompare(b.start) ||
+        a.advisorId.localeCompare(b.advisorId),
+    );
+}
+
+/** Is `start` one of the advisor's offered slots, given these bookings? */
+function offered(
+  config: AvailabilityConfig,
+  advisor: Advisor,
+  consultation: ConsultationType,
+  start: number,
+  bookings: Booking[],
+) {
+  const window = { start, end: start + 1 };
+  return advisorSlots(
+    config,
+    advisor,
+    consultation,
+    window,
+    busyFor(bookings, advisor.id),
+  ).some((s) => Date.parse(s.start) === start);
+}
+
+export type BookingResult =
+  | {
+      ok: true;
+      booking: Booking;
+      advisor: Advisor;
+      consultation: ConsultationType;
+      ics: string;
+    }
+  | { ok: false };
+
+/**
+ * Reserve a validated request. The slot check runs inside the store's
+ * atomic `reserve`, so of two requests racing for the same advisor and
+ * time only the first wins. With no advisor requested, the first advisor
+ * (in config order) free at that time is assigned.
+ */
+export async function createBooking(
+  req: BookingRequest,
+  origin: { ip?: string } = {},
+): Promise<BookingResult> {
+  const config = getAvailabilityConfig();
+  const consultation = config.consultations.find(
+    (c) => c.id === req.consultation,
+  )!;
+  const start = Date.parse(req.start);
+  const candidates = config.advisors.filter(
+    (a) => !req.advisor || a.id === req.advisor,
+  );
+  const store = getBookingStore();
+
+  for (const advisor of candidates) {
+    const booking: Booking = {
+      id: crypto.randomUUID(),
+      advisorId: advisor.id,
+      consultationId: consultation.id,
+      start: new Date(start).toISOString(),
+      end: new Date(start + consultation.minutes * 60_000).toISOString(),
+      name: req.name,
+      email: req.email,
+      phone: req.phone,
+      notes: req.notes,
+      timezone: req.timezone,
+      context: req.context,
+      createdAt: new Date().toISOString(),
+      ipHash: origin.ip ? hashIp(origin.ip) : undefined,
+    };
+    const reserved = await store.reserve(booking, (existing) =>
+      offered(config, advisor, consultation, start, existing),
+    );
+    if (reserved)
+      return {
+        ok: true,
+        booking,
+        advisor,
+        consultation,
+        ics: bookingIcs(booking, advisor, consultation),
+      };
+  }
+  return { ok: false };
+}
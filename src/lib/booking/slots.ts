@@ -0,0 +1,169 @@
+// src/lib/booking/slots.ts
+// Pure slot arithmetic: advisor-local working hours → UTC slots, minus
+// blackouts, notice period and existing bookings (padded by the buffer).
+// No I/O, so the API and the double-booking check share one definition.
+import type {
+  Advisor,
+  AvailabilityConfig,
+  Blackout,
+  ConsultationType,
+  Slot,
+  Weekday,
+} from "@/types/booking";
+
+const MINUTE = 60_000;
+const DAY = 24 * 60 * MINUTE;
+const WEEKDAYS: Weekday[] = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+
+export type Interval = { start: number; end: number };
+
+/* =========================
+ * Dates & time zones
+ * =======================*/
+export const HHMM = /^([01]\d|2[0-3]):([0-5]\d)$/;
+export const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+export const toMinutes = (hhmm: string) => {
+  const [h, m] = hhmm.split(":").map(Number);
+  return h * 60 + m;
+};
+
+export function addDays(date: string, n: number): string {
+  const [y, m, d] = date.split("-").map(Number);
+  return new Date(Date.UTC(y, m - 1, d + n)).toISOString().slice(0, 10);
+}
+
+/** Calendar weekday of an ISO date (independent of any time zone). */
+export function weekdayOf(date: string): Weekday {
+  const [y, m, d] = date.split("-").map(Number);
+  return WEEKDAYS[new Date(Date.UTC(y, m - 1, d)).getUTCDay()];
+}
+
+export function isTimeZone(tz: string) {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: tz });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+const FORMATTERS = new Map<string, Intl.DateTimeFormat>();
+function partsFormatter(tz: string) {
+  let f = FORMATTERS.get(tz);
+  if (!f) {
+    f = new Intl.DateTimeFormat("en-US", {
+      timeZone: tz,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    });
+    FORMATTERS.set(tz, f);
+  }
+  return f;
+}
+
+/** Offset (ms) of `tz` from UTC at a given instant. */
+function offsetAt(instant: number, tz: string) {
+  const p: Record<string, number> = {};
+  for (const { type, value } of partsFormatter(tz).formatToParts(instant))
+    if (type !== "literal") p[type] = Number(value);
+  const wall = Date.UTC(
+    p.year,
+    p.month - 1,
+    p.day,
+    p.hour % 24,
+    p.minute,
+    p.second,
+  );
+  return wall - Math.floor(instant / 1000) * 1000;
+}
+
+/**
+ * UTC instant of a wall-clock time in `tz`. Re-checks the offset once so
+ * times next to a DST change land on the right side of it.
+ */
+export function zonedTimeToUtc(date: string, minutes: number, tz: string) {
+  const [y, m, d] = date.split("-").map(Number);
+  const wall = Date.UTC(y, m - 1, d, 0, minutes);
+  const guess = wall - offsetAt(wall, tz);
+  const offset = offsetAt(guess, tz);
+  return wall - offset;
+}
+
+/** ISO date of an instant as seen in `tz`. */
+export function dateInZone(instant: number, tz: string) {
+  return new Date(instant + offsetAt(instant, tz)).toISOString().slice(0, 10);
+}
+
+/* =========================
+ * Rules
+ * =======================*/
+export function isBlackedOut(date: string, blackouts: Blackout[] = []) {
+  return blackouts.some((b) =>
+    "date" in b ? b.date === date : b.from <= date && date <= b.to,
+  );
+}
+
+export const overlaps = (a: Interval, b: Interval) =>
+  a.start < b.end && b.start < a.end;
+
+/**
+ * Bookable slots for one advisor in [from, to). `busy` are that advisor's
+ * confirmed bookings; each is widened by the advisor's buffer on both sides.
+ */
+export function advisorSlots(
+  config: AvailabilityConfig,
+  advisor: Advisor,
+  consultation: ConsultationType,
+  window: Interval,
+  busy: Interval[] = [],
+  now = Date.now(),
+): Slot[] {
+  const length = consultation.minutes * MINUTE;
+  const buffer = (advisor.bufferMinutes ?? 0) * MINUTE;
+  const step = Math.max(5, config.slotStepMinutes) * MINUTE;
+  const earliest = Math.max(
+    window.start,
+    now + config.minNoticeHours * 60 * MINUTE,
+  );
+  const latest = Math.min(window.end, now + config.horizonDays * DAY);
+  if (earliest >= latest) return [];
+
+  const blocked = busy.map((b) => ({
+    start: b.start - buffer,
+    end: b.end + buffer,
+  }));
+
+  const out: Slot[] = [];
+  // Advisor-local dates covering the window (±1 day for zone offsets).
+  const last = addDays(dateInZone(latest, advisor.timezone), 1);
+  for (
+    let date = addDays(dateInZone(earliest, advisor.timezone), -1);
+    date <= last;
+    date = addDays(date, 1)
+  ) {
+    if (isBlackedOut(date, config.blackouts)) continue;
+    if (isBlackedOut(date, advisor.blackouts)) continue;
+
+    for (const [from, to] of advisor.hours[weekdayOf(date)] ?? []) {
+      const open = zonedTimeToUtc(date, toMinutes(from), advisor.timezone);
+      const close = zonedTimeToUtc(date, toMinutes(to), advisor.timezone);
+      for (let start = open; start + length <= close; start += step) {
+        if (start < earliest || start >= latest) continue;
+        const slot = { start, end: start + length };
+        if (blocked.some((b) => overlaps(slot, b))) continue;
+        out.push({
+          start: new Date(slot.start).toISOString(),
+          end: new Date(slot.end).toISOString(),
+          advisorId: advisor.id,
+        });
+      }
+    }
+  }
+  return out;
+}
@@ -0,0 +1,117 @@
+// src/lib/booking/store.ts
+import "server-only";
+import fs from "node:fs/promises";
+import path from "node:path";
+import type { Booking } from "@/types/booking";
+
+/**
+ * Persistence adapter. `reserve` must be atomic with respect to other
+ * `reserve` calls: it re-checks `isFree` against the stored bookings and
+ * only then writes, which is what prevents double-booking.
+ */
+export interface BookingStore {
+  readonly name: string;
+  list(): Promise<Booking[]>;
+  reserve(
+    booking: Booking,
+    isFree: (existing: Booking[]) => boolean,
+  ): Promise<boolean>;
+}
+
+/* =========================
+ * Adapters
+ * =======================*/
+
+/**
+ * One JSON object per line (JSONL). Reads and check-then-append run through
+ * a single promise chain, so two requests for the same slot in this process
+ * can never both succeed. (Multi-instance deployments need a database
+ * adapter with a unique constraint instead.)
+ */
+export function createJsonFileStore(file: string): BookingStore {
+  let queue: Promise<unknown> = Promise.resolve();
+  const serial = <T>(run: () => Promise<T>): Promise<T> => {
+    const next = queue.then(run, run);
+    queue = next.catch(() => undefined);
+    return next;
+  };
+
+  const read = async (): Promise<Booking[]> => {
+    try {
+      const raw = await fs.readFile(file, "utf8");
+      return raw
+        .split("\n")
+        .filter(Boolean)
+        .map((line) => JSON.parse(line) as Booking);
+    } catch (e: any) {
+      if (e?.code === "ENOENT") return [];
+      throw e;
+    }
+  };
+
+  return {
+    name: "json-file",
+    list: () => serial(read),
+    reserve(booking, isFree) {
+      return serial(async () => {
+        if (!isFree(await read())) return false;
+        await fs.mkdir(path.dirname(file), { recursive: true });
+        await fs.appendFile(file, JSON.stringify(booking) + "\n", "utf8");
+        return true;
+      });
+    },
+  };
+}
+
+/** In-memory store for read-only filesystems (bookings are lost on restart). */
+export function createMemoryStore(): BookingStore {
+  const bookings: Booking[] = [];
+  return {
+    name: "memory",
+    async list() {
+      return [...bookings];
+    },
+    async reserve(booking, isFree) {
+      if (!isFree(bookings)) return false;
+      bookings.push(booking);
+      // No name, email or phone in server logs
+      console.info(
+        "[booking] new booking",
+        JSON.stringify({
+          id: booking.id,
+          advisorId: booking.advisorId,
+          start: booking.start,
+          end: booking.end,
+        }),
+      );
+      return true;
+    },
+  };
+}
+
+/* =========================
+ * Resolution
+ * =======================*/
+const DEFAULT_FILE = path.join(process.cwd(), ".data", "bookings.jsonl");
+
+const _g = globalThis as any;
+
+/**
+ * Picks the adapter from `BOOKINGS_STORE` ("file" | "memory"; default
+ * "file"). `BOOKINGS_FILE` overrides the JSONL path. Call `setBookingStore`
+ * to plug in a calendar/database adapter.
+ */
+export function getBookingStore(): BookingStore {
+  if (_g.__BOOKINGS_STORE__) return _g.__BOOKINGS_STORE__ as BookingStore;
+  const kind = (process.env.BOOKINGS_STORE || "file").toLowerCase();
+  const store =
+    kind === "memory"
+      ? createMemoryStore()
+      : createJsonFileStore(process.env.BOOKINGS_FILE || DEFAULT_FILE);
+  _g.__BOOKINGS_STORE__ = store;
+  return store;
+}
+
+export function setBookingStore(store: BookingStore) {
+  _g.__BOOKINGS_STORE__ = store;
+}
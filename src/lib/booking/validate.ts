@@ -0,0 +1,75 @@
+// src/lib/booking/validate.ts
+import { validateEmail } from "@/utils/validateEmail";
+import { LIMITS, PHONE_RE, sanitizeLeadContext } from "@/lib/leads/validate";
+import type {
+  AvailabilityConfig,
+  BookingFieldErrors,
+  BookingPayload,
+} from "@/types/booking";
+import { isTimeZone } from "./slots";
+
+const str = (v: unknown): string => (typeof v === "string" ? v.trim() : "");
+
+export type BookingRequest = Required<
+  Pick<BookingPayload, "consultation" | "start" | "name" | "email">
+> &
+  Pick<BookingPayload, "advisor" | "phone" | "notes" | "timezone" | "context">;
+
+export type BookingValidation =
+  | { ok: true; data: BookingRequest }
+  | { ok: false; fields: BookingFieldErrors; message?: string };
+
+/**
+ * Server-side schema for POST /api/booking. Whether the slot is actually
+ * free is decided later, atomically, by the store.
+ */
+export function validateBooking(
+  body: Record<string, unknown>,
+  config: AvailabilityConfig,
+): BookingValidation {
+  const consultation = str(body.consultation);
+  const advisor = str(body.advisor) || undefined;
+  const start = str(body.start);
+  const name = str(body.name);
+  const email = str(body.email).toLowerCase();
+  const phone = str(body.phone);
+  const notes = str(body.notes);
+  const timezone = str(body.timezone);
+
+  if (!config.consultations.some((c) => c.id === consultation))
+    return { ok: false, fields: {}, message: "Unknown consultation type." };
+  if (advisor && !config.advisors.some((a) => a.id === advisor))
+    return { ok: false, fields: {}, message: "Unknown advisor." };
+
+  const fields: BookingFieldErrors = {};
+  if (!start || Number.isNaN(Date.parse(start)))
+    fields.start = "Please pick a time slot.";
+  if (name.length < LIMITS.nameMin)
+    fields.name = "Please enter at least 2 characters.";
+  else if (name.length > LIMITS.nameMax)
+    fields.name = `Please keep your name under ${LIMITS.nameMax} characters.`;
+  if (!email || email.length > LIMITS.emailMax || !validateEmail(email))
+    fields.email = "Enter a valid email.";
+  if (phone && (!PHONE_RE.test(phone) || phone.length > LIMITS.phoneMax))
+    fields.phone = "Enter a valid phone number (digits, +, -, () allowed).";
+  if (notes.length > LIMITS.messageMax)
+    fields.notes = `Please keep your notes under ${LIMITS.messageMax} characters.`;
+
+  if (Object.keys(fields).length) return { ok: false, fields };
+
+  return {
+    ok: true,
+    data: {
+      consultation,
+      advisor,
+      start: new Date(start).toISOString(),
+      name,
+      email,
+      phone: phone || undefined,
+      notes: notes || undefined,
+      timezone:
+        timezone.length <= 64 && isTimeZone(timezone) ? timezone : undefined,
+      context: sanitizeLeadContext(body.context),
+    },
+  };
+}
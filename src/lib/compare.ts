@@ -0,0 +1,415 @@
+// src/lib/compare.ts
+// Cross-vertical program comparison: parses `/compare?items=` refs, loads full
+// frontmatter from each vertical and aligns it into a side-by-side matrix.
+import "server-only";
+
+import type { Vertical } from "@/lib/content/types";
+import type { AnyCountryMeta, AnyProgramMeta } from "@/lib/content/schema";
+import { PROGRAM_LOADERS as LOADERS, VERTICALS } from "@/lib/content/programs";
+import {
+  convertAmount,
+  formatMoney,
+  toCurrencyCode,
+  type CurrencyCode,
+} from "@/lib/currency";
+import {
+  describeHousehold,
+  describeRule,
+  estimateFees,
+  hasRule,
+  makeHousehold,
+  type FeeRow,
+} from "@/lib/fees";
+
+export const MAX_COMPARE_ITEMS = 4;
+
+/* =========================
+ * Refs & URLs
+ * =======================*/
+export type CompareRef = {
+  vertical: Vertical;
+  countrySlug: string;
+  programSlug: string;
+};
+
+const SLUG = /^[a-z0-9][a-z0-9-]*$/i;
+
+export const refId = (r: CompareRef) =>
+  `${r.vertical}/${r.countrySlug}/${r.programSlug}`;
+
+/** `citizenship/grenada/ntf,residency/greece/goldenvisa` → refs (deduped, capped) */
+export function parseCompareItems(raw?: string | string[]): CompareRef[] {
+  const parts = (Array.isArray(raw) ? raw.join(",") : (raw ?? ""))
+    .split(",")
+    .map((s) => s.trim().replace(/^\/+|\/+$/g, ""))
+    .filter(Boolean);
+
+  const seen = new Set<string>();
+  const out: CompareRef[] = [];
+  for (const part of parts) {
+    const [vertical, countrySlug, programSlug, ...rest] = part.split("/");
+    if (rest.length || !VERTICALS.includes(vertical as Vertical)) continue;
+    if (!SLUG.test(countrySlug ?? "") || !SLUG.test(programSlug ?? ""))
+      continue;
+    const ref = { vertical: vertical as Vertical, countrySlug, programSlug };
+    const id = refId(ref);
+    if (seen.has(id)) continue;
+    seen.add(id);
+    out.push(ref);
+    if (out.length === MAX_COMPARE_ITEMS) break;
+  }
+  return out;
+}
+
+export function compareHref(refs: CompareRef[], currency?: CurrencyCode) {
+  const params = new URLSearchParams();
+  if (refs.length) params.set("items", refs.map(refId).join(","));
+  if (currency) params.set("currency", currency);
+  const qs = params.toString().replace(/%2F/g, "/").replace(/%2C/g, ",");
+  return qs ? `/compare?${qs}` : "/compare";
+}
+
+/* =========================
+ * Loading
+ * =======================*/
+export type ComparedProgram = {
+  id: string;
+  ref: CompareRef;
+  title: string;
+  country: string;
+  href: string;
+  heroImage?: string;
+  meta: AnyProgramMeta;
+  countryMeta?: AnyCountryMeta;
+};
+
+export function loadComparedPrograms(refs: CompareRef[]) {
+  const programs: ComparedProgram[] = [];
+  const missing: string[] = [];
+
+  for (const ref of refs) {
+    const { programs: list, countries } = LOADERS[ref.vertical];
+    const meta = list(ref.countrySlug).find(
+      (p) => p.programSlug === ref.programSlug,
+    );
+    if (!meta) {
+      missing.push(refId(ref));
+      continue;
+    }
+    const countryMeta = countries().find(
+      (c) => c.countrySlug === ref.countrySlug,
+    );
+    programs.push({
+      id: refId(ref),
+      ref,
+      title: meta.title,
+      country: meta.country || countryMeta?.country || ref.countrySlug,
+      href: `/${refId(ref)}`,
+      heroImage: meta.heroImage,
+      meta,
+      countryMeta,
+    });
+  }
+  return { programs, missing };
+}
+
+/** Every published program, for the "add a program" picker. */
+export function listComparablePrograms() {
+  return VERTICALS.flatMap((vertical) =>
+    LOADERS[vertical].programs().map((p) => ({
+      id: `${vertical}/${p.countrySlug}/${p.programSlug}`,
+      vertical,
+      label: `${p.country} — ${p.title}`,
+    })),
+  );
+}
+
+/* =========================
+ * Matrix
+ * =======================*/
+export type CompareCell = {
+  text: string;
+  /** Original figure when the value was converted */
+  sub?: string;
+  /** Numeric value used for best/worst ranking */
+  value?: number;
+  tone?: "best" | "worst";
+};
+
+export type CompareRow = {
+  key: string;
+  label: string;
+  group: string;
+  better?: "lower" | "higher";
+  cells: CompareCell[];
+};
+
+const EMPTY: CompareCell = { text: "—" };
+
+const programCurrency = (p: ComparedProgram) => toCurrencyCode(p.meta.currency);
+
+function money(
+  amount: number | undefined,
+  from: CurrencyCode,
+  to: CurrencyCode,
+): CompareCell {
+  if (typeof amount !== "number" || !Number.isFinite(amount)) return EMPTY;
+  const value = convertAmount(amount, from, to);
+  return {
+    text: formatMoney(value, to),
+    sub: from !== to ? formatMoney(amount, from) : undefined,
+    value,
+  };
+}
+
+const months = (n?: number): CompareCell =>
+  typeof n === "number" && n > 0 ? { text: `${n} mo`, value: n } : EMPTY;
+
+const yesNo = (b?: boolean): CompareCell =>
+  typeof b === "boolean" ? { text: b ? "Yes" : "No", value: b ? 1 : 0 } : EMPTY;
+
+const labelKey = (s: string) =>
+  s
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+
+/**
+ * Household the price and fee totals are worked out for, so per-person and
+ * beyond-N rows count the same way in every column. The page states it.
+ */
+export const COMPARE_HOUSEHOLD = makeHousehold({
+  adults: 2,
+  childAges: [8, 14],
+});
+
+/** One listed row, converted; its rule (per person, beyond N…) underneath */
+function feeRowCell(
+  f: FeeRow,
+  p: ComparedProgram,
+  to: CurrencyCode,
+): CompareCell {
+  const cell = money(
+    f.amount,
+    toCurrencyCode(f.currency, programCurrency(p)),
+    to,
+  );
+  if (cell === EMPTY) return f.notes ? { text: f.notes } : EMPTY;
+  if (!hasRule(f)) return cell;
+  return {
+    ...cell,
+    sub: [describeRule(f), cell.sub].filter(Boolean).join(" · "),
+  };
+}
+
+/** One-off total of `rows` for COMPARE_HOUSEHOLD; yearly charges underneath */
+function totalCell(
+  rows: FeeRow[] | undefined,
+  p: ComparedProgram,
+  to: CurrencyCode,
+): CompareCell {
+  const priced = (rows ?? [])
+    .filter((r) => typeof r.amount === "number")
+    // Rows without a currency are in the program's, not the display one
+    .map((r) => ({ ...r, currency: r.currency ?? programCurrency(p) }));
+  if (!priced.length) return EMPTY;
+  const { oneOff, annual } = estimateFees(priced, COMPARE_HOUSEHOLD, {
+    currency: to,
+  });
+  return {
+    text: formatMoney(oneOff, to),
+    sub: annual ? `+ ${formatMoney(annual, to)} per year` : undefined,
+    value: oneOff,
+  };
+}
+
+function familyOf(p: ComparedProgram) {
+  const fromCountry = (p.countryMeta as { dependents?: object } | undefined)
+    ?.dependents as
+    | { childrenUpTo?: number; parentsFromAge?: number; siblings?: boolean }
+    | undefined;
+  return { ...fromCountry, ...p.meta.familyMatrix };
+}
+
+function rank(row: CompareRow): CompareRow {
+  if (!row.better) return row;
+  const values = row.cells
+    .map((c) => c.value)
+    .filter((v): v is number => typeof v === "number");
+  if (values.length < 2) return row;
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  if (min === max) return row;
+  const best = row.better === "lower" ? min : max;
+  const worst = row.better === "lower" ? max : min;
+  return {
+    ...row,
+    cells: row.cells.map((c) =>
+      c.value === best
+        ? { ...c, tone: "best" }
+        : c.value === worst
+          ? { ...c, tone: "worst" }
+          : c,
+    ),
+  };
+}
+
+/** Align programs into rows; amounts are converted into `currency`. */
+export function buildCompareMatrix(
+  programs: ComparedProgram[],
+  currency: CurrencyCode,
+): CompareRow[] {
+  const rows: CompareRow[] = [];
+  const add = (
+    key: string,
+    label: string,
+    group: string,
+    cell: (p: ComparedProgram) => CompareCell,
+    better?: CompareRow["better"],
+  ) => rows.push({ key, label, group, better, cells: programs.map(cell) });
+
+  /* Overview */
+  add("vertical", "Pathway", "Overview", (p) => ({
+    text: p.ref.vertical[0].toUpperCase() + p.ref.vertical.slice(1),
+  }));
+  add("routeType", "Route type", "Overview", (p) => {
+    const rt = (p.meta as { routeType?: string }).routeType;
+    return rt ? { text: rt.replace(/-/g, " ") } : EMPTY;
+  });
+  add(
+    "minInvestment",
+    "Minimum investment",
+    "Overview",
+    (p) => money(p.meta.minInvestment, programCurrency(p), currency),
+    "lower",
+  );
+  add(
+    "timeline",
+    "Timeline",
+    "Overview",
+    (p) => months(p.meta.timelineMonths),
+    "lower",
+  );
+  add(
+    "holding",
+    "Holding period",
+    "Overview",
+    (p) =>
+      months((p.meta as { holdingPeriodMonths?: number }).holdingPeriodMonths),
+    "lower",
+  );
+  add(
+    "visaFree",
+    "Visa-free destinations",
+    "Overview",
+    (p) => {
+      const n = (p.countryMeta as { visaFreeCount?: number } | undefined)
+        ?.visaFreeCount;
+      return typeof n === "number" ? { text: String(n), value: n } : EMPTY;
+    },
+    "higher",
+  );
+
+  /* Prices and government fees — totals, then rows aligned by label */
+  const household = describeHousehold(COMPARE_HOUSEHOLD);
+  const feeTable = (
+    key: string,
+    group: string,
+    rowsOf: (p: ComparedProgram) => FeeRow[] | undefined,
+  ) => {
+    const labels = new Map<string, string>();
+    for (const p of programs) {
+      for (const f of rowsOf(p) ?? []) {
+        if (!f?.label) continue;
+        const k = labelKey(f.label);
+        if (!labels.has(k)) labels.set(k, f.label);
+      }
+    }
+    add(
+      `${key}:total`,
+      `Total for ${household}`,
+      group,
+      (p) => totalCell(rowsOf(p), p, currency),
+      "lower",
+    );
+    for (const [k, label] of labels) {
+      add(
+        `${key}:${k}`,
+        label,
+        group,
+        (p) => {
+          const f = rowsOf(p)?.find((r) => r.label && labelKey(r.label) === k);
+          return f ? feeRowCell(f, p, currency) : EMPTY;
+        },
+        "lower",
+      );
+    }
+  };
+  feeTable("prices", "Prices", (p) => p.meta.prices);
+  feeTable("fees", "Government fees", (p) => p.meta.governmentFees);
+
+  /* Proof of funds */
+  add(
+    "proofOfFunds",
+    "Proof of funds (from)",
+    "Proof of funds",
+    (p) => {
+      const rows = (p.meta.proofOfFunds ?? []).filter(
+        (r) => typeof r.amount === "number" && r.amount > 0,
+      );
+      if (!rows.length) return EMPTY;
+      const cells = rows.map((r) =>
+        money(
+          r.amount,
+          toCurrencyCode(r.currency, programCurrency(p)),
+          currency,
+        ),
+      );
+      return cells.reduce((a, b) => ((b.value ?? 0) < (a.value ?? 0) ? b : a));
+    },
+    "lower",
+  );
+
+  /* Dependents */
+  add(
+    "spouse",
+    "Spouse",
+    "Dependents",
+    (p) => yesNo(familyOf(p).spouse),
+    "higher",
+  );
+  add(
+    "children",
+    "Children up to",
+    "Dependents",
+    (p) => {
+      const n = familyOf(p).childrenUpTo;
+      return typeof n === "number" && n > 0
+        ? { text: `${n} yrs`, value: n }
+        : EMPTY;
+    },
+    "higher",
+  );
+  add(
+    "parents",
+    "Parents from age",
+    "Dependents",
+    (p) => {
+      const n = familyOf(p).parentsFromAge;
+      if (typeof n !== "number") return EMPTY;
+      // 0 is used in content for "parents not included"
+      return n > 0 ? { text: `${n}+`, value: n } : { text: "Not included" };
+    },
+    "lower",
+  );
+  add(
+    "siblings",
+    "Siblings",
+    "Dependents",
+    (p) => yesNo(familyOf(p).siblings),
+    "higher",
+  );
+
+  // Drop rows where no program has data
+  return rows.filter((r) => r.cells.some((c) => c !== EMPTY)).map(rank);
+}
@@ -0,0 +1,159 @@
+// src/lib/content/changes.ts
+// Isomorphic: what changed between two revisions of a program's frontmatter
+// (headline numbers and fee tables), plus merging with the hand-written
+// `changelog`, for the "What changed" timeline on program pages.
+import { formatMoney } from "@/lib/currency";
+import type { ChangelogEntry } from "./schema";
+
+export type TrackedField =
+  "minInvestment" | "timelineMonths" | "prices" | "governmentFees";
+
+export const TRACKED_FIELDS: Record<TrackedField, string> = {
+  minInvestment: "Minimum investment",
+  timelineMonths: "Processing time",
+  prices: "Costs",
+  governmentFees: "Government fees",
+};
+
+export type FieldChange = {
+  field: TrackedField;
+  /** Fee-table row label, or the field's own label */
+  label: string;
+  kind: "added" | "removed" | "changed";
+  before?: string;
+  after?: string;
+};
+
+export type ProgramChange = {
+  date: string; // YYYY-MM-DD
+  summary?: string;
+  sourceUrl?: string;
+  changes: FieldChange[];
+};
+
+/** Raw frontmatter of one revision (values not yet normalized) */
+type Revision = Record<string, unknown>;
+
+const num = (v: unknown) => {
+  if (v === undefined || v === null || v === "") return undefined;
+  const n = Number(v);
+  return Number.isFinite(n) ? n : undefined;
+};
+
+const money = (amount: unknown, currency: unknown) => {
+  const n = num(amount);
+  return n === undefined
+    ? undefined
+    : formatMoney(n, typeof currency === "string" ? currency : "USD");
+};
+
+const months = (v: unknown) => {
+  const n = num(v);
+  return n === undefined ? undefined : `${n} month${n === 1 ? "" : "s"}`;
+};
+
+function change(
+  field: TrackedField,
+  label: string,
+  before?: string,
+  after?: string,
+): FieldChange {
+  const kind =
+    before === undefined
+      ? "added"
+      : after === undefined
+        ? "removed"
+        : "changed";
+  return { field, label, kind, before, after };
+}
+
+/** Fee rows matched by label; only amount/currency changes count. */
+function diffRows(
+  field: "prices" | "governmentFees",
+  a: Revision,
+  b: Revision,
+) {
+  const rows = (rev: Revision) => {
+    const list = Array.isArray(rev[field]) ? (rev[field] as Revision[]) : [];
+    const map = new Map<string, { label: string; value?: string }>();
+    for (const row of list) {
+      const label = typeof row?.label === "string" ? row.label.trim() : "";
+      if (!label) continue;
+      map.set(label.toLowerCase(), {
+        label,
+        value: money(row.amount, row.currency ?? rev.currency),
+      });
+    }
+    return map;
+  };
+
+  const before = rows(a);
+  const after = rows(b);
+  const out: FieldChange[] = [];
+  for (const [key, row] of after) {
+    const old = before.get(key);
+    if (!old)
+      out.push({ field, label: row.label, kind: "added", after: row.value });
+    else if (old.value !== row.value)
+      out.push(change(field, row.label, old.value, row.value));
+  }
+  for (const [key, row] of before)
+    if (!after.has(key))
+      out.push({ field, label: row.label, kind: "removed", before: row.value });
+  return out;
+}
+
+/** Tracked-field differences from revision `a` to revision `b`. */
+export function diffProgramFields(a: Revision, b: Revision): FieldChange[] {
+  const out: FieldChange[] = [];
+
+  const invA = money(a.minInvestment, a.currency);
+  const invB = money(b.minInvestment, b.currency);
+  if (invA !== invB)
+    out.push(change("minInvestment", TRACKED_FIELDS.minInvestment, invA, invB));
+
+  const timeA = months(a.timelineMonths);
+  const timeB = months(b.timelineMonths);
+  if (timeA !== timeB)
+    out.push(
+      change("timelineMonths", TRACKED_FIELDS.timelineMonths, timeA, timeB),
+    );
+
+  out.push(...diffRows("prices", a, b), ...diffRows("governmentFees", a, b));
+  return out;
+}
+
+/** YAML dates arrive as Date objects; anything unparseable → undefined */
+export function toDay(v: unknown): string | undefined {
+  if (!(v instanceof Date) && typeof v !== "string") return undefined;
+  const d = new Date(v);
+  return Number.isNaN(d.getTime()) ? undefined : d.toISOString().slice(0, 10);
+}
+
+/**
+ * Hand-written entries first: one dated the same day as a derived entry
+ * lends it its summary and source. Newest first.
+ */
+export function mergeHistory(
+  changelog: ChangelogEntry[] | undefined,
+  derived: ProgramChange[],
+): ProgramChange[] {
+  const byDay = new Map(derived.map((d) => [d.date, d]));
+  const out: ProgramChange[] = [];
+
+  for (const e of Array.isArray(changelog) ? changelog : []) {
+    const date = toDay(e?.date);
+    if (!date || typeof e.summary !== "string") continue;
+    const match = byDay.get(date);
+    byDay.delete(date);
+    out.push({
+      date,
+      summary: e.summary,
+      sourceUrl: e.sourceUrl,
+      changes: match?.changes ?? [],
+    });
+  }
+  out.push(...byDay.values());
+
+  return out.sort((x, y) => y.date.localeCompare(x.date));
+}
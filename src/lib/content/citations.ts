@@ -0,0 +1,57 @@
+// src/lib/content/citations.ts
+// Isomorphic: per-fact sources. Frontmatter declares `sources` once (id,
+// title, url, publisher, retrieved); fee rows cite them with `cite: [id]` and
+// requirements / risk / compliance notes with a trailing `[^id]` marker.
+// Each block numbers the sources it cites in order of first use, footnote
+// style. scripts/content-schema.mjs rejects ids that aren't declared.
+import type { SourceRef } from "./schema";
+
+/** `[^id]` footnote markers inside list-item text */
+export const CITE_MARKER = /\s*\[\^([\w.-]+)\]/g;
+
+export type Footnote = SourceRef & { n: number };
+
+/** "Clean record [^act]" → { text: "Clean record", ids: ["act"] } */
+export function splitCitations(text: string) {
+  const ids = [...text.matchAll(CITE_MARKER)].map((m) => m[1]);
+  return { text: ids.length ? text.replace(CITE_MARKER, "") : text, ids };
+}
+
+/**
+ * Numbers the declared sources a block cites, in order of first citation.
+ * `refs(ids)` gives a fact's footnote numbers; `notes` lists what to print
+ * below the block. Unknown ids are dropped (the validator reports them).
+ */
+export function numberFootnotes(
+  sources: SourceRef[] | undefined,
+  cited: (string[] | undefined)[],
+) {
+  const byId = new Map((sources ?? []).map((s) => [s.id, s]));
+  const numbers = new Map<string, number>();
+  const notes: Footnote[] = [];
+  for (const ids of cited)
+    for (const id of ids ?? []) {
+      const source = byId.get(id);
+      if (!source || numbers.has(id)) continue;
+      numbers.set(id, notes.length + 1);
+      notes.push({ ...source, n: notes.length + 1 });
+    }
+
+  const refs = (ids?: string[]) =>
+    [...new Set(ids ?? [])]
+      .map((id) => numbers.get(id))
+      .filter((n): n is number => n !== undefined);
+  return { refs, notes };
+}
+
+/** schema.org `citation` entries for a page's JSON-LD */
+export function citationLd(sources: SourceRef[] | undefined) {
+  return (sources ?? []).map((s) => ({
+    "@type": "CreativeWork",
+    name: s.title,
+    url: s.url,
+    publisher: s.publisher
+      ? { "@type": "Organization", name: s.publisher }
+      : undefined,
+  }));
+}
@@ -0,0 +1,109 @@
+// src/lib/content/files.ts
+// Per-file cache of parsed MDX under /content. A file is re-read only when its
+// mtime or size changes, and re-parsed only when its content hash does too, so
+// a cold request after an edit costs one parse rather than a tree scan.
+// Directory listings are cached against the directory's own mtime, which
+// moves when entries are added, removed or renamed.
+import "server-only";
+import crypto from "node:crypto";
+import fs from "node:fs";
+import path from "node:path";
+import matter from "gray-matter";
+
+export type ContentFile = {
+  data: Record<string, unknown>;
+  content: string;
+  /** sha1 of the raw file, for caches keyed by content */
+  hash: string;
+};
+
+type FileEntry = ContentFile & { mtimeMs: number; size: number };
+type DirEntry = { mtimeMs: number; dirs: string[]; files: string[] };
+
+// On globalThis so the dev content watcher, loaded as a separate module
+// instance, clears the same cache the routes read.
+const _g = globalThis as any;
+_g.__CONTENT_FILES__ ??= {
+  files: new Map<string, FileEntry>(),
+  dirs: new Map<string, DirEntry>(),
+};
+const CACHE: {
+  files: Map<string, FileEntry>;
+  dirs: Map<string, DirEntry>;
+} = _g.__CONTENT_FILES__;
+
+const statOf = (p: string) => {
+  try {
+    return fs.statSync(p);
+  } catch {
+    return null;
+  }
+};
+
+export const exists = (p: string) => statOf(p) !== null;
+
+/** Frontmatter and body of an MDX file; throws if it can't be read */
+export function readContentFile(file: string): ContentFile {
+  const stat = fs.statSync(file);
+  const hit = CACHE.files.get(file);
+  if (hit && hit.mtimeMs === stat.mtimeMs && hit.size === stat.size) return hit;
+
+  const raw = fs.readFileSync(file, "utf8");
+  const hash = crypto.createHash("sha1").update(raw).digest("hex");
+  // Touched but unchanged (checkout, copy): keep the parse
+  const parsed = hit?.hash === hash ? hit : { ...matter(raw), hash };
+  const entry: FileEntry = {
+    data: parsed.data,
+    content: parsed.content,
+    hash,
+    mtimeMs: stat.mtimeMs,
+    size: stat.size,
+  };
+  CACHE.files.set(file, entry);
+  return entry;
+}
+
+/** Sub-directories and files of `dir` (names, sorted); empty if missing */
+export function listDir(dir: string): { dirs: string[]; files: string[] } {
+  const stat = statOf(dir);
+  if (!stat?.isDirectory()) return { dirs: [], files: [] };
+  const hit = CACHE.dirs.get(dir);
+  if (hit && hit.mtimeMs === stat.mtimeMs) return hit;
+
+  const entries = fs.readdirSync(dir, { withFileTypes: true });
+  const entry: DirEntry = {
+    mtimeMs: stat.mtimeMs,
+    dirs: entries
+      .filter((e) => e.isDirectory())
+      .map((e) => e.name)
+      .sort(),
+    files: entries
+      .filter((e) => e.isFile())
+      .map((e) => e.name)
+      .sort(),
+  };
+  CACHE.dirs.set(dir, entry);
+  return entry;
+}
+
+/** Every file under `dir`, recursively (absolute paths) */
+export function walkDir(dir: string): string[] {
+  const { dirs, files } = listDir(dir);
+  return [
+    ...files.map((f) => path.join(dir, f)),
+    ...dirs.flatMap((d) => walkDir(path.join(dir, d))),
+  ];
+}
+
+/**
+ * Dev helper: forget cached files and listings under `dir` (all by default).
+ * Stat checks already catch edits; this covers filesystems with coarse mtimes.
+ */
+export function invalidateContentFiles(dir?: string) {
+  const under = (p: string) =>
+    !dir || p === dir || p.startsWith(dir + path.sep);
+  for (const key of [...CACHE.files.keys()])
+    if (under(key)) CACHE.files.delete(key);
+  for (const key of [...CACHE.dirs.keys()])
+    if (under(key)) CACHE.dirs.delete(key);
+}
@@ -0,0 +1,14 @@
+// src/lib/content/freshness.ts
+// Isomorphic, typed entry to the review policy in scripts/content-freshness.mjs.
+// `npm run content:freshness` reads the same module, so the badge on a page
+// and the report always agree on what is overdue.
+import { freshnessOf } from "../../../scripts/content-freshness.mjs";
+
+export {
+  DUE_SOON_DAYS,
+  FRESHNESS_POLICY,
+  freshnessOf,
+} from "../../../scripts/content-freshness.mjs";
+
+export type Freshness = ReturnType<typeof freshnessOf>;
+export type FreshnessStatus = Freshness["status"];
@@ -0,0 +1,73 @@
+// src/lib/content/history.ts
+// Per-program change log for the "What changed" section: the `changelog`
+// frontmatter merged with tracked-field diffs between git revisions of the
+// program's MDX file. The revisions are read from git at build time by
+// scripts/build-program-history.mjs into public/program-history.json, so
+// rendering never waits on git; without that file only hand-written entries
+// show.
+import "server-only";
+import fs from "node:fs";
+import path from "node:path";
+import type { ChangelogEntry, Vertical } from "./schema";
+import { diffProgramFields, mergeHistory, type ProgramChange } from "./changes";
+
+const MAX_ENTRIES = 12;
+const HISTORY_FILE = path.join(process.cwd(), "public", "program-history.json");
+
+type Snapshot = { date: string; data: Record<string, unknown> };
+type HistoryFile = { version: number; programs: Record<string, Snapshot[]> };
+
+/* =========================
+ * Cache (keyed by the history file's mtime)
+ * =======================*/
+type Cached = { mtimeMs: number; changes: Map<string, ProgramChange[]> };
+const _g = globalThis as any;
+const cached = (): Cached | undefined => _g.__PROGRAM_HISTORY__;
+
+/** Diff consecutive daily snapshots into dated field changes. */
+function toChanges(snapshots: Snapshot[]): ProgramChange[] {
+  const out: ProgramChange[] = [];
+  for (let i = 1; i < snapshots.length; i++) {
+    const changes = diffProgramFields(snapshots[i - 1].data, snapshots[i].data);
+    if (changes.length) out.push({ date: snapshots[i].date, changes });
+  }
+  return out;
+}
+
+function loadChanges(): Map<string, ProgramChange[]> {
+  let mtimeMs: number;
+  try {
+    mtimeMs = fs.statSync(HISTORY_FILE).mtimeMs;
+  } catch {
+    return new Map(); // not built yet
+  }
+  const hit = cached();
+  if (hit && hit.mtimeMs === mtimeMs) return hit.changes;
+
+  const changes = new Map<string, ProgramChange[]>();
+  try {
+    const file = JSON.parse(
+      fs.readFileSync(HISTORY_FILE, "utf8"),
+    ) as HistoryFile;
+    for (const [key, snapshots] of Object.entries(file.programs ?? {}))
+      changes.set(key, toChanges(snapshots));
+  } catch (e) {
+    console.error("[history] unreadable program history", e);
+  }
+  _g.__PROGRAM_HISTORY__ = { mtimeMs, changes } satisfies Cached;
+  return changes;
+}
+
+/* =========================
+ * Public
+ * =======================*/
+export function getProgramHistory(
+  vertical: Vertical,
+  countrySlug: string,
+  programSlug: string,
+  changelog?: ChangelogEntry[],
+): ProgramChange[] {
+  const key = `${vertical}/${countrySlug}/${programSlug}`;
+  const changes = loadChanges().get(key) ?? [];
+  return mergeHistory(changelog, changes).slice(0, MAX_ENTRIES);
+}
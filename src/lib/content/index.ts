@@ -1,20 +1,12 @@
 import "server-only";
-import fs from "node:fs";
 import path from "node:path";
-import matter from "gray-matter";
 import { AnyDoc, HubDoc, ProgramDoc, Vertical } from "./types";
+import { readContentFile, walkDir } from "./files";
+import { isSourceFile } from "@/lib/i18n/config";
 
 const CONTENT_DIR = path.join(process.cwd(), "content");
 const HUB_DIRS = new Set(["blog", "news", "articles"]);
 
-const walk = (dir: string): string[] =>
-  fs.readdirSync(dir).flatMap((name) => {
-    const full = path.join(dir, name);
-    const stat = fs.statSync(full);
-    if (stat.isDirectory()) return walk(full);
-    return full.endsWith(".mdx") ? [full] : [];
-  });
-
 const toUrl = (file: string): string => {
   const rel = path.relative(CONTENT_DIR, file).replace(/\\/g, "/");
   const segs = rel.split("/");
@@ -30,15 +22,19 @@ const toUrl = (file: string): string => {
 };
 
 export function loadAllContent(): AnyDoc[] {
-  if (!fs.existsSync(CONTENT_DIR)) return [];
-  const files = walk(CONTENT_DIR);
+  // Unchanged files come from the file cache: a rebuild re-parses only edits
+  const files = walkDir(CONTENT_DIR).filter((f) =>
+    isSourceFile(path.basename(f)),
+  );
   const out: AnyDoc[] = [];
 
   for (const file of files) {
     const rel = path.relative(CONTENT_DIR, file).replace(/\\/g, "/");
     const [a, b, c] = rel.split("/");
-    const raw = fs.readFileSync(file, "utf8");
-    const { data, content } = matter(raw);
+    const { data, content } = readContentFile(file) as {
+      data: Record<string, any>;
+      content: string;
+    };
 
     if (HUB_DIRS.has(a)) {
       out.push({
@@ -108,11 +104,13 @@ export function loadAllContent(): AnyDoc[] {
   return out;
 }
 
-let _cache: AnyDoc[] | null = null;
+// On globalThis so the dev content watcher, loaded as a separate module
+// instance, clears the same cache the routes read.
+const _g = globalThis as any;
 export function getAllContentCached(): AnyDoc[] {
-  if (!_cache) _cache = loadAllContent();
-  return _cache;
+  if (!_g.__CONTENT_CACHE__) _g.__CONTENT_CACHE__ = loadAllContent();
+  return _g.__CONTENT_CACHE__ as AnyDoc[];
 }
 export function invalidateContentCache() {
-  _cache = null;
+  _g.__CONTENT_CACHE__ = undefined;
 }
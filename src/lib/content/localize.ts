@@ -0,0 +1,82 @@
+// src/lib/content/localize.ts
+// Translated MDX: `real-estate.ar.mdx` beside `real-estate.mdx` overrides,
+// field by field, whatever it sets; everything else (fees, dates, numbers it
+// leaves out) comes from the English file. A non-blank body replaces the
+// English body whole. See scripts/locales.mjs for the file naming.
+import "server-only";
+import path from "node:path";
+import type { Vertical } from "./schema";
+import { exists, readContentFile } from "./files";
+import {
+  DEFAULT_LOCALE,
+  PREFIXED_LOCALES,
+  type Locale,
+} from "@/lib/i18n/config";
+
+type Data = Record<string, unknown>;
+
+const isPlainObject = (v: unknown): v is Data =>
+  !!v && typeof v === "object" && !Array.isArray(v) && !(v instanceof Date);
+
+/**
+ * Objects merge key by key. Lists of the same length merge item by item, so
+ * a translation can restate only the labels of a fee table; a list of a
+ * different length replaces the English one.
+ */
+export function mergeTranslation(base: unknown, over: unknown): unknown {
+  if (over === undefined || over === null) return base;
+  if (isPlainObject(base) && isPlainObject(over)) {
+    const out: Data = { ...base };
+    for (const [k, v] of Object.entries(over))
+      out[k] = mergeTranslation(base[k], v);
+    return out;
+  }
+  if (Array.isArray(base) && Array.isArray(over) && base.length === over.length)
+    return base.map((b, i) => mergeTranslation(b, over[i]));
+  return over;
+}
+
+/** "…/real-estate.mdx" → "…/real-estate.ar.mdx" */
+export const translationFile = (file: string, locale: Locale) =>
+  file.replace(/\.mdx$/, `.${locale}.mdx`);
+
+/**
+ * Frontmatter and body of an English MDX file as seen in `locale`. Without
+ * a translation file this is just the English file.
+ */
+export function readLocalized(
+  file: string,
+  locale: Locale = DEFAULT_LOCALE,
+): { data: Data; content: string; translated: boolean } {
+  const base = readContentFile(file);
+  const tfile = translationFile(file, locale);
+  if (locale === DEFAULT_LOCALE || !exists(tfile))
+    return { data: base.data, content: base.content, translated: false };
+
+  const tr = readContentFile(tfile);
+  return {
+    data: mergeTranslation(base.data, tr.data) as Data,
+    content: tr.content.trim() ? tr.content : base.content,
+    translated: true,
+  };
+}
+
+/** Locales an English MDX file has been translated into */
+export const translatedLocales = (file: string): Locale[] =>
+  PREFIXED_LOCALES.filter((l) => exists(translationFile(file, l)));
+
+/** Locales a country hub (no `programSlug`) or program page is translated into */
+export const pageTranslations = (
+  vertical: Vertical,
+  countrySlug: string,
+  programSlug = "_country",
+) =>
+  translatedLocales(
+    path.join(
+      process.cwd(),
+      "content",
+      vertical,
+      countrySlug,
+      `${programSlug}.mdx`,
+    ),
+  );
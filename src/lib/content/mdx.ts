@@ -0,0 +1,120 @@
+// src/lib/content/mdx.ts
+// MDX compilation for vertical pages: one set of plugins and components, and
+// a cache of compiled output keyed by the source's hash, so an unchanged body
+// (or section of one) is compiled once however many pages and locales use it.
+import "server-only";
+import crypto from "node:crypto";
+import type { ReactNode } from "react";
+import { compileMDX } from "next-mdx-remote/rsc";
+import remarkGfm from "remark-gfm";
+import rehypeSlug from "rehype-slug";
+import rehypeAutolinkHeadings from "rehype-autolink-headings";
+import mdxComponents from "@/components/MDX/registry";
+import { rehypeFixInvalidLinkChildren } from "@/lib/mdx-plugins";
+
+/** MDX options — NOTE: no `as const` so arrays aren't readonly */
+const baseMdxOptions = {
+  remarkPlugins: [remarkGfm],
+  rehypePlugins: [
+    rehypeSlug,
+    [rehypeAutolinkHeadings, { behavior: "wrap" }],
+    rehypeFixInvalidLinkChildren,
+  ],
+};
+
+// Module scope (not globalThis): a reload of the components in dev must not
+// keep serving output that references the old ones.
+const COMPILED = new Map<string, Promise<ReactNode>>();
+const MAX_COMPILED = 500;
+
+/** Compiled body (frontmatter already stripped) */
+export function compileContent(source: string): Promise<ReactNode> {
+  const key = crypto.createHash("sha1").update(source).digest("hex");
+  const hit = COMPILED.get(key);
+  if (hit) {
+    // Least recently used goes first when the cache is full
+    COMPILED.delete(key);
+    COMPILED.set(key, hit);
+    return hit;
+  }
+
+  const compiled = compileMDX({
+    source,
+    components: mdxComponents,
+    options: { parseFrontmatter: false, mdxOptions: baseMdxOptions as any },
+  }).then((r) => r.content);
+  // A failed compile is reported, not remembered
+  compiled.catch(() => COMPILED.delete(key));
+
+  COMPILED.set(key, compiled);
+  if (COMPILED.size > MAX_COMPILED)
+    COMPILED.delete(COMPILED.keys().next().value as string);
+  return compiled;
+}
+
+/** slugify section titles, e.g. "Why Choose Us?" -> "why-choose-us" */
+function slugify(h: string) {
+  return h
+    .toLowerCase()
+    .replace(/&/g, "and")
+    .replace(/[^\w\s-]/g, "")
+    .trim()
+    .replace(/\s+/g, "-");
+}
+
+/** Split MDX body by top-level `###` headings.
+ *  - Keeps the `<h3>` line in each part so headings still render.
+ *  - `### نظرة عامة {#overview}` sets the key explicitly (translations, whose
+ *    headings don't slugify to the English keys); the `{#…}` isn't rendered.
+ *  - Deduplicates equal headings by suffixing `-2`, `-3`, ...
+ *  - Text before the first heading becomes an "Overview" section.
+ **/
+export function splitByH3(md: string): Record<string, string> {
+  const lines = md.split(/\r?\n/);
+  const out: Record<string, string> = {};
+  let current: string | null = null;
+  let buf: string[] = [];
+  const counts = new Map<string, number>();
+
+  const nextKey = (base: string) => {
+    const n = (counts.get(base) || 0) + 1;
+    counts.set(base, n);
+    return n === 1 ? base : `${base}-${n}`;
+  };
+
+  const flush = () => {
+    if (current) out[current] = buf.join("\n").trim();
+    buf = [];
+  };
+
+  for (const line of lines) {
+    const m = /^###\s+(.+?)(?:\s+\{#([\w-]+)\})?\s*$/.exec(line);
+    if (m) {
+      flush();
+      current = nextKey(m[2] ?? slugify(m[1]));
+      buf.push(m[2] ? `### ${m[1]}` : line);
+    } else {
+      if (!current) {
+        // Blank lines before the first heading don't make an untitled section
+        if (!line.trim()) continue;
+        current = nextKey("overview");
+        buf.push("### Overview");
+      }
+      buf.push(line);
+    }
+  }
+  flush();
+  return out;
+}
+
+/** Each `###` section of a body, compiled */
+export async function compileSections(
+  body: string,
+): Promise<Record<string, ReactNode>> {
+  const entries = await Promise.all(
+    Object.entries(splitByH3(body)).map(
+      async ([key, md]) => [key, await compileContent(md)] as const,
+    ),
+  );
+  return Object.fromEntries(entries);
+}
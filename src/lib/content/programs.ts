@@ -0,0 +1,52 @@
+// src/lib/content/programs.ts
+// One entry point per vertical over the four content loaders, for features
+// that work across verticals (compare, eligibility recommendations).
+import "server-only";
+
+import type { Vertical } from "@/lib/content/types";
+import type { AnyCountryMeta, AnyProgramMeta } from "@/lib/content/schema";
+import {
+  getCitizenshipCountries,
+  getCitizenshipPrograms,
+} from "@/lib/citizenship-content";
+import {
+  getResidencyCountries,
+  getResidencyPrograms,
+} from "@/lib/residency-content";
+import { getSkilledCountries, getSkilledPrograms } from "@/lib/skilled-content";
+import {
+  getCorporateCountries,
+  getCorporatePrograms,
+} from "@/lib/corporate-content";
+
+export const VERTICALS: Vertical[] = [
+  "citizenship",
+  "residency",
+  "skilled",
+  "corporate",
+];
+
+export const isVertical = (v: unknown): v is Vertical =>
+  VERTICALS.includes(v as Vertical);
+
+export const PROGRAM_LOADERS: Record<
+  Vertical,
+  {
+    programs: (countrySlug?: string) => AnyProgramMeta[];
+    countries: () => AnyCountryMeta[];
+  }
+> = {
+  citizenship: {
+    programs: getCitizenshipPrograms,
+    countries: getCitizenshipCountries,
+  },
+  residency: {
+    programs: getResidencyPrograms,
+    countries: getResidencyCountries,
+  },
+  skilled: { programs: getSkilledPrograms, countries: getSkilledCountries },
+  corporate: {
+    programs: getCorporatePrograms,
+    countries: getCorporateCountries,
+  },
+};
@@ -0,0 +1,37 @@
+// src/lib/content/schedule.ts
+// Isomorphic: `publishAt` / `expiresAt` frontmatter for programs and insights.
+// Only "live" items are listed (loaders, sitemap, search index). An expired
+// item either stays reachable with an archived notice (the default) or 404s.
+
+export type ScheduleMeta = {
+  /** ISO date/time; before it the page behaves like a draft */
+  publishAt?: string | Date;
+  /** ISO date/time; from it the page is archived or hidden */
+  expiresAt?: string | Date;
+  /** What expiry does: keep the page with a notice, or remove it */
+  onExpire?: "archive" | "hide";
+  /** Path of the item that replaces this one, linked from the notice */
+  supersededBy?: string;
+};
+
+export type ScheduleState = "scheduled" | "live" | "archived" | "hidden";
+
+const time = (v?: string | Date) => {
+  if (!v) return undefined;
+  const t = new Date(v).getTime();
+  return Number.isNaN(t) ? undefined : t;
+};
+
+export function scheduleState(
+  meta: ScheduleMeta,
+  now: number = Date.now(),
+): ScheduleState {
+  const publish = time(meta.publishAt);
+  if (publish !== undefined && publish > now) return "scheduled";
+  const expires = time(meta.expiresAt);
+  if (expires !== undefined && expires <= now)
+    return meta.onExpire === "hide" ? "hidden" : "archived";
+  return "live";
+}
+
+export const isLive = (meta: ScheduleMeta) => scheduleState(meta) === "live";
@@ -0,0 +1,329 @@
+// src/lib/content/schema.ts
+// Shared frontmatter schema for the four program verticals.
+// Runtime validation of the same shape lives in scripts/content-schema.mjs
+// (`npm run content:validate`) — keep the two in sync when adding fields.
+import type { Vertical } from "./types";
+
+export type { Vertical };
+
+/* =========================
+ * Primitives
+ * =======================*/
+export const CURRENCY_CODES = [
+  "USD",
+  "EUR",
+  "AED",
+  "INR",
+  "CAD",
+  "GBP",
+  "XCD",
+  "CHF",
+  "AUD",
+  "SGD",
+] as const;
+
+export type CurrencyCode = (typeof CURRENCY_CODES)[number];
+
+export type SeoMeta = {
+  title?: string;
+  description?: string;
+  keywords?: string[];
+};
+
+export type FaqItem = { q: string; a: string };
+
+export type Step = { title: string; description?: string };
+
+/** Hand-written `changelog` entry; merged with git-derived field changes */
+export type ChangelogEntry = {
+  date: string; // ISO date
+  summary: string;
+  sourceUrl?: string;
+};
+
+/**
+ * A document backing individual facts, declared once under `sources` and
+ * cited by id: `cite: [id]` on fee rows, a `[^id]` marker at the end of a
+ * requirement or risk/compliance note (see lib/content/citations.ts).
+ */
+export type SourceRef = {
+  id: string;
+  title: string;
+  url?: string;
+  publisher?: string;
+  retrieved?: string; // ISO date the figures were checked against it
+};
+
+/* =========================
+ * Money rows
+ * =======================*/
+
+/** Who a fee is charged for (see src/lib/fees.ts). Defaults to "application". */
+export type FeePer =
+  | "application"
+  | "person"
+  | "adult"
+  | "child"
+  | "spouse"
+  | "parent"
+  | "dependent";
+
+/**
+ * Structured charging rule carried by price / government-fee rows:
+ * `per: person, minAge: 17` is "per person 17+", `per: dependent, beyond: 3`
+ * is "each dependent after the first three". Rows sharing a `choice` key are
+ * alternatives (only one applies).
+ */
+export type FeeRule = {
+  per?: FeePer;
+  minAge?: number;
+  maxAge?: number;
+  beyond?: number;
+  frequency?: "once" | "annual";
+  choice?: string;
+};
+
+export type PriceRow = FeeRule & {
+  label: string;
+  amount?: number;
+  currency?: CurrencyCode;
+  when?: string;
+  notes?: string;
+  cite?: string[];
+};
+
+export type ProofOfFundsRow = {
+  label?: string;
+  amount: number;
+  currency?: CurrencyCode;
+  notes?: string;
+  cite?: string[];
+};
+
+export type GovernmentFeeRow = FeeRule & {
+  label: string;
+  amount?: number;
+  currency?: CurrencyCode;
+  notes?: string;
+  sourceLabel?: string;
+  sourceUrl?: string;
+  cite?: string[];
+};
+
+/* =========================
+ * Interactive blocks
+ * =======================*/
+export type QuickCheckConfig = {
+  title?: string;
+  questions?: {
+    id: string;
+    label: string;
+    desc?: string;
+    type?: "boolean" | "select" | "number" | "text";
+    options?: string[];
+  }[];
+  policy?:
+    { type: "all" } | { type: "any" } | { type: "threshold"; minYes: number };
+  verdict?: {
+    successTitle?: string;
+    successText?: string;
+    cautionTitle?: string;
+    cautionText?: string;
+  };
+  ctas?: {
+    primaryHref?: string;
+    primaryText?: string;
+    secondaryHref?: string;
+    secondaryText?: string;
+  };
+};
+
+export type DocumentChecklistGroup = { group: string; documents: string[] };
+
+export type FamilyMatrixConfig = {
+  childrenUpTo?: number;
+  parentsFromAge?: number;
+  siblings?: boolean;
+  spouse?: boolean;
+};
+
+export type CostEstimatorConfig = {
+  baseOptions: { id: string; label: string; amount: number }[];
+  defaultBaseId?: string;
+  adults?: number;
+  children?: number;
+  addons?: {
+    id: string;
+    label: string;
+    amount?: number;
+    per?: Extract<FeePer, "application" | "adult" | "child" | "person">;
+  }[];
+};
+
+/* =========================
+ * Base shapes (every vertical)
+ * =======================*/
+export type BaseCountryMeta<V extends Vertical = Vertical> = {
+  title: string;
+  category: V;
+  country: string;
+  countrySlug: string;
+  summary?: string;
+  tagline?: string;
+  heroImage?: string;
+  heroVideo?: string;
+  heroPoster?: string;
+  introPoints?: string[];
+  tags?: string[];
+  /** e.g. "Caribbean", "Europe" — programs inherit it (search filters) */
+  region?: string;
+  seo?: SeoMeta;
+  draft?: boolean;
+  sources?: SourceRef[];
+};
+
+export type BaseProgramMeta<V extends Vertical = Vertical> = {
+  title: string;
+  category: V;
+  country: string;
+  countrySlug: string;
+  programSlug: string;
+  tagline?: string;
+  minInvestment?: number;
+  currency?: CurrencyCode;
+  timelineMonths?: number;
+  tags?: string[];
+  benefits?: string[];
+  requirements?: string[];
+  processSteps?: Step[];
+  faq?: FaqItem[];
+  brochure?: string;
+  prices?: PriceRow[];
+  proofOfFunds?: ProofOfFundsRow[];
+  disqualifiers?: string[];
+  quickCheck?: QuickCheckConfig;
+  heroImage?: string;
+  heroVideo?: string;
+  heroPoster?: string;
+  seo?: SeoMeta;
+  draft?: boolean;
+  /** Scheduling (lib/content/schedule.ts): ISO dates, expiry behaviour, replacement path */
+  publishAt?: string;
+  expiresAt?: string;
+  onExpire?: "archive" | "hide";
+  supersededBy?: string;
+
+  /** Optional blocks rendered on program pages when present */
+  governmentFees?: GovernmentFeeRow[];
+  riskNotes?: string[];
+  complianceNotes?: string[];
+  documentChecklist?: DocumentChecklistGroup[];
+  familyMatrix?: FamilyMatrixConfig;
+  costEstimator?: CostEstimatorConfig;
+  lastUpdated?: string; // ISO date
+  changelog?: ChangelogEntry[];
+  sources?: SourceRef[];
+};
+
+/* =========================
+ * Vertical extensions
+ * =======================*/
+export type CitizenshipCountryExtras = {
+  visaFreeCount?: number; // total visa-free/VOA/eTA
+  passportRank?: number; // lower is stronger
+  passportNotes?: string;
+  allowsDualCitizenship?: boolean;
+  interviewRequired?: boolean;
+  residencyRequirement?: string;
+  taxNotes?: string[];
+  dependents?: {
+    childrenUpTo?: number;
+    parentsFromAge?: number;
+    siblings?: boolean;
+  };
+  legalBasis?: string;
+  lastUpdated?: string; // ISO date
+};
+
+export type CitizenshipProgramExtras = {
+  routeType?: "donation" | "real-estate" | "bond" | "naturalisation";
+  holdingPeriodMonths?: number;
+  projectList?: {
+    name: string;
+    minBuyIn: number;
+    holdMonths: number;
+    notes?: string;
+    image?: string;
+  }[];
+};
+
+export type ResidencyProgramExtras = {
+  holdingPeriodMonths?: number;
+  investmentOptions?: {
+    type?: string;
+    label?: string;
+    amount?: number;
+    currency?: CurrencyCode;
+    description?: string;
+  }[];
+};
+
+export type SkilledProgramExtras = {
+  routeType?:
+    "points-tested" | "employer-sponsored" | "state-nominated" | "talent";
+  points?: {
+    max?: number;
+    passMark?: number;
+    gridUrl?: string;
+    /** Points table system id (content/skilled/<country>/_points) */
+    calculator?: string;
+    /** Calculator answers to pre-fill, e.g. { nomination: "190" } */
+    defaults?: Record<string, unknown>;
+    /** Calculator cut-off when the program keeps no _rounds history */
+    latestCutoff?: {
+      score: number;
+      date: string;
+      label?: string;
+      sourceUrl?: string;
+    };
+  };
+  languageMin?: {
+    test?: string;
+    overall?: number;
+    bands?: Partial<
+      Record<"listening" | "reading" | "writing" | "speaking", number>
+    >;
+  };
+  occupationListUrl?: string;
+  occupationCodes?: string[];
+};
+
+export type CorporateCountryExtras = {
+  lastUpdated?: string; // ISO date
+};
+
+/* =========================
+ * Per-vertical resolution
+ * =======================*/
+type CountryExtras = {
+  citizenship: CitizenshipCountryExtras;
+  residency: unknown;
+  skilled: unknown;
+  corporate: CorporateCountryExtras;
+};
+
+type ProgramExtras = {
+  citizenship: CitizenshipProgramExtras;
+  residency: ResidencyProgramExtras;
+  skilled: SkilledProgramExtras;
+  corporate: unknown;
+};
+
+export type CountryMetaFor<V extends Vertical> = BaseCountryMeta<V> &
+  CountryExtras[V];
+
+export type ProgramMetaFor<V extends Vertical> = BaseProgramMeta<V> &
+  ProgramExtras[V];
+
+export type AnyCountryMeta = { [V in Vertical]: CountryMetaFor<V> }[Vertical];
+export type AnyProgramMeta = { [V in Vertical]: ProgramMetaFor<V> }[Vertical];
@@ -0,0 +1,325 @@
+// src/lib/content/vertical.ts
+// One loader for every vertical tree (content/<vertical>/<country>/...).
+// Files come through the per-file cache in ./files and bodies through the
+// compiled-MDX cache in ./mdx, so after an edit only the changed file is
+// re-read, re-normalized and re-compiled. Each vertical supplies its own
+// normalizers; see citizenship-content.ts and friends.
+import "server-only";
+import path from "node:path";
+import type { ReactNode } from "react";
+import type { CountryMetaFor, ProgramMetaFor, Vertical } from "./schema";
+import {
+  exists,
+  invalidateContentFiles,
+  listDir,
+  readContentFile,
+} from "./files";
+import { compileContent, compileSections } from "./mdx";
+import { readLocalized } from "./localize";
+import { isLive } from "./schedule";
+import { DEFAULT_LOCALE, isSourceFile, type Locale } from "@/lib/i18n/config";
+
+/* =========================
+ * Coercion helpers (YAML-safe & defensive)
+ * =======================*/
+export const toTitle = (slug: string) =>
+  slug
+    .split("-")
+    .map((s) => (s ? s.charAt(0).toUpperCase() + s.slice(1) : s))
+    .join(" ");
+
+export const coerceNum = (v: unknown): number | undefined => {
+  if (typeof v === "number" && Number.isFinite(v)) return v;
+  if (typeof v === "string" && v.trim() !== "" && !isNaN(Number(v)))
+    return Number(v);
+  return undefined;
+};
+
+export const coerceBool = (v: unknown): boolean | undefined => {
+  if (typeof v === "boolean") return v;
+  if (typeof v === "string") {
+    const s = v.trim().toLowerCase();
+    if (s === "true") return true;
+    if (s === "false") return false;
+  }
+  return undefined;
+};
+
+/** Lists rendered as text; accidental YAML mappings become "key: value" */
+export function sanitizeStringArray(a?: unknown): string[] | undefined {
+  if (!a) return undefined;
+  if (Array.isArray(a)) {
+    return a
+      .map((v) => {
+        if (typeof v === "string") return v;
+        if (v && typeof v === "object") {
+          const entries = Object.entries(v as Record<string, unknown>).map(
+            ([k, val]) => `${k}: ${String(val)}`,
+          );
+          return entries.join(", ");
+        }
+        return String(v);
+      })
+      .filter(Boolean);
+  }
+  if (typeof a === "string") return [a];
+  return undefined;
+}
+
+export const toAbsolute = (p: string | undefined, fallback: string) => {
+  if (!p) return fallback;
+  // allow absolute local (/...), absolute remote (http/https), or normalize "images/.."
+  if (p.startsWith("/") || /^https?:\/\//i.test(p)) return p;
+  return `/${p.replace(/^\.?\/*/, "")}`;
+};
+
+/** `amount` of each row as a number (`fallback` when it isn't one) */
+const coerceAmounts = (rows: any[], fallback?: number) =>
+  rows.map((row) => ({ ...row, amount: coerceNum(row?.amount) ?? fallback }));
+
+/* =========================
+ * Adapter
+ * =======================*/
+export type VerticalAdapter<V extends Vertical> = {
+  vertical: V;
+  /**
+   * Vertical-specific clean-up of a country's frontmatter. Receives a copy
+   * with slug, names and category already set; nested objects are still
+   * shared with the file cache, so replace them rather than editing them.
+   */
+  country?: (meta: any, countrySlug: string) => void;
+  /** As `country`, for a program (numbers, fees and lists already coerced) */
+  program?: (meta: any, countrySlug: string, programSlug: string) => void;
+};
+
+/** Sections map returned by loadProgramPageSections */
+export type ProgramSections = Record<string, ReactNode>;
+
+type Normalized<T> = { file: string; hash: string; meta: T };
+
+export function createVerticalLoader<V extends Vertical>(
+  adapter: VerticalAdapter<V>,
+) {
+  type CountryMeta = CountryMetaFor<V>;
+  type ProgramMeta = ProgramMetaFor<V>;
+
+  const { vertical } = adapter;
+  const root = path.join(process.cwd(), "content", vertical);
+  const countryFile = (c: string) => path.join(root, c, "_country.mdx");
+  const programFile = (c: string, p: string) => path.join(root, c, `${p}.mdx`);
+
+  /* ---------- Normalizers ---------- */
+  function normalizeCountry(data: Record<string, unknown>, slug: string) {
+    const meta: any = { ...data };
+    const countrySlug = meta.countrySlug || slug;
+    const country = meta.country || meta.title || toTitle(countrySlug);
+    meta.title = String(
+      meta.title ||
+        (typeof country === "string" ? country : toTitle(countrySlug)),
+    );
+    meta.country = String(country);
+    meta.countrySlug = String(countrySlug);
+    meta.category = vertical;
+    adapter.country?.(meta, meta.countrySlug);
+    return meta as CountryMeta;
+  }
+
+  function normalizeProgram(
+    data: Record<string, unknown>,
+    cSlug: string,
+    pSlug: string,
+  ) {
+    const meta: any = { ...data };
+    meta.programSlug = meta.programSlug || pSlug;
+    meta.countrySlug = meta.countrySlug || cSlug;
+    meta.category = vertical;
+
+    if (meta.minInvestment !== undefined)
+      meta.minInvestment = coerceNum(meta.minInvestment);
+    if (meta.timelineMonths !== undefined)
+      meta.timelineMonths = coerceNum(meta.timelineMonths);
+
+    if (Array.isArray(meta.prices)) meta.prices = coerceAmounts(meta.prices);
+    if (Array.isArray(meta.proofOfFunds))
+      meta.proofOfFunds = coerceAmounts(meta.proofOfFunds, 0);
+    if (Array.isArray(meta.governmentFees))
+      meta.governmentFees = coerceAmounts(meta.governmentFees);
+
+    adapter.program?.(meta, cSlug, pSlug);
+    return meta as ProgramMeta;
+  }
+
+  // English frontmatter, normalized once per version of each file
+  const countryMetas = new Map<string, Normalized<CountryMeta>>();
+  const programMetas = new Map<string, Normalized<ProgramMeta>>();
+
+  function cachedMeta<T>(
+    memo: Map<string, Normalized<T>>,
+    file: string,
+    normalize: (data: Record<string, unknown>) => T,
+  ): Normalized<T> {
+    const { data, hash } = readContentFile(file);
+    const hit = memo.get(file);
+    if (hit?.hash === hash) return hit;
+    const entry = { file, hash, meta: normalize(data) };
+    memo.set(file, entry);
+    return entry;
+  }
+
+  // Sorted lists, rebuilt only when one of their files was added, removed
+  // or changed
+  const lists = new Map<string, { key: string; items: unknown[] }>();
+
+  function cachedList<T>(
+    name: string,
+    entries: Normalized<T>[],
+    sort: (a: T, b: T) => number,
+  ): T[] {
+    const key = entries.map((e) => `${e.file}:${e.hash}`).join();
+    const hit = lists.get(name);
+    if (hit?.key === key) return hit.items as T[];
+    const items = entries
+      .map((e) => e.meta)
+      .filter((m: any) => !m.draft)
+      .sort(sort);
+    lists.set(name, { key, items });
+    return items;
+  }
+
+  /* ---------- Lists & slugs ---------- */
+  const countrySlugs = (): string[] => listDir(root).dirs;
+
+  const programSlugs = (countrySlug: string): string[] =>
+    listDir(path.join(root, countrySlug))
+      .files.filter((n) => isSourceFile(n) && n !== "_country.mdx")
+      .map((n) => n.replace(/\.mdx$/, ""));
+
+  function countries(): CountryMeta[] {
+    const entries = countrySlugs()
+      .filter((slug) => exists(countryFile(slug)))
+      .map((slug) =>
+        cachedMeta(countryMetas, countryFile(slug), (data) =>
+          normalizeCountry(data, slug),
+        ),
+      );
+    return cachedList("countries", entries, (a, b) =>
+      a.country.localeCompare(b.country),
+    );
+  }
+
+  function programs(countrySlug?: string): ProgramMeta[] {
+    const entries = (countrySlug ? [countrySlug] : countrySlugs()).flatMap(
+      (c) =>
+        programSlugs(c).map((p) =>
+          cachedMeta(programMetas, programFile(c, p), (data) =>
+            normalizeProgram(data, c, p),
+          ),
+        ),
+    );
+    const sorted = cachedList(
+      `programs:${countrySlug ?? ""}`,
+      entries,
+      (a, b) =>
+        (a.countrySlug + a.title).localeCompare(b.countrySlug + b.title),
+    );
+    // Cached with scheduled/expired items; publishAt/expiresAt apply per call
+    return sorted.filter(isLive);
+  }
+
+  /* ---------- Frontmatter-only ---------- */
+  const programFrontmatter = (countrySlug: string, programSlug: string) =>
+    cachedMeta(programMetas, programFile(countrySlug, programSlug), (data) =>
+      normalizeProgram(data, countrySlug, programSlug),
+    ).meta;
+
+  function countryFrontmatter(
+    countrySlug: string,
+    locale: Locale = DEFAULT_LOCALE,
+  ) {
+    if (locale === DEFAULT_LOCALE)
+      return cachedMeta(countryMetas, countryFile(countrySlug), (data) =>
+        normalizeCountry(data, countrySlug),
+      ).meta;
+    const { data } = readLocalized(countryFile(countrySlug), locale);
+    return normalizeCountry(data, countrySlug);
+  }
+
+  function localizedProgram(
+    countrySlug: string,
+    programSlug: string,
+    locale: Locale,
+  ) {
+    const f = programFile(countrySlug, programSlug);
+    const { data, content } = readLocalized(f, locale);
+    const meta =
+      locale === DEFAULT_LOCALE
+        ? programFrontmatter(countrySlug, programSlug)
+        : normalizeProgram(data, countrySlug, programSlug);
+    return { meta, content };
+  }
+
+  /* ---------- Renderers ---------- */
+  async function loadCountryPage(
+    countrySlug: string,
+    locale: Locale = DEFAULT_LOCALE,
+  ) {
+    const { content: source } = readLocalized(countryFile(countrySlug), locale);
+    const content = await compileContent(source);
+    return { content, meta: countryFrontmatter(countrySlug, locale) };
+  }
+
+  async function loadProgramPage(countrySlug: string, programSlug: string) {
+    const { content: source } = readContentFile(
+      programFile(countrySlug, programSlug),
+    );
+    const content = await compileContent(source);
+    return { content, meta: programFrontmatter(countrySlug, programSlug) };
+  }
+
+  async function loadProgramPageSections(
+    countrySlug: string,
+    programSlug: string,
+    locale: Locale = DEFAULT_LOCALE,
+  ): Promise<{ meta: ProgramMeta; sections: ProgramSections }> {
+    const { meta, content } = localizedProgram(
+      countrySlug,
+      programSlug,
+      locale,
+    );
+    return { meta, sections: await compileSections(content) };
+  }
+
+  /* ---------- Sitemap ---------- */
+  function urls() {
+    const out: { url: string }[] = [{ url: `/${vertical}` }];
+    // Published only: drafts are reachable through preview links alone
+    for (const { countrySlug: c } of countries()) {
+      out.push({ url: `/${vertical}/${c}` });
+      for (const p of programs(c))
+        out.push({ url: `/${vertical}/${c}/${p.programSlug}` });
+    }
+    return out;
+  }
+
+  /* ---------- Dev helper ---------- */
+  function invalidate() {
+    invalidateContentFiles(root);
+    countryMetas.clear();
+    programMetas.clear();
+    lists.clear();
+  }
+
+  return {
+    countrySlugs,
+    countries,
+    programSlugs,
+    programs,
+    loadCountryPage,
+    loadProgramPage,
+    loadProgramPageSections,
+    programFrontmatter,
+    countryFrontmatter,
+    urls,
+    invalidate,
+  };
+}
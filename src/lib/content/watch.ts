@@ -0,0 +1,101 @@
+// src/lib/content/watch.ts
+// Dev only, started from src/instrumentation.ts. Watches /content and, as MDX
+// files are saved, drops the changed files from the content file cache, updates
+// the search index in place and prints frontmatter and MDX component problems
+// in the terminal.
+// Set CONTENT_WATCH=off to disable.
+import "server-only";
+import fs from "node:fs";
+import path from "node:path";
+import { validateFile } from "../../../scripts/content-schema.mjs";
+import { validateBody } from "../../../scripts/mdx-usage.mjs";
+import { createSearchIndex } from "../../../scripts/search-index.mjs";
+import { invalidateContentFiles } from "@/lib/content/files";
+import { invalidateContentCache } from "@/lib/content";
+import { invalidateRelatedContentCache } from "@/lib/getRelatedContent";
+import { invalidateSearchCache } from "@/lib/search/engine";
+
+// Editors often save in several writes (or write + rename)
+const DEBOUNCE_MS = 150;
+const TAG = "[content]";
+
+type SearchIndex = Awaited<ReturnType<typeof createSearchIndex>>;
+
+const _g = globalThis as any;
+
+export function startContentWatcher(repoRoot = process.cwd()) {
+  if (_g.__CONTENT_WATCHER__ || process.env.CONTENT_WATCH === "off") return;
+  const contentDir = path.join(repoRoot, "content");
+  if (!fs.existsSync(contentDir)) return;
+
+  // Parsed once up front; each save then only re-reads the changed files.
+  const index = createSearchIndex(repoRoot);
+  const pending = new Set<string>();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let queue = Promise.resolve();
+
+  const watcher = fs.watch(contentDir, { recursive: true }, (_e, name) => {
+    if (!name?.endsWith(".mdx")) return;
+    pending.add(path.join(contentDir, name));
+    clearTimeout(timer);
+    timer = setTimeout(() => {
+      const files = [...pending].sort();
+      pending.clear();
+      queue = queue.then(() => onChange(files, repoRoot, index));
+    }, DEBOUNCE_MS);
+  });
+  watcher.on("error", (e) => {
+    console.warn(`${TAG} watcher stopped`, e);
+    _g.__CONTENT_WATCHER__ = undefined;
+  });
+  _g.__CONTENT_WATCHER__ = watcher;
+  console.log(`${TAG} watching content/ for changes`);
+}
+
+async function onChange(
+  files: string[],
+  repoRoot: string,
+  index: Promise<SearchIndex>,
+) {
+  const rel = (f: string) =>
+    path.relative(repoRoot, f).split(path.sep).join("/");
+  try {
+    // Only the changed files' directories: the vertical loaders' lists and
+    // compiled pages are keyed by file hash and pick up the rest themselves
+    for (const dir of new Set(files.map((f) => path.dirname(f))))
+      invalidateContentFiles(dir);
+    invalidateContentCache();
+
+    for (const f of files) {
+      if (!fs.existsSync(f)) continue;
+      report(validateFile(f, repoRoot));
+      report(await validateBody(f, repoRoot));
+    }
+
+    const search = await index;
+    const updated = await search.update(files);
+    for (const u of updated)
+      if (u.error)
+        console.error(
+          `${TAG} ${rel(u.file)} not indexed: ${String((u.error as Error)?.message ?? u.error).split("\n")[0]}`,
+        );
+    const docs = await search.write({ quiet: true });
+    invalidateSearchCache();
+    invalidateRelatedContentCache();
+
+    console.log(
+      `${TAG} ${files.map(rel).join(", ")} → caches cleared, search index updated (${docs.length} docs)`,
+    );
+  } catch (e) {
+    console.error(`${TAG} update failed`, e);
+  }
+}
+
+/** Same `level file:line  path  message` lines as `npm run content:validate` */
+function report({ file, issues }: ReturnType<typeof validateFile>) {
+  for (const i of issues) {
+    const line = `${TAG} ${i.level === "error" ? "error  " : "warning"} ${file}:${i.line}  ${i.path ? i.path + "  " : ""}${i.message}`;
+    if (i.level === "error") console.error(line);
+    else console.warn(line);
+  }
+}
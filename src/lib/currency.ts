@@ -0,0 +1,144 @@
+// src/lib/currency.ts
+// Currency helpers shared by server pages and client widgets.
+// Rates (per 1 USD) come from a dated snapshot in currency-rates.json, written
+// by `npm run rates:refresh`. They put programs priced in different currencies
+// on one scale — not for quoting.
+import { CURRENCY_CODES, type CurrencyCode } from "@/lib/content/schema";
+import snapshot from "@/lib/currency-rates.json";
+
+export type { CurrencyCode };
+export type Rates = Record<CurrencyCode, number>;
+
+export type RatesSnapshot = {
+  base: "USD";
+  /** ISO date the rates were taken */
+  asOf: string;
+  /** Provider that produced the snapshot ("reference" = hand-maintained) */
+  source: string;
+  rates: Rates;
+};
+
+/** Validate a snapshot; any missing or non-positive rate rejects the whole file. */
+export function parseRatesSnapshot(raw: unknown): RatesSnapshot | null {
+  const r = raw as Partial<RatesSnapshot> | null;
+  if (!r || r.base !== "USD" || typeof r.asOf !== "string" || !r.rates)
+    return null;
+  if (Number.isNaN(Date.parse(r.asOf))) return null;
+  for (const c of CURRENCY_CODES) {
+    const v = r.rates[c];
+    if (typeof v !== "number" || !Number.isFinite(v) || v <= 0) return null;
+  }
+  return {
+    base: "USD",
+    asOf: r.asOf,
+    source: typeof r.source === "string" ? r.source : "unknown",
+    rates: r.rates as Rates,
+  };
+}
+
+// Same hand-maintained figures as the shipped snapshot
+const FALLBACK: RatesSnapshot = {
+  base: "USD",
+  asOf: "2024-06-01",
+  source: "reference",
+  rates: {
+    USD: 1,
+    EUR: 0.92,
+    AED: 3.6725,
+    INR: 83,
+    CAD: 1.36,
+    GBP: 0.79,
+    XCD: 2.7,
+    CHF: 0.88,
+    AUD: 1.52,
+    SGD: 1.35,
+  },
+};
+
+export const RATES_SNAPSHOT: RatesSnapshot =
+  parseRatesSnapshot(snapshot) ?? FALLBACK;
+
+export const REFERENCE_RATES: Rates = RATES_SNAPSHOT.rates;
+
+/**
+ * Hand-maintained reference rates (or the built-in fallback) rather than a
+ * provider snapshot: only roughly right for their month, so shown as such.
+ */
+export const isIndicativeSource = (source: string) =>
+  source === "reference" || source === "fallback";
+
+/** "18 Oct 2026" */
+export function formatRatesDate(asOf: string = RATES_SNAPSHOT.asOf) {
+  const d = new Date(asOf);
+  if (Number.isNaN(d.getTime())) return asOf;
+  return new Intl.DateTimeFormat("en-GB", {
+    day: "numeric",
+    month: "short",
+    year: "numeric",
+    timeZone: "UTC",
+  }).format(d);
+}
+
+/**
+ * How converted amounts are described: "reference rates as of 18 Oct 2026"
+ * for a provider snapshot, "indicative reference rates (Jun 2024)" otherwise.
+ */
+export function describeRates({
+  asOf,
+  source,
+}: Pick<RatesSnapshot, "asOf" | "source"> = RATES_SNAPSHOT) {
+  if (!isIndicativeSource(source))
+    return `reference rates as of ${formatRatesDate(asOf)}`;
+  const d = new Date(asOf);
+  const month = Number.isNaN(d.getTime())
+    ? asOf
+    : new Intl.DateTimeFormat("en-GB", {
+        month: "short",
+        year: "numeric",
+        timeZone: "UTC",
+      }).format(d);
+  return `indicative reference rates (${month})`;
+}
+
+export function isCurrencyCode(v: unknown): v is CurrencyCode {
+  return (
+    typeof v === "string" && (CURRENCY_CODES as readonly string[]).includes(v)
+  );
+}
+
+/** Normalise free-form input ("usd", undefined) to a known code. */
+export function toCurrencyCode(
+  v: unknown,
+  fallback: CurrencyCode = "USD",
+): CurrencyCode {
+  const up = typeof v === "string" ? v.trim().toUpperCase() : "";
+  return isCurrencyCode(up) ? up : fallback;
+}
+
+export function convertAmount(
+  amount: number,
+  from: CurrencyCode,
+  to: CurrencyCode,
+  rates: Rates = REFERENCE_RATES,
+) {
+  if (from === to) return amount;
+  return (amount / rates[from]) * rates[to];
+}
+
+/** `locale` is a BCP 47 tag (see INTL_LOCALES in lib/i18n/config.ts) */
+export function formatMoney(
+  amount?: number,
+  currency: string = "USD",
+  locale: string = "en",
+) {
+  if (typeof amount !== "number" || !Number.isFinite(amount)) return "";
+  try {
+    return new Intl.NumberFormat(locale, {
+      style: "currency",
+      currency,
+      maximumFractionDigits: 0,
+    }).format(amount);
+  } catch {
+    return `${currency} ${Math.round(amount).toLocaleString(locale)}`;
+  }
+}
@@ -0,0 +1,466 @@
+// src/lib/eligibility/dsl.ts
+// Small expression language for eligibility schemas. Rules are strings such as
+//
+//   age between 18 and 45 and english >= 6.5
+//   education in ["Master", "PhD"] or not willing_invest
+//   liquid_funds - investment_budget >= 50000
+//
+// Grammar (lowest → highest precedence):
+//   or      := and ("or" and)*
+//   and     := not ("and" not)*
+//   not     := "not" not | compare
+//   compare := sum (op sum | ["not"] "in" list | "between" sum "and" sum)?
+//              op = == != < <= > >=
+//   sum     := term (("+" | "-") term)*
+//   term    := unary (("*" | "/" | "%") unary)*
+//   unary   := "-" unary | call
+//   call    := ident "(" args ")" | primary
+//   primary := number | string | true | false | null | ident | list | "(" or ")"
+//
+// Identifiers are answer ids (plus anything the caller adds, e.g. `score`).
+// A missing answer is `null`: arithmetic on null yields null and comparisons
+// with null are false, so an unanswered field never satisfies a rule.
+// Parsing is pure (no eval) and runs on both server and client.
+
+export type Value = number | string | boolean | null | Value[];
+export type Scope = Record<string, unknown>;
+
+export type Node =
+  | { t: "lit"; v: Value }
+  | { t: "var"; name: string }
+  | { t: "list"; items: Node[] }
+  | { t: "not"; arg: Node }
+  | { t: "neg"; arg: Node }
+  | { t: "logic"; op: "and" | "or"; args: Node[] }
+  | { t: "bin"; op: "+" | "-" | "*" | "/" | "%"; l: Node; r: Node }
+  | { t: "cmp"; op: "==" | "!=" | "<" | "<=" | ">" | ">="; l: Node; r: Node }
+  | { t: "in"; negate: boolean; l: Node; r: Node }
+  | { t: "between"; v: Node; lo: Node; hi: Node }
+  | { t: "call"; fn: string; args: Node[] };
+
+export class RuleSyntaxError extends Error {
+  constructor(
+    message: string,
+    public readonly source: string,
+    public readonly pos: number,
+  ) {
+    super(`${message} at ${pos + 1} in "${source}"`);
+    this.name = "RuleSyntaxError";
+  }
+}
+
+/* =========================
+ * Tokenizer
+ * =======================*/
+type Tok =
+  | { k: "num"; v: number; pos: number }
+  | { k: "str"; v: string; pos: number }
+  | { k: "id"; v: string; pos: number }
+  | { k: "op"; v: string; pos: number }
+  | { k: "end"; pos: number };
+
+const OPS = [
+  "==",
+  "!=",
+  "<=",
+  ">=",
+  "<",
+  ">",
+  "+",
+  "-",
+  "*",
+  "/",
+  "%",
+  "(",
+  ")",
+  "[",
+  "]",
+  ",",
+];
+
+function tokenize(src: string): Tok[] {
+  const out: Tok[] = [];
+  let i = 0;
+  while (i < src.length) {
+    const ch = src[i];
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+    if (/[0-9.]/.test(ch)) {
+      // 150_000 style grouping is allowed
+      const m = /^(?:\d[\d_]*(?:\.\d+)?|\.\d+)/.exec(src.slice(i));
+      if (!m) throw new RuleSyntaxError("Bad number", src, i);
+      out.push({ k: "num", v: Number(m[0].replace(/_/g, "")), pos: i });
+      i += m[0].length;
+      continue;
+    }
+    if (ch === '"' || ch === "'") {
+      const end = src.indexOf(ch, i + 1);
+      if (end < 0) throw new RuleSyntaxError("Unterminated string", src, i);
+      out.push({ k: "str", v: src.slice(i + 1, end), pos: i });
+      i = end + 1;
+      continue;
+    }
+    if (/[A-Za-z_]/.test(ch)) {
+      const m = /^[A-Za-z_][A-Za-z0-9_]*/.exec(src.slice(i))!;
+      out.push({ k: "id", v: m[0], pos: i });
+      i += m[0].length;
+      continue;
+    }
+    const op = OPS.find((o) => src.startsWith(o, i));
+    if (!op) throw new RuleSyntaxError(`Unexpected "${ch}"`, src, i);
+    out.push({ k: "op", v: op, pos: i });
+    i += op.length;
+  }
+  out.push({ k: "end", pos: src.length });
+  return out;
+}
+
+/* =========================
+ * Parser
+ * =======================*/
+const KEYWORDS = new Set([
+  "and",
+  "or",
+  "not",
+  "in",
+  "between",
+  "true",
+  "false",
+  "null",
+]);
+export const FUNCTIONS = ["min", "max", "abs", "round", "len"] as const;
+
+export function parseRule(src: string): Node {
+  const toks = tokenize(src);
+  let p = 0;
+  const peek = () => toks[p];
+  const isOp = (v: string) => {
+    const t = toks[p];
+    return t.k === "op" && t.v === v;
+  };
+  const isKw = (v: string) => {
+    const t = toks[p];
+    return t.k === "id" && t.v === v;
+  };
+  const expect = (v: string) => {
+    if (!isOp(v)) fail(`Expected "${v}"`);
+    p++;
+  };
+  const fail = (msg: string): never => {
+    throw new RuleSyntaxError(msg, src, peek().pos);
+  };
+
+  function or(): Node {
+    const args = [and()];
+    while (isKw("or")) {
+      p++;
+      args.push(and());
+    }
+    return args.length > 1 ? { t: "logic", op: "or", args } : args[0];
+  }
+  function and(): Node {
+    const args = [not()];
+    while (isKw("and")) {
+      p++;
+      args.push(not());
+    }
+    return args.length > 1 ? { t: "logic", op: "and", args } : args[0];
+  }
+  function not(): Node {
+    if (isKw("not")) {
+      p++;
+      return { t: "not", arg: not() };
+    }
+    return compare();
+  }
+  function compare(): Node {
+    const l = sum();
+    const t = peek();
+    if (t.k === "op" && ["==", "!=", "<", "<=", ">", ">="].includes(t.v)) {
+      p++;
+      return { t: "cmp", op: t.v as "==", l, r: sum() };
+    }
+    if (
+      isKw("not") &&
+      toks[p + 1]?.k === "id" &&
+      (toks[p + 1] as { v: string }).v === "in"
+    ) {
+      p += 2;
+      return { t: "in", negate: true, l, r: sum() };
+    }
+    if (isKw("in")) {
+      p++;
+      return { t: "in", negate: false, l, r: sum() };
+    }
+    if (isKw("between")) {
+      p++;
+      const lo = sum();
+      if (!isKw("and")) fail(`Expected "and" in between`);
+      p++;
+      return { t: "between", v: l, lo, hi: sum() };
+    }
+    return l;
+  }
+  function sum(): Node {
+    let l = term();
+    while (isOp("+") || isOp("-")) {
+      const op = (toks[p++] as { v: string }).v as "+" | "-";
+      l = { t: "bin", op, l, r: term() };
+    }
+    return l;
+  }
+  function term(): Node {
+    let l = unary();
+    while (isOp("*") || isOp("/") || isOp("%")) {
+      const op = (toks[p++] as { v: string }).v as "*" | "/" | "%";
+      l = { t: "bin", op, l, r: unary() };
+    }
+    return l;
+  }
+  function unary(): Node {
+    if (isOp("-")) {
+      p++;
+      return { t: "neg", arg: unary() };
+    }
+    return primary();
+  }
+  function primary(): Node {
+    const t = peek();
+    if (t.k === "num" || t.k === "str") {
+      p++;
+      return { t: "lit", v: t.v };
+    }
+    if (isOp("(")) {
+      p++;
+      const e = or();
+      expect(")");
+      return e;
+    }
+    if (isOp("[")) {
+      p++;
+      const items: Node[] = [];
+      if (!isOp("]")) {
+        items.push(or());
+        while (isOp(",")) {
+          p++;
+          items.push(or());
+        }
+      }
+      expect("]");
+      return { t: "list", items };
+    }
+    if (t.k === "id") {
+      if (t.v === "true" || t.v === "false") {
+        p++;
+        return { t: "lit", v: t.v === "true" };
+      }
+      if (t.v === "null") {
+        p++;
+        return { t: "lit", v: null };
+      }
+      if (KEYWORDS.has(t.v)) fail(`Unexpected "${t.v}"`);
+      p++;
+      if (isOp("(")) {
+        if (!(FUNCTIONS as readonly string[]).includes(t.v))
+          throw new RuleSyntaxError(`Unknown function "${t.v}"`, src, t.pos);
+        p++;
+        const args: Node[] = [];
+        if (!isOp(")")) {
+          args.push(or());
+          while (isOp(",")) {
+            p++;
+            args.push(or());
+          }
+        }
+        expect(")");
+        return { t: "call", fn: t.v, args };
+      }
+      return { t: "var", name: t.v };
+    }
+    return fail(t.k === "end" ? "Unexpected end of rule" : "Unexpected token");
+  }
+
+  const node = or();
+  if (peek().k !== "end") fail("Unexpected token");
+  return node;
+}
+
+/** Answer ids a rule reads (for schema validation). */
+export function ruleVariables(
+  node: Node,
+  out = new Set<string>(),
+): Set<string> {
+  switch (node.t) {
+    case "var":
+      out.add(node.name);
+      break;
+    case "list":
+      node.items.forEach((n) => ruleVariables(n, out));
+      break;
+    case "not":
+    case "neg":
+      ruleVariables(node.arg, out);
+      break;
+    case "logic":
+    case "call":
+      node.args.forEach((n) => ruleVariables(n, out));
+      break;
+    case "bin":
+    case "cmp":
+    case "in":
+      ruleVariables(node.l, out);
+      ruleVariables(node.r, out);
+      break;
+    case "between":
+      [node.v, node.lo, node.hi].forEach((n) => ruleVariables(n, out));
+      break;
+  }
+  return out;
+}
+
+/* =========================
+ * Evaluation
+ * =======================*/
+function toValue(v: unknown): Value {
+  if (v === undefined || v === "") return null;
+  if (Array.isArray(v)) return v.map(toValue);
+  if (typeof v === "number") return Number.isFinite(v) ? v : null;
+  if (typeof v === "string" || typeof v === "boolean" || v === null) return v;
+  return null;
+}
+
+const isNum = (v: Value): v is number => typeof v === "number";
+
+function truthy(v: Value) {
+  if (Array.isArray(v)) return v.length > 0;
+  return v !== null && v !== false && v !== 0 && v !== "";
+}
+
+function compareValues(op: string, a: Value, b: Value) {
+  if (a === null || b === null)
+    return op === "!=" ? a !== b : op === "==" && a === b;
+  if (op === "==") return a === b;
+  if (op === "!=") return a !== b;
+  if (typeof a !== typeof b || Array.isArray(a) || Array.isArray(b))
+    return false;
+  switch (op) {
+    case "<":
+      return a < b;
+    case "<=":
+      return a <= b;
+    case ">":
+      return a > b;
+    default:
+      return a >= b;
+  }
+}
+
+export function evaluate(node: Node, scope: Scope): Value {
+  switch (node.t) {
+    case "lit":
+      return node.v;
+    case "var":
+      return toValue(scope[node.name]);
+    case "list":
+      return node.items.map((n) => evaluate(n, scope));
+    case "not":
+      return !truthy(evaluate(node.arg, scope));
+    case "neg": {
+      const v = evaluate(node.arg, scope);
+      return isNum(v) ? -v : null;
+    }
+    case "logic":
+      return node.op === "and"
+        ? node.args.every((n) => truthy(evaluate(n, scope)))
+        : node.args.some((n) => truthy(evaluate(n, scope)));
+    case "bin": {
+      const l = evaluate(node.l, scope);
+      const r = evaluate(node.r, scope);
+      if (!isNum(l) || !isNum(r)) return null;
+      switch (node.op) {
+        case "+":
+          return l + r;
+        case "-":
+          return l - r;
+        case "*":
+          return l * r;
+        case "/":
+          return r === 0 ? null : l / r;
+        default:
+          return r === 0 ? null : l % r;
+      }
+    }
+    case "cmp":
+      return compareValues(
+        node.op,
+        evaluate(node.l, scope),
+        evaluate(node.r, scope),
+      );
+    case "in": {
+      const l = evaluate(node.l, scope);
+      const r = evaluate(node.r, scope);
+      if (l === null || !Array.isArray(r)) return false;
+      // multi-select answers: any overlap counts
+      const hit = Array.isArray(l)
+        ? l.some((x) => r.includes(x))
+        : r.includes(l);
+      return node.negate ? !hit : hit;
+    }
+    case "between": {
+      const v = evaluate(node.v, scope);
+      const lo = evaluate(node.lo, scope);
+      const hi = evaluate(node.hi, scope);
+      return compareValues(">=", v, lo) && compareValues("<=", v, hi);
+    }
+    case "call": {
+      const args = node.args.map((n) => evaluate(n, scope));
+      const nums = args.flat().filter(isNum);
+      switch (node.fn) {
+        case "min":
+          return nums.length ? Math.min(...nums) : null;
+        case "max":
+          return nums.length ? Math.max(...nums) : null;
+        case "abs":
+          return isNum(args[0]) ? Math.abs(args[0]) : null;
+        case "round":
+          return isNum(args[0]) ? Math.round(args[0]) : null;
+        case "len":
+          return Array.isArray(args[0]) || typeof args[0] === "string"
+            ? args[0].length
+            : 0;
+        default:
+          return null;
+      }
+    }
+  }
+}
+
+/* =========================
+ * Compiled rules
+ * =======================*/
+const cache = new Map<string, Node>();
+
+/** Parse once per distinct source string. Throws RuleSyntaxError. */
+export function compileRule(src: string): Node {
+  let node = cache.get(src);
+  if (!node) {
+    node = parseRule(src);
+    cache.set(src, node);
+  }
+  return node;
+}
+
+/** Evaluate a rule to a boolean; an empty/absent rule is true. */
+export function test(src: string | undefined, scope: Scope): boolean {
+  if (!src || !src.trim()) return true;
+  return truthy(evaluate(compileRule(src), scope));
+}
+
+/** Evaluate a rule to a number (e.g. dynamic points); non-numbers → 0. */
+export function numeric(src: string | number, scope: Scope): number {
+  if (typeof src === "number") return src;
+  const v = evaluate(compileRule(src), scope);
+  return typeof v === "number" ? v : 0;
+}
@@ -0,0 +1,117 @@
+// src/lib/eligibility/engine.ts
+// Evaluates an eligibility schema against answers: which steps/fields are
+// visible, the score and band, and which catalog programs to recommend.
+// Pure — shared by the wizard (client) and schema validation (server).
+import { numeric, test, type Scope } from "@/lib/eligibility/dsl";
+import type {
+  Answers,
+  CatalogProgram,
+  EligibilityBand,
+  EligibilityField,
+  EligibilitySchema,
+  EligibilityStep,
+  ProgramMatch,
+} from "@/lib/eligibility/types";
+
+export type VisibleStep = EligibilityStep & { fields: EligibilityField[] };
+
+const isBlank = (v: unknown) =>
+  v === undefined ||
+  v === null ||
+  v === "" ||
+  (typeof v === "number" && !Number.isFinite(v)) ||
+  (Array.isArray(v) && v.length === 0);
+
+/**
+ * Walk steps in order; a step/field only sees answers from fields that were
+ * visible before it. Hidden fields drop out of the scope entirely, so a stale
+ * answer on a skipped step can't affect the score.
+ */
+export function resolveVisibility(schema: EligibilitySchema, answers: Answers) {
+  const scope: Scope = {};
+  const steps: VisibleStep[] = [];
+  for (const step of schema.steps) {
+    if (!test(step.showIf, scope)) continue;
+    const fields: EligibilityField[] = [];
+    for (const f of step.fields) {
+      if (!test(f.showIf, scope)) continue;
+      fields.push(f);
+      if (!isBlank(answers[f.id])) scope[f.id] = answers[f.id];
+    }
+    if (fields.length) steps.push({ ...step, fields });
+  }
+  return { steps, scope };
+}
+
+/** Required fields on a step still missing an answer. */
+export function missingFields(step: VisibleStep, answers: Answers) {
+  return step.fields.filter((f) => f.required && isBlank(answers[f.id]));
+}
+
+export function scoreAnswers(schema: EligibilitySchema, scope: Scope) {
+  const hits: { label: string; points: number }[] = [];
+  let score = 0;
+  for (const r of schema.scoring) {
+    if (!test(r.when, scope)) continue;
+    const points = numeric(r.points, scope);
+    if (!points) continue;
+    score += points;
+    hits.push({ label: r.label ?? r.when, points });
+  }
+  return { score, hits };
+}
+
+export function bandFor(schema: EligibilitySchema, score: number) {
+  const sorted = [...schema.bands].sort((a, b) => b.min - a.min);
+  return (sorted.find((b) => score >= b.min) ?? sorted[sorted.length - 1]) as
+    EligibilityBand | undefined;
+}
+
+function matchesProgram(m: ProgramMatch, p: CatalogProgram, scope: Scope) {
+  if (m.programs?.length && !m.programs.includes(p.ref)) return false;
+  if (m.countries?.length && !m.countries.includes(p.countrySlug)) return false;
+  if (m.routeTypes?.length && !m.routeTypes.includes(p.routeType ?? ""))
+    return false;
+  if (m.budgetUsd && typeof p.minInvestmentUsd === "number") {
+    const budget = numeric(m.budgetUsd, scope);
+    if (p.minInvestmentUsd > budget) return false;
+  }
+  return true;
+}
+
+export type Recommendation = CatalogProgram & { reason?: string };
+
+/** First matching rule wins per program; order follows the schema. */
+export function recommend(
+  schema: EligibilitySchema,
+  scope: Scope,
+  score: number,
+  catalog: CatalogProgram[],
+): Recommendation[] {
+  const withScore = { ...scope, score };
+  const out = new Map<string, Recommendation>();
+  for (const r of schema.recommendations) {
+    if (!test(r.when, withScore)) continue;
+    for (const p of catalog) {
+      if (out.has(p.ref) || !matchesProgram(r.match, p, withScore)) continue;
+      out.set(p.ref, { ...p, reason: r.reason });
+    }
+  }
+  return [...out.values()];
+}
+
+export function evaluateSchema(
+  schema: EligibilitySchema,
+  answers: Answers,
+  catalog: CatalogProgram[],
+) {
+  const { steps, scope } = resolveVisibility(schema, answers);
+  const { score, hits } = scoreAnswers(schema, scope);
+  return {
+    steps,
+    score,
+    hits,
+    band: bandFor(schema, score),
+    recommendations: recommend(schema, scope, score, catalog),
+  };
+}
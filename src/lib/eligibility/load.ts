@@ -0,0 +1,198 @@
+// src/lib/eligibility/load.ts
+// Reads per-vertical eligibility schemas, validates every rule up front and
+// builds the program catalog recommendations resolve against.
+import "server-only";
+
+import fs from "node:fs";
+import path from "node:path";
+import type { Vertical } from "@/lib/content/types";
+import { PROGRAM_LOADERS, VERTICALS } from "@/lib/content/programs";
+import { convertAmount, toCurrencyCode } from "@/lib/currency";
+import { compileRule, ruleVariables } from "@/lib/eligibility/dsl";
+import type {
+  CatalogProgram,
+  EligibilitySchema,
+  RecommendationRule,
+} from "@/lib/eligibility/types";
+
+const SCHEMA_DIR = path.join(
+  process.cwd(),
+  "src",
+  "app",
+  "(site)",
+  "eligibility",
+  "schema",
+);
+
+export class EligibilitySchemaError extends Error {
+  constructor(
+    public readonly file: string,
+    public readonly issues: string[],
+  ) {
+    super(`Invalid eligibility schema ${file}:\n  ${issues.join("\n  ")}`);
+    this.name = "EligibilitySchemaError";
+  }
+}
+
+const schemaFile = (vertical: Vertical) =>
+  path.join(SCHEMA_DIR, `${vertical}.json`);
+
+/** Verticals that ship a schema, in site order. */
+export function listEligibilityVerticals(): Vertical[] {
+  return VERTICALS.filter((v) => fs.existsSync(schemaFile(v)));
+}
+
+/* =========================
+ * Catalog
+ * =======================*/
+export function loadProgramCatalog(vertical: Vertical): CatalogProgram[] {
+  return PROGRAM_LOADERS[vertical].programs().map((p) => {
+    const currency = toCurrencyCode(p.currency);
+    return {
+      ref: `${p.countrySlug}/${p.programSlug}`,
+      countrySlug: p.countrySlug,
+      programSlug: p.programSlug,
+      title: p.title,
+      country: p.country,
+      href: `/${vertical}/${p.countrySlug}/${p.programSlug}`,
+      routeType: (p as { routeType?: string }).routeType,
+      minInvestmentUsd:
+        typeof p.minInvestment === "number"
+          ? Math.round(convertAmount(p.minInvestment, currency, "USD"))
+          : undefined,
+      timelineMonths: p.timelineMonths,
+    };
+  });
+}
+
+/* =========================
+ * Validation
+ * =======================*/
+function validate(schema: EligibilitySchema): string[] {
+  const issues: string[] = [];
+  const known = new Set<string>();
+  const seenSteps = new Set<string>();
+
+  const checkRule = (where: string, src: unknown, extra: string[] = []) => {
+    if (src === undefined) return;
+    if (typeof src !== "string") {
+      issues.push(`${where}: rule must be a string`);
+      return;
+    }
+    try {
+      for (const v of ruleVariables(compileRule(src))) {
+        if (!known.has(v) && !extra.includes(v))
+          issues.push(`${where}: unknown answer "${v}" in "${src}"`);
+      }
+    } catch (err) {
+      issues.push(`${where}: ${(err as Error).message}`);
+    }
+  };
+
+  if (!Array.isArray(schema.steps) || !schema.steps.length)
+    issues.push("steps: at least one step is required");
+
+  // Conditions may only look backwards, so validate in order.
+  (schema.steps ?? []).forEach((step, i) => {
+    const at = `steps[${i}] (${step.id})`;
+    if (seenSteps.has(step.id)) issues.push(`${at}: duplicate step id`);
+    seenSteps.add(step.id);
+    checkRule(`${at}.showIf`, step.showIf);
+    (step.fields ?? []).forEach((f, j) => {
+      const fat = `${at}.fields[${j}] (${f.id})`;
+      checkRule(`${fat}.showIf`, f.showIf);
+      if (known.has(f.id)) issues.push(`${fat}: duplicate field id`);
+      if (
+        (f.type === "select" || f.type === "multiselect") &&
+        !f.options?.length
+      )
+        issues.push(`${fat}: ${f.type} needs options`);
+      known.add(f.id);
+    });
+  });
+
+  (schema.scoring ?? []).forEach((r, i) => {
+    checkRule(`scoring[${i}].when`, r.when);
+    if (typeof r.points === "string")
+      checkRule(`scoring[${i}].points`, r.points);
+    else if (typeof r.points !== "number")
+      issues.push(`scoring[${i}].points: number or rule required`);
+  });
+
+  if (!schema.bands?.length)
+    issues.push("bands: at least one band is required");
+
+  (schema.recommendations ?? []).forEach((r, i) => {
+    const at = `recommendations[${i}]`;
+    checkRule(`${at}.when`, r.when, ["score"]);
+    checkRule(`${at}.match.budgetUsd`, r.match?.budgetUsd, ["score"]);
+  });
+
+  return issues;
+}
+
+/**
+ * Recommendations narrowed to live programs. content:validate checks refs
+ * against every program file; here a program that is a draft, scheduled or
+ * expired just drops out (with a warning), and so does a rule left with
+ * nothing it named.
+ */
+function liveRecommendations(
+  schema: EligibilitySchema,
+  catalog: CatalogProgram[],
+  file: string,
+): RecommendationRule[] {
+  const liveRefs = new Set(catalog.map((p) => p.ref));
+  const liveCountries = new Set(catalog.map((p) => p.countrySlug));
+  const keep = (
+    values: string[] | undefined,
+    live: Set<string>,
+    kind: string,
+    at: string,
+  ) =>
+    values?.filter((v) => {
+      if (live.has(v)) return true;
+      console.warn(
+        `[eligibility] ${file} ${at}: no live ${schema.vertical} ${kind} "${v}"; skipped`,
+      );
+      return false;
+    });
+
+  return (schema.recommendations ?? []).flatMap((r, i) => {
+    const at = `recommendations[${i}]`;
+    const programs = keep(r.match?.programs, liveRefs, "program", at);
+    const countries = keep(r.match?.countries, liveCountries, "country", at);
+    // An emptied list would match every program instead of none
+    if (r.match?.programs?.length && !programs?.length) return [];
+    if (r.match?.countries?.length && !countries?.length) return [];
+    return [{ ...r, match: { ...r.match, programs, countries } }];
+  });
+}
+
+/**
+ * Schema for a vertical, or null when none ships. Throws
+ * EligibilitySchemaError listing every problem (bad rule syntax, unknown
+ * answer ids); recommendations only keep programs that are live.
+ */
+export function loadEligibilitySchema(vertical: Vertical) {
+  const file = schemaFile(vertical);
+  if (!fs.existsSync(file)) return null;
+
+  const schema = JSON.parse(fs.readFileSync(file, "utf8")) as EligibilitySchema;
+  const rel = path.relative(process.cwd(), file);
+  if (schema.vertical !== vertical)
+    throw new EligibilitySchemaError(rel, [
+      `vertical: expected "${vertical}", got "${schema.vertical}"`,
+    ]);
+
+  const catalog = loadProgramCatalog(vertical);
+  const issues = validate(schema);
+  if (issues.length) throw new EligibilitySchemaError(rel, issues);
+  return {
+    schema: {
+      ...schema,
+      recommendations: liveRecommendations(schema, catalog, rel),
+    },
+    catalog,
+  };
+}
@@ -0,0 +1,89 @@
+// src/lib/eligibility/types.ts
+// Eligibility schema shape (src/app/(site)/eligibility/schema/<vertical>.json).
+// Every `showIf` / `when` / string `points` / `budgetUsd` is a rule in the DSL
+// from ./dsl.ts, evaluated against the visitor's answers.
+import type { Vertical } from "@/lib/content/types";
+
+export type EligibilityFieldType =
+  "number" | "text" | "select" | "multiselect" | "boolean";
+
+export type EligibilityField = {
+  id: string;
+  label: string;
+  type: EligibilityFieldType;
+  options?: string[];
+  required?: boolean;
+  min?: number;
+  max?: number;
+  step?: number;
+  /** Shown after number inputs, e.g. "USD", "years" */
+  unit?: string;
+  help?: string;
+  showIf?: string;
+};
+
+export type EligibilityStep = {
+  id: string;
+  title: string;
+  description?: string;
+  /** Conditional step — skipped unless the rule holds for earlier answers */
+  showIf?: string;
+  fields: EligibilityField[];
+};
+
+export type ScoringRule = {
+  when: string;
+  /** Fixed points, or an arithmetic rule over answers */
+  points: number | string;
+  label?: string;
+};
+
+export type EligibilityBand = {
+  min: number;
+  label: string;
+  tone: "green" | "amber" | "red";
+  summary?: string;
+};
+
+/** Filters over the vertical's real programs (from the content loaders). */
+export type ProgramMatch = {
+  /** Exact refs: "country/program" */
+  programs?: string[];
+  countries?: string[];
+  routeTypes?: string[];
+  /** Rule giving the visitor's budget in USD; pricier programs are skipped */
+  budgetUsd?: string;
+};
+
+export type RecommendationRule = {
+  /** May use `score` in addition to answer ids */
+  when: string;
+  match: ProgramMatch;
+  reason?: string;
+};
+
+export type EligibilitySchema = {
+  vertical: Vertical;
+  title: string;
+  description?: string;
+  steps: EligibilityStep[];
+  scoring: ScoringRule[];
+  bands: EligibilityBand[];
+  recommendations: RecommendationRule[];
+  disclaimer?: string;
+};
+
+/** Slim program record passed to the client for recommendation matching. */
+export type CatalogProgram = {
+  ref: string;
+  countrySlug: string;
+  programSlug: string;
+  title: string;
+  country: string;
+  href: string;
+  routeType?: string;
+  minInvestmentUsd?: number;
+  timelineMonths?: number;
+};
+
+export type Answers = Record<string, unknown>;
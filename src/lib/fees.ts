@@ -0,0 +1,270 @@
+// src/lib/fees.ts
+// Family-aware fee engine. Price and government-fee rows in frontmatter carry
+// an optional rule (`per`, age band, `beyond`, `frequency`, `choice`); this
+// module turns those rows plus a household into one itemised estimate.
+// Shared by CostCalculator, Prices, GovernmentFees and AdvisorConsultationCard.
+import type {
+  CostEstimatorConfig,
+  FeePer,
+  FeeRule,
+} from "@/lib/content/schema";
+import {
+  REFERENCE_RATES,
+  convertAmount,
+  toCurrencyCode,
+  type CurrencyCode,
+  type Rates,
+} from "@/lib/currency";
+
+export type { FeePer, FeeRule };
+
+export type FeeRow = FeeRule & {
+  label: string;
+  amount?: number;
+  currency?: string;
+  when?: string;
+  notes?: string;
+};
+
+/* =========================
+ * Household
+ * =======================*/
+export type MemberRole = "main" | "spouse" | "child" | "parent";
+export type Member = { role: MemberRole; age: number };
+export type Household = Member[];
+
+export const ADULT_AGE = 18;
+const DEFAULT_ADULT_AGE = 40;
+
+export type HouseholdInput = {
+  /** Principal + spouse (1 or 2) */
+  adults?: number;
+  childAges?: number[];
+  parentAges?: number[];
+};
+
+export function makeHousehold({
+  adults = 2,
+  childAges = [],
+  parentAges = [],
+}: HouseholdInput = {}): Household {
+  const out: Household = [{ role: "main", age: DEFAULT_ADULT_AGE }];
+  if (adults >= 2) out.push({ role: "spouse", age: DEFAULT_ADULT_AGE });
+  for (const age of childAges) out.push({ role: "child", age });
+  for (const age of parentAges) out.push({ role: "parent", age });
+  return out;
+}
+
+export function householdInput(h: Household): Required<HouseholdInput> {
+  return {
+    adults: h.some((m) => m.role === "spouse") ? 2 : 1,
+    childAges: h.filter((m) => m.role === "child").map((m) => m.age),
+    parentAges: h.filter((m) => m.role === "parent").map((m) => m.age),
+  };
+}
+
+const plural = (n: number, one: string, many: string) =>
+  `${n} ${n === 1 ? one : many}`;
+
+/** "2 adults, 2 children (8, 19), 1 parent (60)" */
+export function describeHousehold(h: Household) {
+  const { adults, childAges, parentAges } = householdInput(h);
+  const parts = [plural(adults, "adult", "adults")];
+  if (childAges.length)
+    parts.push(
+      `${plural(childAges.length, "child", "children")} (${childAges.join(", ")})`,
+    );
+  if (parentAges.length)
+    parts.push(
+      `${plural(parentAges.length, "parent", "parents")} (${parentAges.join(", ")})`,
+    );
+  return parts.join(", ");
+}
+
+/* =========================
+ * Rules
+ * =======================*/
+// Frontmatter may quote numbers ("17"); loaders only coerce `amount`.
+function num(v: unknown) {
+  const n = typeof v === "string" && v.trim() ? Number(v) : v;
+  return typeof n === "number" && Number.isFinite(n) ? n : undefined;
+}
+
+function inBand(rule: FeeRule, m: Member) {
+  const minAge = num(rule.minAge);
+  const maxAge = num(rule.maxAge);
+  if (minAge !== undefined && m.age < minAge) return false;
+  if (maxAge !== undefined && m.age > maxAge) return false;
+  return true;
+}
+
+function matches(per: FeePer, m: Member) {
+  switch (per) {
+    case "person":
+      return true;
+    case "adult":
+      return m.age >= ADULT_AGE;
+    case "child":
+      return m.role === "child";
+    case "spouse":
+      return m.role === "spouse";
+    case "parent":
+      return m.role === "parent";
+    case "dependent":
+      return m.role !== "main";
+    default:
+      return false;
+  }
+}
+
+/** How many times a rule is charged for this household. */
+export function quantityFor(rule: FeeRule, household: Household) {
+  const per = rule.per ?? "application";
+  const count =
+    per === "application"
+      ? 1
+      : household.filter((m) => matches(per, m) && inBand(rule, m)).length;
+  return Math.max(0, count - (num(rule.beyond) ?? 0));
+}
+
+/** Human basis, e.g. "per person 17+", "per dependent beyond 3", "per year". */
+export function describeRule(rule: FeeRule) {
+  const per = rule.per ?? "application";
+  const parts = [`per ${per}`];
+  const minAge = num(rule.minAge);
+  const maxAge = num(rule.maxAge);
+  const beyond = num(rule.beyond);
+  if (minAge !== undefined && maxAge !== undefined)
+    parts.push(`aged ${minAge}–${maxAge}`);
+  else if (minAge !== undefined) parts[0] += ` ${minAge}+`;
+  else if (maxAge !== undefined) parts.push(`under ${maxAge + 1}`);
+  if (beyond) parts.push(`beyond ${beyond}`);
+  if (rule.frequency === "annual") parts.push("per year");
+  return parts.join(" ");
+}
+
+export const hasRule = (r: FeeRule) =>
+  !!(r.per || r.beyond || r.frequency || r.choice);
+
+/* =========================
+ * Estimate
+ * =======================*/
+export type EstimateLine = {
+  key: string;
+  label: string;
+  basis: string;
+  quantity: number;
+  /** Unit and total in the estimate currency */
+  unit: number;
+  total: number;
+  /** Unit as written in content, when it was converted */
+  sourceUnit?: { amount: number; currency: CurrencyCode };
+  frequency: "once" | "annual";
+  when?: string;
+  notes?: string;
+};
+
+export type FeeEstimate = {
+  currency: CurrencyCode;
+  lines: EstimateLine[];
+  oneOff: number;
+  annual: number;
+  household: Household;
+};
+
+/** Rows sharing a `choice` key are alternatives; group them in order. */
+export function choiceGroups(rows: FeeRow[]) {
+  const groups = new Map<string, FeeRow[]>();
+  for (const r of rows) {
+    if (!r.choice) continue;
+    groups.set(r.choice, [...(groups.get(r.choice) ?? []), r]);
+  }
+  return groups;
+}
+
+export function estimateFees(
+  rows: FeeRow[],
+  household: Household,
+  opts: {
+    currency?: string;
+    /** choice key → selected row label (defaults to the first row) */
+    choices?: Record<string, string>;
+    rates?: Rates;
+  } = {},
+): FeeEstimate {
+  const currency = toCurrencyCode(opts.currency);
+  const rates = opts.rates ?? REFERENCE_RATES;
+  const groups = choiceGroups(rows);
+
+  const lines: EstimateLine[] = [];
+  rows.forEach((r, i) => {
+    if (typeof r.amount !== "number" || !Number.isFinite(r.amount)) return;
+    if (r.choice) {
+      const picked = opts.choices?.[r.choice];
+      const options = groups.get(r.choice) ?? [];
+      const selected = options.find((o) => o.label === picked) ?? options[0];
+      if (selected !== r) return;
+    }
+    const from = toCurrencyCode(r.currency, currency);
+    const unit = convertAmount(r.amount, from, currency, rates);
+    const quantity = quantityFor(r, household);
+    lines.push({
+      key: `${i}-${r.label}`,
+      label: r.label,
+      basis: describeRule(r),
+      quantity,
+      unit,
+      total: unit * quantity,
+      sourceUnit:
+        from !== currency ? { amount: r.amount, currency: from } : undefined,
+      frequency: r.frequency === "annual" ? "annual" : "once",
+      when: r.when,
+      notes: r.notes,
+    });
+  });
+
+  const sum = (f: EstimateLine["frequency"]) =>
+    lines.filter((l) => l.frequency === f).reduce((s, l) => s + l.total, 0);
+
+  return {
+    currency,
+    lines,
+    oneOff: sum("once"),
+    annual: sum("annual"),
+    household,
+  };
+}
+
+/* =========================
+ * Sources
+ * =======================*/
+
+/** Rows for a program: listed prices + official fees, or the legacy estimator block. */
+export function feeRowsFor(meta: {
+  prices?: FeeRow[];
+  governmentFees?: FeeRow[];
+  costEstimator?: CostEstimatorConfig;
+}): FeeRow[] {
+  const rows = [...(meta.prices ?? []), ...(meta.governmentFees ?? [])];
+  if (rows.some((r) => typeof r.amount === "number")) return rows;
+  return meta.costEstimator ? rowsFromEstimator(meta.costEstimator) : [];
+}
+
+/** Adapter for the older hand-written `costEstimator` frontmatter block. */
+export function rowsFromEstimator(cfg: CostEstimatorConfig): FeeRow[] {
+  const base = cfg.baseOptions ?? [];
+  const def = base.find((b) => b.id === cfg.defaultBaseId) ?? base[0];
+  const ordered = def ? [def, ...base.filter((b) => b !== def)] : base;
+  return [
+    ...ordered.map((b) => ({
+      label: b.label,
+      amount: b.amount,
+      choice: base.length > 1 ? "base" : undefined,
+    })),
+    ...(cfg.addons ?? []).map((a) => ({
+      label: a.label,
+      amount: a.amount,
+      per: a.per,
+    })),
+  ];
+}
@@ -2,19 +2,25 @@
 import path from "node:path";
 import fs from "node:fs/promises";
 import type { SearchDoc, SearchIndexFile } from "@/types/search";
+import { isLive } from "@/lib/content/schedule";
 
-let _cache: SearchDoc[] | null = null;
+const _g = globalThis as any;
 
 async function loadIndex(): Promise<SearchDoc[]> {
-  if (_cache) return _cache;
+  if (_g.__RELATED_INDEX__) return _g.__RELATED_INDEX__ as SearchDoc[];
   const file = path.join(process.cwd(), "public", "search-index.json");
   const json = await fs.readFile(file, "utf8");
   const parsed = JSON.parse(json) as SearchIndexFile | SearchDoc[];
   const docs = Array.isArray(parsed) ? (parsed as SearchDoc[]) : parsed.docs;
-  _cache = docs;
+  _g.__RELATED_INDEX__ = docs;
   return docs;
 }
 
+/** Dev helper: re-read search-index.json on next call */
+export function invalidateRelatedContentCache() {
+  _g.__RELATED_INDEX__ = undefined;
+}
+
 type GetRelatedOpts = {
   countrySlug: string;
   programSlug?: string | null;
@@ -30,8 +36,8 @@ export async function getRelatedContent({
 }: GetRelatedOpts): Promise<SearchDoc[]> {
   const docs = await loadIndex();
 
-  // Filter to articles/news first
-  const pool = docs.filter((d) => includeTypes.includes(d.type));
+  // Filter to live articles/news first
+  const pool = docs.filter((d) => includeTypes.includes(d.type) && isLive(d));
 
   // Score function: country match >> program match >> tag and text hints
   const scoreDoc = (d: SearchDoc) => {
@@ -0,0 +1,30 @@
+"use client";
+import * as React from "react";
+import { DEFAULT_LOCALE, type Locale } from "./config";
+import { translator } from "./translate";
+
+/**
+ * Page locale for client components. The /[locale] layout provides it;
+ * without a provider (every English page) components render in English.
+ */
+const LocaleContext = React.createContext<Locale>(DEFAULT_LOCALE);
+
+export function LocaleProvider({
+  locale,
+  children,
+}: {
+  locale: Locale;
+  children: React.ReactNode;
+}) {
+  return (
+    <LocaleContext.Provider value={locale}>{children}</LocaleContext.Provider>
+  );
+}
+
+export const useLocale = () => React.useContext(LocaleContext);
+
+/** `translator()` for the current locale (t, plural, rich, date, number) */
+export function useTranslator() {
+  const locale = useLocale();
+  return React.useMemo(() => translator(locale), [locale]);
+}
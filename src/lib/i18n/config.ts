@@ -0,0 +1,92 @@
+// src/lib/i18n/config.ts
+// Isomorphic: locales and locale-prefixed paths. The list itself lives in
+// scripts/locales.mjs so the content scripts skip and validate translation
+// files with the same rules the loaders use.
+import {
+  DEFAULT_LOCALE,
+  LOCALES,
+  RTL_LOCALES,
+} from "../../../scripts/locales.mjs";
+
+export {
+  DEFAULT_LOCALE,
+  LOCALES,
+  isSourceFile,
+  translationOf,
+} from "../../../scripts/locales.mjs";
+
+export type Locale = (typeof LOCALES)[number];
+
+/** Locales served under a /<locale> prefix (every one but English) */
+export const PREFIXED_LOCALES = LOCALES.filter(
+  (l) => l !== DEFAULT_LOCALE,
+) as Locale[];
+
+export const LOCALE_LABELS: Record<Locale, string> = {
+  en: "English",
+  ar: "العربية",
+  hi: "हिन्दी",
+  zh: "中文",
+};
+
+/** BCP 47 tags for Intl and hreflang */
+export const INTL_LOCALES: Record<Locale, string> = {
+  en: "en",
+  ar: "ar",
+  hi: "hi-IN",
+  zh: "zh-CN",
+};
+
+export const isLocale = (v: unknown): v is Locale =>
+  LOCALES.includes(v as Locale);
+
+export const toLocale = (v: unknown): Locale =>
+  isLocale(v) ? v : DEFAULT_LOCALE;
+
+export const dirFor = (locale: Locale): "rtl" | "ltr" =>
+  (RTL_LOCALES as readonly string[]).includes(locale) ? "rtl" : "ltr";
+
+/** "/citizenship/grenada" → "/ar/citizenship/grenada" (English unchanged) */
+export function localePath(path: string, locale: Locale) {
+  if (locale === DEFAULT_LOCALE) return path;
+  return path === "/" ? `/${locale}` : `/${locale}${path}`;
+}
+
+/** "/ar/citizenship/grenada" → { locale: "ar", path: "/citizenship/grenada" } */
+export function splitLocale(pathname: string): {
+  locale: Locale;
+  path: string;
+} {
+  const [, first, ...rest] = pathname.split("/");
+  if (first !== DEFAULT_LOCALE && isLocale(first))
+    return { locale: first, path: `/${rest.join("/")}` };
+  return { locale: DEFAULT_LOCALE, path: pathname };
+}
+
+/**
+ * `alternates` for page metadata: the canonical URL in `locale` when the page
+ * is translated into it (English otherwise), and hreflang links for English
+ * plus each translation that exists.
+ */
+export function localeAlternates(
+  path: string,
+  locale: Locale,
+  translated: Locale[],
+) {
+  const available = [
+    DEFAULT_LOCALE,
+    ...translated.filter((l) => l !== DEFAULT_LOCALE),
+  ] as Locale[];
+  return {
+    canonical: localePath(
+      path,
+      available.includes(locale) ? locale : DEFAULT_LOCALE,
+    ),
+    languages: {
+      ...Object.fromEntries(
+        available.map((l) => [INTL_LOCALES[l], localePath(path, l)]),
+      ),
+      "x-default": path,
+    },
+  };
+}
@@ -0,0 +1,102 @@
+// src/lib/i18n/translate.ts
+// Isomorphic: UI strings and locale-aware formatting. Messages are nested
+// JSON per locale (./messages); a key missing from a translation falls back
+// to English, and `{name}` placeholders are filled from `vars`.
+import en from "./messages/en.json";
+import ar from "./messages/ar.json";
+import hi from "./messages/hi.json";
+import zh from "./messages/zh.json";
+import { DEFAULT_LOCALE, INTL_LOCALES, type Locale } from "./config";
+
+type Tree = { [key: string]: string | Tree };
+
+/** "contact.name", "quickCheck.title", … (dotted paths into en.json) */
+type Paths<T> = {
+  [K in keyof T & string]: T[K] extends string ? K : `${K}.${Paths<T[K]>}`;
+}[keyof T & string];
+export type MessageKey = Paths<typeof en>;
+
+type Vars = Record<string, string | number>;
+
+const MESSAGES: Record<Locale, Tree> = { en, ar, hi, zh };
+
+function lookup(tree: Tree, key: string) {
+  let node: string | Tree | undefined = tree;
+  for (const part of key.split(".")) {
+    if (!node || typeof node === "string") return undefined;
+    node = node[part];
+  }
+  return typeof node === "string" ? node : undefined;
+}
+
+const fill = (text: string, vars?: Vars) =>
+  vars
+    ? text.replace(/\{(\w+)\}/g, (m, name) =>
+        name in vars ? String(vars[name]) : m,
+      )
+    : text;
+
+/** Day-month-year in English, as the pages have always shown dates */
+const dateTag = (locale: Locale) =>
+  locale === DEFAULT_LOCALE ? "en-GB" : INTL_LOCALES[locale];
+
+export function formatDate(
+  value: string | Date,
+  locale: Locale = DEFAULT_LOCALE,
+  options: Intl.DateTimeFormatOptions = {
+    day: "numeric",
+    month: "short",
+    year: "numeric",
+  },
+) {
+  const d =
+    typeof value === "string" && /^\d{4}-\d{2}-\d{2}$/.test(value)
+      ? new Date(`${value}T00:00:00Z`)
+      : new Date(value);
+  return d.toLocaleDateString(dateTag(locale), { timeZone: "UTC", ...options });
+}
+
+export function formatNumber(
+  value: number,
+  locale: Locale = DEFAULT_LOCALE,
+  options?: Intl.NumberFormatOptions,
+) {
+  return new Intl.NumberFormat(INTL_LOCALES[locale], options).format(value);
+}
+
+/**
+ * Strings and formatters bound to one locale. `rich` splits a message on its
+ * placeholders so they can be filled with elements (a <time>, a link) rather
+ * than text; `plural` picks `<key>_one` / `_few` / `_other` … by CLDR rules.
+ */
+export function translator(locale: Locale = DEFAULT_LOCALE) {
+  const raw = (key: string) =>
+    lookup(MESSAGES[locale], key) ?? lookup(MESSAGES[DEFAULT_LOCALE], key);
+  const rules = new Intl.PluralRules(INTL_LOCALES[locale]);
+
+  const t = (key: MessageKey, vars?: Vars) => fill(raw(key) ?? key, vars);
+
+  return {
+    locale,
+    t,
+    plural(key: string, count: number, vars?: Vars) {
+      const text = raw(`${key}_${rules.select(count)}`) ?? raw(`${key}_other`);
+      return fill(text ?? key, { count: formatNumber(count, locale), ...vars });
+    },
+    rich<T>(key: MessageKey, parts: Record<string, T | string>) {
+      return (raw(key) ?? key)
+        .split(/(\{\w+\})/)
+        .filter(Boolean)
+        .map((chunk) => {
+          const m = chunk.match(/^\{(\w+)\}$/);
+          return m && m[1] in parts ? parts[m[1]] : chunk;
+        });
+    },
+    date: (value: string | Date, options?: Intl.DateTimeFormatOptions) =>
+      formatDate(value, locale, options),
+    number: (value: number, options?: Intl.NumberFormatOptions) =>
+      formatNumber(value, locale, options),
+  };
+}
+
+export type Translator = ReturnType<typeof translator>;
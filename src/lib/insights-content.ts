@@ -12,6 +12,8 @@ import rehypeSlug from "rehype-slug";
 import rehypeAutolinkHeadings from "rehype-autolink-headings";
 
 import mdxComponents from "@/components/MDX/registry";
+import { isPreview, isUnpublished } from "@/lib/preview";
+import { isLive } from "@/lib/content/schedule";
 
 import type {
   Facets,
@@ -79,6 +81,13 @@ function coerceString(val?: unknown): string | undefined {
   return s || undefined;
 }
 
+/** YAML turns unquoted dates into Date objects */
+function coerceDate(val?: unknown): string | undefined {
+  if (val instanceof Date)
+    return Number.isNaN(val.getTime()) ? undefined : val.toISOString();
+  return coerceString(val);
+}
+
 function readingTimeMins(text: string) {
   const words = (text || "").split(/\s+/).filter(Boolean).length;
   return Math.max(1, Math.ceil(words / 200));
@@ -222,6 +231,11 @@ function metaFromRaw(raw: RawDoc): InsightMeta {
     updated,
     readingTimeMins: readingTime,
     url,
+    draft: raw.data.draft === true || raw.data.draft === "true" || undefined,
+    publishAt: coerceDate((raw.data as any).publishAt),
+    expiresAt: coerceDate((raw.data as any).expiresAt),
+    onExpire: (raw.data as any).onExpire === "hide" ? "hide" : undefined,
+    supersededBy: coerceString((raw.data as any).supersededBy),
   };
 }
 
@@ -242,7 +256,13 @@ async function ensureCache() {
   if (!DEV && _cache) return _cache; // reuse in prod
 
   const raw = await loadRawDocs();
-  const metas = raw.map(metaFromRaw).sort(sortByDateDesc);
+  // Drafts never reach listings, facets or related; only getInsightBySlug
+  // serves them, and only to previews. Scheduling is applied per query, as
+  // the cache outlives publishAt/expiresAt in production.
+  const metas = raw
+    .map(metaFromRaw)
+    .filter((m) => !m.draft)
+    .sort(sortByDateDesc);
   const next = { metas, raw, loadedAt: Date.now() };
   if (!DEV) _cache = next;
   return next;
@@ -256,7 +276,7 @@ export async function getAllInsights(params: GetAllInsightsParams = {}) {
   const { metas } = await ensureCache();
   const { q, kind, country, program, tag, page = 1, pageSize = 12 } = params;
 
-  let filtered = metas.slice();
+  let filtered = metas.filter(isLive);
 
   if (kind) filtered = filtered.filter((m) => m.kind === kind);
   if (country)
@@ -306,7 +326,7 @@ export async function getAllInsights(params: GetAllInsightsParams = {}) {
 }
 
 export async function getInsightsFacets(): Promise<Facets> {
-  const { metas } = await ensureCache();
+  const metas = (await ensureCache()).metas.filter(isLive);
   const kinds: InsightKind[] = Array.from(
     new Set(metas.map((m) => m.kind)),
   ) as InsightKind[];
@@ -329,6 +349,8 @@ export async function getInsightBySlug(
   const { raw } = await ensureCache();
   const entry = raw.find((r) => r.kind === kind && r.slug === slug);
   if (!entry) return null;
+  const meta = metaFromRaw(entry);
+  if (isUnpublished(meta) && !(await isPreview())) return null;
 
   const headings = extractHeadingsForToc(entry.source);
 
@@ -361,7 +383,6 @@ export async function getInsightBySlug(
 
   const { content } = await compileMDX(args);
 
-  const meta = metaFromRaw(entry);
   return { ...meta, headings, content };
 }
 
@@ -381,7 +402,7 @@ export async function getRelatedContent(
   );
 
   const scored = metas
-    .filter((m) => m.url !== current.url)
+    .filter((m) => m.url !== current.url && isLive(m))
     .map((m) => {
       let score = 0;
       for (const t of m.tags ?? [])
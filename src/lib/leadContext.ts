@@ -0,0 +1,119 @@
+// src/lib/leadContext.ts
+"use client";
+
+import * as React from "react";
+import { formatMoney, isCurrencyCode } from "@/lib/currency";
+import {
+  UTM_KEYS,
+  type LeadAttribution,
+  type LeadContext,
+} from "@/types/contact";
+
+/**
+ * What the visitor did this session, attached to every inquiry so advisors
+ * get a qualified lead: the program they were on, their CostCalculator
+ * estimate, the EligibilityQuickCheck verdict, the consultation option and
+ * first-touch attribution (UTM, landing page, referrer).
+ *
+ * Widgets write slices with `setLeadContext`; ContactForm reads the whole
+ * thing on submit. Same store pattern as useHousehold.
+ */
+const STORAGE_KEY = "lead-context:v1";
+const EMPTY: LeadContext = {};
+
+const listeners = new Set<() => void>();
+let snapshot: LeadContext | null = null;
+
+function read(): LeadContext {
+  if (snapshot) return snapshot;
+  try {
+    const raw = sessionStorage.getItem(STORAGE_KEY);
+    snapshot = raw ? (JSON.parse(raw) as LeadContext) : EMPTY;
+  } catch {
+    snapshot = EMPTY;
+  }
+  return snapshot;
+}
+
+function write(next: LeadContext) {
+  snapshot = next;
+  try {
+    sessionStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+  } catch {
+    /* storage unavailable — keep in memory */
+  }
+  listeners.forEach((l) => l());
+}
+
+function subscribe(l: () => void) {
+  listeners.add(l);
+  return () => listeners.delete(l);
+}
+
+export function getLeadContext(): LeadContext {
+  return typeof window === "undefined" ? EMPTY : read();
+}
+
+/** Merge slices; pass `undefined` for a key to clear it. */
+export function setLeadContext(patch: Partial<LeadContext>) {
+  const next = { ...read(), ...patch };
+  if (JSON.stringify(next) !== JSON.stringify(read())) write(next);
+}
+
+/**
+ * Record first-touch attribution once per session. A later visit carrying
+ * UTM tags (e.g. a second campaign click) replaces it.
+ */
+export function captureAttribution() {
+  const url = new URL(window.location.href);
+  const utm: LeadAttribution["utm"] = {};
+  for (const k of UTM_KEYS) {
+    const v = url.searchParams.get(k);
+    if (v) utm[k] = v.slice(0, 200);
+  }
+  const hasUtm = Object.keys(utm).length > 0;
+  if (read().attribution && !hasUtm) return;
+
+  let referrer: string | undefined;
+  try {
+    if (new URL(document.referrer).origin !== url.origin)
+      referrer = document.referrer;
+  } catch {
+    /* no/invalid referrer */
+  }
+  setLeadContext({
+    attribution: {
+      ...(hasUtm ? { utm } : {}),
+      landingPage: url.pathname + url.search,
+      referrer,
+      at: new Date().toISOString(),
+    },
+  });
+}
+
+export function useLeadContext(): LeadContext {
+  return React.useSyncExternalStore(subscribe, read, () => EMPTY);
+}
+
+/** One-line summary per slice, for "your inquiry will include" hints. */
+export function describeLeadContext(ctx: LeadContext): string[] {
+  const out: string[] = [];
+  if (ctx.program)
+    out.push(
+      ctx.program.title ?? `${ctx.program.country} — ${ctx.program.program}`,
+    );
+  if (ctx.estimate) {
+    const { currency, oneOff, household } = ctx.estimate;
+    // Read back from sessionStorage: an unknown code would make Intl throw
+    const amount = isCurrencyCode(currency)
+      ? formatMoney(oneOff, currency, "en-US")
+      : Math.round(oneOff).toLocaleString("en-US");
+    out.push(`Cost estimate: ${amount}${household ? ` (${household})` : ""}`);
+  }
+  if (ctx.eligibility)
+    out.push(
+      `Eligibility check: ${ctx.eligibility.verdict} (${ctx.eligibility.yes}/${ctx.eligibility.total})`,
+    );
+  if (ctx.consultation) out.push(`Consultation: ${ctx.consultation.option}`);
+  return out;
+}
@@ -0,0 +1,34 @@
+import "server-only";
+import crypto from "node:crypto";
+import type { Lead, LeadInput } from "./types";
+import { getLeadStore } from "./store";
+
+export type { Lead, LeadInput, LeadStore } from "./types";
+export { validateContact, isHoneypotTripped, LIMITS } from "./validate";
+export { rateLimit, peekRateLimit, clientIp } from "./rate-limit";
+export {
+  getLeadStore,
+  setLeadStore,
+  createJsonFileStore,
+  createConsoleStore,
+} from "./store";
+
+export function hashIp(ip: string) {
+  return crypto.createHash("sha256").update(ip).digest("hex").slice(0, 32);
+}
+
+/** Stamp id/time/origin onto a validated inquiry and hand it to the store. */
+export async function saveLead(
+  input: LeadInput,
+  origin: { ip?: string; userAgent?: string } = {},
+): Promise<Lead> {
+  const lead: Lead = {
+    ...input,
+    id: crypto.randomUUID(),
+    createdAt: new Date().toISOString(),
+    ipHash: origin.ip ? hashIp(origin.ip) : undefined,
+    userAgent: origin.userAgent?.slice(0, 512) || undefined,
+  };
+  await getLeadStore().save(lead);
+  return lead;
+}
@@ -0,0 +1,77 @@
+/* =========================
+ * Fixed-window rate limiter (per key, in-memory)
+ * =======================*/
+// Survives HMR in dev the same way the content caches do. On multi-instance
+// deployments each instance keeps its own window, which is acceptable for
+// spam throttling (not for billing-grade quotas).
+
+type Bucket = { count: number; resetAt: number };
+type Store = { buckets: Map<string, Bucket>; sweptAt: number };
+
+const _g = globalThis as any;
+if (!_g.__LEADS_RATE_LIMIT__)
+  _g.__LEADS_RATE_LIMIT__ = { buckets: new Map(), sweptAt: 0 } as Store;
+const STORE: Store = _g.__LEADS_RATE_LIMIT__;
+
+export type RateLimitResult = {
+  allowed: boolean;
+  remaining: number;
+  /** Seconds until the current window resets */
+  retryAfter: number;
+};
+
+/** Drop expired buckets at most once per minute so the map can't grow unbounded. */
+function sweep(now: number) {
+  if (now - STORE.sweptAt < 60_000) return;
+  STORE.sweptAt = now;
+  for (const [k, b] of STORE.buckets) if (b.resetAt <= now) STORE.buckets.delete(k);
+}
+
+type RateLimitOptions = { limit?: number; windowMs?: number };
+
+function check(
+  key: string,
+  { limit = 5, windowMs = 10 * 60_000 }: RateLimitOptions,
+  cost: number,
+): RateLimitResult {
+  const now = Date.now();
+  sweep(now);
+
+  let bucket = STORE.buckets.get(key);
+  if (!bucket || bucket.resetAt <= now) {
+    bucket = { count: 0, resetAt: now + windowMs };
+    STORE.buckets.set(key, bucket);
+  }
+  bucket.count += cost;
+
+  // A peek is allowed while there is room for one more request
+  const used = bucket.count + (cost ? 0 : 1);
+  return {
+    allowed: used <= limit,
+    remaining: Math.max(0, limit - bucket.count),
+    retryAfter: Math.max(1, Math.ceil((bucket.resetAt - now) / 1000)),
+  };
+}
+
+/** Count one request against `key` and report whether it is within the limit. */
+export function rateLimit(
+  key: string,
+  options: RateLimitOptions = {},
+): RateLimitResult {
+  return check(key, options, 1);
+}
+
+/** Whether one more request would be within the limit, without counting it. */
+export function peekRateLimit(
+  key: string,
+  options: RateLimitOptions = {},
+): RateLimitResult {
+  return check(key, options, 0);
+}
+
+/** Best-effort client IP behind Vercel / reverse proxies. */
+export function clientIp(headers: Headers): string {
+  const fwd = headers.get("x-forwarded-for");
+  if (fwd) return fwd.split(",")[0].trim();
+  return headers.get("x-real-ip")?.trim() || "unknown";
+}
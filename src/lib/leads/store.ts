@@ -0,0 +1,73 @@
+import "server-only";
+import fs from "node:fs/promises";
+import path from "node:path";
+import type { Lead, LeadStore } from "./types";
+
+/* =========================
+ * Adapters
+ * =======================*/
+
+/**
+ * Appends one JSON object per line (JSONL). Appends are serialized through a
+ * promise chain so concurrent requests never interleave partial lines.
+ */
+export function createJsonFileStore(file: string): LeadStore {
+  let queue: Promise<void> = Promise.resolve();
+  return {
+    name: "json-file",
+    save(lead) {
+      const run = async () => {
+        await fs.mkdir(path.dirname(file), { recursive: true });
+        await fs.appendFile(file, JSON.stringify(lead) + "\n", "utf8");
+      };
+      const next = queue.then(run, run);
+      queue = next.catch(() => undefined);
+      return next;
+    },
+  };
+}
+
+/**
+ * Read-only filesystems (e.g. serverless previews): log that a lead arrived
+ * instead of writing it. Only the id and time reach the logs; the contact
+ * details are not kept anywhere, so plug in a real store for production.
+ */
+export function createConsoleStore(): LeadStore {
+  return {
+    name: "console",
+    async save(lead) {
+      // No name, email, phone or message in server logs
+      console.info(
+        "[leads] new inquiry",
+        JSON.stringify({ id: lead.id, createdAt: lead.createdAt }),
+      );
+    },
+  };
+}
+
+/* =========================
+ * Resolution
+ * =======================*/
+const DEFAULT_FILE = path.join(process.cwd(), ".data", "leads.jsonl");
+
+const _g = globalThis as any;
+
+/**
+ * Picks the adapter from `LEADS_STORE` ("file" | "console"; default "file").
+ * `LEADS_FILE` overrides the JSONL path. Call `setLeadStore` to plug in a
+ * CRM/database adapter without touching the route handler.
+ */
+export function getLeadStore(): LeadStore {
+  if (_g.__LEADS_STORE__) return _g.__LEADS_STORE__ as LeadStore;
+  const kind = (process.env.LEADS_STORE || "file").toLowerCase();
+  const store =
+    kind === "console"
+      ? createConsoleStore()
+      : createJsonFileStore(process.env.LEADS_FILE || DEFAULT_FILE);
+  _g.__LEADS_STORE__ = store;
+  return store;
+}
+
+export function setLeadStore(store: LeadStore) {
+  _g.__LEADS_STORE__ = store;
+}
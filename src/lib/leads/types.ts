@@ -0,0 +1,32 @@
+import type { ContactVariant, LeadContext } from "@/types/contact";
+
+/** A validated, normalized inquiry ready to be persisted */
+export type LeadInput = {
+  name: string;
+  phone: string;
+  email?: string;
+  message?: string;
+  consent: boolean;
+  variant: ContactVariant;
+  page?: string;
+  referrer?: string;
+  /** What the visitor did before asking (see src/lib/leadContext.ts) */
+  context?: LeadContext;
+};
+
+export type Lead = LeadInput & {
+  id: string;
+  createdAt: string; // ISO
+  /** sha256 of the client IP (never stored in clear) */
+  ipHash?: string;
+  userAgent?: string;
+};
+
+/**
+ * Persistence adapter. Implementations must be safe to call concurrently
+ * from multiple requests in the same process.
+ */
+export interface LeadStore {
+  readonly name: string;
+  save(lead: Lead): Promise<void>;
+}
@@ -0,0 +1,195 @@
+import { validateEmail } from "@/utils/validateEmail";
+import {
+  UTM_KEYS,
+  type ContactFieldErrors,
+  type ContactVariant,
+  type LeadContext,
+} from "@/types/contact";
+import type { LeadInput } from "./types";
+
+/* =========================
+ * Limits (kept in sync with <ContactForm />)
+ * =======================*/
+export const LIMITS = {
+  nameMin: 2,
+  nameMax: 120,
+  phoneMax: 32,
+  emailMax: 254,
+  messageMin: 10,
+  messageMax: 1000,
+  urlMax: 2048,
+  contextText: 200,
+} as const;
+
+export const PHONE_RE = /^[0-9+()\-\s]{7,}$/;
+
+const str = (v: unknown): string =>
+  typeof v === "string" ? v.trim() : typeof v === "number" ? String(v) : "";
+
+const truthy = (v: unknown) =>
+  v === true || v === "yes" || v === "on" || v === "true";
+
+/* =========================
+ * Lead context (client-reported, so untrusted)
+ * =======================*/
+const text = (v: unknown, max: number = LIMITS.contextText) =>
+  str(v).slice(0, max) || undefined;
+
+const num = (v: unknown) =>
+  typeof v === "number" && Number.isFinite(v) ? v : undefined;
+
+const obj = (v: unknown): Record<string, unknown> | undefined =>
+  v && typeof v === "object" && !Array.isArray(v)
+    ? (v as Record<string, unknown>)
+    : undefined;
+
+/** Drop undefined keys; `undefined` when nothing is left. */
+function compact<T extends object>(o: T): T | undefined {
+  const entries = Object.entries(o).filter(([, v]) => v !== undefined);
+  return entries.length ? (Object.fromEntries(entries) as T) : undefined;
+}
+
+/**
+ * Whitelist the known slices and fields, truncate strings and drop
+ * anything non-numeric where a number is expected. Slices missing their
+ * required fields are dropped rather than failing the inquiry.
+ */
+export function sanitizeLeadContext(v: unknown): LeadContext | undefined {
+  const c = obj(v);
+  if (!c) return undefined;
+
+  const p = obj(c.program);
+  const program =
+    p && text(p.vertical) && text(p.country) && text(p.program)
+      ? {
+          vertical: text(p.vertical)!,
+          country: text(p.country)!,
+          program: text(p.program)!,
+          title: text(p.title),
+        }
+      : undefined;
+
+  const e = obj(c.estimate);
+  const estimate =
+    e && /^[A-Z]{3}$/.test(str(e.currency)) && num(e.oneOff) !== undefined
+      ? {
+          currency: str(e.currency),
+          oneOff: num(e.oneOff)!,
+          annual: num(e.annual),
+          household: text(e.household),
+          option: text(e.option),
+          page: text(e.page, LIMITS.urlMax),
+        }
+      : undefined;
+
+  const q = obj(c.eligibility);
+  const eligibility =
+    q &&
+    text(q.verdict) &&
+    num(q.yes) !== undefined &&
+    num(q.total) !== undefined
+      ? {
+          verdict: text(q.verdict)!,
+          positive: q.positive === true,
+          yes: num(q.yes)!,
+          total: num(q.total)!,
+          title: text(q.title),
+          page: text(q.page, LIMITS.urlMax),
+        }
+      : undefined;
+
+  const k = obj(c.consultation);
+  const consultation =
+    k && text(k.option)
+      ? { option: text(k.option)!, price: text(k.price) }
+      : undefined;
+
+  const a = obj(c.attribution);
+  const u = obj(a?.utm);
+  const attribution = a
+    ? compact({
+        utm: u
+          ? compact(
+              Object.fromEntries(UTM_KEYS.map((key) => [key, text(u[key])])),
+            )
+          : undefined,
+        landingPage: text(a.landingPage, LIMITS.urlMax),
+        referrer: text(a.referrer, LIMITS.urlMax),
+        at: text(a.at, 40),
+      })
+    : undefined;
+
+  return compact({
+    program: program && compact(program),
+    estimate: estimate && compact(estimate),
+    eligibility: eligibility && compact(eligibility),
+    consultation: consultation && compact(consultation),
+    attribution,
+  });
+}
+
+export type ValidationResult =
+  { ok: true; data: LeadInput } | { ok: false; fields: ContactFieldErrors };
+
+/**
+ * Server-side schema for /api/contact.
+ * "quick" callbacks only need name + phone; "full" inquiries also require
+ * email, a message and explicit consent.
+ */
+export function validateContact(
+  body: Record<string, unknown>,
+): ValidationResult {
+  const variant: ContactVariant = body.variant === "quick" ? "quick" : "full";
+  const isFull = variant === "full";
+
+  const name = str(body.name);
+  const phone = str(body.phone);
+  const email = str(body.email).toLowerCase();
+  const message = str(body.message);
+  const consent = truthy(body.consent);
+
+  const fields: ContactFieldErrors = {};
+
+  if (name.length < LIMITS.nameMin)
+    fields.name = "Please enter at least 2 characters.";
+  else if (name.length > LIMITS.nameMax)
+    fields.name = `Please keep your name under ${LIMITS.nameMax} characters.`;
+
+  if (!PHONE_RE.test(phone) || phone.length > LIMITS.phoneMax)
+    fields.phone = "Enter a valid phone number (digits, +, -, () allowed).";
+
+  if (isFull || email) {
+    if (!email || email.length > LIMITS.emailMax || !validateEmail(email))
+      fields.email = "Enter a valid email.";
+  }
+
+  if (isFull) {
+    if (message.length < LIMITS.messageMin)
+      fields.message = "Please add at least 10 characters.";
+    else if (message.length > LIMITS.messageMax)
+      fields.message = `Please keep your message under ${LIMITS.messageMax} characters.`;
+    if (!consent) fields.consent = "Please agree to be contacted.";
+  }
+
+  if (Object.keys(fields).length) return { ok: false, fields };
+
+  return {
+    ok: true,
+    data: {
+      name,
+      phone,
+      email: email || undefined,
+      message: message || undefined,
+      consent,
+      variant,
+      page: str(body.page).slice(0, LIMITS.urlMax) || undefined,
+      referrer: str(body.referrer).slice(0, LIMITS.urlMax) || undefined,
+      context: sanitizeLeadContext(body.context),
+    },
+  };
+}
+
+/** Bots fill every input; humans never see the hidden `company` field. */
+export function isHoneypotTripped(body: Record<string, unknown>) {
+  return str(body.company).length > 0;
+}
@@ -0,0 +1,132 @@
+// src/lib/points/engine.ts
+// Scores answers against a points table: per-factor points, capped group
+// subtotals and the total. Pure — used by the calculator (client) and table
+// validation (server).
+import { evaluate, compileRule, test, type Scope } from "@/lib/eligibility/dsl";
+import type {
+  PointsAnswers,
+  PointsCutoff,
+  PointsFactor,
+  PointsGroup,
+  PointsTable,
+} from "@/lib/points/types";
+
+const isBlank = (v: unknown) =>
+  v === undefined ||
+  v === null ||
+  v === "" ||
+  (typeof v === "number" && !Number.isFinite(v));
+
+/** Visible inputs' answers plus `derived` helpers, in declaration order. */
+export function buildScope(table: PointsTable, answers: PointsAnswers) {
+  const scope: Scope = {};
+  const visible = table.inputs.filter((input) => {
+    if (!test(input.showIf, scope)) return false;
+    if (!isBlank(answers[input.id])) scope[input.id] = answers[input.id];
+    return true;
+  });
+  for (const [id, rule] of Object.entries(table.derived ?? {})) {
+    scope[id] = evaluate(compileRule(rule), scope);
+  }
+  return { scope, visible };
+}
+
+function lookup(f: PointsFactor, value: unknown): number {
+  if (isBlank(value)) return 0;
+  if (f.points) return f.points[String(value)] ?? 0;
+  if (f.bands && typeof value === "number") {
+    let best: { min: number; points: number } | undefined;
+    for (const b of f.bands)
+      if (value >= b.min && (!best || b.min > best.min)) best = b;
+    return best?.points ?? 0;
+  }
+  return 0;
+}
+
+/** Points for one factor, or null when its `when` rule doesn't hold. */
+export function factorPoints(f: PointsFactor, scope: Scope): number | null {
+  if (!test(f.when, scope)) return null;
+  const sum = f.rules
+    ? (f.rules.find((r) => test(r.when, scope))?.points ?? 0)
+    : [f.input ?? []]
+        .flat()
+        .reduce<number>((acc, id) => acc + lookup(f, scope[id]), 0);
+  return f.cap !== undefined ? Math.min(sum, f.cap) : sum;
+}
+
+export type PointsLine = { factor: PointsFactor; points: number };
+export type GroupTotal = {
+  group: PointsGroup;
+  /** Sum before the cap */
+  raw: number;
+  points: number;
+  lines: PointsLine[];
+};
+
+export type PointsResult = {
+  total: number;
+  lines: PointsLine[];
+  groups: GroupTotal[];
+  warnings: string[];
+  passMark?: number;
+};
+
+export function scorePoints(
+  table: PointsTable,
+  answers: PointsAnswers,
+): PointsResult {
+  const { scope } = buildScope(table, answers);
+
+  const lines: PointsLine[] = [];
+  for (const factor of table.factors) {
+    const points = factorPoints(factor, scope);
+    if (points !== null) lines.push({ factor, points });
+  }
+
+  // Groups cap their own lines plus nested groups' capped totals.
+  const groups = table.groups ?? [];
+  const totals = new Map<string, GroupTotal>();
+  const groupTotal = (g: PointsGroup): GroupTotal => {
+    const hit = totals.get(g.id);
+    if (hit) return hit;
+    const own = lines.filter((l) => l.factor.group === g.id);
+    const raw =
+      own.reduce((s, l) => s + l.points, 0) +
+      groups
+        .filter((c) => c.parent === g.id)
+        .reduce((s, c) => s + groupTotal(c).points, 0);
+    const out = {
+      group: g,
+      raw,
+      points: g.cap !== undefined ? Math.min(raw, g.cap) : raw,
+      lines: own,
+    };
+    totals.set(g.id, out);
+    return out;
+  };
+
+  const grouped = new Set(groups.map((g) => g.id));
+  let total =
+    groups
+      .filter((g) => !g.parent)
+      .reduce((s, g) => s + groupTotal(g).points, 0) +
+    lines
+      .filter((l) => !l.factor.group || !grouped.has(l.factor.group))
+      .reduce((s, l) => s + l.points, 0);
+  if (table.max !== undefined) total = Math.min(total, table.max);
+
+  return {
+    total,
+    lines,
+    groups: groups.map(groupTotal),
+    warnings: (table.checks ?? [])
+      .filter((c) => test(c.when, scope))
+      .map((c) => c.message),
+    passMark: table.passMark,
+  };
+}
+
+/** Distance to a cut-off: positive when the score clears it. */
+export function cutoffGap(total: number, cutoff?: PointsCutoff) {
+  return cutoff ? total - cutoff.score : undefined;
+}
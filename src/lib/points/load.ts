@@ -0,0 +1,159 @@
+// src/lib/points/load.ts
+// Reads versioned points tables from content/skilled/<country>/_points/ and
+// validates them up front, so a broken rule fails the page rather than
+// silently scoring 0.
+import "server-only";
+
+import fs from "node:fs";
+import path from "node:path";
+import { compileRule, ruleVariables } from "@/lib/eligibility/dsl";
+import type { PointsTable } from "@/lib/points/types";
+
+const ROOT = path.join(process.cwd(), "content", "skilled");
+
+export class PointsTableError extends Error {
+  constructor(
+    public readonly file: string,
+    public readonly issues: string[],
+  ) {
+    super(`Invalid points table ${file}:\n  ${issues.join("\n  ")}`);
+    this.name = "PointsTableError";
+  }
+}
+
+/* =========================
+ * Cache (keyed by file mtime)
+ * =======================*/
+type Entry = { mtime: number; table: PointsTable };
+const _g = globalThis as any;
+if (!_g.__POINTS_CACHE__) _g.__POINTS_CACHE__ = new Map<string, Entry>();
+const CACHE: Map<string, Entry> = _g.__POINTS_CACHE__;
+
+function tableFiles(): string[] {
+  if (!fs.existsSync(ROOT)) return [];
+  const out: string[] = [];
+  for (const c of fs.readdirSync(ROOT, { withFileTypes: true })) {
+    if (!c.isDirectory()) continue;
+    const dir = path.join(ROOT, c.name, "_points");
+    if (!fs.existsSync(dir)) continue;
+    for (const f of fs.readdirSync(dir))
+      if (f.endsWith(".json")) out.push(path.join(dir, f));
+  }
+  return out;
+}
+
+/* =========================
+ * Validation
+ * =======================*/
+function validate(t: PointsTable): string[] {
+  const issues: string[] = [];
+  for (const key of ["system", "version", "effectiveFrom", "title"] as const)
+    if (typeof t[key] !== "string" || !t[key]) issues.push(`${key}: required`);
+  if (!Array.isArray(t.inputs) || !t.inputs.length)
+    issues.push("inputs: at least one input is required");
+  if (!Array.isArray(t.factors) || !t.factors.length)
+    issues.push("factors: at least one factor is required");
+
+  const known = new Set<string>();
+  const checkRule = (where: string, src: unknown) => {
+    if (src === undefined) return;
+    if (typeof src !== "string") {
+      issues.push(`${where}: rule must be a string`);
+      return;
+    }
+    try {
+      for (const v of ruleVariables(compileRule(src)))
+        if (!known.has(v)) issues.push(`${where}: unknown input "${v}"`);
+    } catch (err) {
+      issues.push(`${where}: ${(err as Error).message}`);
+    }
+  };
+
+  // showIf may only look at earlier inputs.
+  (t.inputs ?? []).forEach((input, i) => {
+    const at = `inputs[${i}] (${input.id})`;
+    checkRule(`${at}.showIf`, input.showIf);
+    if (known.has(input.id)) issues.push(`${at}: duplicate input id`);
+    if (input.type === "select" && !input.options?.length)
+      issues.push(`${at}: select needs options`);
+    known.add(input.id);
+  });
+  for (const [id, rule] of Object.entries(t.derived ?? {})) {
+    checkRule(`derived.${id}`, rule);
+    known.add(id);
+  }
+
+  const groups = new Set((t.groups ?? []).map((g) => g.id));
+  (t.groups ?? []).forEach((g, i) => {
+    if (g.parent && !groups.has(g.parent))
+      issues.push(`groups[${i}] (${g.id}): unknown parent "${g.parent}"`);
+  });
+
+  const seen = new Set<string>();
+  (t.factors ?? []).forEach((f, i) => {
+    const at = `factors[${i}] (${f.id})`;
+    if (seen.has(f.id)) issues.push(`${at}: duplicate factor id`);
+    seen.add(f.id);
+    checkRule(`${at}.when`, f.when);
+    if (f.group && !groups.has(f.group))
+      issues.push(`${at}: unknown group "${f.group}"`);
+    const kinds = [f.points, f.bands, f.rules].filter(Boolean).length;
+    if (kinds !== 1)
+      issues.push(`${at}: needs exactly one of points, bands or rules`);
+    if ((f.points || f.bands) && f.input === undefined)
+      issues.push(`${at}: points/bands need an input`);
+    for (const id of [f.input ?? []].flat())
+      if (!known.has(id)) issues.push(`${at}: unknown input "${id}"`);
+    (f.rules ?? []).forEach((r, j) => checkRule(`${at}.rules[${j}]`, r.when));
+  });
+
+  (t.checks ?? []).forEach((c, i) => checkRule(`checks[${i}]`, c.when));
+  return issues;
+}
+
+function readTable(file: string): PointsTable {
+  const mtime = fs.statSync(file).mtimeMs;
+  const hit = CACHE.get(file);
+  if (hit && hit.mtime === mtime) return hit.table;
+
+  const rel = path.relative(process.cwd(), file);
+  let table: PointsTable;
+  try {
+    table = JSON.parse(fs.readFileSync(file, "utf8")) as PointsTable;
+  } catch (err) {
+    throw new PointsTableError(rel, [(err as Error).message]);
+  }
+  const issues = validate(table);
+  if (issues.length) throw new PointsTableError(rel, issues);
+  CACHE.set(file, { mtime, table });
+  return table;
+}
+
+/* =========================
+ * Public API
+ * =======================*/
+/** Every table version on disk, newest first within each system. */
+export function listPointsTables(): PointsTable[] {
+  return tableFiles()
+    .map(readTable)
+    .sort(
+      (a, b) =>
+        a.system.localeCompare(b.system) ||
+        b.effectiveFrom.localeCompare(a.effectiveFrom),
+    );
+}
+
+/**
+ * The table for `system` in force on `asOf` (default today), or a pinned
+ * `version`. Null when nothing matches.
+ */
+export function loadPointsTable(
+  system: string,
+  opts: { version?: string; asOf?: string } = {},
+): PointsTable | null {
+  const asOf = opts.asOf ?? new Date().toISOString().slice(0, 10);
+  const versions = listPointsTables().filter((t) => t.system === system);
+  if (opts.version)
+    return versions.find((t) => t.version === opts.version) ?? null;
+  return versions.find((t) => t.effectiveFrom <= asOf) ?? null;
+}
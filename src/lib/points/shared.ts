@@ -0,0 +1,27 @@
+// src/lib/points/shared.ts
+// Lets other widgets on the page (e.g. RoundsChart) follow the visitor's
+// calculated score: the calculator publishes its total per points system.
+
+export const POINTS_TOTAL_EVENT = "points:total";
+
+const key = (system: string) => `points:${system}:total`;
+
+export function publishPointsTotal(system: string, total: number) {
+  try {
+    sessionStorage.setItem(key(system), String(total));
+  } catch {
+    /* ignore */
+  }
+  window.dispatchEvent(
+    new CustomEvent(POINTS_TOTAL_EVENT, { detail: { system, total } }),
+  );
+}
+
+export function readPointsTotal(system: string): number | undefined {
+  try {
+    const raw = sessionStorage.getItem(key(system));
+    return raw === null ? undefined : Number(raw);
+  } catch {
+    return undefined;
+  }
+}
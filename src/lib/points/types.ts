@@ -0,0 +1,79 @@
+// src/lib/points/types.ts
+// Versioned points-test tables (content/skilled/<country>/_points/*.json).
+// `when`, `showIf` and `derived` values are rules in the eligibility DSL
+// (src/lib/eligibility/dsl.ts), evaluated against the calculator inputs.
+
+export type PointsInputOption = { value: string | number; label: string };
+
+export type PointsInput = {
+  id: string;
+  label: string;
+  type: "number" | "select" | "boolean";
+  options?: PointsInputOption[];
+  min?: number;
+  max?: number;
+  unit?: string;
+  help?: string;
+  showIf?: string;
+};
+
+/** Numeric band: the highest `min` not above the answer applies. */
+export type PointsBand = { min: number; points: number };
+
+/**
+ * One scored line. Exactly one of `points` (lookup by answer), `bands`
+ * (numeric ranges) or `rules` (first matching rule) decides the value.
+ * With several inputs the lookup runs per input and the results are summed
+ * (e.g. four language abilities).
+ */
+export type PointsFactor = {
+  id: string;
+  label: string;
+  group?: string;
+  /** Factor only counts while this rule holds (e.g. "has_spouse") */
+  when?: string;
+  input?: string | string[];
+  points?: Record<string, number>;
+  bands?: PointsBand[];
+  rules?: { when: string; points: number }[];
+  cap?: number;
+};
+
+/** Groups cap their members' sum; `parent` nests caps (CRS transferability). */
+export type PointsGroup = {
+  id: string;
+  label: string;
+  cap?: number;
+  parent?: string;
+};
+
+export type PointsTable = {
+  /** Stable id used by embeds, e.g. "gsm", "crs" */
+  system: string;
+  version: string;
+  /** ISO date the table applies from; the newest effective one is used */
+  effectiveFrom: string;
+  title: string;
+  country: string;
+  passMark?: number;
+  max?: number;
+  sourceLabel?: string;
+  sourceUrl?: string;
+  inputs: PointsInput[];
+  /** Helper values computed from inputs, e.g. { "clb_min": "min(...)" } */
+  derived?: Record<string, string>;
+  groups?: PointsGroup[];
+  factors: PointsFactor[];
+  /** Warnings shown while a rule holds, e.g. over the age limit */
+  checks?: { when: string; message: string }[];
+};
+
+/** Latest invitation round a score is measured against. */
+export type PointsCutoff = {
+  score: number;
+  date: string;
+  label?: string;
+  sourceUrl?: string;
+};
+
+export type PointsAnswers = Record<string, unknown>;
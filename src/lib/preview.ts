@@ -0,0 +1,47 @@
+// src/lib/preview.ts
+// Draft previews. An editor opens /api/preview?token=…&path=/citizenship/grenada/ntf,
+// which turns on Next's draft mode for their browser only: draft pages then
+// render (under a "Preview" banner) instead of 404ing — as do items scheduled
+// for later or hidden on expiry. None of them reach listings, sitemaps or the
+// search index regardless.
+import "server-only";
+import crypto from "node:crypto";
+import { draftMode } from "next/headers";
+import { notFound } from "next/navigation";
+import { scheduleState, type ScheduleMeta } from "@/lib/content/schedule";
+
+/** PREVIEW_TOKEN must match; without one configured, previews are dev-only. */
+export function previewTokenValid(token?: string | null) {
+  const expected = process.env.PREVIEW_TOKEN;
+  if (!expected) return process.env.NODE_ENV !== "production";
+  const a = Buffer.from(token ?? "");
+  const b = Buffer.from(expected);
+  return a.length === b.length && crypto.timingSafeEqual(a, b);
+}
+
+/** Same-site path to land on ("/…" but not "//host"), else undefined. */
+export function previewPath(value?: string | null) {
+  return value && /^\/(?!\/)[^\s\\]*$/.test(value) ? value : undefined;
+}
+
+/** Is this request in draft mode? False outside a request (static params). */
+export async function isPreview() {
+  try {
+    return (await draftMode()).isEnabled;
+  } catch {
+    return false;
+  }
+}
+
+/** Drafts, not-yet-published and hidden-on-expiry items, i.e. preview-only */
+export function isUnpublished(meta: { draft?: boolean } & ScheduleMeta) {
+  const state = scheduleState(meta);
+  return !!meta.draft || state === "scheduled" || state === "hidden";
+}
+
+/** 404 for an unpublished item unless the visitor is previewing. */
+export async function assertPublished(
+  meta?: ({ draft?: boolean } & ScheduleMeta) | null,
+) {
+  if (meta && isUnpublished(meta) && !(await isPreview())) notFound();
+}
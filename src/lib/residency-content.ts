@@ -1,466 +1,59 @@
 // src/lib/residency-content.ts
 import "server-only";
-import fs from "node:fs";
-import path from "node:path";
-import matter from "gray-matter";
-import { compileMDX } from "next-mdx-remote/rsc";
-import remarkGfm from "remark-gfm";
-import rehypeSlug from "rehype-slug";
-import rehypeAutolinkHeadings from "rehype-autolink-headings";
-import type { ReactNode } from "react";
+import type { CountryMetaFor, ProgramMetaFor } from "@/lib/content/schema";
+import { createVerticalLoader } from "@/lib/content/vertical";
 
 /* =========================
  * Types (compatible superset of your current usage)
  * =======================*/
-export type CountryMeta = {
-  title: string;
-  category: "residency";
-  country: string;
-  countrySlug: string;
-  summary?: string;
-  tagline?: string;
-  heroImage?: string;
-  heroVideo?: string;
-  heroPoster?: string;
-  introPoints?: string[];
-  tags?: string[];
-  seo?: { title?: string; description?: string; keywords?: string[] };
-  draft?: boolean;
-};
-
-export type Step = { title: string; description?: string };
-
-export type PriceRow = {
-  label: string;
-  amount?: number;
-  currency?: "USD" | "EUR" | "AED" | "INR" | "CAD" | "GBP";
-  when?: string;
-  notes?: string;
-};
-
-export type ProofOfFundsRow = {
-  label?: string;
-  amount: number;
-  currency?: "USD" | "EUR" | "AED" | "INR" | "CAD" | "GBP";
-  notes?: string;
-};
-
-export type QuickCheckConfig = {
-  title?: string;
-  questions?: {
-    id: string;
-    label: string;
-    type: "boolean" | "select" | "number" | "text";
-    options?: string[];
-  }[];
-};
-
-export type ProgramMeta = {
-  title: string;
-  category: "residency";
-  country: string;
-  countrySlug: string;
-  programSlug: string;
-  tagline?: string;
-  minInvestment?: number;
-  currency?: "USD" | "EUR" | "AED" | "INR" | "CAD" | "GBP";
-  timelineMonths?: number;
-  tags?: string[];
-  benefits?: string[];
-  requirements?: string[];
-  processSteps?: Step[];
-  faq?: { q: string; a: string }[];
-  brochure?: string;
-  prices?: PriceRow[];
-  proofOfFunds?: ProofOfFundsRow[];
-  disqualifiers?: string[];
-  quickCheck?: QuickCheckConfig;
-  heroImage?: string;
-  heroVideo?: string;
-  heroPoster?: string;
-  seo?: { title?: string; description?: string; keywords?: string[] };
-  draft?: boolean;
-};
-
-/** Sections map returned by loadProgramPageSections */
-export type ProgramSections = Record<string, ReactNode>;
-
-/* =========================
- * Constants & tiny utils
- * =======================*/
-const ROOT = path.join(process.cwd(), "content", "residency");
-
-const exists = (p: string) => {
-  try {
-    fs.accessSync(p);
-    return true;
-  } catch {
-    return false;
-  }
-};
-
-const toTitle = (slug: string) =>
-  slug
-    .split("-")
-    .map((s) => (s ? s.charAt(0).toUpperCase() + s.slice(1) : s))
-    .join(" ");
-
-const coerceNum = (v: unknown): number | undefined => {
-  if (typeof v === "number") return v;
-  if (typeof v === "string" && v.trim() !== "" && !isNaN(Number(v)))
-    return Number(v);
-  return undefined;
-};
-
-/** MDX options — NOTE: no `as const` so arrays aren't readonly */
-const baseMdxOptions = {
-  remarkPlugins: [remarkGfm],
-  rehypePlugins: [rehypeSlug, [rehypeAutolinkHeadings, { behavior: "wrap" }]],
-};
-
-/** slugify section titles, e.g. "Why Choose Us?" -> "why-choose-us" */
-function slugify(h: string) {
-  return h
-    .toLowerCase()
-    .replace(/&/g, "and")
-    .replace(/[^\w\s-]/g, "")
-    .trim()
-    .replace(/\s+/g, "-");
-}
-
-/** Split MDX body by top-level `###` headings.
- *  - Keeps the `<h3>` line in each part so headings still render.
- *  - Deduplicates equal headings by suffixing `-2`, `-3`, ...
- **/
-function splitByH3(md: string): Record<string, string> {
-  const lines = md.split(/\r?\n/);
-  const out: Record<string, string> = {};
-  let current: string | null = null;
-  let buf: string[] = [];
-  const counts = new Map<string, number>();
-
-  const nextKey = (base: string) => {
-    const n = (counts.get(base) || 0) + 1;
-    counts.set(base, n);
-    return n === 1 ? base : `${base}-${n}`;
-  };
-
-  const flush = () => {
-    if (current) out[current] = buf.join("\n").trim();
-    buf = [];
-  };
-
-  for (const line of lines) {
-    const m = /^###\s+(.+?)\s*$/.exec(line);
-    if (m) {
-      flush();
-      current = nextKey(slugify(m[1]));
-      buf.push(line);
-    } else {
-      if (!current) {
-        current = nextKey("overview");
-        buf.push("### Overview");
-      }
-      buf.push(line);
-    }
-  }
-  flush();
-  return out;
-}
-
-/* =========================
- * Lightweight in-memory cache (dev-friendly)
- * =======================*/
-type Cache = {
-  countries?: CountryMeta[];
-  programsAll?: ProgramMeta[];
-  mtimes?: Map<string, number>;
-};
-const _g = globalThis as any;
-if (!_g.__RESIDENCY_CACHE__)
-  _g.__RESIDENCY_CACHE__ = { mtimes: new Map() } as Cache;
-const CACHE: Cache = _g.__RESIDENCY_CACHE__;
-
-function mtime(file: string) {
-  try {
-    return fs.statSync(file).mtimeMs;
-  } catch {
-    return 0;
-  }
-}
-function touchCacheForDir(dir: string) {
-  if (!exists(dir)) return 0;
-  let max = 0;
-  for (const name of fs.readdirSync(dir)) {
-    const full = path.join(dir, name);
-    const t = mtime(full);
-    if (t > max) max = t;
-  }
-  return max;
-}
+export type CountryMeta = CountryMetaFor<"residency">;
+export type ProgramMeta = ProgramMetaFor<"residency">;
+export type {
+  Step,
+  PriceRow,
+  ProofOfFundsRow,
+  QuickCheckConfig,
+} from "@/lib/content/schema";
+export type { ProgramSections } from "@/lib/content/vertical";
 
 /* =========================
  * Normalizers
  * =======================*/
-function normalizeCountry(
-  meta: Partial<CountryMeta>,
-  slug: string,
-): CountryMeta {
-  const countrySlug = meta.countrySlug || slug;
-  const country = meta.country || meta.title || toTitle(countrySlug);
-  const title =
-    meta.title ||
-    (typeof country === "string" ? country : toTitle(countrySlug));
-  const heroImage = meta.heroImage || `/images/${countrySlug}.jpg`;
-  return {
-    ...meta,
-    title: String(title),
-    country: String(country),
-    countrySlug: String(countrySlug),
-    heroImage: String(heroImage),
-    category: "residency",
-  } as CountryMeta;
-}
-
-function normalizeProgram(
-  metaIn: Partial<ProgramMeta>,
-  cSlug: string,
-  pSlug: string,
-): ProgramMeta {
-  const meta: any = { ...metaIn };
-  meta.programSlug = meta.programSlug || pSlug;
-  meta.countrySlug = meta.countrySlug || cSlug;
-  meta.category = "residency";
-  if (meta.minInvestment !== undefined)
-    meta.minInvestment = coerceNum(meta.minInvestment);
-  if (meta.timelineMonths !== undefined)
-    meta.timelineMonths = coerceNum(meta.timelineMonths);
+const loader = createVerticalLoader({
+  vertical: "residency",
 
-  if (Array.isArray(meta.prices)) {
-    meta.prices = meta.prices.map((row: any) => ({
-      ...row,
-      amount: coerceNum(row?.amount),
-    }));
-  }
-  if (Array.isArray(meta.proofOfFunds)) {
-    meta.proofOfFunds = meta.proofOfFunds.map((row: any) => ({
-      ...row,
-      amount: coerceNum(row?.amount) ?? 0,
-    }));
-  }
-
-  return meta as ProgramMeta;
-}
+  country(meta, countrySlug) {
+    meta.heroImage = String(meta.heroImage || `/images/${countrySlug}.jpg`);
+  },
+});
 
 /* =========================
  * Lists & slugs
  * =======================*/
-export function getResidencyCountrySlugs(): string[] {
-  if (!exists(ROOT)) return [];
-  const cacheKey = `${ROOT}::countries_dir_mtime`;
-  const dirMtime = touchCacheForDir(ROOT);
-  if (CACHE.countries && CACHE.mtimes?.get(cacheKey) === dirMtime) {
-    return CACHE.countries.map((c) => c.countrySlug);
-  }
-
-  const slugs = fs
-    .readdirSync(ROOT, { withFileTypes: true })
-    .filter((d) => d.isDirectory())
-    .map((d) => d.name);
-
-  CACHE.mtimes?.set(cacheKey, dirMtime);
-  return slugs;
-}
-
-export function getResidencyCountries(): CountryMeta[] {
-  const dirMtime = touchCacheForDir(ROOT);
-  const cacheKey = `${ROOT}::countries`;
-  const cacheStamp = `${ROOT}::countries_dir_mtime`;
-
-  if (CACHE.countries && CACHE.mtimes?.get(cacheStamp) === dirMtime) {
-    return CACHE.countries;
-  }
-
-  const out: CountryMeta[] = [];
-
-  for (const slug of getResidencyCountrySlugs()) {
-    const file = path.join(ROOT, slug, "_country.mdx");
-    if (!exists(file)) continue;
-
-    const { data } = matter(fs.readFileSync(file, "utf8"));
-    const meta = normalizeCountry(data as Partial<CountryMeta>, slug);
-    if (!meta.draft) out.push(meta);
-  }
-
-  const sorted = out.sort((a, b) => a.country.localeCompare(b.country));
-  CACHE.countries = sorted;
-  CACHE.mtimes?.set(cacheKey, Date.now());
-  CACHE.mtimes?.set(`${ROOT}::countries_dir_mtime`, dirMtime);
-  return sorted;
-}
-
-export function getResidencyProgramSlugs(countrySlug: string): string[] {
-  const dir = path.join(ROOT, countrySlug);
-  if (!exists(dir)) return [];
-  return fs
-    .readdirSync(dir)
-    .filter((n) => n.endsWith(".mdx") && n !== "_country.mdx")
-    .map((n) => n.replace(/\.mdx$/, ""));
-}
-
-export function getResidencyPrograms(countrySlug?: string): ProgramMeta[] {
-  // Use cache of all programs if no country filter
-  const dirMtime = touchCacheForDir(ROOT);
-  const cacheKey = `${ROOT}::programsAll`;
-  const cacheStamp = `${ROOT}::programs_dir_mtime`;
-
-  if (
-    !countrySlug &&
-    CACHE.programsAll &&
-    CACHE.mtimes?.get(cacheStamp) === dirMtime
-  ) {
-    return CACHE.programsAll;
-  }
-
-  const countries = countrySlug ? [countrySlug] : getResidencyCountrySlugs();
-  const out: ProgramMeta[] = [];
-
-  for (const c of countries) {
-    for (const p of getResidencyProgramSlugs(c)) {
-      const f = path.join(ROOT, c, `${p}.mdx`);
-      const { data } = matter(fs.readFileSync(f, "utf8"));
-      const meta = normalizeProgram(data as Partial<ProgramMeta>, c, p);
-      if (!meta?.draft) out.push(meta);
-    }
-  }
-
-  const sorted = out.sort((a, b) =>
-    (a.countrySlug + a.title).localeCompare(b.countrySlug + b.title),
-  );
-  if (!countrySlug) {
-    CACHE.programsAll = sorted;
-    CACHE.mtimes?.set(cacheKey, Date.now());
-    CACHE.mtimes?.set(cacheStamp, dirMtime);
-  }
-  return sorted;
-}
+export const getResidencyCountrySlugs = loader.countrySlugs;
+export const getResidencyCountries = loader.countries;
+export const getResidencyProgramSlugs = loader.programSlugs;
+export const getResidencyPrograms = loader.programs;
 
 /* =========================
  * Renderers
  * =======================*/
-export async function loadCountryPage(countrySlug: string) {
-  const f = path.join(ROOT, countrySlug, "_country.mdx");
-  const source = fs.readFileSync(f, "utf8");
-  const { content, frontmatter } = await compileMDX<CountryMeta>({
-    source,
-    options: {
-      parseFrontmatter: true,
-      mdxOptions: baseMdxOptions as any,
-    },
-  });
-
-  const meta = normalizeCountry(
-    frontmatter as Partial<CountryMeta>,
-    countrySlug,
-  );
-  return { content, meta };
-}
-
-export async function loadProgramPage(
-  countrySlug: string,
-  programSlug: string,
-) {
-  const f = path.join(ROOT, countrySlug, `${programSlug}.mdx`);
-  const source = fs.readFileSync(f, "utf8");
-  const { content, frontmatter } = await compileMDX<ProgramMeta>({
-    source,
-    options: {
-      parseFrontmatter: true,
-      mdxOptions: baseMdxOptions as any,
-    },
-  });
-
-  const meta = normalizeProgram(
-    frontmatter as Partial<ProgramMeta>,
-    countrySlug,
-    programSlug,
-  );
-  return { content, meta };
-}
-
-/* ========= Section-by-section renderer (non-breaking) ========= */
-export async function loadProgramPageSections(
-  countrySlug: string,
-  programSlug: string,
-): Promise<{ meta: ProgramMeta; sections: ProgramSections }> {
-  const f = path.join(ROOT, countrySlug, `${programSlug}.mdx`);
-  const raw = fs.readFileSync(f, "utf8");
-  const { data, content: body } = matter(raw);
-
-  const meta = normalizeProgram(
-    data as Partial<ProgramMeta>,
-    countrySlug,
-    programSlug,
-  );
-  const chunks = splitByH3(body);
-
-  const entries = await Promise.all(
-    Object.entries(chunks).map(async ([key, md]) => {
-      const { content } = await compileMDX({
-        source: md,
-        options: {
-          parseFrontmatter: false,
-          mdxOptions: baseMdxOptions as any,
-        },
-      });
-      return [key, content] as const;
-    }),
-  );
-
-  const sections = Object.fromEntries(entries) as ProgramSections;
-  return { meta, sections };
-}
+export const loadCountryPage = loader.loadCountryPage;
+export const loadProgramPage = loader.loadProgramPage;
+export const loadProgramPageSections = loader.loadProgramPageSections;
 
 /* =========================
  * Frontmatter-only helpers
  * =======================*/
-export function getProgramFrontmatter(
-  countrySlug: string,
-  programSlug: string,
-) {
-  const f = path.join(ROOT, countrySlug, `${programSlug}.mdx`);
-  const { data } = matter(fs.readFileSync(f, "utf8"));
-  return normalizeProgram(
-    data as Partial<ProgramMeta>,
-    countrySlug,
-    programSlug,
-  );
-}
-
-export function getCountryFrontmatter(countrySlug: string) {
-  const f = path.join(ROOT, countrySlug, "_country.mdx");
-  const { data } = matter(fs.readFileSync(f, "utf8"));
-  return normalizeCountry(data as Partial<CountryMeta>, countrySlug);
-}
+export const getProgramFrontmatter = loader.programFrontmatter;
+export const getCountryFrontmatter = loader.countryFrontmatter;
 
 /* =========================
  * Sitemap helper (no change)
  * =======================*/
-export function getResidencyUrls() {
-  const urls: { url: string }[] = [{ url: "/residency" }];
-  for (const c of getResidencyCountrySlugs()) {
-    urls.push({ url: `/residency/${c}` });
-    for (const p of getResidencyProgramSlugs(c)) {
-      urls.push({ url: `/residency/${c}/${p}` });
-    }
-  }
-  return urls;
-}
+export const getResidencyUrls = loader.urls;
 
 /* =========================
  * Dev helper
  * =======================*/
-export function invalidateResidencyContentCache() {
-  CACHE.countries = undefined;
-  CACHE.programsAll = undefined;
-}
+export const invalidateResidencyContentCache = loader.invalidate;
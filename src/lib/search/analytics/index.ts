@@ -0,0 +1,134 @@
+// src/lib/search/analytics/index.ts
+// Records what visitors search for and click, for the internal report at
+// /internal/search. Recording is best-effort: it never fails a search.
+import "server-only";
+import crypto from "node:crypto";
+import type {
+  SearchEvent,
+  SearchEventPayload,
+  SearchEventSource,
+} from "@/types/search";
+import { getSearchEventStore } from "./store";
+
+export type { SearchEventStore } from "./store";
+export {
+  getSearchEventStore,
+  setSearchEventStore,
+  createJsonFileStore,
+  createMemoryStore,
+  createNoopStore,
+} from "./store";
+export { buildSearchReport, type ReportOptions } from "./report";
+
+const MAX_QUERY_LENGTH = 100;
+const MAX_URL_LENGTH = 300;
+
+const EMAIL_RE = /[^\s@]+@[^\s@]+\.[^\s@]+/g;
+// 8+ digits with phone punctuation; budgets like "200000" or "1,000,000" survive
+const PHONE_RE = /\+?\d[\d\s().-]{6,}\d/g;
+
+/**
+ * Normalized, PII-scrubbed form of a query — case, spacing and Unicode
+ * variants collapse to one report row. Empty after scrubbing → undefined.
+ */
+export function anonymizeQuery(q: unknown): string | undefined {
+  if (typeof q !== "string") return undefined;
+  const s = q
+    .normalize("NFKC")
+    .toLowerCase()
+    .replace(EMAIL_RE, "[email]")
+    .replace(PHONE_RE, "[number]")
+    .replace(/\s+/g, " ")
+    .trim()
+    .slice(0, MAX_QUERY_LENGTH);
+  return s || undefined;
+}
+
+async function append(event: SearchEvent) {
+  try {
+    await getSearchEventStore().append(event);
+  } catch (e) {
+    console.warn("[search-analytics] failed to record event", e);
+  }
+}
+
+/** Log one search (first results page only — callers skip pagination). */
+export async function recordSearch(
+  query: string,
+  results: number,
+  source: SearchEventSource,
+  id: string = crypto.randomUUID(),
+) {
+  const q = anonymizeQuery(query);
+  if (!q) return;
+  await append({
+    kind: "search",
+    id,
+    at: new Date().toISOString(),
+    source,
+    query: q,
+    results: Math.max(0, Math.floor(results)),
+  });
+}
+
+/* =========================
+ * Client events (GlobalSearch)
+ * =======================*/
+const UUID_RE =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const count = (v: unknown, min: number) =>
+  typeof v === "number" && Number.isInteger(v) && v >= min && v < 10_000
+    ? v
+    : undefined;
+
+/** Same-site paths only, so the log can't be used to store arbitrary text. */
+const sitePath = (v: unknown) =>
+  typeof v === "string" && /^\/(?!\/)[^\s]*$/.test(v)
+    ? v.slice(0, MAX_URL_LENGTH)
+    : undefined;
+
+export function validateSearchEvent(
+  body: Record<string, unknown>,
+): { ok: true; data: SearchEventPayload } | { ok: false; message: string } {
+  const query = anonymizeQuery(body.query);
+  if (!query) return { ok: false, message: "query is required" };
+
+  if (body.kind === "search") {
+    const results = count(body.results, 0);
+    if (typeof body.id !== "string" || !UUID_RE.test(body.id))
+      return { ok: false, message: "id must be a UUID" };
+    if (results === undefined)
+      return { ok: false, message: "results must be a whole number" };
+    return { ok: true, data: { kind: "search", id: body.id, query, results } };
+  }
+
+  if (body.kind === "click") {
+    const position = count(body.position, 1);
+    const url = sitePath(body.url);
+    if (position === undefined)
+      return { ok: false, message: "position must be 1 or more" };
+    if (!url) return { ok: false, message: "url must be a site path" };
+    const searchId =
+      typeof body.searchId === "string" && UUID_RE.test(body.searchId)
+        ? body.searchId
+        : undefined;
+    return {
+      ok: true,
+      data: { kind: "click", searchId, query, position, url },
+    };
+  }
+
+  return { ok: false, message: "kind must be search or click" };
+}
+
+export async function recordClientEvent(payload: SearchEventPayload) {
+  if (payload.kind === "search")
+    return recordSearch(payload.query, payload.results, "global", payload.id);
+  await append({
+    ...payload,
+    id: crypto.randomUUID(),
+    at: new Date().toISOString(),
+    source: "global",
+  });
+}
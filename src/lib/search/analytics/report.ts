@@ -0,0 +1,116 @@
+// src/lib/search/analytics/report.ts
+// Pure aggregation of the search event log into the editor-facing report:
+// what people look for, what finds nothing, and what finds things nobody
+// clicks.
+import type {
+  SearchEvent,
+  SearchQueryStats,
+  SearchReport,
+} from "@/types/search";
+
+export type ReportOptions = {
+  /** Rows per list */
+  limit?: number;
+  /** Tracked searches a query needs before its CTR is judged */
+  minTracked?: number;
+  /** CTR below this counts as "low" */
+  lowCtr?: number;
+};
+
+type Acc = SearchQueryStats & {
+  clicked: Set<string>;
+  positionSum: number;
+};
+
+export function buildSearchReport(
+  events: SearchEvent[],
+  window: { from: Date; to: Date },
+  { limit = 25, minTracked = 3, lowCtr = 0.1 }: ReportOptions = {},
+): SearchReport {
+  const byQuery = new Map<string, Acc>();
+  const acc = (query: string, at: string) => {
+    let a = byQuery.get(query);
+    if (!a) {
+      a = {
+        query,
+        searches: 0,
+        results: 0,
+        trackedSearches: 0,
+        clicks: 0,
+        lastAt: at,
+        clicked: new Set(),
+        positionSum: 0,
+      };
+      byQuery.set(query, a);
+    }
+    return a;
+  };
+
+  let searches = 0;
+  let zeroSearches = 0;
+  let clicks = 0;
+  for (const e of [...events].sort((a, b) => a.at.localeCompare(b.at))) {
+    const a = acc(e.query, e.at);
+    if (e.kind === "search") {
+      searches++;
+      if (!e.results) zeroSearches++;
+      a.searches++;
+      a.results = e.results;
+      a.lastAt = e.at;
+      if (e.source === "global") a.trackedSearches++;
+    } else {
+      clicks++;
+      a.clicks++;
+      a.positionSum += e.position;
+      if (e.searchId) a.clicked.add(e.searchId);
+    }
+  }
+
+  const rows = [...byQuery.values()]
+    .filter((a) => a.searches > 0)
+    .map(({ clicked, positionSum, ...row }): SearchQueryStats => ({
+      ...row,
+      ctr: row.trackedSearches
+        ? Math.min(1, clicked.size / row.trackedSearches)
+        : undefined,
+      avgPosition: row.clicks ? positionSum / row.clicks : undefined,
+    }));
+
+  const bySearches = (a: SearchQueryStats, b: SearchQueryStats) =>
+    b.searches - a.searches || b.lastAt.localeCompare(a.lastAt);
+
+  const tracked = rows.reduce((n, r) => n + r.trackedSearches, 0);
+  const clickedTracked = rows.reduce(
+    (n, r) => n + (r.ctr ?? 0) * r.trackedSearches,
+    0,
+  );
+
+  return {
+    from: window.from.toISOString(),
+    to: window.to.toISOString(),
+    totals: {
+      searches,
+      uniqueQueries: rows.length,
+      zeroResultRate: searches ? zeroSearches / searches : 0,
+      clicks,
+      ctr: tracked ? clickedTracked / tracked : undefined,
+    },
+    top: [...rows].sort(bySearches).slice(0, limit),
+    zeroResults: rows
+      .filter((r) => r.results === 0)
+      .sort(bySearches)
+      .slice(0, limit),
+    lowCtr: rows
+      .filter(
+        (r) =>
+          r.results > 0 &&
+          r.trackedSearches >= minTracked &&
+          (r.ctr ?? 0) < lowCtr,
+      )
+      .sort(
+        (a, b) =>
+          b.trackedSearches - a.trackedSearches || (a.ctr ?? 0) - (b.ctr ?? 0),
+      )
+      .slice(0, limit),
+  };
+}
@@ -0,0 +1,119 @@
+// src/lib/search/analytics/store.ts
+import "server-only";
+import fs from "node:fs/promises";
+import path from "node:path";
+import type { SearchEvent } from "@/types/search";
+
+/**
+ * Persistence adapter for search events. `append` must be safe to call
+ * concurrently from multiple requests in the same process.
+ */
+export interface SearchEventStore {
+  readonly name: string;
+  append(event: SearchEvent): Promise<void>;
+  /** Events at or after `since`, oldest first */
+  list(since?: Date): Promise<SearchEvent[]>;
+}
+
+/* =========================
+ * Adapters
+ * =======================*/
+
+/** JSONL, appends serialized through a promise chain (see leads/store). */
+export function createJsonFileStore(file: string): SearchEventStore {
+  let queue: Promise<unknown> = Promise.resolve();
+  const serial = <T>(run: () => Promise<T>): Promise<T> => {
+    const next = queue.then(run, run);
+    queue = next.catch(() => undefined);
+    return next;
+  };
+
+  return {
+    name: "json-file",
+    append(event) {
+      return serial(async () => {
+        await fs.mkdir(path.dirname(file), { recursive: true });
+        await fs.appendFile(file, JSON.stringify(event) + "\n", "utf8");
+      });
+    },
+    list(since) {
+      return serial(async () => {
+        let raw: string;
+        try {
+          raw = await fs.readFile(file, "utf8");
+        } catch (e: any) {
+          if (e?.code === "ENOENT") return [];
+          throw e;
+        }
+        const out: SearchEvent[] = [];
+        for (const line of raw.split("\n")) {
+          if (!line) continue;
+          try {
+            const event = JSON.parse(line) as SearchEvent;
+            if (!since || new Date(event.at) >= since) out.push(event);
+          } catch {
+            // a torn line (crash mid-append) shouldn't sink the report
+          }
+        }
+        return out;
+      });
+    },
+  };
+}
+
+/** In-memory store for read-only filesystems (events are lost on restart). */
+export function createMemoryStore(): SearchEventStore {
+  const events: SearchEvent[] = [];
+  return {
+    name: "memory",
+    async append(event) {
+      events.push(event);
+    },
+    async list(since) {
+      return since
+        ? events.filter((e) => new Date(e.at) >= since)
+        : [...events];
+    },
+  };
+}
+
+/** Recording switched off: nothing is kept. */
+export function createNoopStore(): SearchEventStore {
+  return {
+    name: "off",
+    async append() {},
+    async list() {
+      return [];
+    },
+  };
+}
+
+/* =========================
+ * Resolution
+ * =======================*/
+const DEFAULT_FILE = path.join(process.cwd(), ".data", "search-events.jsonl");
+
+const _g = globalThis as any;
+
+/**
+ * Picks the adapter from `SEARCH_EVENTS_STORE` ("file" | "memory" | "off";
+ * default "file"). `SEARCH_EVENTS_FILE` overrides the JSONL path. Call
+ * `setSearchEventStore` to send events to an analytics backend instead.
+ */
+export function getSearchEventStore(): SearchEventStore {
+  if (_g.__SEARCH_EVENTS_STORE__)
+    return _g.__SEARCH_EVENTS_STORE__ as SearchEventStore;
+  const kind = (process.env.SEARCH_EVENTS_STORE || "file").toLowerCase();
+  const store =
+    kind === "off"
+      ? createNoopStore()
+      : kind === "memory"
+        ? createMemoryStore()
+        : createJsonFileStore(process.env.SEARCH_EVENTS_FILE || DEFAULT_FILE);
+  _g.__SEARCH_EVENTS_STORE__ = store;
+  return store;
+}
+
+export function setSearchEventStore(store: SearchEventStore) {
+  _g.__SEARCH_EVENTS_STORE__ = store;
+}
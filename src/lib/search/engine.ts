@@ -0,0 +1,248 @@
+// src/lib/search/engine.ts
+// Query + filter + facet over public/search-index.json. Used in-process by
+// both /api/search and the server-rendered /search page.
+import "server-only";
+
+import path from "node:path";
+import fs from "node:fs/promises";
+import type MiniSearch from "minisearch";
+import type {
+  ApiSearchResponse,
+  FacetBucket,
+  SearchDoc,
+  SearchFacets,
+  SearchFilters,
+  SearchIndexFile,
+} from "@/types/search";
+import { inBudget, lower, matches, type Dimension } from "./filters";
+import { BUDGET_BANDS } from "./params";
+import { highlightHit } from "./highlight";
+import { isLive } from "@/lib/content/schedule";
+import {
+  bodiesUrl,
+  buildIndex,
+  byRecency,
+  loadIndex,
+  queryIndex,
+  shardUrl,
+  suggestQuery,
+} from "./query";
+
+/* =========================
+ * Index (cached per process)
+ * =======================*/
+const _g = globalThis as any;
+
+async function loadDocs(): Promise<SearchDoc[]> {
+  if (_g.__SEARCH_DOCS__) return _g.__SEARCH_DOCS__ as SearchDoc[];
+
+  const file = path.join(process.cwd(), "public", "search-index.json");
+  let parsed: SearchIndexFile | SearchDoc[];
+  try {
+    parsed = JSON.parse(await fs.readFile(file, "utf8"));
+  } catch {
+    parsed = [] as SearchDoc[];
+  }
+  const docs = Array.isArray(parsed) ? parsed : (parsed.docs ?? []);
+  _g.__SEARCH_DOCS__ = docs;
+  return docs;
+}
+
+/**
+ * The serialized index written at build time (public/search/all.json),
+ * revived with MiniSearch.loadJSON — no rebuild on cold start. Falls back to
+ * indexing the docs in memory when it hasn't been built yet.
+ */
+async function getIndex(docs: SearchDoc[]): Promise<MiniSearch<SearchDoc>> {
+  if (_g.__SEARCH_MINI__) return _g.__SEARCH_MINI__ as MiniSearch<SearchDoc>;
+  const file = path.join(process.cwd(), "public", shardUrl("all"));
+  let mini: MiniSearch<SearchDoc>;
+  try {
+    mini = loadIndex(await fs.readFile(file, "utf8"));
+  } catch {
+    mini = buildIndex(docs, await loadBodies());
+  }
+  _g.__SEARCH_MINI__ = mini;
+  return mini;
+}
+
+/** Plain-text bodies (public/search/bodies.json); empty if not built. */
+async function loadBodies(): Promise<Record<string, string>> {
+  if (_g.__SEARCH_BODIES__) return _g.__SEARCH_BODIES__;
+  const file = path.join(process.cwd(), "public", bodiesUrl);
+  let bodies: Record<string, string> = {};
+  try {
+    bodies = JSON.parse(await fs.readFile(file, "utf8"));
+  } catch {
+    /* stored snippets only */
+  }
+  _g.__SEARCH_BODIES__ = bodies;
+  return bodies;
+}
+
+/** Dev helper: drop the cached index after public/search is rewritten. */
+export function invalidateSearchCache() {
+  _g.__SEARCH_DOCS__ = undefined;
+  _g.__SEARCH_MINI__ = undefined;
+  _g.__SEARCH_BODIES__ = undefined;
+}
+
+/* =========================
+ * Facets
+ * =======================*/
+const titleCase = (s: string) =>
+  s.replace(/[-_]+/g, " ").replace(/\b\w/g, (c) => c.toUpperCase());
+
+const TYPE_LABELS: Record<string, string> = {
+  country: "Countries",
+  program: "Programs",
+  article: "Articles",
+  news: "News",
+  media: "Media",
+  blog: "Blog",
+  page: "Pages",
+};
+
+function bucket(
+  docs: SearchDoc[],
+  values: (d: SearchDoc) => { value: string; label: string }[],
+  selected: string[],
+  limit = Infinity,
+): FacetBucket[] {
+  const map = new Map<string, FacetBucket>();
+  for (const d of docs)
+    for (const { value, label } of values(d)) {
+      const b = map.get(value) ?? { value, label, count: 0 };
+      b.count += 1;
+      map.set(value, b);
+    }
+  // selected values stay visible even at zero
+  for (const v of selected)
+    if (!map.has(v)) map.set(v, { value: v, label: titleCase(v), count: 0 });
+  return [...map.values()]
+    .sort((a, b) => b.count - a.count || a.label.localeCompare(b.label))
+    .filter((b, i) => i < limit || selected.includes(b.value));
+}
+
+function facets(
+  hits: SearchDoc[],
+  f: SearchFilters,
+  countryLabels: Map<string, string>,
+): SearchFacets {
+  const without = (skip: Dimension) => hits.filter((d) => matches(d, f, skip));
+
+  return {
+    type: bucket(
+      without("type"),
+      (d) => [
+        { value: d.type, label: TYPE_LABELS[d.type] ?? titleCase(d.type) },
+      ],
+      f.types,
+    ),
+    vertical: bucket(
+      without("vertical"),
+      (d) =>
+        d.vertical ? [{ value: d.vertical, label: titleCase(d.vertical) }] : [],
+      f.verticals,
+    ),
+    country: bucket(
+      without("country"),
+      (d) =>
+        lower(d.countries).map((c) => ({
+          value: c,
+          label: countryLabels.get(c) ?? titleCase(c),
+        })),
+      f.countries,
+    ),
+    tag: bucket(
+      without("tag"),
+      (d) =>
+        uniqBy(d.tags ?? [], (t) => t.toLowerCase()).map((t) => ({
+          value: t.toLowerCase(),
+          label: t,
+        })),
+      f.tags,
+      12,
+    ),
+    budget: BUDGET_BANDS.map((b) => ({
+      value: b.id,
+      label: b.label,
+      count: without("budget").filter((d) => inBudget(d, b.min ?? 0, b.max))
+        .length,
+    })),
+  };
+}
+
+function uniqBy<T>(xs: T[], key: (x: T) => string) {
+  const seen = new Set<string>();
+  return xs.filter((x) => !seen.has(key(x)) && !!seen.add(key(x)));
+}
+
+/** Program docs carry the display country name as their subtitle. */
+function countryLabelMap(docs: SearchDoc[]) {
+  const map = new Map<string, string>();
+  for (const d of docs)
+    if (d.type === "program" && d.subtitle && d.countries?.length === 1)
+      map.set(d.countries[0].toLowerCase(), d.subtitle);
+  return map;
+}
+
+/* =========================
+ * Search
+ * =======================*/
+/**
+ * Full-text match (or everything, newest first, for an empty query), then
+ * filters, facets and one page of results.
+ */
+export async function runSearch(f: SearchFilters): Promise<ApiSearchResponse> {
+  const t0 = performance.now();
+  const docs = await loadDocs();
+
+  let hits: { doc: SearchDoc; score: number; terms?: string[] }[];
+  let suggestion: string | undefined;
+  if (!f.q) {
+    hits = docs
+      .slice()
+      .sort(byRecency)
+      .map((doc) => ({ doc, score: 0 }));
+  } else {
+    // Rank from the index, but return the canonical doc objects.
+    const byId = new Map(docs.map((d) => [d.id, d]));
+    const mini = await getIndex(docs);
+    hits = queryIndex(mini, f.q)
+      .map(({ id, score, terms }) => ({ doc: byId.get(id)!, score, terms }))
+      .filter((h) => h.doc);
+    // Only when the text itself matched nothing — not when filters emptied it.
+    if (!hits.length) suggestion = suggestQuery(mini, f.q);
+  }
+
+  // The index may predate a publishAt or expiresAt; check them per query
+  hits = hits.filter((h) => isLive(h.doc));
+  const filtered = hits.filter((h) => matches(h.doc, f));
+  const start = (f.page - 1) * f.pageSize;
+  const bodies = f.q ? await loadBodies() : {};
+  // Only the returned page gets a query-centred snippet and match ranges.
+  const items = filtered
+    .slice(start, start + f.pageSize)
+    .map(({ doc, score, terms }) =>
+      terms?.length
+        ? { ...doc, score, terms, ...highlightHit(doc, terms, bodies[doc.id]) }
+        : { ...doc, score },
+    );
+
+  return {
+    query: f.q,
+    tookMs: Math.round(performance.now() - t0),
+    count: items.length,
+    items,
+    total: filtered.length,
+    page: f.page,
+    pageSize: f.pageSize,
+    facets: facets(
+      hits.map((h) => h.doc),
+      f,
+      countryLabelMap(docs),
+    ),
+    ...(suggestion ? { suggestion } : {}),
+  };
+}
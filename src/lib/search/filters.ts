@@ -0,0 +1,71 @@
+// src/lib/search/filters.ts
+// Isomorphic: the filter predicates behind /api/search, the /search page and
+// GlobalSearch's interpreted queries, so a filter means the same everywhere.
+import type { SearchDoc, SearchFilters } from "@/types/search";
+
+export type Dimension = "type" | "vertical" | "country" | "tag" | "budget";
+
+export const lower = (xs?: string[]) => (xs ?? []).map((x) => x.toLowerCase());
+
+/** "Middle East" → "middle-east" */
+export const regionSlug = (s: string) =>
+  s
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "");
+
+const anyOf = (selected: string[], values: string[]) =>
+  !selected.length || values.some((v) => selected.includes(v));
+
+export function inBudget(doc: SearchDoc, min?: number, max?: number) {
+  if (min === undefined && max === undefined) return true;
+  const usd = doc.minInvestmentUsd;
+  if (usd === undefined) return false;
+  return (min === undefined || usd >= min) && (max === undefined || usd <= max);
+}
+
+function withinTimeline(doc: SearchDoc, months?: number) {
+  if (months === undefined) return true;
+  return doc.timelineMonths !== undefined && doc.timelineMonths <= months;
+}
+
+/**
+ * How many dependants (besides the main applicant) a program admits: one
+ * spouse, two parents when a qualifying age is published (0 means parents
+ * aren't included), and no fixed cap once children or siblings are allowed.
+ */
+function dependantCapacity(d: NonNullable<SearchDoc["dependents"]>) {
+  if ((d.childrenUpTo ?? 0) > 0 || d.siblings) return Infinity;
+  return (d.spouse !== false ? 1 : 0) + ((d.parentsFromAge ?? 0) > 0 ? 2 : 0);
+}
+
+/**
+ * Programs only. Unknown dependant rules pass (most hubs don't publish
+ * them); otherwise the program must admit `size - 1` dependants.
+ */
+function fitsFamily(doc: SearchDoc, size?: number) {
+  if (!size || size < 2) return true;
+  if (doc.type !== "program") return false;
+  const d = doc.dependents;
+  if (!d) return true;
+  return dependantCapacity(d) >= size - 1;
+}
+
+/** Every filter except `skip` — facet counts use this (disjunctive faceting). */
+export function matches(
+  doc: SearchDoc,
+  f: Omit<SearchFilters, "q" | "page" | "pageSize">,
+  skip?: Dimension,
+) {
+  return (
+    (skip === "type" || anyOf(f.types, [doc.type])) &&
+    (skip === "vertical" ||
+      anyOf(f.verticals, doc.vertical ? [doc.vertical] : [])) &&
+    (skip === "country" || anyOf(f.countries, lower(doc.countries))) &&
+    (skip === "tag" || anyOf(f.tags, lower(doc.tags))) &&
+    (skip === "budget" || inBudget(doc, f.minBudget, f.maxBudget)) &&
+    anyOf(f.regions, doc.region ? [regionSlug(doc.region)] : []) &&
+    withinTimeline(doc, f.maxTimeline) &&
+    fitsFamily(doc, f.familySize)
+  );
+}
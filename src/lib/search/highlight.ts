@@ -0,0 +1,102 @@
+// src/lib/search/highlight.ts
+// Isomorphic: match positions and query-centred snippets for a search hit.
+// MiniSearch reports the *document* terms each result matched (after prefix
+// and fuzzy expansion), so highlighting those words shows exactly why the
+// result came back.
+import type { SearchDoc, SearchMatches, TextRange } from "@/types/search";
+
+const SNIPPET_LENGTH = 200;
+
+const escape = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/** Whole-word, case-insensitive occurrences of `terms` in `text`. */
+export function findRanges(text: string, terms: string[]): TextRange[] {
+  if (!text || !terms.length) return [];
+  const alt = [...new Set(terms.map((t) => t.toLowerCase()))]
+    .sort((a, b) => b.length - a.length)
+    .map(escape)
+    .join("|");
+  const re = new RegExp(
+    `(?<![\\p{L}\\p{N}])(?:${alt})(?![\\p{L}\\p{N}])`,
+    "giu",
+  );
+  const out: TextRange[] = [];
+  for (const m of text.matchAll(re))
+    out.push([m.index!, m.index! + m[0].length]);
+  return out;
+}
+
+/**
+ * The ~200-character window of `body` covering the most distinct matched
+ * terms (ties: most matches, then earliest), widened to word boundaries.
+ * Ranges are returned relative to the snippet text.
+ */
+export function bestSnippet(
+  body: string,
+  terms: string[],
+  length = SNIPPET_LENGTH,
+): { text: string; ranges: TextRange[] } | null {
+  const ranges = findRanges(body, terms);
+  if (!ranges.length) return null;
+
+  let best = { start: ranges[0][0], distinct: 0, count: 0 };
+  for (let i = 0; i < ranges.length; i++) {
+    const start = ranges[i][0];
+    const inWindow = ranges.filter(
+      ([s, e]) => s >= start && e <= start + length,
+    );
+    const distinct = new Set(
+      inWindow.map(([s, e]) => body.slice(s, e).toLowerCase()),
+    ).size;
+    if (
+      distinct > best.distinct ||
+      (distinct === best.distinct && inWindow.length > best.count)
+    )
+      best = { start, distinct, count: inWindow.length };
+  }
+
+  // Lead in a little before the first match, then snap to word boundaries.
+  let from = Math.max(0, best.start - Math.floor(length / 4));
+  let to = Math.min(body.length, from + length);
+  from = Math.max(0, to - length);
+  if (from > 0) {
+    const space = body.indexOf(" ", from);
+    if (space !== -1 && space < best.start) from = space + 1;
+  }
+  if (to < body.length) {
+    const space = body.lastIndexOf(" ", to);
+    if (space > best.start) to = space;
+  }
+
+  const lead = from > 0 ? "…" : "";
+  const text =
+    lead + body.slice(from, to).trim() + (to < body.length ? "…" : "");
+  const shift = lead.length - from;
+  return {
+    text,
+    ranges: ranges
+      .filter(([s, e]) => s >= from && e <= to)
+      .map(([s, e]) => [s + shift, e + shift] as TextRange),
+  };
+}
+
+/**
+ * Snippet + match positions for one hit. Falls back to the stored snippet
+ * (still highlighted) when the body has no match or isn't available.
+ */
+export function highlightHit(
+  doc: SearchDoc,
+  terms: string[],
+  body?: string,
+): { snippet?: string; matches: SearchMatches } {
+  const fromBody = body ? bestSnippet(body, terms) : null;
+  const snippet = fromBody?.text ?? doc.snippet;
+  const matches: SearchMatches = {
+    title: findRanges(doc.title, terms),
+    subtitle: findRanges(doc.subtitle ?? "", terms),
+    snippet: fromBody?.ranges ?? findRanges(snippet ?? "", terms),
+  };
+  for (const k of Object.keys(matches) as (keyof SearchMatches)[])
+    if (!matches[k]?.length) delete matches[k];
+  return { snippet, matches };
+}
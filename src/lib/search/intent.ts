@@ -0,0 +1,348 @@
+// src/lib/search/intent.ts
+// Isomorphic: reads constraints out of a natural-language query —
+//   "caribbean citizenship under 200k for family of 5"
+//   → vertical citizenship, region caribbean, ≤ $200,000, family of 5
+// and returns them as SearchFilters plus display chips. Whatever isn't
+// recognised stays behind as keywords.
+import type { SearchFilters } from "@/types/search";
+import {
+  convertAmount,
+  formatMoney,
+  isCurrencyCode,
+  type CurrencyCode,
+} from "@/lib/currency";
+
+export type IntentKey =
+  "vertical" | "region" | "budget" | "family" | "timeline";
+
+export type IntentChip = { key: IntentKey; label: string };
+
+const CHIP_ORDER: IntentKey[] = [
+  "vertical",
+  "region",
+  "budget",
+  "family",
+  "timeline",
+];
+
+export type IntentFilters = Pick<
+  SearchFilters,
+  | "verticals"
+  | "regions"
+  | "minBudget"
+  | "maxBudget"
+  | "maxTimeline"
+  | "familySize"
+>;
+
+export type QueryIntent = {
+  /** Leftover keywords for full-text search (may be empty) */
+  text: string;
+  filters: IntentFilters;
+  chips: IntentChip[];
+};
+
+/* =========================
+ * Vocabulary
+ * =======================*/
+// Only generic words are consumed: "golden visa" or "express entry" are
+// better as keywords than as a whole-vertical filter.
+const VERTICALS: Record<string, string[]> = {
+  citizenship: [
+    "citizenship by investment",
+    "second passport",
+    "citizenship",
+    "passport",
+    "cbi",
+  ],
+  residency: [
+    "residency by investment",
+    "residence permit",
+    "residency",
+    "residence",
+    "rbi",
+  ],
+  skilled: ["skilled migration", "skilled worker", "skilled", "work visa"],
+  corporate: [
+    "business setup",
+    "company formation",
+    "incorporation",
+    "corporate",
+  ],
+};
+
+/** Region slug (regionSlug of the hub's `region`) → label and phrases */
+export const REGIONS: Record<string, { label: string; words: string[] }> = {
+  caribbean: { label: "Caribbean", words: ["caribbean", "west indies"] },
+  europe: { label: "Europe", words: ["europe", "european", "schengen", "eu"] },
+  "middle-east": {
+    label: "Middle East",
+    words: ["middle east", "gulf", "gcc"],
+  },
+  asia: { label: "Asia", words: ["southeast asia", "asia", "asian"] },
+  "north-america": {
+    label: "North America",
+    words: ["north america", "north american"],
+  },
+  oceania: { label: "Oceania", words: ["oceania", "australasia"] },
+};
+
+const CURRENCY_WORDS: Record<string, CurrencyCode> = {
+  $: "USD",
+  us$: "USD",
+  dollar: "USD",
+  dollars: "USD",
+  "€": "EUR",
+  euro: "EUR",
+  euros: "EUR",
+  "£": "GBP",
+  pound: "GBP",
+  pounds: "GBP",
+  dirham: "AED",
+  dirhams: "AED",
+  "₹": "INR",
+  rupee: "INR",
+  rupees: "INR",
+};
+
+const MULTIPLIERS: Record<string, number> = {
+  k: 1e3,
+  thousand: 1e3,
+  m: 1e6,
+  mn: 1e6,
+  million: 1e6,
+  lakh: 1e5,
+  lakhs: 1e5,
+  cr: 1e7,
+  crore: 1e7,
+};
+
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1,
+  an: 1,
+  one: 1,
+  two: 2,
+  three: 3,
+  four: 4,
+  five: 5,
+  six: 6,
+  seven: 7,
+  eight: 8,
+  nine: 9,
+  ten: 10,
+  twelve: 12,
+};
+
+/** Left behind once the constraints around them are gone */
+const FILLER = new Set([
+  ...["for", "with", "and", "or", "a", "an", "the", "in", "of", "to"],
+  ...["my", "our", "me", "i", "we", "under", "below", "within"],
+  ...["options", "program", "programs", "programme", "programmes"],
+]);
+
+/* =========================
+ * Patterns
+ * =======================*/
+const NUM = String.raw`(\d{1,3}(?:,\d{3})+|\d+(?:\.\d+)?)`;
+const WORD_NUM = `(\\d+|${Object.keys(NUMBER_WORDS).join("|")})`;
+const CUR = String.raw`(usd|eur|gbp|aed|cad|aud|sgd|inr|xcd|us\$|\$|€|£|₹|dollars?|euros?|pounds?|dirhams?|rupees?)`;
+const MULT = `(${Object.keys(MULTIPLIERS).join("|")})`;
+
+// [ceiling|floor] [cur] 200 [k] [cur]; a bare number needs a unit or currency
+const MONEY_RE = new RegExp(
+  String.raw`(?:\b(under|below|less than|up to|upto|max(?:imum)?|budget(?: of)?|within|over|above|more than|at least|min(?:imum)?|from)\s+)?` +
+    String.raw`(?:${CUR}\s?)?${NUM}\s?(?:${MULT}\b)?(?:\s?${CUR}\b)?`,
+  "gi",
+);
+const FLOOR_WORDS = [
+  "over",
+  "above",
+  "more than",
+  "at least",
+  "min",
+  "minimum",
+  "from",
+];
+
+const TIMELINE_RE = new RegExp(
+  String.raw`\b(?:within|in|under|less than|max(?:imum)?|no more than)\s+${WORD_NUM}\s*(weeks?|months?|mos?|years?|yrs?)\b`,
+  "i",
+);
+const FAST_RE = /\b(?:fast(?:est)?|quick(?:est)?|speedy)\b/i;
+const FAST_MONTHS = 6;
+
+const FAMILY_RES: [RegExp, (m: RegExpMatchArray) => number][] = [
+  [
+    new RegExp(String.raw`\bfamily of ${WORD_NUM}\b`, "i"),
+    (m) => toNumber(m[1]),
+  ],
+  [
+    new RegExp(
+      String.raw`\b${WORD_NUM} (?:people|persons|members|family members|applicants)\b`,
+      "i",
+    ),
+    (m) => toNumber(m[1]),
+  ],
+  [
+    new RegExp(
+      String.raw`\b(?:with )?(?:my )?(?:wife|husband|spouse|partner) and ${WORD_NUM} (?:kids|children|child|dependants|dependents)\b`,
+      "i",
+    ),
+    (m) => 2 + toNumber(m[1]),
+  ],
+  [
+    new RegExp(
+      String.raw`\bwith ${WORD_NUM} (?:kids|children|child|dependants|dependents)\b`,
+      "i",
+    ),
+    (m) => 1 + toNumber(m[1]),
+  ],
+  [/\b(?:with (?:my )?(?:wife|husband|spouse|partner)|couple)\b/i, () => 2],
+];
+
+const toNumber = (s: string) => NUMBER_WORDS[s.toLowerCase()] ?? Number(s);
+
+const phrase = (p: string) =>
+  new RegExp(
+    `(?<![\\p{L}\\p{N}])${p.replace(/\s+/g, "\\s+")}(?![\\p{L}\\p{N}])`,
+    "iu",
+  );
+
+function toCurrency(raw?: string): CurrencyCode | undefined {
+  if (!raw) return undefined;
+  const v = raw.toLowerCase();
+  const up = v.toUpperCase();
+  return CURRENCY_WORDS[v] ?? (isCurrencyCode(up) ? up : undefined);
+}
+
+const compact = (n: number, currency: CurrencyCode) =>
+  formatMoney(n, currency)
+    .replace(/,000,000$/, "M")
+    .replace(/,000$/, "k");
+
+/* =========================
+ * Parser
+ * =======================*/
+/**
+ * `dismissed` chips are dropped entirely: their words leave the keyword
+ * text too, so removing a chip removes that constraint.
+ */
+export function parseQueryIntent(
+  q: string,
+  dismissed: IntentKey[] = [],
+): QueryIntent {
+  let rest = ` ${q} `;
+  const filters: IntentFilters = { verticals: [], regions: [] };
+  const chips: IntentChip[] = [];
+  const keep = (key: IntentKey) => !dismissed.includes(key);
+  const take = (m: RegExpMatchArray) => {
+    rest = rest.slice(0, m.index) + " " + rest.slice(m.index! + m[0].length);
+  };
+
+  // Family first: "family of 5" must not read as a budget of 5.
+  for (const [re, size] of FAMILY_RES) {
+    const m = rest.match(re);
+    if (!m) continue;
+    take(m);
+    const n = size(m);
+    if (keep("family") && n > 1 && n <= 20) {
+      filters.familySize = n;
+      chips.push({ key: "family", label: `Family of ${n}` });
+    }
+    break;
+  }
+
+  const t = rest.match(TIMELINE_RE);
+  if (t) {
+    take(t);
+    const n = toNumber(t[1]);
+    const unit = t[2].toLowerCase();
+    const months = unit.startsWith("w")
+      ? Math.max(1, Math.ceil(n / 4.345))
+      : unit.startsWith("y")
+        ? n * 12
+        : n;
+    if (keep("timeline") && months > 0) {
+      filters.maxTimeline = months;
+      chips.push({
+        key: "timeline",
+        label: `Within ${months} month${months === 1 ? "" : "s"}`,
+      });
+    }
+  } else {
+    const f = rest.match(FAST_RE);
+    if (f) {
+      take(f);
+      if (keep("timeline")) {
+        filters.maxTimeline = FAST_MONTHS;
+        chips.push({ key: "timeline", label: `Within ${FAST_MONTHS} months` });
+      }
+    }
+  }
+
+  // "subclass 190 under 500k": the amount is the number with a unit
+  const money = [...rest.matchAll(MONEY_RE)].find(
+    ([, , curBefore, , mult, curAfter]) => mult || curBefore || curAfter,
+  );
+  if (money) {
+    const [, qualifier, curBefore, digits, mult, curAfter] = money;
+    take(money);
+    const currency =
+      toCurrency(curBefore ?? curAfter) ??
+      (/^(lakhs?|cr|crore)$/i.test(mult ?? "") ? "INR" : "USD");
+    const amount =
+      Number(digits.replace(/,/g, "")) *
+      (mult ? MULTIPLIERS[mult.toLowerCase()] : 1);
+    const usd = Math.round(convertAmount(amount, currency, "USD"));
+    const floor = FLOOR_WORDS.includes(qualifier?.toLowerCase() ?? "");
+    if (keep("budget") && amount > 0) {
+      if (floor) filters.minBudget = usd;
+      else filters.maxBudget = usd;
+      chips.push({
+        key: "budget",
+        label: `${floor ? "Over" : "Under"} ${compact(amount, currency)}`,
+      });
+    }
+  }
+
+  for (const [slug, { label, words }] of Object.entries(REGIONS))
+    for (const w of words) {
+      const m = rest.match(phrase(w));
+      if (!m) continue;
+      take(m);
+      if (keep("region") && !filters.regions.includes(slug)) {
+        filters.regions.push(slug);
+        chips.push({ key: "region", label });
+      }
+      break;
+    }
+
+  for (const [vertical, words] of Object.entries(VERTICALS))
+    for (const w of words) {
+      const m = rest.match(phrase(w));
+      if (!m) continue;
+      take(m);
+      if (keep("vertical") && !filters.verticals.includes(vertical)) {
+        filters.verticals.push(vertical);
+        chips.push({
+          key: "vertical",
+          label: vertical.charAt(0).toUpperCase() + vertical.slice(1),
+        });
+      }
+      break;
+    }
+
+  chips.sort((a, b) => CHIP_ORDER.indexOf(a.key) - CHIP_ORDER.indexOf(b.key));
+  const words = rest.split(/\s+/).filter(Boolean);
+  const interpreted = chips.length > 0 || dismissed.length > 0;
+  return {
+    text: (interpreted
+      ? words.filter(
+          (w) => !FILLER.has(w.toLowerCase().replace(/[.,;:!?]$/, "")),
+        )
+      : words
+    ).join(" "),
+    filters,
+    chips,
+  };
+}
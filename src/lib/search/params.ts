@@ -0,0 +1,137 @@
+// src/lib/search/params.ts
+// URL <-> SearchFilters, shared by /api/search, the /search page and its
+// facet links so a filtered view is always a shareable URL.
+import type { BudgetBand, SearchDocType, SearchFilters } from "@/types/search";
+import { regionSlug } from "./filters";
+import { countryFromAlias } from "./synonyms";
+
+export const DEFAULT_PAGE_SIZE = 10;
+export const MAX_PAGE_SIZE = 50;
+
+const DOC_TYPES: SearchDocType[] = [
+  "country",
+  "program",
+  "article",
+  "news",
+  "media",
+  "blog",
+  "page",
+];
+
+/** USD, both bounds inclusive */
+export const BUDGET_BANDS: BudgetBand[] = [
+  { id: "under-250k", label: "Under $250k", max: 249_999 },
+  { id: "250k-500k", label: "$250k – $500k", min: 250_000, max: 499_999 },
+  { id: "500k-1m", label: "$500k – $1M", min: 500_000, max: 999_999 },
+  { id: "1m-plus", label: "$1M+", min: 1_000_000 },
+];
+
+type ParamSource =
+  URLSearchParams | Record<string, string | string[] | undefined>;
+
+function getAll(src: ParamSource, key: string): string[] {
+  const raw =
+    src instanceof URLSearchParams
+      ? src.getAll(key)
+      : ([] as string[]).concat(src[key] ?? []);
+  // accept both ?country=a&country=b and ?country=a,b
+  return raw
+    .flatMap((v) => v.split(","))
+    .map((v) => v.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+const first = (src: ParamSource, ...keys: string[]) => {
+  for (const k of keys) {
+    const v = getAll(src, k)[0];
+    if (v) return v;
+  }
+  return undefined;
+};
+
+const money = (v?: string) => {
+  const n = Number(v?.replace(/[_\s]/g, ""));
+  return v && Number.isFinite(n) && n >= 0 ? n : undefined;
+};
+
+/** Positive whole number (months, people) */
+const count = (v?: string) => {
+  const n = Math.floor(Number(v));
+  return Number.isFinite(n) && n > 0 ? n : undefined;
+};
+
+const uniq = <T>(xs: T[]) => [...new Set(xs)];
+
+/**
+ * Lenient by design: unknown types are dropped and bad numbers fall back to
+ * defaults, so a hand-edited URL still renders a page. `types`/`limit` are
+ * the original /api/search spellings and keep working.
+ */
+export function parseSearchParams(src: ParamSource): SearchFilters {
+  const q =
+    (src instanceof URLSearchParams
+      ? src.get("q")
+      : ([] as string[]).concat(src.q ?? [])[0]) ?? "";
+  const page = Math.max(1, Math.floor(Number(first(src, "page")) || 1));
+  const size = Math.floor(
+    Number(first(src, "pageSize", "limit")) || DEFAULT_PAGE_SIZE,
+  );
+
+  return {
+    q: q.trim().slice(0, 200),
+    types: uniq([...getAll(src, "type"), ...getAll(src, "types")]).filter(
+      (t): t is SearchDocType => DOC_TYPES.includes(t as SearchDocType),
+    ),
+    verticals: uniq(getAll(src, "vertical")),
+    // aliases resolve to index slugs: ?country=st-kitts → saintkitts
+    countries: uniq(
+      getAll(src, "country").map((c) => countryFromAlias(c) ?? c),
+    ),
+    tags: uniq(getAll(src, "tag")),
+    minBudget: money(first(src, "minBudget", "minbudget")),
+    maxBudget: money(first(src, "maxBudget", "maxbudget")),
+    regions: uniq(getAll(src, "region").map(regionSlug)),
+    maxTimeline: count(first(src, "maxTimeline", "maxtimeline")),
+    familySize: count(first(src, "family")),
+    page,
+    pageSize: Math.min(MAX_PAGE_SIZE, Math.max(1, size)),
+  };
+}
+
+/** Canonical query string for `filters` with `patch` applied (page resets unless patched). */
+export function toSearchQuery(
+  filters: SearchFilters,
+  patch: Partial<SearchFilters> = {},
+): string {
+  const f = { ...filters, page: 1, ...patch };
+  const p = new URLSearchParams();
+  if (f.q) p.set("q", f.q);
+  if (f.types.length) p.set("type", f.types.join(","));
+  if (f.verticals.length) p.set("vertical", f.verticals.join(","));
+  if (f.countries.length) p.set("country", f.countries.join(","));
+  if (f.tags.length) p.set("tag", f.tags.join(","));
+  if (f.minBudget !== undefined) p.set("minBudget", String(f.minBudget));
+  if (f.maxBudget !== undefined) p.set("maxBudget", String(f.maxBudget));
+  if (f.regions.length) p.set("region", f.regions.join(","));
+  if (f.maxTimeline !== undefined) p.set("maxTimeline", String(f.maxTimeline));
+  if (f.familySize !== undefined) p.set("family", String(f.familySize));
+  if (f.pageSize !== DEFAULT_PAGE_SIZE) p.set("pageSize", String(f.pageSize));
+  if (f.page > 1) p.set("page", String(f.page));
+  const s = p.toString();
+  return s ? `?${s}` : "";
+}
+
+/** Toggle one value of a multi-valued filter. */
+export function toggle(list: string[], value: string) {
+  return list.includes(value)
+    ? list.filter((v) => v !== value)
+    : [...list, value];
+}
+
+export function bandOf(
+  filters: Pick<SearchFilters, "minBudget" | "maxBudget">,
+) {
+  return BUDGET_BANDS.find(
+    (b) => b.min === filters.minBudget && b.max === filters.maxBudget,
+  );
+}
@@ -0,0 +1,157 @@
+// src/lib/search/query.ts
+// Isomorphic: the one definition of how a query runs against the prebuilt
+// MiniSearch index. The server (/api/search, /search) and the browser
+// (GlobalSearch, offline) both go through `queryIndex`, so a query ranks
+// the same everywhere. Index options live in options.json, which the build
+// script (scripts/build-search-index.mjs) reads too.
+import MiniSearch, { type Options } from "minisearch";
+import type { SearchDoc } from "@/types/search";
+import OPTIONS from "./options.json";
+import { expandQuery, normalizeQuery } from "./synonyms";
+
+export const INDEX_OPTIONS = OPTIONS as unknown as Options<SearchDoc>;
+
+/** Shards written next to the full index: one per vertical + insights. */
+export const SEARCH_SHARDS = [
+  "citizenship",
+  "residency",
+  "skilled",
+  "corporate",
+  "insights",
+] as const;
+export type SearchShard = "all" | (typeof SEARCH_SHARDS)[number];
+
+/** Public URL of a serialized index (see SearchManifest). */
+export const shardUrl = (shard: SearchShard = "all") => `/search/${shard}.json`;
+
+/** Public URL of the doc id → plain-text body map used for snippets. */
+export const bodiesUrl = "/search/bodies.json";
+
+/** Revive an index serialized by the build script (`JSON.stringify(mini)`). */
+export function loadIndex(json: string): MiniSearch<SearchDoc> {
+  return MiniSearch.loadJSON<SearchDoc>(json, INDEX_OPTIONS);
+}
+
+/**
+ * In-memory fallback when no serialized index exists (e.g. fresh checkout).
+ * `bodies` (doc id → plain text) feeds the indexed-only `body` field.
+ */
+export function buildIndex(
+  docs: SearchDoc[],
+  bodies: Record<string, string> = {},
+): MiniSearch<SearchDoc> {
+  const mini = new MiniSearch<SearchDoc>(INDEX_OPTIONS);
+  mini.addAll(docs.map((d) => ({ ...d, body: bodies[d.id] })));
+  return mini;
+}
+
+export type QueryHit = {
+  id: string;
+  score: number;
+  doc: SearchDoc;
+  /** Document terms matched by any expansion (feeds highlighting) */
+  terms: string[];
+};
+
+/**
+ * Run `q` and its expansions; a document keeps its best score across them
+ * and the union of matched terms. Returned docs are rebuilt from the index's
+ * stored fields, best first.
+ */
+export function queryIndex(mini: MiniSearch<SearchDoc>, q: string): QueryHit[] {
+  const best = new Map<string, QueryHit>();
+  for (const part of expandQuery(q))
+    for (const r of mini.search(part)) {
+      const prev = best.get(r.id);
+      const terms = [...new Set([...(prev?.terms ?? []), ...r.terms])];
+      // In MiniSearch, higher score is better — keep the max.
+      if (prev && prev.score >= r.score) {
+        prev.terms = terms;
+        continue;
+      }
+      const { score, terms: _t, queryTerms: _q, match: _m, ...doc } = r;
+      best.set(r.id, {
+        id: r.id,
+        score,
+        doc: doc as unknown as SearchDoc,
+        terms,
+      });
+    }
+  return [...best.values()].sort((a, b) => b.score - a.score);
+}
+
+export const byRecency = (a: SearchDoc, b: SearchDoc) =>
+  new Date(b.updated || b.date || 0).getTime() -
+  new Date(a.updated || a.date || 0).getTime();
+
+/** Every document, newest first — for filter-only queries. */
+export function browseIndex(mini: MiniSearch<SearchDoc>): QueryHit[] {
+  return mini
+    .search(MiniSearch.wildcard)
+    .map(({ id, score: _s, terms: _t, queryTerms: _q, match: _m, ...doc }) => ({
+      id,
+      score: 0,
+      doc: doc as unknown as SearchDoc,
+      terms: [],
+    }))
+    .sort((a, b) => byRecency(a.doc, b.doc));
+}
+
+/* =========================
+ * "Did you mean"
+ * =======================*/
+function editDistance(a: string, b: string) {
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    for (let j = 1; j <= b.length; j++)
+      row[j] = Math.min(
+        prev[j] + 1,
+        row[j - 1] + 1,
+        prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+    prev = row;
+  }
+  return prev[b.length];
+}
+
+/**
+ * For a query with no hits: swap each word the index has never seen for the
+ * closest indexed term (fewest edits, then most documents). Only returned
+ * if the corrected query actually finds something.
+ */
+export function suggestQuery(
+  mini: MiniSearch<SearchDoc>,
+  q: string,
+): string | undefined {
+  let changed = false;
+  const words = normalizeQuery(q)
+    .split(" ")
+    .filter(Boolean)
+    .map((word) => {
+      const exact = { prefix: false, fuzzy: false } as const;
+      if (word.length < 3 || mini.search(word, exact).length) return word;
+
+      const docsPerTerm = new Map<string, number>();
+      for (const r of mini.search(word, {
+        prefix: false,
+        fuzzy: word.length >= 5 ? 2 : 1, // a transposition is 2 edits
+      }))
+        for (const term of r.terms)
+          docsPerTerm.set(term, (docsPerTerm.get(term) ?? 0) + 1);
+
+      const [best] = [...docsPerTerm]
+        .map(([term, docs]) => ({ term, docs, d: editDistance(word, term) }))
+        .sort(
+          (a, b) =>
+            a.d - b.d || b.docs - a.docs || a.term.localeCompare(b.term),
+        );
+      if (!best) return word;
+      changed = true;
+      return best.term;
+    });
+
+  if (!changed) return undefined;
+  const suggestion = words.join(" ");
+  return queryIndex(mini, suggestion).length ? suggestion : undefined;
+}
@@ -0,0 +1,72 @@
+// src/lib/search/synonyms.ts
+// Isomorphic: query rewriting from the maintained synonyms.json — acronyms,
+// synonym groups and country aliases. The JSON is bundled at build time and
+// checked by scripts/build-search-index.mjs, so a malformed edit fails
+// `build:index` rather than search.
+import SYNONYMS from "./synonyms.json";
+
+type SynonymsFile = {
+  /** acronym → expansion, e.g. "cbi" → "citizenship by investment" */
+  acronyms: Record<string, string>;
+  /** Interchangeable phrases */
+  synonyms: string[][];
+  /** Country slug (as in SearchDoc.countries) → aliases; the first alias is the one titles use */
+  countries: Record<string, string[]>;
+};
+
+const FILE = SYNONYMS as SynonymsFile;
+
+/** Lowercase, "&" → "and", punctuation/hyphens → spaces. */
+export function normalizeQuery(q: string) {
+  return q
+    .toLowerCase()
+    .replace(/&/g, " and ")
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .trim();
+}
+
+/** Every phrase in a group can stand in for any other. Longest first, so "saint kitts and nevis" wins over "saint kitts". */
+const GROUPS: string[][] = [
+  ...Object.entries(FILE.acronyms).map(([a, full]) => [a, full]),
+  ...FILE.synonyms,
+  ...Object.values(FILE.countries),
+].map((g) =>
+  [...new Set(g.map(normalizeQuery))].sort((a, b) => b.length - a.length),
+);
+
+const MAX_VARIANTS = 8;
+
+const phraseRe = (phrase: string) =>
+  new RegExp(`(?<![\\p{L}\\p{N}])${phrase}(?![\\p{L}\\p{N}])`, "u");
+
+/**
+ * `q` plus rewrites with each recognised phrase swapped for its
+ * alternatives ("cbi grenada" → "citizenship by investment grenada"). The
+ * original query always comes first; the list is capped to keep search fast.
+ */
+export function expandQuery(q: string): string[] {
+  let variants = [normalizeQuery(q)];
+  for (const group of GROUPS) {
+    const next: string[] = [];
+    for (const v of variants) {
+      const found = group.find((p) => phraseRe(p).test(v));
+      if (!found) continue;
+      for (const alt of group)
+        if (alt !== found) next.push(v.replace(phraseRe(found), alt));
+    }
+    variants = [...new Set([...variants, ...next])];
+  }
+  return [...new Set([q, ...variants])].slice(0, MAX_VARIANTS);
+}
+
+/** Country slug for a slug or alias ("st-kitts", "SKN" → "saintkitts"). */
+export function countryFromAlias(value: string): string | undefined {
+  const v = normalizeQuery(value);
+  for (const [slug, aliases] of Object.entries(FILE.countries))
+    if (
+      normalizeQuery(slug) === v ||
+      aliases.some((a) => normalizeQuery(a) === v)
+    )
+      return slug;
+  return undefined;
+}
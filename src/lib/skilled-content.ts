@@ -2,95 +2,31 @@
 import "server-only";
 import fs from "node:fs";
 import path from "node:path";
-import matter from "gray-matter";
-import { compileMDX } from "next-mdx-remote/rsc";
-import remarkGfm from "remark-gfm";
-import rehypeSlug from "rehype-slug";
-import rehypeAutolinkHeadings from "rehype-autolink-headings";
-import type { ReactNode } from "react";
+import type { CountryMetaFor, ProgramMetaFor } from "@/lib/content/schema";
+import { coerceNum, createVerticalLoader } from "@/lib/content/vertical";
+import type { InvitationRound, RoundHistory } from "@/types/rounds";
 
 /* =========================
  * Types (same API as residency; category differs)
  * =======================*/
-export type CountryMeta = {
-  title: string;
-  category: "skilled";
-  country: string;
-  countrySlug: string;
-  summary?: string;
-  tagline?: string;
-  heroImage?: string;
-  heroVideo?: string;
-  heroPoster?: string;
-  introPoints?: string[];
-  tags?: string[];
-  seo?: { title?: string; description?: string; keywords?: string[] };
-  draft?: boolean;
-};
-
-export type Step = { title: string; description?: string };
-
-export type PriceRow = {
-  label: string;
-  amount?: number;
-  currency?: "USD" | "EUR" | "AED" | "INR" | "CAD" | "GBP" | "AUD";
-  when?: string;
-  notes?: string;
-};
-
-export type ProofOfFundsRow = {
-  label?: string;
-  amount: number;
-  currency?: "USD" | "EUR" | "AED" | "INR" | "CAD" | "GBP" | "AUD";
-  notes?: string;
-};
-
-export type QuickCheckConfig = {
-  title?: string;
-  questions?: {
-    id: string;
-    label: string;
-    type: "boolean" | "select" | "number" | "text";
-    options?: string[];
-  }[];
-};
-
-export type ProgramMeta = {
-  title: string;
-  category: "skilled";
-  country: string;
-  countrySlug: string;
-  programSlug: string;
-  tagline?: string;
-  minInvestment?: number; // reuse for min salary / costs
-  currency?: "USD" | "EUR" | "AED" | "INR" | "CAD" | "GBP" | "AUD";
-  timelineMonths?: number;
-  tags?: string[];
-  benefits?: string[];
-  requirements?: string[];
-  processSteps?: Step[];
-  faq?: { q: string; a: string }[];
-  brochure?: string;
-  prices?: PriceRow[];
-  proofOfFunds?: ProofOfFundsRow[];
-  disqualifiers?: string[];
-  quickCheck?: QuickCheckConfig;
-  heroImage?: string;
-  heroVideo?: string;
-  heroPoster?: string;
-  seo?: { title?: string; description?: string; keywords?: string[] };
-  draft?: boolean;
-};
-
-/** Sections map returned by loadProgramPageSections */
-export type ProgramSections = Record<string, ReactNode>;
+export type CountryMeta = CountryMetaFor<"skilled">;
+export type ProgramMeta = ProgramMetaFor<"skilled">;
+export type {
+  Step,
+  PriceRow,
+  ProofOfFundsRow,
+  QuickCheckConfig,
+} from "@/lib/content/schema";
+export type { ProgramSections } from "@/lib/content/vertical";
+
+export type { InvitationRound, RoundHistory } from "@/types/rounds";
 
 /* =========================
  * Constants & tiny utils
  * =======================*/
 const ROOT = path.join(process.cwd(), "content", "skilled");
 
-// --- NEW: safety helpers (convert YAML objects -> strings) ---
+// --- safety helpers (convert YAML objects -> strings) ---
 function toDisplayString(v: unknown): string {
   if (typeof v === "string") return v;
   if (v && typeof v === "object") {
@@ -104,92 +40,66 @@ function coerceStringArray(a: unknown): string[] {
   return Array.isArray(a) ? a.map(toDisplayString).filter(Boolean) : [];
 }
 
-const exists = (p: string) => {
-  try {
-    fs.accessSync(p);
-    return true;
-  } catch {
-    return false;
-  }
-};
-
-const toTitle = (slug: string) =>
-  slug
-    .split("-")
-    .map((s) => (s ? s.charAt(0).toUpperCase() + s.slice(1) : s))
-    .join(" ");
-
-const coerceNum = (v: unknown): number | undefined => {
-  if (typeof v === "number") return v;
-  if (typeof v === "string" && v.trim() !== "" && !isNaN(Number(v)))
-    return Number(v);
-  return undefined;
-};
-
-/** MDX options — NOTE: no `as const` so arrays aren't readonly */
-const baseMdxOptions = {
-  remarkPlugins: [remarkGfm],
-  rehypePlugins: [rehypeSlug, [rehypeAutolinkHeadings, { behavior: "wrap" }]],
-};
-
-/** slugify section titles, e.g. "Why Choose Us?" -> "why-choose-us" */
-function slugify(h: string) {
-  return h
-    .toLowerCase()
-    .replace(/&/g, "and")
-    .replace(/[^\w\s-]/g, "")
-    .trim()
-    .replace(/\s+/g, "-");
-}
-
-/** Split MDX body by top-level `###` headings (keeps <h3>) */
-function splitByH3(md: string): Record<string, string> {
-  const lines = md.split(/\r?\n/);
-  const out: Record<string, string> = {};
-  let current: string | null = null;
-  let buf: string[] = [];
-  const counts = new Map<string, number>();
+/* =========================
+ * Normalizers (SANITIZED)
+ * =======================*/
+const loader = createVerticalLoader({
+  vertical: "skilled",
+
+  country(meta, countrySlug) {
+    // Fallback avoids 404s; keep your custom images when present
+    meta.heroImage = String(
+      meta.heroImage || `/images/countries/${countrySlug}-hero-poster.jpg`,
+    );
+
+    // --- sanitize arrays that UI renders as text ---
+    meta.introPoints = coerceStringArray(meta.introPoints);
+    meta.keyPoints = coerceStringArray(meta.keyPoints);
+    meta.requirements = coerceStringArray(meta.requirements);
+    meta.tags = coerceStringArray(meta.tags);
+  },
+
+  program(meta) {
+    // --- sanitize arrays that UI renders as text ---
+    meta.benefits = coerceStringArray(meta.benefits);
+    meta.requirements = coerceStringArray(meta.requirements);
+    meta.disqualifiers = coerceStringArray(meta.disqualifiers);
+    meta.riskNotes = coerceStringArray(meta.riskNotes);
+    meta.complianceNotes = coerceStringArray(meta.complianceNotes);
+    meta.tags = coerceStringArray(meta.tags);
+    meta.occupationCodes = coerceStringArray(meta.occupationCodes);
+  },
+});
 
-  const nextKey = (base: string) => {
-    const n = (counts.get(base) || 0) + 1;
-    counts.set(base, n);
-    return n === 1 ? base : `${base}-${n}`;
-  };
+/* =========================
+ * Lists & slugs
+ * =======================*/
+export const getSkilledCountrySlugs = loader.countrySlugs;
+export const getSkilledCountries = loader.countries;
+export const getSkilledProgramSlugs = loader.programSlugs;
+export const getSkilledPrograms = loader.programs;
 
-  const flush = () => {
-    if (current) out[current] = buf.join("\n").trim();
-    buf = [];
-  };
+/* =========================
+ * Renderers
+ * =======================*/
+export const loadCountryPage = loader.loadCountryPage;
+export const loadProgramPage = loader.loadProgramPage;
+export const loadProgramPageSections = loader.loadProgramPageSections;
 
-  for (const line of lines) {
-    const m = /^###\s+(.+?)\s*$/.exec(line);
-    if (m) {
-      flush();
-      current = nextKey(slugify(m[1]));
-      buf.push(line);
-    } else {
-      if (!current) {
-        current = nextKey("overview");
-        buf.push("### Overview");
-      }
-      buf.push(line);
-    }
-  }
-  flush();
-  return out;
-}
+/* =========================
+ * Frontmatter-only helpers
+ * =======================*/
+export const getProgramFrontmatter = loader.programFrontmatter;
+export const getCountryFrontmatter = loader.countryFrontmatter;
 
 /* =========================
- * Lightweight in-memory cache (dev-friendly)
+ * Invitation rounds (content/<country>/_rounds/<program>.json)
  * =======================*/
 type Cache = {
-  countries?: CountryMeta[];
-  programsAll?: ProgramMeta[];
-  mtimes?: Map<string, number>;
+  rounds?: Map<string, { mtime: number; history: RoundHistory }>;
 };
 const _g = globalThis as any;
-if (!_g.__SKILLED_CACHE__)
-  _g.__SKILLED_CACHE__ = { mtimes: new Map() } as Cache;
+if (!_g.__SKILLED_CACHE__) _g.__SKILLED_CACHE__ = {} as Cache;
 const CACHE: Cache = _g.__SKILLED_CACHE__;
 
 function mtime(file: string) {
@@ -200,302 +110,72 @@ function mtime(file: string) {
   }
 }
 
-/** Recursively stamp a directory tree (files + subfolders) */
-function dirStamp(root: string): number {
-  if (!exists(root)) return 0;
-  let stamp = mtime(root);
-  for (const ent of fs.readdirSync(root, { withFileTypes: true })) {
-    const full = path.join(root, ent.name);
-    if (ent.isDirectory()) {
-      stamp = Math.max(stamp, dirStamp(full));
-    } else if (
-      ent.isFile() &&
-      (ent.name.endsWith(".mdx") || ent.name.endsWith(".md"))
-    ) {
-      stamp = Math.max(stamp, mtime(full));
-    } else {
-      stamp = Math.max(stamp, mtime(full));
-    }
-  }
-  return stamp;
-}
-
-/* =========================
- * Normalizers (SANITIZED)
- * =======================*/
-function normalizeCountry(
-  metaIn: Partial<CountryMeta>,
-  slug: string,
-): CountryMeta {
-  const meta: any = { ...metaIn };
-  const countrySlug = meta.countrySlug || slug;
-  const country = meta.country || meta.title || toTitle(countrySlug);
-  const title =
-    meta.title ||
-    (typeof country === "string" ? country : toTitle(countrySlug));
-
-  // Fallback avoids 404s; keep your custom images when present
-  const heroImage =
-    meta.heroImage ||
-    `/images/countries/${countrySlug}-hero-poster.jpg` ||
-    `/images/countries/default-hero-poster.jpg`;
-
-  // --- sanitize arrays that UI renders as text ---
-  meta.introPoints = coerceStringArray(meta.introPoints);
-  meta.keyPoints = coerceStringArray(meta.keyPoints);
-  meta.requirements = coerceStringArray(meta.requirements);
-  meta.tags = coerceStringArray(meta.tags);
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
 
+function normalizeRound(row: any): InvitationRound | null {
+  const cutoff = coerceNum(row?.cutoff);
+  const date = String(row?.date ?? "");
+  if (cutoff === undefined || !ISO_DATE.test(date)) return null;
+  const invitations = coerceNum(row?.invitations);
   return {
-    ...(meta as any),
-    title: String(title),
-    country: String(country),
-    countrySlug: String(countrySlug),
-    heroImage: String(heroImage),
-    category: "skilled",
-  } as CountryMeta;
-}
-
-function normalizeProgram(
-  metaIn: Partial<ProgramMeta>,
-  cSlug: string,
-  pSlug: string,
-): ProgramMeta {
-  const meta: any = { ...metaIn };
-  meta.programSlug = meta.programSlug || pSlug;
-  meta.countrySlug = meta.countrySlug || cSlug;
-  meta.category = "skilled";
-  if (meta.minInvestment !== undefined)
-    meta.minInvestment = coerceNum(meta.minInvestment);
-  if (meta.timelineMonths !== undefined)
-    meta.timelineMonths = coerceNum(meta.timelineMonths);
-
-  if (Array.isArray(meta.prices)) {
-    meta.prices = meta.prices.map((row: any) => ({
-      ...row,
-      amount: coerceNum(row?.amount),
-    }));
-  }
-  if (Array.isArray(meta.proofOfFunds)) {
-    meta.proofOfFunds = meta.proofOfFunds.map((row: any) => ({
-      ...row,
-      amount: coerceNum(row?.amount) ?? 0,
-    }));
-  }
-
-  // --- sanitize arrays that UI renders as text ---
-  meta.benefits = coerceStringArray(meta.benefits);
-  meta.requirements = coerceStringArray(meta.requirements);
-  meta.disqualifiers = coerceStringArray(meta.disqualifiers);
-  meta.riskNotes = coerceStringArray(meta.riskNotes);
-  meta.complianceNotes = coerceStringArray(meta.complianceNotes);
-  meta.tags = coerceStringArray(meta.tags);
-  meta.occupationCodes = coerceStringArray(meta.occupationCodes);
-
-  return meta as ProgramMeta;
-}
-
-/* =========================
- * Lists & slugs (sync, like residency)
- * =======================*/
-const ROOT_DIR = ROOT;
-
-export function getSkilledCountrySlugs(): string[] {
-  if (!exists(ROOT_DIR)) return [];
-  const cacheKey = `${ROOT_DIR}::countries_dir_mtime`;
-  const stamp = dirStamp(ROOT_DIR);
-  if (CACHE.countries && CACHE.mtimes?.get(cacheKey) === stamp) {
-    return CACHE.countries.map((c) => c.countrySlug);
-  }
-  const slugs = fs
-    .readdirSync(ROOT_DIR, { withFileTypes: true })
-    .filter((d) => d.isDirectory())
-    .map((d) => d.name);
-  CACHE.mtimes?.set(cacheKey, stamp);
-  return slugs;
-}
-
-export function getSkilledCountries(): CountryMeta[] {
-  const stamp = dirStamp(ROOT_DIR);
-  const cacheKey = `${ROOT_DIR}::countries`;
-  const cacheStamp = `${ROOT_DIR}::countries_dir_mtime`;
-
-  if (CACHE.countries && CACHE.mtimes?.get(cacheStamp) === stamp) {
-    return CACHE.countries;
-  }
-
-  const out: CountryMeta[] = [];
-  for (const slug of getSkilledCountrySlugs()) {
-    const file = path.join(ROOT_DIR, slug, "_country.mdx");
-    if (!exists(file)) continue;
-    const { data } = matter(fs.readFileSync(file, "utf8"));
-    const meta = normalizeCountry(data as Partial<CountryMeta>, slug);
-    if (!meta.draft) out.push(meta);
-  }
-
-  const sorted = out.sort((a, b) => a.country.localeCompare(b.country));
-  CACHE.countries = sorted;
-  CACHE.mtimes?.set(cacheKey, Date.now());
-  CACHE.mtimes?.set(cacheStamp, stamp);
-  return sorted;
-}
-
-export function getSkilledProgramSlugs(countrySlug: string): string[] {
-  const dir = path.join(ROOT_DIR, countrySlug);
-  if (!exists(dir)) return [];
-  return fs
-    .readdirSync(dir)
-    .filter((n) => n.endsWith(".mdx") && n !== "_country.mdx")
-    .map((n) => n.replace(/\.mdx$/, ""));
-}
-
-export function getSkilledPrograms(countrySlug?: string): ProgramMeta[] {
-  const stamp = dirStamp(ROOT_DIR);
-  const cacheKey = `${ROOT_DIR}::programsAll`;
-  const cacheStamp = `${ROOT_DIR}::programs_dir_mtime`;
-
-  if (
-    !countrySlug &&
-    CACHE.programsAll &&
-    CACHE.mtimes?.get(cacheStamp) === stamp
-  ) {
-    return CACHE.programsAll;
-  }
-
-  const countries = countrySlug ? [countrySlug] : getSkilledCountrySlugs();
-  const out: ProgramMeta[] = [];
-
-  for (const c of countries) {
-    for (const p of getSkilledProgramSlugs(c)) {
-      const f = path.join(ROOT_DIR, c, `${p}.mdx`);
-      const { data } = matter(fs.readFileSync(f, "utf8"));
-      const meta = normalizeProgram(data as Partial<ProgramMeta>, c, p);
-      if (!meta?.draft) out.push(meta);
-    }
-  }
-
-  const sorted = out.sort((a, b) =>
-    (a.countrySlug + a.title).localeCompare(b.countrySlug + b.title),
-  );
-  if (!countrySlug) {
-    CACHE.programsAll = sorted;
-    CACHE.mtimes?.set(cacheKey, Date.now());
-    CACHE.mtimes?.set(cacheStamp, stamp);
-  }
-  return sorted;
-}
-
-/* =========================
- * Renderers
- * =======================*/
-export async function loadCountryPage(countrySlug: string) {
-  const f = path.join(ROOT_DIR, countrySlug, "_country.mdx");
-  const source = fs.readFileSync(f, "utf8");
-  const { content, frontmatter } = await compileMDX<CountryMeta>({
-    source,
-    options: {
-      parseFrontmatter: true,
-      mdxOptions: baseMdxOptions as any,
-    },
-  });
-  const meta = normalizeCountry(
-    frontmatter as Partial<CountryMeta>,
-    countrySlug,
-  );
-  return { content, meta };
-}
-
-export async function loadProgramPage(
-  countrySlug: string,
-  programSlug: string,
-) {
-  const f = path.join(ROOT_DIR, countrySlug, `${programSlug}.mdx`);
-  const source = fs.readFileSync(f, "utf8");
-  const { content, frontmatter } = await compileMDX<ProgramMeta>({
-    source,
-    options: {
-      parseFrontmatter: true,
-      mdxOptions: baseMdxOptions as any,
-    },
-  });
-  const meta = normalizeProgram(
-    frontmatter as Partial<ProgramMeta>,
-    countrySlug,
-    programSlug,
-  );
-  return { content, meta };
+    date,
+    cutoff,
+    ...(invitations !== undefined ? { invitations } : {}),
+    ...(row?.category ? { category: String(row.category) } : {}),
+    ...(row?.notes ? { notes: String(row.notes) } : {}),
+  };
 }
 
-/** Section-by-section renderer (same as residency) */
-export async function loadProgramPageSections(
+/** Round history for a program (newest first), or null when none is kept. */
+export function getProgramRounds(
   countrySlug: string,
   programSlug: string,
-): Promise<{ meta: ProgramMeta; sections: Record<string, ReactNode> }> {
-  const f = path.join(ROOT_DIR, countrySlug, `${programSlug}.mdx`);
-  const raw = fs.readFileSync(f, "utf8");
-  const { data, content: body } = matter(raw);
-
-  const meta = normalizeProgram(
-    data as Partial<ProgramMeta>,
-    countrySlug,
-    programSlug,
-  );
-  const chunks = splitByH3(body);
-
-  const entries = await Promise.all(
-    Object.entries(chunks).map(async ([key, md]) => {
-      const { content } = await compileMDX({
-        source: md,
-        options: { parseFrontmatter: false, mdxOptions: baseMdxOptions as any },
-      });
-      return [key, content] as const;
-    }),
-  );
+): RoundHistory | null {
+  const f = path.join(ROOT, countrySlug, "_rounds", `${programSlug}.json`);
+  const stamp = mtime(f);
+  if (!stamp) return null;
 
-  const sections = Object.fromEntries(entries) as Record<string, ReactNode>;
-  return { meta, sections };
-}
+  CACHE.rounds ??= new Map();
+  const hit = CACHE.rounds.get(f);
+  if (hit && hit.mtime === stamp) return hit.history;
 
-/* =========================
- * Frontmatter-only helpers
- * =======================*/
-export function getProgramFrontmatter(
-  countrySlug: string,
-  programSlug: string,
-) {
-  const f = path.join(ROOT_DIR, countrySlug, `${programSlug}.mdx`);
-  const { data } = matter(fs.readFileSync(f, "utf8"));
-  return normalizeProgram(
-    data as Partial<ProgramMeta>,
+  let data: any;
+  try {
+    data = JSON.parse(fs.readFileSync(f, "utf8"));
+  } catch (e) {
+    // A broken history hides the rounds panel; it doesn't take the page down
+    console.error(`[skilled-content] unreadable rounds file ${f}`, e);
+    return null;
+  }
+  const rounds = (Array.isArray(data?.rounds) ? data.rounds : [])
+    .map(normalizeRound)
+    .filter(Boolean) as InvitationRound[];
+  const history: RoundHistory = {
     countrySlug,
     programSlug,
-  );
+    system: data?.system,
+    sourceLabel: data?.sourceLabel,
+    sourceUrl: data?.sourceUrl,
+    rounds: rounds.sort((a, b) => b.date.localeCompare(a.date)),
+  };
+  CACHE.rounds.set(f, { mtime: stamp, history });
+  return history;
 }
 
-export function getCountryFrontmatter(countrySlug: string) {
-  const f = path.join(ROOT_DIR, countrySlug, "_country.mdx");
-  const { data } = matter(fs.readFileSync(f, "utf8"));
-  return normalizeCountry(data as Partial<CountryMeta>, countrySlug);
+/** Most recent round, optionally within one category. */
+export function latestRound(history: RoundHistory, category?: string) {
+  return history.rounds.find((r) => !category || r.category === category);
 }
 
 /* =========================
  * Sitemap helper
  * =======================*/
-export function getSkilledUrls() {
-  const urls: { url: string }[] = [{ url: "/skilled" }];
-  for (const c of getSkilledCountrySlugs()) {
-    urls.push({ url: `/skilled/${c}` });
-    for (const p of getSkilledProgramSlugs(c)) {
-      urls.push({ url: `/skilled/${c}/${p}` });
-    }
-  }
-  return urls;
-}
+export const getSkilledUrls = loader.urls;
 
 /* =========================
  * Dev helper
  * =======================*/
 export function invalidateSkilledContentCache() {
-  CACHE.countries = undefined;
-  CACHE.programsAll = undefined;
+  loader.invalidate();
+  CACHE.rounds = undefined;
 }
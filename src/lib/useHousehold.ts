@@ -0,0 +1,107 @@
+// src/lib/useHousehold.ts
+"use client";
+
+import * as React from "react";
+import { makeHousehold, type Household, type HouseholdInput } from "@/lib/fees";
+
+/**
+ * One household per browser session, shared by every fee widget on the page
+ * (CostCalculator edits it; Prices, GovernmentFees and the advisor card read it).
+ */
+const STORAGE_KEY = "household:v1";
+const DEFAULT_INPUT: Required<HouseholdInput> = {
+  adults: 2,
+  childAges: [],
+  parentAges: [],
+};
+
+const listeners = new Set<() => void>();
+// undefined until sessionStorage is read; null when nothing is saved yet
+let saved: Required<HouseholdInput> | null | undefined;
+// First `initial` a widget passed: the household until the visitor edits it
+let seed: Required<HouseholdInput> | null = null;
+
+function sanitize(v: Partial<HouseholdInput>): Required<HouseholdInput> {
+  const ages = (a: unknown, max: number) =>
+    Array.isArray(a)
+      ? a
+          .map(Number)
+          .filter(Number.isFinite)
+          .map((n) => Math.min(max, Math.max(0, Math.floor(n))))
+          .slice(0, 8)
+      : [];
+  return {
+    adults: v.adults === 1 ? 1 : 2,
+    childAges: ages(v.childAges, 40),
+    parentAges: ages(v.parentAges, 110),
+  };
+}
+
+function readSaved(): Required<HouseholdInput> | null {
+  if (saved === undefined) {
+    try {
+      const raw = sessionStorage.getItem(STORAGE_KEY);
+      saved = raw ? sanitize(JSON.parse(raw)) : null;
+    } catch {
+      saved = null;
+    }
+  }
+  return saved;
+}
+
+function write(next: Required<HouseholdInput>) {
+  saved = next;
+  try {
+    sessionStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+  } catch {
+    /* storage unavailable — keep in memory */
+  }
+  listeners.forEach((l) => l());
+}
+
+function subscribe(l: () => void) {
+  listeners.add(l);
+  return () => listeners.delete(l);
+}
+
+export function useHousehold(initial?: HouseholdInput) {
+  // Snapshots must be stable: sanitize once per `initial` (callers memoize it)
+  const start = React.useMemo(
+    () => (initial ? sanitize(initial) : null),
+    [initial],
+  );
+  const getSnapshot = React.useCallback(
+    () => readSaved() ?? seed ?? start ?? DEFAULT_INPUT,
+    [start],
+  );
+  const getServerSnapshot = React.useCallback(
+    () => start ?? DEFAULT_INPUT,
+    [start],
+  );
+  const input = React.useSyncExternalStore(
+    subscribe,
+    getSnapshot,
+    getServerSnapshot,
+  );
+
+  // Share the starting household with widgets that didn't get one
+  React.useEffect(() => {
+    if (!start || seed) return;
+    seed = start;
+    listeners.forEach((l) => l());
+  }, [start]);
+
+  const household: Household = React.useMemo(
+    () => makeHousehold(input),
+    [input],
+  );
+
+  const update = React.useCallback(
+    (patch: Partial<HouseholdInput>) =>
+      write(sanitize({ ...getSnapshot(), ...patch })),
+    [getSnapshot],
+  );
+  const reset = React.useCallback(() => write(start ?? DEFAULT_INPUT), [start]);
+
+  return { input, household, update, reset };
+}
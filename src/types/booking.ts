@@ -0,0 +1,145 @@
+// src/types/booking.ts
+import type { LeadContext } from "@/types/contact";
+
+/* =========================
+ * Availability (content/booking/availability.json)
+ * =======================*/
+export type Weekday = "mon" | "tue" | "wed" | "thu" | "fri" | "sat" | "sun";
+
+/** Local wall-clock range in the advisor's time zone, e.g. ["09:00", "13:00"] */
+export type TimeRange = [string, string];
+
+/** A single day or an inclusive date range (advisor-local ISO dates) */
+export type Blackout =
+  | { date: string; reason?: string }
+  | { from: string; to: string; reason?: string };
+
+export type Advisor = {
+  id: string;
+  name: string;
+  title?: string;
+  /** IANA zone the working hours are expressed in, e.g. "Asia/Dubai" */
+  timezone: string;
+  hours: Partial<Record<Weekday, TimeRange[]>>;
+  /** Minutes kept free before and after every booking */
+  bufferMinutes?: number;
+  blackouts?: Blackout[];
+  languages?: string[];
+};
+
+export type ConsultationType = {
+  id: string;
+  label: string;
+  minutes: number;
+};
+
+export type AvailabilityConfig = {
+  /** Slot start times are offered every N minutes within working hours */
+  slotStepMinutes: number;
+  /** Earliest bookable start, relative to now */
+  minNoticeHours: number;
+  /** Latest bookable start, relative to today */
+  horizonDays: number;
+  consultations: ConsultationType[];
+  advisors: Advisor[];
+  /** Office-wide closures, applied to every advisor */
+  blackouts?: Blackout[];
+};
+
+/* =========================
+ * Slots & bookings
+ * =======================*/
+export type Slot = {
+  /** ISO instants (UTC) */
+  start: string;
+  end: string;
+  advisorId: string;
+};
+
+export type Booking = {
+  id: string;
+  advisorId: string;
+  consultationId: string;
+  start: string;
+  end: string;
+  name: string;
+  email: string;
+  phone?: string;
+  notes?: string;
+  /** Visitor's time zone at booking time (for the confirmation) */
+  timezone?: string;
+  context?: LeadContext;
+  createdAt: string;
+  ipHash?: string;
+};
+
+/** What the public API exposes about an advisor (no hours/blackouts) */
+export type AdvisorSummary = Pick<
+  Advisor,
+  "id" | "name" | "title" | "timezone" | "languages"
+>;
+
+/** Body POSTed by the booking form to /api/booking */
+export type BookingPayload = {
+  consultation: string;
+  /** Omit to take whichever advisor is free at `start` */
+  advisor?: string;
+  start: string;
+  name: string;
+  email: string;
+  phone?: string;
+  notes?: string;
+  timezone?: string;
+  context?: LeadContext;
+  /** Honeypot — must stay empty */
+  company?: string;
+};
+
+export type BookingField = "name" | "email" | "phone" | "notes" | "start";
+export type BookingFieldErrors = Partial<Record<BookingField, string>>;
+
+export type BookingErrorCode =
+  | "invalid_json"
+  | "invalid_query"
+  | "validation_error"
+  | "slot_unavailable"
+  | "rate_limited"
+  | "storage_error";
+
+type BookingError = {
+  ok: false;
+  error: {
+    code: BookingErrorCode;
+    message: string;
+    fields?: BookingFieldErrors;
+    retryAfter?: number;
+  };
+};
+
+export type ApiAvailabilityResponse =
+  | {
+      ok: true;
+      consultations: ConsultationType[];
+      advisors: AdvisorSummary[];
+      /** Sorted by start; with no advisor filter, one entry per advisor */
+      slots: Slot[];
+      /** Window searched (ISO dates, UTC) */
+      from: string;
+      to: string;
+    }
+  | BookingError;
+
+export type ApiBookingResponse =
+  | {
+      ok: true;
+      booking: {
+        id: string;
+        start: string;
+        end: string;
+        advisor: AdvisorSummary;
+        consultation: ConsultationType;
+      };
+      /** iCalendar (RFC 5545) invite for the confirmed slot */
+      ics: string;
+    }
+  | BookingError;
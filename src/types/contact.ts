@@ -0,0 +1,102 @@
+// src/types/contact.ts
+
+export type ContactVariant = "full" | "quick";
+
+export type ContactField = "name" | "phone" | "email" | "message" | "consent";
+
+/* =========================
+ * Lead context — what the visitor did before asking
+ * (collected client-side by src/lib/leadContext.ts)
+ * =======================*/
+export const UTM_KEYS = [
+  "utm_source",
+  "utm_medium",
+  "utm_campaign",
+  "utm_term",
+  "utm_content",
+] as const;
+export type UtmKey = (typeof UTM_KEYS)[number];
+
+export type LeadProgram = {
+  vertical: string;
+  country: string;
+  program: string;
+  title?: string;
+};
+
+/** Household cost from <CostCalculator /> */
+export type LeadEstimate = {
+  currency: string;
+  oneOff: number;
+  annual?: number;
+  household?: string;
+  /** Investment option the visitor picked, if any */
+  option?: string;
+  page?: string;
+};
+
+/** Verdict from <EligibilityQuickCheck /> */
+export type LeadEligibility = {
+  verdict: string;
+  positive: boolean;
+  yes: number;
+  total: number;
+  title?: string;
+  page?: string;
+};
+
+/** Session option picked on <AdvisorConsultationCard /> */
+export type LeadConsultation = {
+  option: string;
+  price?: string;
+};
+
+/** First touch of the session */
+export type LeadAttribution = {
+  utm?: Partial<Record<UtmKey, string>>;
+  landingPage?: string;
+  referrer?: string;
+  at?: string;
+};
+
+export type LeadContext = {
+  program?: LeadProgram;
+  estimate?: LeadEstimate;
+  eligibility?: LeadEligibility;
+  consultation?: LeadConsultation;
+  attribution?: LeadAttribution;
+};
+
+/** Body POSTed by <ContactForm /> to /api/contact */
+export type ContactPayload = {
+  name: string;
+  phone: string;
+  email?: string;
+  message?: string;
+  consent?: string | boolean;
+  variant?: ContactVariant;
+  page?: string;
+  referrer?: string;
+  context?: LeadContext;
+  /** Honeypot — must stay empty */
+  company?: string;
+};
+
+export type ContactFieldErrors = Partial<Record<ContactField, string>>;
+
+export type ContactErrorCode =
+  "invalid_json" | "validation_error" | "rate_limited" | "storage_error";
+
+export type ApiContactResponse =
+  | { ok: true; id: string }
+  | {
+      ok: false;
+      error: {
+        code: ContactErrorCode;
+        message: string;
+        /** Field-level messages, keyed by form field name */
+        fields?: ContactFieldErrors;
+        /** Seconds until the client may retry (rate limiting only) */
+        retryAfter?: number;
+      };
+    };
@@ -36,6 +36,15 @@ export type InsightMeta = {
   /** Derived at build/read time */
   readingTimeMins?: number;
 
+  /** Hidden everywhere except draft-mode previews */
+  draft?: boolean;
+
+  /** Scheduling (lib/content/schedule.ts); dates normalized to ISO strings */
+  publishAt?: string;
+  expiresAt?: string;
+  onExpire?: "archive" | "hide";
+  supersededBy?: string;
+
   /** Computed canonical URL for routing */
   url: string;
 };
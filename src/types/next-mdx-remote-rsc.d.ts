@@ -4,6 +4,7 @@ declare module "next-mdx-remote/rsc" {
   // Minimal, future-proof typings to keep your generics working.
   export function compileMDX<TFrontmatter = Record<string, unknown>>(opts: {
     source: string;
+    components?: Record<string, any>;
     options?: {
       parseFrontmatter?: boolean;
       mdxOptions?: any; // keep loose; avoids pulling extra type deps
@@ -0,0 +1,34 @@
+// src/types/rounds.ts
+
+/** One invitation round / draw (SkillSelect round, Express Entry draw, …). */
+export type InvitationRound = {
+  /** ISO date of the round */
+  date: string;
+  /** Lowest score invited */
+  cutoff: number;
+  invitations?: number;
+  /** Occupation or draw category, e.g. "Canadian Experience Class" */
+  category?: string;
+  notes?: string;
+};
+
+/**
+ * Round history for one program:
+ * content/skilled/<country>/_rounds/<program>.json
+ */
+export type RoundHistory = {
+  countrySlug: string;
+  programSlug: string;
+  /** Points table this history is scored on (see src/lib/points) */
+  system?: string;
+  sourceLabel?: string;
+  sourceUrl?: string;
+  /** Newest first */
+  rounds: InvitationRound[];
+};
+
+export type RoundsErrorCode = "invalid_query" | "not_found";
+
+export type ApiRoundsResponse =
+  | { ok: true; history: RoundHistory; categories: string[] }
+  | { ok: false; error: { code: RoundsErrorCode; message: string } };
@@ -1,11 +1,5 @@
 export type SearchDocType =
-  | "country"
-  | "program"
-  | "article"
-  | "news"
-  | "media"
-  | "blog"
-  | "page";
+  "country" | "program" | "article" | "news" | "media" | "blog" | "page";
 
 export type SearchDoc = {
   id: string;
@@ -20,6 +14,29 @@ export type SearchDoc = {
   updated?: string;
   countries?: string[];
   programs?: string[];
+  /** citizenship | residency | skilled | corporate (country/program docs) */
+  vertical?: string;
+  /** Program minimum investment, in its own currency and in USD */
+  minInvestment?: number;
+  currency?: string;
+  minInvestmentUsd?: number;
+  /** From the country hub, e.g. "Caribbean" (country/program docs) */
+  region?: string;
+  /** Program processing time */
+  timelineMonths?: number;
+  /** Program dependant rules: country `dependents` + program `familyMatrix` */
+  dependents?: {
+    spouse?: boolean;
+    childrenUpTo?: number;
+    parentsFromAge?: number;
+    siblings?: boolean;
+  };
+  /**
+   * ISO times from frontmatter. The index is built ahead of time, so search
+   * checks these per query (isLive) rather than trusting the build.
+   */
+  publishAt?: string;
+  expiresAt?: string;
 };
 
 export type SearchIndexFile = {
@@ -29,11 +46,174 @@ export type SearchIndexFile = {
   docs: SearchDoc[];
 };
 
-export type ApiSearchResult = SearchDoc & { score: number };
+/**
+ * public/search/manifest.json — describes the serialized MiniSearch indexes
+ * (`MiniSearch.loadJSON` format) written by scripts/build-search-index.mjs.
+ */
+export type SearchManifest = {
+  version: number;
+  generatedAt: string;
+  /** "all" plus one shard per vertical and "insights" */
+  shards: Record<string, { file: string; count: number }>;
+  /** Plain-text bodies keyed by doc id, for query-centred snippets */
+  bodies: string;
+};
+
+/** [start, end) character offsets */
+export type TextRange = [number, number];
+
+/** Where the query matched, per displayed field */
+export type SearchMatches = Partial<
+  Record<"title" | "subtitle" | "snippet", TextRange[]>
+>;
+
+export type ApiSearchResult = SearchDoc & {
+  score: number;
+  /** Document terms the query matched (after prefix/fuzzy expansion) */
+  terms?: string[];
+  matches?: SearchMatches;
+};
+
+/* =========================
+ * Filters & facets (/search, /api/search)
+ * =======================*/
+export type BudgetBand = {
+  id: string;
+  label: string;
+  /** USD, inclusive min / exclusive max */
+  min?: number;
+  max?: number;
+};
+
+export type SearchFilters = {
+  q: string;
+  types: SearchDocType[];
+  verticals: string[];
+  countries: string[];
+  tags: string[];
+  /** USD bounds on a program's minimum investment */
+  minBudget?: number;
+  maxBudget?: number;
+  /** Region slugs, e.g. "caribbean" (see REGIONS in lib/search/intent) */
+  regions: string[];
+  /** Programs processed within this many months */
+  maxTimeline?: number;
+  /** Main applicant + dependants; programs must accept dependants when > 1 */
+  familySize?: number;
+  /** 1-based */
+  page: number;
+  pageSize: number;
+};
+
+export type FacetBucket = { value: string; label: string; count: number };
+
+export type SearchFacets = {
+  type: FacetBucket[];
+  vertical: FacetBucket[];
+  country: FacetBucket[];
+  tag: FacetBucket[];
+  budget: FacetBucket[];
+};
 
 export type ApiSearchResponse = {
   query: string;
   tookMs: number;
+  /** Items on this page */
   count: number;
   items: ApiSearchResult[];
+  /** All matches across pages */
+  total: number;
+  page: number;
+  pageSize: number;
+  facets: SearchFacets;
+  /** Corrected query when `query` matched nothing ("did you mean") */
+  suggestion?: string;
+};
+
+/* =========================
+ * Search analytics
+ * =======================*/
+/** Where a search ran: the JSON API, the /search page or the GlobalSearch overlay */
+export type SearchEventSource = "api" | "page" | "global";
+
+/**
+ * One line of the search event log. Queries are normalized and scrubbed of
+ * emails/phone numbers before storage; no IP, user agent or visitor id is kept.
+ */
+export type SearchEvent =
+  | {
+      kind: "search";
+      id: string;
+      at: string; // ISO
+      source: SearchEventSource;
+      query: string;
+      results: number;
+    }
+  | {
+      kind: "click";
+      id: string;
+      at: string; // ISO
+      source: SearchEventSource;
+      query: string;
+      /** The search this click belongs to, when known */
+      searchId?: string;
+      /** 1-based rank of the clicked result */
+      position: number;
+      url: string;
+    };
+
+/** POST /api/search/events body (sent by GlobalSearch via sendBeacon) */
+export type SearchEventPayload =
+  | { kind: "search"; id: string; query: string; results: number }
+  | {
+      kind: "click";
+      searchId?: string;
+      query: string;
+      position: number;
+      url: string;
+    };
+
+export type ApiSearchEventResponse =
+  | { ok: true }
+  | {
+      ok: false;
+      error: {
+        code:
+          | "rate_limited"
+          | "invalid_json"
+          | "validation_error"
+          | "storage_error";
+        message: string;
+        retryAfter?: number;
+      };
+    };
+
+export type SearchQueryStats = {
+  query: string;
+  searches: number;
+  /** Result count of the most recent search (content may have caught up) */
+  results: number;
+  /** GlobalSearch searches (the only ones whose clicks are tracked) */
+  trackedSearches: number;
+  clicks: number;
+  /** Share of tracked searches with at least one click (0–1) */
+  ctr?: number;
+  /** Mean 1-based position of clicked results */
+  avgPosition?: number;
+  lastAt: string;
+};
+
+export type SearchReport = {
+  from: string;
+  to: string;
+  totals: {
+    searches: number;
+    uniqueQueries: number;
+    zeroResultRate: number;
+    clicks: number;
+    ctr?: number;
+  };
+  top: SearchQueryStats[];
+  zeroResults: SearchQueryStats[];
+  lowCtr: SearchQueryStats[];
 };
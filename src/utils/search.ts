@@ -1,33 +1,34 @@
 // src/utils/search.ts
+import type MiniSearch from "minisearch";
+import type {
+  ApiSearchResponse,
+  SearchDoc,
+  SearchManifest,
+  SearchEventPayload,
+  SearchMatches,
+} from "@/types/search";
+import { isLive } from "@/lib/content/schedule";
+import { matches } from "@/lib/search/filters";
+import { highlightHit } from "@/lib/search/highlight";
+import type { IntentFilters } from "@/lib/search/intent";
+import { parseSearchParams, toSearchQuery } from "@/lib/search/params";
+import {
+  bodiesUrl,
+  browseIndex,
+  loadIndex,
+  queryIndex,
+  shardUrl,
+  suggestQuery,
+  type SearchShard,
+} from "@/lib/search/query";
 
 export type UIItem = {
   title: string;
   type: string;
   url: string;
   snippet?: string;
-};
-
-type ApiSearchResult = {
-  id: string;
-  url: string;
-  type: "country" | "program" | "article" | "news" | "page";
-  title: string;
-  subtitle?: string;
-  tags?: string[];
-  snippet?: string;
-  hero?: string;
-  date?: string;
-  updated?: string;
-  countries?: string[];
-  programs?: string[];
-  score: number;
-};
-
-type ApiSearchResponse = {
-  query: string;
-  tookMs: number;
-  count: number;
-  items: ApiSearchResult[];
+  /** Match ranges into `title` / `snippet`, for <mark> highlighting */
+  matches?: SearchMatches;
 };
 
 // Small, framework-agnostic debounce that returns a callable
@@ -42,43 +43,214 @@ export function debounce<F extends (...args: any[]) => void>(
   };
 }
 
-// Warm up the static JSON so the first search is snappy.
+/* =========================
+ * Local (prebuilt) index
+ * =======================*/
+// The serialized MiniSearch index from /public/search/ is queried in the
+// browser through the same `queryIndex` as the server, so instant results
+// match /api/search and keep working offline once fetched. The manifest's
+// generatedAt busts the HTTP cache after each build.
+
+const VERSION_KEY = "search:index-version";
+
+/** Current build stamp; offline, the last one seen (its files are cached). */
+async function indexVersion(): Promise<string> {
+  try {
+    const manifest = (await fetch("/search/manifest.json", {
+      cache: "no-cache",
+    }).then((r) => r.json())) as SearchManifest;
+    localStorage.setItem(VERSION_KEY, manifest.generatedAt);
+    return manifest.generatedAt;
+  } catch {
+    try {
+      return localStorage.getItem(VERSION_KEY) ?? "";
+    } catch {
+      return "";
+    }
+  }
+}
+
+const indexes = new Map<SearchShard, Promise<MiniSearch<SearchDoc>>>();
+
+export function loadLocalIndex(
+  shard: SearchShard = "all",
+): Promise<MiniSearch<SearchDoc>> {
+  let p = indexes.get(shard);
+  if (!p) {
+    p = (async () => {
+      const v = encodeURIComponent(await indexVersion());
+      const res = await fetch(`${shardUrl(shard)}?v=${v}`, {
+        cache: "force-cache",
+      });
+      if (!res.ok) throw new Error(`search index ${shard}: ${res.status}`);
+      return loadIndex(await res.text());
+    })();
+    // a failed load may succeed later (e.g. back online)
+    p.catch(() => indexes.delete(shard));
+    indexes.set(shard, p);
+  }
+  return p;
+}
+
+let bodies: Promise<Record<string, string>> | null = null;
+
+/** Plain-text bodies for query-centred snippets; empty map if unavailable. */
+function loadLocalBodies(): Promise<Record<string, string>> {
+  if (!bodies) {
+    bodies = (async () => {
+      const v = encodeURIComponent(await indexVersion());
+      const res = await fetch(`${bodiesUrl}?v=${v}`, { cache: "force-cache" });
+      if (!res.ok) throw new Error(`search bodies: ${res.status}`);
+      return (await res.json()) as Record<string, string>;
+    })().catch(() => {
+      bodies = null;
+      return {};
+    });
+  }
+  return bodies;
+}
+
+// Warm up the index so the first search is snappy.
 // Safe to call from the client when the overlay opens.
-export async function preloadIndex(): Promise<void> {
+export async function preloadIndex(shard: SearchShard = "all"): Promise<void> {
   try {
-    await fetch("/search-index.json", { cache: "force-cache" });
+    await Promise.all([loadLocalIndex(shard), loadLocalBodies()]);
   } catch {
     // ignore — not critical
   }
 }
 
-// Call the server API and map results to your UI’s Item shape
+const toUIItem = (d: SearchDoc & { matches?: SearchMatches }): UIItem => ({
+  title: d.title,
+  // capitalize type for nicer display, e.g., "country" -> "Country"
+  type: d.type.charAt(0).toUpperCase() + d.type.slice(1),
+  url: d.url,
+  snippet: d.snippet,
+  matches: d.matches,
+});
+
+// Search the local index; fall back to the server API if it can't be loaded.
+// `filters` (e.g. from parseQueryIntent) narrow the hits; with filters set,
+// an empty query lists every matching document.
 export async function searchItems(
   query: string,
   limit = 12,
   types?: string[],
+  shard: SearchShard = "all",
+  filters?: Partial<IntentFilters>,
 ): Promise<UIItem[]> {
   const q = query.trim();
-  if (!q) return [];
+  const narrowed = Object.values(filters ?? {}).some((v) =>
+    Array.isArray(v) ? v.length > 0 : v !== undefined,
+  );
+  if (!q && !narrowed) return [];
 
-  const params = new URLSearchParams({ q, limit: String(limit) });
-  if (types?.length) params.set("types", types.join(","));
+  const f = {
+    ...parseSearchParams({
+      q,
+      type: types?.join(","),
+      vertical: shard !== "all" && shard !== "insights" ? shard : undefined,
+      pageSize: String(limit),
+    }),
+    ...filters,
+  };
 
-  const res = await fetch(`/api/search?${params.toString()}`, {
+  try {
+    const [mini, texts] = await Promise.all([
+      loadLocalIndex(shard),
+      loadLocalBodies(),
+    ]);
+    return (q ? queryIndex(mini, q) : browseIndex(mini))
+      .filter((h) => isLive(h.doc) && matches(h.doc, f))
+      .slice(0, limit)
+      .map((h) =>
+        toUIItem({ ...h.doc, ...highlightHit(h.doc, h.terms, texts[h.id]) }),
+      );
+  } catch {
+    /* fall through to the API */
+  }
+
+  // track=0: GlobalSearch reports its own queries (see trackSearch)
+  const qs = toSearchQuery(f);
+  const res = await fetch(`/api/search${qs}${qs ? "&" : "?"}track=0`, {
     cache: "no-store",
     headers: { accept: "application/json" },
-  });
+  }).catch(() => null);
 
-  if (!res.ok) return [];
+  if (!res?.ok) return [];
 
   const data = (await res.json()) as ApiSearchResponse;
+  return (data.items || []).map(toUIItem);
+}
+
+// "Did you mean" for a query with no results, from the same index vocabulary
+// the server uses; the API's `suggestion` when the local index is unavailable.
+export async function suggestItems(
+  query: string,
+  shard: SearchShard = "all",
+): Promise<string | undefined> {
+  const q = query.trim();
+  if (!q) return undefined;
+
+  try {
+    return suggestQuery(await loadLocalIndex(shard), q);
+  } catch {
+    /* fall through to the API */
+  }
 
-  // Map API docs to your Item shape (title/type/url)
-  return (data.items || []).map((d) => ({
-    title: d.title,
-    // capitalize type for nicer display, e.g., "country" -> "Country"
-    type: d.type.charAt(0).toUpperCase() + d.type.slice(1),
-    url: d.url,
-    snippet: d.snippet,
-  }));
+  const params = new URLSearchParams({ q, limit: "1", track: "0" });
+  const res = await fetch(`/api/search?${params.toString()}`, {
+    cache: "no-store",
+    headers: { accept: "application/json" },
+  }).catch(() => null);
+  if (!res?.ok) return undefined;
+  return ((await res.json()) as ApiSearchResponse).suggestion;
+}
+
+/* =========================
+ * Search analytics
+ * =======================*/
+// Settled queries and result clicks feed the internal search report
+// (/internal/search). sendBeacon survives the navigation a click starts;
+// failures are ignored — analytics must never get in the way of search.
+
+const EVENTS_URL = "/api/search/events";
+
+function sendSearchEvent(event: SearchEventPayload) {
+  try {
+    const body = JSON.stringify(event);
+    const blob = new Blob([body], { type: "application/json" });
+    if (navigator.sendBeacon?.(EVENTS_URL, blob)) return;
+    void fetch(EVENTS_URL, {
+      method: "POST",
+      body,
+      keepalive: true,
+      headers: { "content-type": "application/json" },
+    }).catch(() => undefined);
+  } catch {
+    /* ignore */
+  }
+}
+
+const uuid = () =>
+  globalThis.crypto?.randomUUID?.() ??
+  "10000000-1000-4000-8000-100000000000".replace(/[018]/g, (c) =>
+    (+c ^ ((Math.random() * 16) >> (+c / 4))).toString(16),
+  );
+
+/** Record a settled query; returns its id for linking clicks. */
+export function trackSearch(query: string, results: number): string {
+  const id = uuid();
+  sendSearchEvent({ kind: "search", id, query, results });
+  return id;
+}
+
+/** Record a click on the result at 1-based `position`. */
+export function trackClick(
+  query: string,
+  position: number,
+  url: string,
+  searchId?: string,
+) {
+  sendSearchEvent({ kind: "click", searchId, query, position, url });
 }